@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import {
+  createBackup,
+  isBackupDue,
+  listBackups,
+  nextBackupKind,
+  restoreBackupFiles,
+  rotateBackups,
+  undoRestore,
+  verifyBackup,
+} from '../../shared/database/backups';
+import { BackupInfo, MemoryType, Vault } from '../../shared/types';
+
+describe('Backups', () => {
+  let root: string;
+  let backupDir: string;
+  let vault: Vault;
+  let sqlite: SQLiteManager;
+
+  const day = (date: string) => new Date(`${date}T09:00:00`);
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-backups-'));
+    backupDir = path.join(root, 'backups');
+    vault = {
+      id: 'vault-1',
+      name: 'Work',
+      sqlitePath: path.join(root, 'devmemory.db'),
+      vectorPath: path.join(root, 'vector-data.json'),
+      createdAt: new Date(),
+    };
+    sqlite = new SQLiteManager(vault.sqlitePath);
+    await sqlite.createMemory({ title: 'Runbook', content: 'Restart the worker', type: MemoryType.NOTE, tags: [], metadata: {} });
+    fs.writeFileSync(vault.vectorPath, '{"embeddings":[]}');
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('snapshots the database and the vector data into a verified folder', async () => {
+    const backup = await createBackup(sqlite, vault, backupDir, 'daily', day('2026-03-02'));
+
+    expect(backup).toMatchObject({ kind: 'daily', hasVectors: true });
+    expect(fs.readdirSync(backup.path).sort()).toEqual(['backup.json', 'devmemory.db', 'vector-data.json']);
+    expect(verifyBackup(backup.path)).toBeNull();
+    expect(listBackups(backupDir)).toEqual([backup]);
+
+    const copy = new SQLiteManager(path.join(backup.path, 'devmemory.db'));
+    try {
+      expect((await copy.getAllMemories()).map(memory => memory.title)).toEqual(['Runbook']);
+    } finally {
+      copy.close();
+    }
+  });
+
+  it('reports a damaged backup', async () => {
+    const backup = await createBackup(sqlite, vault, backupDir, 'daily');
+
+    fs.writeFileSync(path.join(backup.path, 'vector-data.json'), '{"embeddings":');
+    expect(verifyBackup(backup.path)).toBe('The vector data is not valid JSON');
+
+    fs.writeFileSync(path.join(backup.path, 'devmemory.db'), 'not a database, only text');
+    expect(verifyBackup(backup.path)).toMatch(/^The database could not be read/);
+  });
+
+  it('backs up once a day, and weekly once the last weekly backup is a week old', () => {
+    const backups = [
+      { kind: 'daily', createdAt: day('2026-03-08') },
+      { kind: 'weekly', createdAt: day('2026-03-02') },
+    ] as BackupInfo[];
+
+    expect(isBackupDue(backups, new Date('2026-03-08T23:00:00'))).toBe(false);
+    expect(isBackupDue(backups, day('2026-03-09'))).toBe(true);
+    expect(nextBackupKind([], day('2026-03-09'))).toBe('weekly');
+    expect(nextBackupKind(backups, day('2026-03-08'))).toBe('daily');
+    expect(nextBackupKind(backups, new Date('2026-03-09T06:00:00'))).toBe('weekly');
+  });
+
+  it('keeps the newest backups of each kind', async () => {
+    const dates = ['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04'];
+    for (const date of dates) {
+      await createBackup(sqlite, vault, backupDir, 'daily', day(date));
+    }
+    await createBackup(sqlite, vault, backupDir, 'weekly', day('2026-02-22'));
+    await createBackup(sqlite, vault, backupDir, 'weekly', day('2026-03-01'));
+
+    const removed = rotateBackups(backupDir, { keepDaily: 2, keepWeekly: 1 });
+
+    expect(removed).toHaveLength(3);
+    expect(listBackups(backupDir).map(backup => [backup.kind, backup.createdAt])).toEqual([
+      ['daily', day('2026-03-04')],
+      ['daily', day('2026-03-03')],
+      ['weekly', day('2026-03-01')],
+    ]);
+  });
+
+  it('restores a backup and can put the replaced files back', async () => {
+    const backup = await createBackup(sqlite, vault, backupDir, 'daily');
+    sqlite.close();
+    fs.writeFileSync(vault.vectorPath, '{"embeddings":["newer"]}');
+
+    const setAside = restoreBackupFiles(backup.path, vault);
+
+    expect(fs.readFileSync(vault.vectorPath, 'utf-8')).toBe('{"embeddings":[]}');
+    expect(setAside).toContain(`${vault.vectorPath}.before-restore`);
+
+    undoRestore(vault, setAside);
+
+    expect(fs.readFileSync(vault.vectorPath, 'utf-8')).toBe('{"embeddings":["newer"]}');
+    expect(setAside.some(file => fs.existsSync(file))).toBe(false);
+    sqlite = new SQLiteManager(vault.sqlitePath);
+    expect(await sqlite.getAllMemories()).toHaveLength(1);
+  });
+});
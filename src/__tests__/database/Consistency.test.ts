@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import { VectorStore } from '../../shared/database/vector-store';
+import { ConsistencyChecker } from '../../shared/database/consistency';
+import { Memory, MemoryType } from '../../shared/types';
+
+describe('ConsistencyChecker', () => {
+  let dir: string;
+  let sqlite: SQLiteManager;
+  let vectorStore: VectorStore;
+  let checker: ConsistencyChecker;
+
+  const createMemory = (title: string, content: string) =>
+    sqlite.createMemory({ title, content, type: MemoryType.NOTE, tags: ['ops'], metadata: {} });
+
+  // Writes SQLite and the vector store together, as the IPC handlers do when nothing fails
+  const createIndexedMemory = async (title: string, content: string): Promise<Memory> => {
+    const memory = await createMemory(title, content);
+    await vectorStore.addMemory(memory);
+    return memory;
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-consistency-'));
+    sqlite = new SQLiteManager(':memory:');
+    vectorStore = new VectorStore(path.join(dir, 'vector-data.json'));
+    await vectorStore.initialize();
+    checker = new ConsistencyChecker(sqlite, vectorStore);
+  });
+
+  afterEach(async () => {
+    await vectorStore.close();
+    sqlite.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds nothing when both stores agree, including the trash', async () => {
+    await createIndexedMemory('Runbook', 'Restart the worker');
+    const trashed = await createIndexedMemory('Old plan', 'Superseded');
+    await sqlite.deleteMemory(trashed.id);
+    await vectorStore.setDeleted(trashed.id, new Date());
+
+    const report = await checker.check();
+
+    expect(report).toMatchObject({ memories: 2, vectors: 2, issues: [] });
+  });
+
+  it('reports each kind of drift', async () => {
+    const missing = await createMemory('Never indexed', 'The vector write failed');
+    const stale = await createIndexedMemory('Runbook', 'v1');
+    await sqlite.updateMemory(stale.id, { content: 'v2' });
+    const orphan = await createIndexedMemory('Purged', 'Gone from the database');
+    await sqlite.deleteMemory(orphan.id);
+    await sqlite.emptyTrash();
+
+    const { issues } = await checker.check();
+
+    expect(issues).toHaveLength(3);
+    expect(issues).toEqual(expect.arrayContaining([
+      { memoryId: missing.id, kind: 'missing', title: 'Never indexed' },
+      { memoryId: stale.id, kind: 'stale', title: 'Runbook' },
+      { memoryId: orphan.id, kind: 'orphaned' },
+    ]));
+  });
+
+  it('notices a vector left visible after its memory was trashed', async () => {
+    const memory = await createIndexedMemory('Old plan', 'Superseded');
+    await sqlite.deleteMemory(memory.id);
+
+    const { issues } = await checker.check();
+
+    expect(issues).toEqual([{ memoryId: memory.id, kind: 'metadata', title: 'Old plan' }]);
+  });
+
+  it('repairs the vector store from the database', async () => {
+    await createMemory('Never indexed', 'The vector write failed');
+    const stale = await createIndexedMemory('Runbook', 'v1');
+    await sqlite.updateMemory(stale.id, { content: 'v2' });
+    const trashed = await createIndexedMemory('Old plan', 'Superseded');
+    await sqlite.deleteMemory(trashed.id);
+    await vectorStore.addMemory({ ...stale, id: 'orphan-id' });
+
+    const summary = await checker.repair();
+
+    expect(summary).toMatchObject({ repaired: 4, failed: 0 });
+    expect(summary.report).toMatchObject({ memories: 3, vectors: 3, issues: [] });
+    expect((await vectorStore.getIndexedDocuments()).find(document => document.memoryId === trashed.id)?.deleted).toBe(true);
+  });
+
+  it('counts the repairs that fail and leaves them for next time', async () => {
+    const memory = await createMemory('Never indexed', 'The vector write failed');
+    jest.spyOn(vectorStore, 'updateMemory').mockRejectedValueOnce(new Error('Bedrock timed out'));
+
+    const summary = await checker.repair();
+
+    expect(summary).toMatchObject({ repaired: 0, failed: 1 });
+    expect(summary.report.issues).toEqual([{ memoryId: memory.id, kind: 'missing', title: 'Never indexed' }]);
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkDatabaseLocation,
+  copyDatabaseFiles,
+  getRelocationProblem,
+  removeDatabaseFiles,
+} from '../../shared/database/relocation';
+import { DatabaseLocation } from '../../shared/types';
+
+describe('Database relocation', () => {
+  let root: string;
+  let current: DatabaseLocation;
+
+  const locationIn = (dir: string): DatabaseLocation => ({
+    sqlitePath: path.join(root, dir, 'devmemory.db'),
+    vectorPath: path.join(root, dir, 'vector-data.json'),
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-relocation-'));
+    current = locationIn('current');
+    fs.mkdirSync(path.join(root, 'current'));
+    fs.writeFileSync(current.sqlitePath, 'SQLite format 3\0rest of the database');
+    fs.writeFileSync(`${current.sqlitePath}-wal`, 'wal pages');
+    fs.writeFileSync(current.vectorPath, '{"documents":[]}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('accepts an empty folder that does not exist yet', () => {
+    const check = checkDatabaseLocation(locationIn('new/nested'), current);
+
+    expect(check).toEqual({ sqliteExists: false, vectorExists: false, problems: [] });
+    expect(getRelocationProblem(check, 'move')).toBeNull();
+    expect(getRelocationProblem(check, 'open-existing')).toBe('There is no existing database at this location');
+  });
+
+  it('rejects relative, shared and unchanged paths', () => {
+    const relative = checkDatabaseLocation({ sqlitePath: 'devmemory.db', vectorPath: current.vectorPath }, current);
+    const shared = checkDatabaseLocation({ sqlitePath: current.vectorPath, vectorPath: current.vectorPath }, current);
+    const unchanged = checkDatabaseLocation({ ...current }, current);
+
+    expect(relative.problems).toEqual(['Database paths must be absolute']);
+    expect(shared.problems).toEqual(['The database and the vector store need different files']);
+    expect(unchanged.problems).toEqual(['The database is already at this location']);
+    expect(getRelocationProblem(unchanged, 'copy')).toBe('The database is already at this location');
+  });
+
+  it('only offers to open an existing database', () => {
+    const target = locationIn('existing');
+    fs.mkdirSync(path.join(root, 'existing'));
+    fs.writeFileSync(target.sqlitePath, '');
+
+    const check = checkDatabaseLocation(target, current);
+
+    expect(check.sqliteExists).toBe(true);
+    expect(check.vectorExists).toBe(false);
+    expect(getRelocationProblem(check, 'open-existing')).toBeNull();
+    expect(getRelocationProblem(check, 'move')).toBe(
+      'A database already exists at this location. Open it instead, or choose another path'
+    );
+  });
+
+  it('refuses files that are not databases and directories', () => {
+    const target = locationIn('other');
+    fs.mkdirSync(target.vectorPath, { recursive: true });
+    fs.writeFileSync(target.sqlitePath, 'plain text');
+
+    expect(checkDatabaseLocation(target, current).problems).toEqual([
+      `${target.sqlitePath} is not a SQLite database`,
+      `${target.vectorPath} is a directory`,
+    ]);
+  });
+
+  it('copies the database with its sidecar files and never overwrites', () => {
+    const target = locationIn('copy');
+
+    const created = copyDatabaseFiles(current, target);
+
+    expect(created.sort()).toEqual([target.sqlitePath, `${target.sqlitePath}-wal`, target.vectorPath].sort());
+    expect(fs.readFileSync(`${target.sqlitePath}-wal`, 'utf8')).toBe('wal pages');
+    expect(fs.existsSync(current.sqlitePath)).toBe(true);
+
+    fs.rmSync(target.vectorPath);
+    expect(() => copyDatabaseFiles(current, target)).toThrow();
+    // A failed copy leaves nothing behind it created
+    expect(fs.existsSync(target.vectorPath)).toBe(false);
+    expect(fs.readFileSync(target.sqlitePath, 'utf8')).toContain('SQLite format 3');
+  });
+
+  it('removes only the files the new location does not share', () => {
+    const target = { ...locationIn('moved'), vectorPath: current.vectorPath };
+    copyDatabaseFiles(current, target);
+
+    removeDatabaseFiles(current, target);
+
+    expect(fs.existsSync(current.sqlitePath)).toBe(false);
+    expect(fs.existsSync(`${current.sqlitePath}-wal`)).toBe(false);
+    expect(fs.existsSync(current.vectorPath)).toBe(true);
+    expect(fs.existsSync(target.sqlitePath)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { HnswChanges, HnswIndex, HnswNode } from '../../shared/database/hnsw';
+import { encodeVector } from '../../shared/database/quantization';
+import { cosine, createTopicVectors, recall } from './vectorFixtures';
+
+describe('HnswIndex', () => {
+  const DIMENSIONS = 32;
+  const createVector = createTopicVectors({ seed: 42, dimensions: DIMENSIONS, topics: 40, spread: 1.5 });
+
+  // The brute-force search VectorStore does below its exact search limit
+  const exactSearch = (vectors: Map<string, number[]>, query: number[], k: number) =>
+    Array.from(vectors, ([id, vector]) => ({ id, similarity: cosine(query, vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, k)
+      .map(hit => hit.id);
+
+  const build = (count: number) => {
+    const vectors = new Map(Array.from({ length: count }, (_, i) => [`doc-${i}`, createVector(i)]));
+    const index = new HnswIndex(DIMENSIONS);
+    for (const [id, vector] of vectors) {
+      index.add(id, encodeVector(vector, 'none'));
+    }
+    return { vectors, index };
+  };
+
+  it('finds nearly all true neighbours in a fraction of the time of exact search', () => {
+    const { vectors, index } = build(5000);
+    const queries = Array.from({ length: 100 }, (_, i) => createVector(i));
+
+    let started = performance.now();
+    const expected = queries.map(query => exactSearch(vectors, query, 10));
+    const exactTime = performance.now() - started;
+
+    started = performance.now();
+    const actual = queries.map(query => index.search(query, 10).map(hit => hit.id));
+    const indexTime = performance.now() - started;
+
+    expect(recall(expected, actual)).toBeGreaterThanOrEqual(0.95);
+    expect(indexTime).toBeLessThan(exactTime / 2);
+  });
+
+  it('keeps finding neighbours after removals', () => {
+    const { vectors, index } = build(2000);
+    for (let i = 0; i < 2000; i += 4) {
+      index.remove(`doc-${i}`);
+      vectors.delete(`doc-${i}`);
+    }
+    const queries = Array.from({ length: 50 }, (_, i) => createVector(i));
+
+    const actual = queries.map(query => index.search(query, 10).map(hit => hit.id));
+
+    expect(index.size).toBe(1500);
+    expect(actual.flat().every(id => vectors.has(id))).toBe(true);
+    expect(recall(queries.map(query => exactSearch(vectors, query, 10)), actual)).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('keeps its recall through many removals and re-adds', () => {
+    const { vectors, index } = build(3000);
+    // Each round drops a third of the vectors and re-embeds another third, as edits to chunked memories do
+    for (let round = 0; round < 3; round++) {
+      const ids = Array.from(vectors.keys());
+      for (let i = round; i < ids.length; i += 3) {
+        index.remove(ids[i]);
+        vectors.delete(ids[i]);
+      }
+      for (let i = round + 1; i < ids.length; i += 3) {
+        const vector = createVector(i + 1000 * round);
+        index.add(ids[i], encodeVector(vector, 'none'));
+        vectors.set(ids[i], vector);
+      }
+    }
+    const queries = Array.from({ length: 50 }, (_, i) => createVector(i));
+
+    const actual = queries.map(query => index.search(query, 10).map(hit => hit.id));
+
+    expect(index.size).toBe(vectors.size);
+    expect(recall(queries.map(query => exactSearch(vectors, query, 10)), actual)).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('returns only accepted vectors, even when few are', () => {
+    const { vectors, index } = build(1000);
+    const accept = (id: string) => Number(id.slice(4)) % 50 === 0;
+    const query = createVector(3);
+
+    const hits = index.search(query, 10, { accept });
+
+    const accepted = new Map(Array.from(vectors).filter(([id]) => accept(id)));
+    expect(hits.map(hit => hit.id)).toEqual(exactSearch(accepted, query, 10));
+  });
+
+  it('restores the same graph from the changes it reported', () => {
+    const { vectors, index } = build(500);
+    index.remove('doc-7');
+    vectors.delete('doc-7');
+
+    // Replays the changes the way the vector store saves them
+    const saved = new Map<string, HnswNode>();
+    const apply = (changes: HnswChanges) => {
+      changes.removed.forEach(id => saved.delete(id));
+      changes.updated.forEach(({ id, node }) => saved.set(id, JSON.parse(JSON.stringify(node))));
+    };
+    apply(index.takeChanges());
+    expect(index.takeChanges()).toEqual({ updated: [], removed: [] });
+
+    const restored = HnswIndex.restore(
+      DIMENSIONS,
+      Array.from(saved, ([id, node]) => ({ id, vector: encodeVector(vectors.get(id)!, 'none'), node }))
+    );
+
+    const query = createVector(11);
+    expect(restored.search(query, 10)).toEqual(index.search(query, 10));
+    expect(restored.takeChanges().updated).toEqual([]);
+  });
+
+  it('replaces the vector of an id added twice', () => {
+    const index = new HnswIndex(3);
+    index.add('a', encodeVector([1, 0, 0], 'none'));
+    index.add('b', encodeVector([0, 1, 0], 'none'));
+
+    index.add('a', encodeVector([0, 0, 1], 'none'));
+
+    expect(index.size).toBe(2);
+    expect(index.search([0, 0, 1], 1)).toEqual([{ id: 'a', similarity: 1 }]);
+    expect(index.search([1, 0, 0, 0], 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import { HybridSearch, reciprocalRankFusion } from '../../shared/database/hybrid-search';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import { VectorStore } from '../../shared/database/vector-store';
+import { Memory, MemoryType, SearchResult } from '../../shared/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const makeResult = (id: string, score: number): SearchResult => ({
+  memory: { id, title: id } as Memory,
+  score,
+});
+
+describe('reciprocalRankFusion', () => {
+  it('rewards results that appear in both lists', () => {
+    const fused = reciprocalRankFusion([
+      { source: 'vector', weight: 1, results: [makeResult('a', 0.9), makeResult('b', 0.8)] },
+      { source: 'fullText', weight: 1, results: [makeResult('b', 12), makeResult('c', 4)] },
+    ]);
+
+    expect(fused.map(r => r.memory.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].sources).toEqual({
+      vector: { rank: 2, score: 0.8 },
+      fullText: { rank: 1, score: 12 },
+    });
+  });
+
+  it('applies per-source weights', () => {
+    const lists = (fullTextWeight: number) => reciprocalRankFusion([
+      { source: 'vector', weight: 1, results: [makeResult('semantic', 0.9)] },
+      { source: 'fullText', weight: fullTextWeight, results: [makeResult('exact', 20)] },
+    ]);
+
+    expect(lists(0.5)[0].memory.id).toBe('semantic');
+    expect(lists(2)[0].memory.id).toBe('exact');
+  });
+});
+
+describe('HybridSearch', () => {
+  let sqliteManager: SQLiteManager;
+  let testDbPath: string;
+  let ticket: Memory;
+  let related: Memory;
+
+  beforeEach(async () => {
+    testDbPath = path.join(os.tmpdir(), `test-hybrid-${Date.now()}.db`);
+    sqliteManager = new SQLiteManager(testDbPath);
+
+    ticket = await sqliteManager.createMemory({
+      title: 'Fix for ERR_CONN_4711',
+      content: 'Connection pool exhausted under load, raised the pool size',
+      type: MemoryType.DEBUG_SESSION,
+      tags: ['database'],
+      metadata: {}
+    });
+
+    related = await sqliteManager.createMemory({
+      title: 'Database connection tuning',
+      content: 'Guidelines for sizing connection pools',
+      type: MemoryType.DOCUMENTATION,
+      tags: ['database'],
+      metadata: {}
+    });
+  });
+
+  afterEach(() => {
+    sqliteManager.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  const stubVectorStore = (hits: Array<{ memoryId: string; similarity: number; chunk?: { start: number; end: number } }>) => ({
+    searchSimilar: jest.fn().mockResolvedValue(hits.map(hit => ({ ...hit, metadata: {} }))),
+  }) as unknown as VectorStore;
+
+  it('keeps exact identifier matches on top of fuzzy semantic hits', async () => {
+    const vectorStore = stubVectorStore([
+      { memoryId: related.id, similarity: 0.92 },
+      { memoryId: ticket.id, similarity: 0.41 },
+    ]);
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'ERR_CONN_4711' });
+
+    expect(results[0].memory.id).toBe(ticket.id);
+    expect(results[0].sources?.fullText?.rank).toBe(1);
+    expect(results[0].sources?.vector?.rank).toBe(2);
+    expect(results[0].highlights?.length).toBeGreaterThan(0);
+  });
+
+  it('returns vector-only results when the keyword search finds nothing', async () => {
+    const vectorStore = stubVectorStore([{ memoryId: related.id, similarity: 0.7 }]);
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'sizing guidance for pools of sockets' });
+
+    expect(results.map(r => r.memory.id)).toContain(related.id);
+    expect(results.find(r => r.memory.id === related.id)?.sources?.vector).toBeDefined();
+  });
+
+  it('highlights the chunk of a long memory that matched', async () => {
+    const vectorStore = stubVectorStore([
+      { memoryId: related.id, similarity: 0.7, chunk: { start: 15, end: related.content.length } },
+      { memoryId: ticket.id, similarity: 0.5 },
+    ]);
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'advice on socket limits' });
+
+    expect(results.find(r => r.memory.id === related.id)?.highlights).toEqual(['…sizing connection pools']);
+    expect(results.find(r => r.memory.id === ticket.id)?.highlights).toBeUndefined();
+  });
+
+  it('skips an engine whose weight is zero', async () => {
+    const vectorStore = stubVectorStore([{ memoryId: related.id, similarity: 0.9 }]);
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'ERR_CONN_4711' }, { vectorWeight: 0 });
+
+    expect(vectorStore.searchSimilar).not.toHaveBeenCalled();
+    expect(results.map(r => r.memory.id)).toEqual([ticket.id]);
+  });
+
+  it('falls back to full-text results when the vector store fails', async () => {
+    const vectorStore = {
+      searchSimilar: jest.fn().mockRejectedValue(new Error('Bedrock timeout')),
+    } as unknown as VectorStore;
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'connection' });
+
+    expect(results.length).toBe(2);
+    results.forEach(result => expect(result.sources?.vector).toBeUndefined());
+  });
+
+  it('passes filters to both engines', async () => {
+    const vectorStore = stubVectorStore([]);
+    const hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+
+    const results = await hybridSearch.search({ query: 'connection', type: MemoryType.DOCUMENTATION });
+
+    expect(results.map(r => r.memory.id)).toEqual([related.id]);
+    expect(vectorStore.searchSimilar).toHaveBeenCalledWith(
+      'connection',
+      expect.any(Number),
+      expect.any(Number),
+      expect.objectContaining({ type: MemoryType.DOCUMENTATION })
+    );
+  });
+
+  it('lists filtered memories when the query text is empty', async () => {
+    const hybridSearch = new HybridSearch(sqliteManager, null);
+
+    const results = await hybridSearch.search({ query: '', type: MemoryType.DEBUG_SESSION });
+
+    expect(results.map(r => r.memory.id)).toEqual([ticket.id]);
+  });
+
+  it('paginates the fused list', async () => {
+    const hybridSearch = new HybridSearch(sqliteManager, null);
+
+    const firstPage = await hybridSearch.search({ query: 'connection', limit: 1 });
+    const secondPage = await hybridSearch.search({ query: 'connection', limit: 1, offset: 1 });
+
+    expect(firstPage.length).toBe(1);
+    expect(secondPage.length).toBe(1);
+    expect(firstPage[0].memory.id).not.toBe(secondPage[0].memory.id);
+  });
+});
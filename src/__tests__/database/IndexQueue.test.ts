@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import { VectorStore } from '../../shared/database/vector-store';
+import { IndexWorker, MAX_INDEX_ATTEMPTS, getRetryDelay } from '../../shared/database/index-worker';
+import { MemoryType } from '../../shared/types';
+
+describe('Index queue', () => {
+  let dir: string;
+  let sqlite: SQLiteManager;
+  let vectorStore: VectorStore;
+  let worker: IndexWorker;
+
+  const createMemory = (title: string, content = 'Restart the worker') =>
+    sqlite.createMemory({ title, content, type: MemoryType.NOTE, tags: ['ops'], metadata: {} });
+
+  const queued = async () => (await sqlite.getDueIndexEntries(new Date(Date.now() + 1000), 100)).map(entry => entry.memoryId);
+  const indexed = async (id: string) => (await vectorStore.getIndexedDocuments()).find(document => document.memoryId === id);
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-index-queue-'));
+    sqlite = new SQLiteManager(':memory:');
+    vectorStore = new VectorStore(path.join(dir, 'vector-data.json'));
+    await vectorStore.initialize();
+    worker = new IndexWorker(sqlite, vectorStore);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    await vectorStore.close();
+    sqlite.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('queues a memory in the same transaction that changes it', async () => {
+    const memory = await createMemory('Runbook');
+    expect(await queued()).toEqual([memory.id]);
+
+    await worker.drain(new Date(Date.now() + 1000));
+    expect(await queued()).toEqual([]);
+
+    await sqlite.updateMemory(memory.id, { content: 'Restart the worker twice' });
+    await sqlite.deleteMemory(memory.id);
+    expect(await queued()).toEqual([memory.id]);
+  });
+
+  it('leaves the queue alone when nothing the vector depends on changed', async () => {
+    const memory = await createMemory('Runbook');
+    await worker.drain(new Date(Date.now() + 1000));
+
+    await sqlite.updateMemory(memory.id, { content: 'Restart the worker' });
+
+    expect(await queued()).toEqual([]);
+  });
+
+  it('indexes, re-embeds, trashes and removes vectors from the current memory', async () => {
+    const later = () => new Date(Date.now() + 1000);
+    const addMemory = jest.spyOn(vectorStore, 'addMemory');
+    const memory = await createMemory('Runbook');
+
+    expect(await worker.drain(later())).toBe(1);
+    expect((await indexed(memory.id))?.contentHash).toBe(vectorStore.getContentHash(memory));
+
+    // Trashing keeps the embedding and only marks the document
+    await sqlite.deleteMemory(memory.id);
+    await worker.drain(later());
+    expect((await indexed(memory.id))?.deleted).toBe(true);
+    expect(addMemory).toHaveBeenCalledTimes(1);
+
+    await sqlite.restoreMemory(memory.id);
+    await sqlite.updateMemory(memory.id, { content: 'Drain the queue first' });
+    await worker.drain(later());
+    expect(addMemory).toHaveBeenCalledTimes(2);
+    expect((await indexed(memory.id))?.deleted).toBe(false);
+
+    await sqlite.deleteMemory(memory.id);
+    await sqlite.emptyTrash();
+    await worker.drain(later());
+    expect(await indexed(memory.id)).toBeUndefined();
+    expect(await queued()).toEqual([]);
+  });
+
+  it('retries failures with backoff and parks a memory that keeps failing', async () => {
+    const memory = await createMemory('Runbook');
+    jest.spyOn(vectorStore, 'addMemory').mockRejectedValue(new Error('Bedrock timed out'));
+
+    let now = new Date(Date.now() + 1000);
+    expect(await worker.drain(now)).toBe(0);
+    expect(await sqlite.getIndexQueueStatus()).toEqual({ pending: 1, retrying: 1, failed: [] });
+    expect((await sqlite.getNextIndexAttempt())?.getTime()).toBe(now.getTime() + getRetryDelay(1));
+
+    for (let attempt = 2; attempt <= MAX_INDEX_ATTEMPTS; attempt++) {
+      now = (await sqlite.getNextIndexAttempt())!;
+      await worker.drain(now);
+    }
+
+    const status = await sqlite.getIndexQueueStatus();
+    expect(status).toMatchObject({ pending: 0, retrying: 0 });
+    expect(status.failed).toEqual([expect.objectContaining({
+      memoryId: memory.id,
+      title: 'Runbook',
+      attempts: MAX_INDEX_ATTEMPTS,
+      lastError: 'Bedrock timed out',
+    })]);
+    expect(await sqlite.getNextIndexAttempt()).toBeNull();
+
+    jest.restoreAllMocks();
+    expect(await sqlite.retryFailedIndexEntries()).toBe(1);
+    await worker.drain(new Date(Date.now() + 1000));
+    expect(await sqlite.getIndexQueueStatus()).toEqual({ pending: 0, retrying: 0, failed: [] });
+    expect(await indexed(memory.id)).toBeDefined();
+  });
+
+  it('keeps an entry that changed again while it was being indexed', async () => {
+    const memory = await createMemory('Runbook');
+    const [entry] = await sqlite.getDueIndexEntries(new Date(Date.now() + 1000), 1);
+
+    await sqlite.updateMemory(memory.id, { title: 'Release runbook' });
+
+    expect(await sqlite.completeIndexEntry(entry)).toBe(false);
+    expect(await queued()).toEqual([memory.id]);
+  });
+
+  it('drains the queue in the background once started', async () => {
+    const memory = await createMemory('Runbook');
+    const onChange = jest.fn();
+    worker = new IndexWorker(sqlite, vectorStore, onChange);
+
+    worker.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(await indexed(memory.id)).toBeDefined();
+    expect(onChange).toHaveBeenCalled();
+  });
+});
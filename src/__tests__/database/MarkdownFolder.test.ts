@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import { VaultData } from '../../shared/database/vault-bundle';
+import { readMarkdownFolder, writeMarkdownFolder } from '../../shared/database/markdown-folder';
+import { MemoryType } from '../../shared/types';
+
+describe('Markdown folder export and import', () => {
+  let dir: string;
+  let source: SQLiteManager;
+  let target: SQLiteManager;
+
+  const importFolder = async (): Promise<VaultData> => ({
+    memories: (await readMarkdownFolder(dir)).map(note => note.memory),
+    tags: [],
+    projects: [],
+    links: [],
+    revisions: [],
+  });
+
+  const exportTo = async (manager: SQLiteManager, layout: 'type' | 'project' = 'type') => {
+    const data = await manager.exportVaultData();
+    return writeMarkdownFolder(dir, data.memories, data.projects, layout);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-markdown-'));
+    source = new SQLiteManager(':memory:');
+    target = new SQLiteManager(':memory:');
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes one note per memory with its fields in front matter', async () => {
+    const decision = await source.createMemory({
+      title: 'Use SQLite: not Postgres',
+      content: 'Embedded is enough.',
+      type: MemoryType.DECISION,
+      tags: ['storage', 'infra/db'],
+      metadata: { project: 'DevMemory', exitCode: 0, title: 'clashes with a field' },
+    });
+    const trashed = await source.createMemory({ title: 'Gone', content: 'x', type: MemoryType.NOTE, tags: [], metadata: {} });
+    await source.deleteMemory(trashed.id);
+
+    expect(await exportTo(source)).toEqual({ written: 1, unchanged: 0 });
+
+    const text = fs.readFileSync(path.join(dir, 'decision', 'Use SQLite not Postgres.md'), 'utf-8');
+    expect(text).toBe([
+      '---',
+      `id: ${decision.id}`,
+      'title: "Use SQLite: not Postgres"',
+      'type: decision',
+      'tags:',
+      '  - storage',
+      '  - infra/db',
+      `created: ${decision.createdAt.toISOString()}`,
+      `updated: ${decision.updatedAt.toISOString()}`,
+      'project: DevMemory',
+      'exitCode: 0',
+      'metadata: {"title":"clashes with a field"}',
+      '---',
+      '',
+      'Embedded is enough.',
+    ].join('\n'));
+  });
+
+  it('imports an export into another vault and changes nothing on a second import', async () => {
+    const created = await source.createMemory({
+      title: 'Runbook',
+      content: 'Restart the worker',
+      type: MemoryType.COMMAND,
+      tags: ['ops'],
+      metadata: { repository: 'github.com/vosbek/memoryme' },
+    });
+    await exportTo(source);
+
+    const first = await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+    const again = await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    expect(first.summary.memories.added).toBe(1);
+    expect(again.summary.memories).toEqual({ added: 0, updated: 0, copied: 0, skipped: 1 });
+    const imported = await target.getMemory(created.id);
+    expect(imported).toMatchObject({ title: 'Runbook', type: MemoryType.COMMAND, tags: ['ops'], metadata: created.metadata });
+    expect(imported?.updatedAt).toEqual(created.updatedAt);
+    // Exporting the unchanged vault again leaves the files alone
+    expect(await exportTo(source)).toEqual({ written: 0, unchanged: 1 });
+  });
+
+  it('keeps content with anchors, colours and code unchanged through export and import', async () => {
+    const content = [
+      '',
+      '',
+      'See [setup](#setup-steps) and paint it #ff0000 or #fff.',
+      '',
+      'Inline `#define DEBUG` stays code.',
+      '',
+      '```c',
+      '#include <stdio.h>',
+      '```',
+      '',
+      'Filed under #ops',
+    ].join('\n');
+    const created = await source.createMemory({ title: 'Styles', content, type: MemoryType.NOTE, tags: ['ops'], metadata: {} });
+    await exportTo(source);
+
+    await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    expect(await target.getMemory(created.id)).toMatchObject({ content, tags: ['ops'] });
+  });
+
+  it('picks up edits made in another editor as the newer version', async () => {
+    const created = await source.createMemory({ title: 'Plan', content: 'v1', type: MemoryType.NOTE, tags: [], metadata: {} });
+    await exportTo(source);
+    await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    const filePath = path.join(dir, 'note', 'Plan.md');
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('v1', 'v2 #next'));
+    // File times can be coarser than the clock, so date the edit explicitly
+    fs.utimesSync(filePath, new Date(), new Date(created.updatedAt.getTime() + 60_000));
+    const result = await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    expect(result.summary.memories.updated).toBe(1);
+    expect(await target.getMemory(created.id)).toMatchObject({ content: 'v2 #next', tags: ['next'] });
+  });
+
+  it('keeps the project of a memory updated from its note', async () => {
+    const project = await source.createProject({ name: 'Payments' });
+    const created = await source.createMemory({
+      title: 'Refunds', content: 'v1', type: MemoryType.NOTE, tags: [], metadata: {}, projectId: project.id,
+    });
+    await exportTo(source);
+
+    const filePath = path.join(dir, 'note', 'Refunds.md');
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('v1', 'v2'));
+    fs.utimesSync(filePath, new Date(), new Date(created.updatedAt.getTime() + 60_000));
+    await source.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    expect(await source.getMemory(created.id)).toMatchObject({ content: 'v2', projectId: project.id });
+  });
+
+  it('reads plain Obsidian notes with inline tags and wiki links', async () => {
+    fs.mkdirSync(path.join(dir, 'decision'));
+    fs.mkdirSync(path.join(dir, '.obsidian'));
+    fs.writeFileSync(path.join(dir, '.obsidian', 'ignored.md'), 'Not a note');
+    fs.writeFileSync(path.join(dir, 'decision', 'Queue choice.md'), [
+      '---',
+      'tags: [infra, "#broker"]',
+      '---',
+      'We picked #queues/rabbit over Kafka, see [[Broker notes]].',
+      '',
+      '## Heading, not a tag',
+      '`#not-a-tag` and issue #123',
+    ].join('\n'));
+    fs.writeFileSync(path.join(dir, 'Broker notes.md'), 'Compared three brokers.');
+
+    const notes = await readMarkdownFolder(dir);
+    await target.importVaultData(await importFolder(), { mode: 'merge', conflict: 'newer' });
+
+    expect(notes.map(note => note.relativePath)).toEqual(['Broker notes.md', 'decision/Queue choice.md']);
+    const choice = notes[1].memory;
+    expect(choice).toMatchObject({ title: 'Queue choice', type: MemoryType.DECISION, tags: ['infra', 'broker', 'queues/rabbit'] });
+    expect(notes[0].memory.type).toBe(MemoryType.NOTE);
+    // Notes without an id keep the same one across imports
+    expect((await readMarkdownFolder(dir))[1].memory.id).toBe(choice.id);
+    expect((await target.getWikiLinks(choice.id))[0].targetId).toBe(notes[0].memory.id);
+  });
+
+  it('moves a note when its project changes and keeps files it did not write', async () => {
+    const project = await source.createProject({ name: 'Payments' });
+    const memory = await source.createMemory({ title: 'Refunds', content: 'Two steps', type: MemoryType.NOTE, tags: [], metadata: {} });
+    fs.writeFileSync(path.join(dir, 'README.md'), 'Hand-written');
+
+    await exportTo(source, 'project');
+    expect(fs.existsSync(path.join(dir, 'No project', 'Refunds.md'))).toBe(true);
+
+    await source.updateMemory(memory.id, { projectId: project.id });
+    await exportTo(source, 'project');
+
+    expect(fs.existsSync(path.join(dir, 'No project', 'Refunds.md'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, 'Payments', 'Refunds.md'))).toBe(true);
+    expect(fs.readFileSync(path.join(dir, 'README.md'), 'utf-8')).toBe('Hand-written');
+  });
+});
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import { MarkdownSync } from '../../shared/database/markdown-sync';
+import { MemoryType } from '../../shared/types';
+
+describe('MarkdownSync', () => {
+  let dir: string;
+  let sqlite: SQLiteManager;
+  let sync: MarkdownSync;
+
+  const memory = (title: string, content: string, tags: string[] = ['team']) => ({
+    title,
+    content,
+    type: MemoryType.NOTE,
+    tags,
+    metadata: {},
+  });
+
+  const note = (relativePath: string) => path.join(dir, ...relativePath.split('/'));
+  const editNote = (relativePath: string, from: string, to: string) =>
+    fs.writeFileSync(note(relativePath), fs.readFileSync(note(relativePath), 'utf-8').replace(from, to));
+  // updatedAt is how a vault edit is noticed, so edits must land after the last sync
+  const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-sync-'));
+    sqlite = new SQLiteManager(':memory:');
+    sync = new MarkdownSync(sqlite);
+    await sqlite.setMarkdownSyncConfig({ folderPath: dir, layout: 'type', filters: { anyTags: ['team'] } });
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the selected memories and finds nothing to do on the next sync', async () => {
+    await sqlite.createMemory(memory('Shared runbook', 'Restart the worker'));
+    await sqlite.createMemory(memory('Private scratch', 'Not for the team', []));
+
+    const first = await sync.sync();
+    const second = await sync.sync();
+
+    expect(first.summary).toMatchObject({ exported: 1, imported: 0, conflicts: [] });
+    expect(fs.readdirSync(note('note'))).toEqual(['Shared runbook.md']);
+    expect(second.summary).toMatchObject({ exported: 0, imported: 0, removedFiles: 0, trashed: 0 });
+    expect((await sqlite.getMarkdownSyncConfig())?.lastSyncedAt).toBeInstanceOf(Date);
+  });
+
+  it('carries edits made on either side to the other', async () => {
+    const runbook = await sqlite.createMemory(memory('Runbook', 'v1'));
+    const other = await sqlite.createMemory(memory('Checklist', 'a'));
+    await sync.sync();
+
+    editNote('note/Runbook.md', 'v1', 'v2 from a teammate');
+    await tick();
+    await sqlite.updateMemory(other.id, { title: 'Release checklist', content: 'a, b' });
+    const result = await sync.sync();
+
+    expect(result.summary).toMatchObject({ exported: 1, imported: 1, conflicts: [] });
+    expect(result.memories.map(m => m.id)).toEqual([runbook.id]);
+    expect((await sqlite.getMemory(runbook.id))?.content).toBe('v2 from a teammate');
+    // The renamed memory's note moves with it
+    expect(fs.readdirSync(note('note')).sort()).toEqual(['Release checklist.md', 'Runbook.md']);
+    expect(fs.readFileSync(note('note/Release checklist.md'), 'utf-8')).toContain('a, b');
+    expect((await sync.sync()).summary).toMatchObject({ exported: 0, imported: 0 });
+  });
+
+  it('imports notes added to the folder', async () => {
+    fs.mkdirSync(note('decision'));
+    fs.writeFileSync(note('decision/Use SQLite.md'), '---\ntags: [storage]\n---\nEmbedded is enough.');
+
+    const result = await sync.sync();
+
+    expect(result.summary.imported).toBe(1);
+    expect(result.memories[0]).toMatchObject({ title: 'Use SQLite', type: MemoryType.DECISION, tags: ['storage'] });
+    // The memory is outside the filters but stays mirrored through its note
+    expect((await sync.sync()).summary).toMatchObject({ exported: 0, imported: 0, removedFiles: 0 });
+  });
+
+  it('moves a memory to the trash when its note is deleted, and removes the note of a deleted memory', async () => {
+    const kept = await sqlite.createMemory(memory('Kept', 'x'));
+    const dropped = await sqlite.createMemory(memory('Dropped', 'y'));
+    await sync.sync();
+
+    fs.rmSync(note('note/Kept.md'));
+    await sqlite.deleteMemory(dropped.id);
+    const result = await sync.sync();
+
+    expect(result.summary).toMatchObject({ trashed: 1, removedFiles: 1, conflicts: [] });
+    expect(result.trashedIds).toEqual([kept.id]);
+    expect((await sqlite.getTrashedMemories()).map(m => m.id).sort()).toEqual([dropped.id, kept.id].sort());
+    expect(fs.readdirSync(note('note'))).toEqual([]);
+  });
+
+  describe('conflicts', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = (await sqlite.createMemory(memory('Plan', 'v1'))).id;
+      await sync.sync();
+      editNote('note/Plan.md', 'v1', 'folder edit');
+      await tick();
+      await sqlite.updateMemory(id, { content: 'vault edit' });
+    });
+
+    it('holds a memory changed on both sides until a side is picked', async () => {
+      const result = await sync.sync();
+
+      expect(result.summary.conflicts).toEqual([expect.objectContaining({
+        memoryId: id,
+        kind: 'both-changed',
+        path: 'note/Plan.md',
+        vaultText: expect.stringContaining('vault edit'),
+        fileText: expect.stringContaining('folder edit'),
+      })]);
+      expect((await sync.sync()).summary.conflicts).toHaveLength(1);
+      expect((await sqlite.getMemory(id))?.content).toBe('vault edit');
+
+      const resolved = await sync.resolve(id, 'keep-file');
+
+      expect(resolved.summary.conflicts).toEqual([]);
+      expect((await sqlite.getMemory(id))?.content).toBe('folder edit');
+      expect((await sync.sync()).summary).toMatchObject({ exported: 0, imported: 0, conflicts: [] });
+    });
+
+    it('writes the vault version over the note when asked to', async () => {
+      await sync.sync();
+      await sync.resolve(id, 'keep-vault');
+
+      expect(fs.readFileSync(note('note/Plan.md'), 'utf-8')).toContain('vault edit');
+      await expect(sync.resolve(id, 'keep-vault')).rejects.toThrow('This memory has no sync conflict');
+    });
+
+    it('reports a note deleted while the memory changed', async () => {
+      fs.rmSync(note('note/Plan.md'));
+
+      const [conflict] = (await sync.sync()).summary.conflicts;
+      expect(conflict.kind).toBe('deleted-in-folder');
+      expect(conflict.fileText).toBeUndefined();
+
+      await sync.resolve(id, 'keep-vault');
+      expect(fs.readFileSync(note('note/Plan.md'), 'utf-8')).toContain('vault edit');
+    });
+
+    it('restores a trashed memory whose note changed when the note is kept', async () => {
+      await sqlite.deleteMemory(id);
+
+      const [conflict] = (await sync.sync()).summary.conflicts;
+      expect(conflict.kind).toBe('deleted-in-vault');
+      expect(conflict.vaultText).toBeUndefined();
+
+      await sync.resolve(id, 'keep-file');
+      const restored = await sqlite.getMemory(id);
+      expect(restored?.deletedAt).toBeUndefined();
+      expect(restored?.content).toBe('folder edit');
+    });
+  });
+
+  it('forgets the old folder when pointed at another one', async () => {
+    await sqlite.createMemory(memory('Runbook', 'v1'));
+    await sync.sync();
+    const other = fs.mkdtempSync(path.join(os.tmpdir(), 'test-sync-'));
+
+    try {
+      await sqlite.setMarkdownSyncConfig({ folderPath: other, layout: 'project', filters: {} });
+
+      expect(await sqlite.getSyncedNotes()).toEqual([]);
+      expect((await sync.sync()).summary.exported).toBe(1);
+      expect(fs.readdirSync(path.join(other, 'No project'))).toEqual(['Runbook.md']);
+    } finally {
+      fs.rmSync(other, { recursive: true, force: true });
+    }
+  });
+});
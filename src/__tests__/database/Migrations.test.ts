@@ -0,0 +1,241 @@
+import Database from 'better-sqlite3';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+  runMigrations,
+} from '../../shared/database/migrations';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// Schema written by releases before migrations existed (user_version 0)
+const UNVERSIONED_SCHEMA = `
+  CREATE TABLE memories (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    type TEXT NOT NULL,
+    tags TEXT,
+    metadata TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE VIRTUAL TABLE memories_fts USING fts5(
+    id UNINDEXED, title, content, tags, content='memories', content_rowid='rowid'
+  );
+
+  CREATE TRIGGER memories_ai AFTER INSERT ON memories BEGIN
+    INSERT INTO memories_fts(id, title, content, tags)
+    VALUES (new.id, new.title, new.content, new.tags);
+  END;
+
+  CREATE TABLE tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    color TEXT,
+    created_at INTEGER NOT NULL
+  );
+`;
+
+describe('Schema Migrations', () => {
+  let dbPath: string;
+
+  const insertMemory = (db: Database.Database, id: string, title: string) => {
+    db.prepare(`
+      INSERT INTO memories (id, title, content, type, tags, metadata, created_at, updated_at)
+      VALUES (?, ?, ?, 'note', '["fixture"]', '{}', ?, ?)
+    `).run(id, title, `${title} body`, Date.now(), Date.now());
+  };
+
+  const createFixture = (version: number) => {
+    const db = new Database(dbPath);
+    if (version === 0) {
+      db.exec(UNVERSIONED_SCHEMA);
+    } else {
+      runMigrations(db, { targetVersion: version });
+    }
+    insertMemory(db, 'fixture-1', 'Ingress timeout fix');
+    if (version >= 4) {
+      // From version 4 on the app records a revision alongside every insert
+      db.exec(`
+        INSERT INTO memory_revisions (memory_id, revision, title, content, type, tags, metadata, created_at)
+        SELECT id, 1, title, content, type, tags, metadata, updated_at FROM memories
+      `);
+    }
+    db.close();
+  };
+
+  beforeEach(() => {
+    dbPath = path.join(os.tmpdir(), `test-migrations-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(os.tmpdir())) {
+      if (file.startsWith(path.basename(dbPath))) {
+        fs.unlinkSync(path.join(os.tmpdir(), file));
+      }
+    }
+  });
+
+  it('numbers migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+    expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('creates a new database at the latest version without a backup', () => {
+    const manager = new SQLiteManager(dbPath);
+    manager.close();
+
+    const db = new Database(dbPath);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    db.close();
+    expect(fs.existsSync(`${dbPath}.v0.bak`)).toBe(false);
+  });
+
+  it.each(Array.from({ length: LATEST_SCHEMA_VERSION }, (_, version) => version))(
+    'upgrades a version %i database and keeps its data',
+    async (version) => {
+      createFixture(version);
+
+      const manager = new SQLiteManager(dbPath);
+      try {
+        expect((await manager.getMemory('fixture-1'))?.title).toBe('Ingress timeout fix');
+
+        const ranked = await manager.searchFullText('ingress');
+        expect(ranked.map(r => r.memory.id)).toEqual(['fixture-1']);
+
+        await manager.updateMemory('fixture-1', { title: 'Gateway timeout fix', content: 'Raised the gateway timeout' });
+        expect(await manager.searchFullText('ingress')).toEqual([]);
+        expect((await manager.searchFullText('gateway')).length).toBe(1);
+        expect((await manager.getRevisions('fixture-1')).map(r => r.title)).toEqual([
+          'Gateway timeout fix',
+          'Ingress timeout fix',
+        ]);
+
+        await manager.createSavedSearch({ name: 'Fixtures', query: { query: '', tags: ['fixture'] }, sort: 'updated', pinned: false });
+        expect(await manager.getSavedSearches()).toHaveLength(1);
+      } finally {
+        manager.close();
+      }
+
+      const db = new Database(dbPath);
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      db.close();
+
+      const backup = new Database(`${dbPath}.v${version}.bak`, { readonly: true });
+      expect(getSchemaVersion(backup)).toBe(version);
+      expect(backup.prepare('SELECT title FROM memories').all()).toEqual([{ title: 'Ingress timeout fix' }]);
+      backup.close();
+    }
+  );
+
+  it('extracts wiki links from existing content when adding the link table', async () => {
+    const db = new Database(dbPath);
+    runMigrations(db, { targetVersion: 6 });
+    insertMemory(db, 'runbook', 'Deploy runbook');
+    db.prepare(`
+      INSERT INTO memories (id, title, content, type, tags, metadata, created_at, updated_at)
+      VALUES ('incident', 'Incident', 'See [[Deploy runbook]] and [[Postmortem]]', 'note', '[]', '{}', 0, 0)
+    `).run();
+    db.close();
+
+    const manager = new SQLiteManager(dbPath);
+    try {
+      expect(await manager.getWikiLinks('incident')).toEqual([
+        { sourceId: 'incident', target: 'Deploy runbook', targetId: 'runbook' },
+        { sourceId: 'incident', target: 'Postmortem', targetId: null },
+      ]);
+    } finally {
+      manager.close();
+    }
+  });
+
+  it('fills the tag tables from existing memories', async () => {
+    const db = new Database(dbPath);
+    runMigrations(db, { targetVersion: 7 });
+    insertMemory(db, 'fixture-1', 'Ingress timeout fix');
+    db.prepare(`
+      INSERT INTO memories (id, title, content, type, tags, metadata, created_at, updated_at)
+      VALUES ('fixture-2', 'Prod rollout', 'Rolled out', 'note', '["k8s-prod", "fixture"]', '{}', 0, 0)
+    `).run();
+    db.close();
+
+    const manager = new SQLiteManager(dbPath);
+    try {
+      expect(await manager.getTagUsage()).toEqual([
+        { name: 'fixture', color: undefined, count: 2 },
+        { name: 'k8s-prod', color: undefined, count: 1 },
+      ]);
+      expect((await manager.getMemoriesByTags(['k8s-prod'])).map(m => m.id)).toEqual(['fixture-2']);
+    } finally {
+      manager.close();
+    }
+  });
+
+  it('registers the project names already used in metadata', async () => {
+    const db = new Database(dbPath);
+    runMigrations(db, { targetVersion: 8 });
+    const insert = db.prepare(`
+      INSERT INTO memories (id, title, content, type, tags, metadata, created_at, updated_at)
+      VALUES (?, ?, 'body', 'note', '[]', ?, 0, 0)
+    `);
+    insert.run('billing-1', 'Invoice retries', '{"project":"Billing"}');
+    insert.run('billing-2', 'Invoice PDFs', '{"project":" billing "}');
+    insert.run('loose', 'Scratch', '{"project":42}');
+    db.close();
+
+    const manager = new SQLiteManager(dbPath);
+    try {
+      const projects = await manager.getProjects();
+      expect(projects.map(p => [p.name, p.memoryCount])).toEqual([['Billing', 2]]);
+      expect((await manager.getMemory('billing-2'))?.projectId).toBe(projects[0].id);
+      expect((await manager.getMemory('loose'))?.projectId).toBeUndefined();
+    } finally {
+      manager.close();
+    }
+  });
+
+  it('leaves an up-to-date database untouched', () => {
+    new SQLiteManager(dbPath).close();
+    new SQLiteManager(dbPath).close();
+
+    expect(fs.existsSync(`${dbPath}.v${LATEST_SCHEMA_VERSION}.bak`)).toBe(false);
+  });
+
+  it('refuses databases from a newer version', () => {
+    const db = new Database(dbPath);
+    db.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+    db.close();
+
+    expect(() => new SQLiteManager(dbPath)).toThrow(/newer than this version/);
+  });
+
+  it('rolls back a failed step and stops at the last good version', () => {
+    createFixture(LATEST_SCHEMA_VERSION);
+    const failingVersion = LATEST_SCHEMA_VERSION + 1;
+    MIGRATIONS.push({
+      version: failingVersion,
+      description: 'Broken step',
+      up: migrationDb => {
+        migrationDb.exec('CREATE TABLE half_applied (id TEXT)');
+        throw new Error('boom');
+      },
+    });
+
+    const db = new Database(dbPath);
+    try {
+      expect(() => runMigrations(db, { targetVersion: failingVersion, backupPath: `${dbPath}.bak` }))
+        .toThrow(`Migration to schema version ${failingVersion} failed: boom. A copy of the database from before the upgrade is at ${dbPath}.bak`);
+
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_applied'").get()).toBeUndefined();
+      expect(fs.existsSync(`${dbPath}.bak`)).toBe(true);
+    } finally {
+      MIGRATIONS.pop();
+      db.close();
+    }
+  });
+});
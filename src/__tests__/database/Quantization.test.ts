@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BedrockEmbeddingFunction } from '../../shared/database/bedrock-embeddings';
+import { encodeVector, vectorSimilarity } from '../../shared/database/quantization';
+import { VectorStore } from '../../shared/database/vector-store';
+import { MemoryType } from '../../shared/types';
+import { cosine, createTopicVectors, recall } from './vectorFixtures';
+
+describe('Vector quantization', () => {
+  const DIMENSIONS = 384;
+  const createVector = createTopicVectors({ seed: 7, dimensions: DIMENSIONS, topics: 30, spread: 2 });
+
+  const topIds = (scores: Array<[string, number]>, k: number) =>
+    scores.sort((a, b) => b[1] - a[1]).slice(0, k).map(([id]) => id);
+
+  it('keeps int8 similarities close to the exact ones at a quarter of the size', () => {
+    const vectors = Array.from({ length: 200 }, (_, i) => createVector(i));
+    const query = createVector(1000);
+    const full = encodeVector(query, 'none');
+
+    const errors = vectors.map(vector =>
+      Math.abs(vectorSimilarity(full, encodeVector(vector, 'int8')) - cosine(query, vector)));
+
+    expect(Math.max(...errors)).toBeLessThan(0.01);
+    expect(encodeVector(query, 'int8').values.byteLength).toBe(full.values.byteLength / 4);
+  });
+
+  describe('in the vector store', () => {
+    const COUNT = 800;
+    let dir: string;
+    let stores: VectorStore[];
+    let embeddings: Map<string, number[]>;
+    let query: number[];
+
+    const open = async (quantization: 'none' | 'int8') => {
+      const store = new VectorStore(path.join(dir, 'vector-data.json'), { exactSearchLimit: 0, quantization });
+      await store.initialize();
+      stores.push(store);
+      return store;
+    };
+
+    const search = async (store: VectorStore, queries: number[][]) => {
+      const results: string[][] = [];
+      for (const vector of queries) {
+        query = vector;
+        results.push((await store.searchSimilar(`query ${results.length}`, 10, -1)).map(result => result.memoryId));
+      }
+      return results;
+    };
+
+    beforeEach(async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-quantization-'));
+      stores = [];
+      jest.spyOn(BedrockEmbeddingFunction.prototype, 'generate').mockImplementation(async () => [query]);
+
+      embeddings = new Map(Array.from({ length: COUNT }, (_, i) => [`memory-${i}`, createVector(i)]));
+      const store = await open('none');
+      for (const [id, embedding] of embeddings) {
+        await store.addMemoryWithEmbedding({
+          id,
+          title: id,
+          content: 'Notes',
+          type: MemoryType.NOTE,
+          tags: [],
+          metadata: {},
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }, embedding, 'amazon.titan-embed-text-v1');
+      }
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      for (const store of stores) {
+        await store.close();
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('holds a quarter of the vector memory and re-ranks to the exact similarities', async () => {
+      const queries = Array.from({ length: 30 }, (_, i) => createVector(5000 + i));
+      const expected = queries.map(vector => topIds(Array.from(embeddings, ([id, embedding]) => [id, cosine(vector, embedding)]), 10));
+      const [full] = stores;
+      const fullBytes = (await full.getCollectionInfo()).vectorBytes;
+
+      const quantized = await open('int8');
+
+      expect(fullBytes).toBe(COUNT * DIMENSIONS * 4);
+      expect((await quantized.getCollectionInfo()).vectorBytes).toBe(fullBytes / 4);
+      expect(recall(expected, await search(full, queries))).toBeGreaterThanOrEqual(0.95);
+      expect(recall(expected, await search(quantized, queries))).toBeGreaterThanOrEqual(0.95);
+
+      // Stored as Float32, so exact to about seven digits
+      query = queries[0];
+      for (const result of await quantized.searchSimilar('exact scores', 10, -1)) {
+        expect(result.similarity).toBeCloseTo(cosine(query, embeddings.get(result.memoryId)!), 6);
+      }
+    });
+
+    it('switches an open store between full and quantized vectors', async () => {
+      const [store] = stores;
+      const queries = Array.from({ length: 10 }, (_, i) => createVector(6000 + i));
+      const before = await search(store, queries);
+
+      await store.setQuantization('int8');
+
+      expect((await store.getCollectionInfo()).vectorBytes).toBe(COUNT * DIMENSIONS);
+      expect(recall(before, await search(store, queries))).toBeGreaterThanOrEqual(0.95);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { SQLiteManager } from '../../shared/database/sqlite';
-import { Memory, MemoryType } from '../../shared/types';
+import { Memory, MemoryLinkType, MemoryMetadata, MemoryType } from '../../shared/types';
+import { parseSearchQuery } from '../../shared/utils/search-query-parser';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -153,6 +154,20 @@ describe('SQLiteManager', () => {
       expect(results).toEqual([]);
     });
 
+    it('ends ranked pages after the last full-text hit', async () => {
+      // Matches "design" as a substring only, so the FTS index misses it
+      await sqliteManager.createMemory({
+        title: 'Redesigned onboarding',
+        content: 'Fewer steps before the first note',
+        type: MemoryType.NOTE,
+        tags: [],
+        metadata: {}
+      });
+
+      expect((await sqliteManager.searchMemories('design', 10, 0)).map(m => m.title)).toEqual(['Database Design Notes']);
+      expect(await sqliteManager.searchMemories('design', 10, 1)).toEqual([]);
+    });
+
     it('limits search results', async () => {
       const results = await sqliteManager.searchMemories('', 2); // Empty query matches all
       expect(results.length).toBeLessThanOrEqual(2);
@@ -210,6 +225,754 @@ describe('SQLiteManager', () => {
     });
   });
 
+  describe('Full-Text Search', () => {
+    beforeEach(async () => {
+      await sqliteManager.createMemory({
+        title: 'Kubernetes ingress timeout',
+        content: 'Raised proxy-read-timeout on the ingress controller to fix 504 errors',
+        type: MemoryType.DEBUG_SESSION,
+        tags: ['k8s', 'ingress'],
+        metadata: {}
+      });
+
+      await sqliteManager.createMemory({
+        title: 'Deployment checklist',
+        content: 'Verify the ingress annotations and kubernetes probes before release',
+        type: MemoryType.DOCUMENTATION,
+        tags: ['release'],
+        metadata: {}
+      });
+    });
+
+    it('ranks title matches above content matches', async () => {
+      const results = await sqliteManager.searchFullText('ingress');
+
+      expect(results.length).toBe(2);
+      expect(results[0].memory.title).toBe('Kubernetes ingress timeout');
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('supports prefix and phrase queries', async () => {
+      const prefix = await sqliteManager.searchFullText('kube*');
+      expect(prefix.length).toBe(2);
+
+      const phrase = await sqliteManager.searchFullText('"ingress controller"');
+      expect(phrase.length).toBe(1);
+      expect(phrase[0].memory.title).toBe('Kubernetes ingress timeout');
+    });
+
+    it('supports NEAR queries', async () => {
+      const results = await sqliteManager.searchFullText('NEAR(ingress probes, 3)');
+
+      expect(results.length).toBe(1);
+      expect(results[0].memory.title).toBe('Deployment checklist');
+    });
+
+    it('returns highlighted snippets', async () => {
+      const results = await sqliteManager.searchFullText('504');
+
+      expect(results.length).toBe(1);
+      expect(results[0].highlights).toEqual(
+        expect.arrayContaining([expect.stringContaining('<mark>504</mark>')])
+      );
+    });
+
+    it('retries invalid FTS syntax as plain terms', async () => {
+      const results = await sqliteManager.searchFullText('proxy-read-timeout');
+
+      expect(results.length).toBe(1);
+      expect(results[0].memory.title).toBe('Kubernetes ingress timeout');
+    });
+
+    it('keeps the index in sync with updates and deletes', async () => {
+      const [memory] = (await sqliteManager.searchFullText('checklist')).map(r => r.memory);
+
+      await sqliteManager.updateMemory(memory.id, { title: 'Release runbook' });
+      expect(await sqliteManager.searchFullText('checklist')).toEqual([]);
+      expect((await sqliteManager.searchFullText('runbook'))[0].memory.id).toBe(memory.id);
+
+      await sqliteManager.deleteMemory(memory.id);
+      expect(await sqliteManager.searchFullText('runbook')).toEqual([]);
+    });
+  });
+
+  describe('Search Filters', () => {
+    beforeEach(async () => {
+      await sqliteManager.createMemory({
+        title: 'Billing rate limit decision',
+        content: 'Rate limit the billing API at 100 requests per second',
+        type: MemoryType.DECISION,
+        tags: ['k8s', 'billing'],
+        metadata: { project: 'billing', repository: 'org/billing-api', language: 'go' }
+      });
+
+      await sqliteManager.createMemory({
+        title: 'Gateway rate limit',
+        content: 'Rate limit configuration for the edge gateway',
+        type: MemoryType.DOCUMENTATION,
+        tags: ['k8s-prod'],
+        metadata: { project: 'edge', language: 'typescript' }
+      });
+    });
+
+    it('narrows full-text results by type and metadata', async () => {
+      const byType = await sqliteManager.searchFullText('rate', 50, 0, { type: MemoryType.DECISION });
+      expect(byType.map(r => r.memory.title)).toEqual(['Billing rate limit decision']);
+
+      const byProject = await sqliteManager.searchFullText('rate', 50, 0, { project: 'EDGE' });
+      expect(byProject.map(r => r.memory.title)).toEqual(['Gateway rate limit']);
+
+      const byRepository = await sqliteManager.searchFullText('rate', 50, 0, { repository: 'org/billing-api', language: 'go' });
+      expect(byRepository.length).toBe(1);
+    });
+
+    it('matches tags exactly and requires all of them', async () => {
+      const results = await sqliteManager.filterMemories({ tags: ['k8s'] });
+      expect(results.map(m => m.title)).toEqual(['Billing rate limit decision']);
+
+      const none = await sqliteManager.filterMemories({ tags: ['k8s', 'edge'] });
+      expect(none).toEqual([]);
+    });
+
+    it('filters by creation date range', async () => {
+      const future = new Date(Date.now() + 60_000);
+
+      expect(await sqliteManager.filterMemories({ dateRange: { start: future } })).toEqual([]);
+      expect((await sqliteManager.filterMemories({ dateRange: { end: future } })).length).toBe(2);
+    });
+
+    it('applies parsed query language filters', async () => {
+      const run = async (input: string) => {
+        const { query, ...filters } = parseSearchQuery(input);
+        const results = query
+          ? (await sqliteManager.searchFullText(query, 50, 0, filters)).map(r => r.memory)
+          : await sqliteManager.filterMemories(filters);
+        return results.map(m => m.title).sort();
+      };
+
+      expect(await run('rate -billing')).toEqual(['Gateway rate limit']);
+      expect(await run('rate -tag:k8s')).toEqual(['Gateway rate limit']);
+      expect(await run('tag:k8s OR tag:k8s-prod')).toEqual(['Billing rate limit decision', 'Gateway rate limit']);
+      expect(await run('type:decision OR type:documentation lang:typescript')).toEqual(['Gateway rate limit']);
+      expect(await run('gateway OR billing -type:decision')).toEqual(['Gateway rate limit']);
+    });
+
+    it('paginates filtered results without overlap', async () => {
+      const firstPage = await sqliteManager.searchFullText('rate', 1, 0, { tags: [] });
+      const secondPage = await sqliteManager.searchFullText('rate', 1, 1, { tags: [] });
+
+      expect(firstPage.length).toBe(1);
+      expect(secondPage.length).toBe(1);
+      expect(firstPage[0].memory.id).not.toBe(secondPage[0].memory.id);
+    });
+  });
+
+  describe('Saved Searches', () => {
+    beforeEach(async () => {
+      await sqliteManager.createMemory({
+        title: 'Payments retry decision',
+        content: 'Retry failed payments with exponential backoff',
+        type: MemoryType.DECISION,
+        tags: ['payments'],
+        metadata: {}
+      });
+
+      await sqliteManager.createMemory({
+        title: 'Alpha payments note',
+        content: 'Payments provider sandbox credentials rotate weekly',
+        type: MemoryType.NOTE,
+        tags: ['payments'],
+        metadata: {}
+      });
+    });
+
+    it('persists saved searches and restores dates in the query', async () => {
+      const start = new Date('2026-01-01T00:00:00Z');
+      const saved = await sqliteManager.createSavedSearch({
+        name: 'Payment decisions',
+        query: { query: '"payments"', type: MemoryType.DECISION, dateRange: { start }, limit: 5, offset: 10 },
+        sort: 'updated',
+        pinned: false,
+      });
+
+      const loaded = await sqliteManager.getSavedSearch(saved.id);
+      expect(loaded?.name).toBe('Payment decisions');
+      expect(loaded?.query).toEqual({ query: '"payments"', type: MemoryType.DECISION, dateRange: { start } });
+      expect(loaded?.query.dateRange?.start).toBeInstanceOf(Date);
+    });
+
+    it('lists pinned searches first, then by name', async () => {
+      await sqliteManager.createSavedSearch({ name: 'beta', query: { query: '' }, sort: 'updated', pinned: false });
+      await sqliteManager.createSavedSearch({ name: 'Alpha', query: { query: '' }, sort: 'updated', pinned: false });
+      const pinned = await sqliteManager.createSavedSearch({ name: 'Zulu', query: { query: '' }, sort: 'updated', pinned: true });
+
+      expect((await sqliteManager.getSavedSearches()).map(s => s.name)).toEqual(['Zulu', 'Alpha', 'beta']);
+
+      await sqliteManager.updateSavedSearch(pinned.id, { pinned: false });
+      expect((await sqliteManager.getSavedSearches()).map(s => s.name)).toEqual(['Alpha', 'beta', 'Zulu']);
+
+      expect(await sqliteManager.deleteSavedSearch(pinned.id)).toBe(true);
+      expect(await sqliteManager.getSavedSearch(pinned.id)).toBeNull();
+    });
+
+    it('counts and lists matches with the saved sort', async () => {
+      const query = { query: '"payments"' };
+
+      expect(await sqliteManager.countSearchMatches(query)).toBe(2);
+      expect(await sqliteManager.countSearchMatches({ ...query, type: MemoryType.DECISION })).toBe(1);
+      expect(await sqliteManager.countSearchMatches({ query: '', tags: ['payments'] })).toBe(2);
+
+      const byTitle = await sqliteManager.getSearchMatches(query, 'title');
+      expect(byTitle.map(m => m.title)).toEqual(['Alpha payments note', 'Payments retry decision']);
+    });
+
+    it('keeps counts live as memories change', async () => {
+      const query = { query: '', tags: ['payments'] };
+      const [memory] = await sqliteManager.getSearchMatches(query);
+
+      await sqliteManager.updateMemory(memory.id, { tags: ['archived'] });
+      expect(await sqliteManager.countSearchMatches(query)).toBe(1);
+
+      await sqliteManager.deleteMemory((await sqliteManager.getSearchMatches(query))[0].id);
+      expect(await sqliteManager.countSearchMatches(query)).toBe(0);
+    });
+  });
+
+  describe('Revision History', () => {
+    const runbook = {
+      title: 'Failover runbook',
+      content: 'Step 1: drain traffic\nStep 2: promote replica',
+      type: MemoryType.DOCUMENTATION,
+      tags: ['runbook'],
+      metadata: {}
+    };
+
+    it('records a revision on create and on every change', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      await sqliteManager.updateMemory(created.id, { content: 'Step 1: drain traffic\nStep 2: promote replica\nStep 3: verify' });
+      await sqliteManager.updateMemory(created.id, { tags: ['runbook', 'db'] });
+
+      const revisions = await sqliteManager.getRevisions(created.id);
+      expect(revisions.map(r => r.revision)).toEqual([3, 2, 1]);
+      expect(revisions[0].tags).toEqual(['runbook', 'db']);
+      expect(revisions[2].content).toBe(runbook.content);
+    });
+
+    it('skips revisions for saves without changes', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      await sqliteManager.updateMemory(created.id, { title: runbook.title });
+
+      expect(await sqliteManager.getRevisions(created.id)).toHaveLength(1);
+    });
+
+    it('restores an old revision as a new one', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      await sqliteManager.updateMemory(created.id, { title: 'Oops', content: 'accidentally cleared' });
+
+      const restored = await sqliteManager.restoreRevision(created.id, 1);
+      expect(restored?.title).toBe('Failover runbook');
+      expect((await sqliteManager.getMemory(created.id))?.content).toBe(runbook.content);
+
+      const revisions = await sqliteManager.getRevisions(created.id);
+      expect(revisions.map(r => r.title)).toEqual(['Failover runbook', 'Oops', 'Failover runbook']);
+      expect(await sqliteManager.searchFullText('accidentally')).toEqual([]);
+    });
+
+    it('returns null when restoring a missing revision', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      expect(await sqliteManager.restoreRevision(created.id, 7)).toBeNull();
+    });
+
+    it('keeps the history while the memory is in the trash', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      await sqliteManager.deleteMemory(created.id);
+
+      expect(await sqliteManager.getRevisions(created.id)).toHaveLength(1);
+    });
+
+    it('drops the history when the memory is purged', async () => {
+      const created = await sqliteManager.createMemory(runbook);
+      await sqliteManager.deleteMemory(created.id);
+      await sqliteManager.purgeMemory(created.id);
+
+      expect(await sqliteManager.getRevisions(created.id)).toEqual([]);
+    });
+  });
+
+  describe('Trash', () => {
+    const note = {
+      title: 'Staging credentials rotation',
+      content: 'Rotate the staging database password every quarter',
+      type: MemoryType.NOTE,
+      tags: ['security'],
+      metadata: { project: 'infra' }
+    };
+
+    it('hides trashed memories from lists, counts and searches', async () => {
+      const kept = await sqliteManager.createMemory({
+        ...note,
+        title: 'Production credentials rotation',
+        content: 'Rotate the production database password every month'
+      });
+      const trashed = await sqliteManager.createMemory(note);
+      await sqliteManager.deleteMemory(trashed.id);
+
+      expect((await sqliteManager.getAllMemories()).map(m => m.id)).toEqual([kept.id]);
+      expect((await sqliteManager.getRecentMemories()).map(m => m.id)).toEqual([kept.id]);
+      expect(await sqliteManager.getMemoryCount()).toBe(1);
+      expect((await sqliteManager.getMemoriesByType(MemoryType.NOTE)).map(m => m.id)).toEqual([kept.id]);
+      expect((await sqliteManager.searchFullText('staging')).map(r => r.memory.id)).toEqual([]);
+      expect((await sqliteManager.searchMemories('rotation')).map(m => m.id)).toEqual([kept.id]);
+      expect(await sqliteManager.countSearchMatches({ query: '', filters: { project: 'infra' } })).toBe(1);
+    });
+
+    it('lists trashed memories with their deletion time', async () => {
+      const trashed = await sqliteManager.createMemory(note);
+      await sqliteManager.deleteMemory(trashed.id);
+
+      const trash = await sqliteManager.getTrashedMemories();
+      expect(trash.map(m => m.id)).toEqual([trashed.id]);
+      expect(trash[0].deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('restores a trashed memory', async () => {
+      const trashed = await sqliteManager.createMemory(note);
+      await sqliteManager.deleteMemory(trashed.id);
+
+      const restored = await sqliteManager.restoreMemory(trashed.id);
+      expect(restored?.title).toBe(note.title);
+      expect(restored?.deletedAt).toBeUndefined();
+      expect(await sqliteManager.getTrashedMemories()).toEqual([]);
+      expect((await sqliteManager.searchFullText('staging'))[0].memory.id).toBe(trashed.id);
+    });
+
+    it('returns null when restoring a memory that is not in the trash', async () => {
+      const memory = await sqliteManager.createMemory(note);
+      expect(await sqliteManager.restoreMemory(memory.id)).toBeNull();
+      expect(await sqliteManager.restoreMemory('non-existent-id')).toBeNull();
+    });
+
+    it('only purges memories that are in the trash', async () => {
+      const memory = await sqliteManager.createMemory(note);
+      expect(await sqliteManager.purgeMemory(memory.id)).toBe(false);
+      expect(await sqliteManager.getMemory(memory.id)).not.toBeNull();
+
+      await sqliteManager.deleteMemory(memory.id);
+      expect(await sqliteManager.purgeMemory(memory.id)).toBe(true);
+      expect(await sqliteManager.getTrashedMemories()).toEqual([]);
+    });
+
+    it('purges memories past the retention period', async () => {
+      const old = await sqliteManager.createMemory(note);
+      const recent = await sqliteManager.createMemory({ ...note, title: 'Recently deleted' });
+      await sqliteManager.deleteMemory(old.id);
+      await sqliteManager.deleteMemory(recent.id);
+
+      const tenDaysLater = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+      expect(await sqliteManager.purgeExpiredTrash(30, tenDaysLater)).toEqual([]);
+
+      const purged = await sqliteManager.purgeExpiredTrash(7, tenDaysLater);
+      expect(purged.sort()).toEqual([old.id, recent.id].sort());
+      expect(await sqliteManager.getTrashedMemories()).toEqual([]);
+    });
+
+    it('empties the trash without touching live memories', async () => {
+      const kept = await sqliteManager.createMemory(note);
+      const trashed = await sqliteManager.createMemory({ ...note, title: 'Old note' });
+      await sqliteManager.deleteMemory(trashed.id);
+
+      expect(await sqliteManager.emptyTrash()).toEqual([trashed.id]);
+      expect((await sqliteManager.getAllMemories()).map(m => m.id)).toEqual([kept.id]);
+    });
+  });
+
+  describe('Memory Links', () => {
+    const decision = (title: string) => ({
+      title,
+      content: `${title} details`,
+      type: MemoryType.DECISION,
+      tags: [],
+      metadata: {}
+    });
+
+    it('creates typed links and lists them from both ends', async () => {
+      const v2 = await sqliteManager.createMemory(decision('Use Postgres 16'));
+      const v1 = await sqliteManager.createMemory(decision('Use Postgres 12'));
+      const link = await sqliteManager.createLink(v2.id, v1.id, 'supersedes');
+
+      expect(link).toMatchObject({ sourceId: v2.id, targetId: v1.id, type: 'supersedes' });
+
+      const fromNew = await sqliteManager.getLinks(v2.id);
+      expect(fromNew.outgoing.map(l => [l.link.type, l.memory.title])).toEqual([['supersedes', 'Use Postgres 12']]);
+      expect(fromNew.incoming).toEqual([]);
+
+      const fromOld = await sqliteManager.getLinks(v1.id);
+      expect(fromOld.incoming.map(l => [l.link.type, l.memory.title])).toEqual([['supersedes', 'Use Postgres 16']]);
+    });
+
+    it('returns the existing link instead of duplicating it', async () => {
+      const a = await sqliteManager.createMemory(decision('A'));
+      const b = await sqliteManager.createMemory(decision('B'));
+      const first = await sqliteManager.createLink(a.id, b.id, 'references');
+      const second = await sqliteManager.createLink(a.id, b.id, 'references');
+
+      expect(second.id).toBe(first.id);
+      expect(await sqliteManager.getAllLinks()).toHaveLength(1);
+    });
+
+    it('rejects self links, unknown types and missing memories', async () => {
+      const a = await sqliteManager.createMemory(decision('A'));
+      const b = await sqliteManager.createMemory(decision('B'));
+
+      await expect(sqliteManager.createLink(a.id, a.id, 'references')).rejects.toThrow('cannot be linked to itself');
+      await expect(sqliteManager.createLink(a.id, b.id, 'blocks' as unknown as MemoryLinkType)).rejects.toThrow('Unknown link type: blocks');
+      await expect(sqliteManager.createLink(a.id, 'missing', 'references')).rejects.toThrow('Memory not found: missing');
+    });
+
+    it('changes the type of a link and refuses to create a duplicate that way', async () => {
+      const a = await sqliteManager.createMemory(decision('A'));
+      const b = await sqliteManager.createMemory(decision('B'));
+      const references = await sqliteManager.createLink(a.id, b.id, 'references');
+      await sqliteManager.createLink(a.id, b.id, 'implements');
+
+      await expect(sqliteManager.updateLink(references.id, 'implements')).rejects.toThrow('already linked');
+      expect((await sqliteManager.updateLink(references.id, 'duplicate-of'))?.type).toBe('duplicate-of');
+      expect(await sqliteManager.updateLink('missing', 'references')).toBeNull();
+    });
+
+    it('deletes links', async () => {
+      const a = await sqliteManager.createMemory(decision('A'));
+      const b = await sqliteManager.createMemory(decision('B'));
+      const link = await sqliteManager.createLink(a.id, b.id, 'caused-by');
+
+      expect(await sqliteManager.deleteLink(link.id)).toBe(true);
+      expect(await sqliteManager.deleteLink(link.id)).toBe(false);
+      expect((await sqliteManager.getLinks(a.id)).outgoing).toEqual([]);
+    });
+
+    it('hides links to trashed memories and removes them on purge', async () => {
+      const a = await sqliteManager.createMemory(decision('A'));
+      const b = await sqliteManager.createMemory(decision('B'));
+      await sqliteManager.createLink(a.id, b.id, 'references');
+
+      await sqliteManager.deleteMemory(b.id);
+      expect((await sqliteManager.getLinks(a.id)).outgoing).toEqual([]);
+      expect(await sqliteManager.getAllLinks()).toEqual([]);
+
+      await sqliteManager.restoreMemory(b.id);
+      expect(await sqliteManager.getAllLinks()).toHaveLength(1);
+
+      await sqliteManager.deleteMemory(b.id);
+      await sqliteManager.purgeMemory(b.id);
+      expect(await sqliteManager.getAllLinks()).toEqual([]);
+    });
+  });
+
+  describe('Wiki Links', () => {
+    const note = (title: string, content: string) => ({
+      title,
+      content,
+      type: MemoryType.NOTE,
+      tags: [],
+      metadata: {}
+    });
+
+    it('resolves [[Title]] and [[id]] references on save', async () => {
+      const runbook = await sqliteManager.createMemory(note('Deploy runbook', 'Steps'));
+      const oncall = await sqliteManager.createMemory(note('On-call guide', 'Steps'));
+      const incident = await sqliteManager.createMemory(
+        note('Incident 42', `Followed [[deploy RUNBOOK]] and [[${oncall.id}|the guide]]`)
+      );
+
+      const { wikiLinks } = await sqliteManager.getLinks(incident.id);
+      expect(wikiLinks.map(link => link.targetId).sort()).toEqual([runbook.id, oncall.id].sort());
+      expect((await sqliteManager.getMentions(runbook.id)).map(m => m.id)).toEqual([incident.id]);
+      expect((await sqliteManager.getLinks(oncall.id)).mentions.map(m => m.title)).toEqual(['Incident 42']);
+    });
+
+    it('flags dangling links and resolves them once the target exists', async () => {
+      const incident = await sqliteManager.createMemory(note('Incident 42', 'Write up [[Postmortem 42]]'));
+      expect((await sqliteManager.getWikiLinks(incident.id))).toEqual([
+        { sourceId: incident.id, target: 'Postmortem 42', targetId: null },
+      ]);
+
+      const postmortem = await sqliteManager.createMemory(note('Postmortem 42', 'Root cause'));
+      expect((await sqliteManager.getWikiLinks(incident.id))[0].targetId).toBe(postmortem.id);
+    });
+
+    it('treats links to trashed memories as dangling and forgets purged ones', async () => {
+      const target = await sqliteManager.createMemory(note('Deploy runbook', 'Steps'));
+      const source = await sqliteManager.createMemory(note('Incident 42', 'See [[Deploy runbook]]'));
+
+      await sqliteManager.deleteMemory(target.id);
+      expect((await sqliteManager.getWikiLinks(source.id))[0].targetId).toBeNull();
+      expect(await sqliteManager.getAllWikiLinks()).toEqual([]);
+
+      await sqliteManager.restoreMemory(target.id);
+      expect((await sqliteManager.getWikiLinks(source.id))[0].targetId).toBe(target.id);
+
+      await sqliteManager.deleteMemory(target.id);
+      await sqliteManager.purgeMemory(target.id);
+      const replacement = await sqliteManager.createMemory(note('Deploy runbook', 'New steps'));
+      expect((await sqliteManager.getWikiLinks(source.id))[0].targetId).toBe(replacement.id);
+    });
+
+    it('rewrites references when the target is renamed', async () => {
+      const target = await sqliteManager.createMemory(note('Deploy runbook', 'Steps'));
+      const source = await sqliteManager.createMemory(
+        note('Incident 42', 'See [[Deploy runbook]], [[deploy runbook|the runbook]] and [[' + target.id + ']]')
+      );
+
+      await sqliteManager.updateMemory(target.id, { title: 'Release runbook' });
+
+      const updated = await sqliteManager.getMemory(source.id);
+      expect(updated?.content).toBe(
+        'See [[Release runbook]], [[Release runbook|the runbook]] and [[' + target.id + ']]'
+      );
+      expect((await sqliteManager.getRevisions(source.id))).toHaveLength(2);
+      expect((await sqliteManager.getWikiLinks(source.id)).every(link => link.targetId === target.id)).toBe(true);
+    });
+
+    it('drops links that a save removes and ignores self references', async () => {
+      const target = await sqliteManager.createMemory(note('Deploy runbook', 'Steps'));
+      const source = await sqliteManager.createMemory(note('Incident 42', 'See [[Deploy runbook]] and [[Incident 42]]'));
+      expect(await sqliteManager.getWikiLinks(source.id)).toHaveLength(1);
+
+      await sqliteManager.updateMemory(source.id, { content: 'No links any more' });
+      expect(await sqliteManager.getWikiLinks(source.id)).toEqual([]);
+      expect(await sqliteManager.getMentions(target.id)).toEqual([]);
+    });
+
+    it('suggests titles for completion, prefix matches first', async () => {
+      await sqliteManager.createMemory(note('Blue/green deploy', 'Steps'));
+      await sqliteManager.createMemory(note('Deploy runbook', 'Steps'));
+      await sqliteManager.createMemory(note('100% coverage', 'Steps'));
+
+      expect((await sqliteManager.suggestTitles('deploy')).map(s => s.title)).toEqual(['Deploy runbook', 'Blue/green deploy']);
+      expect((await sqliteManager.suggestTitles('%')).map(s => s.title)).toEqual(['100% coverage']);
+    });
+  });
+
+  describe('Tags', () => {
+    const tagged = (title: string, tags: string[]) => ({
+      title,
+      content: `${title} notes`,
+      type: MemoryType.NOTE,
+      tags,
+      metadata: {}
+    });
+
+    it('matches tags exactly, with any or all semantics', async () => {
+      const cluster = await sqliteManager.createMemory(tagged('Cluster upgrade', ['k8s', 'ops']));
+      const prod = await sqliteManager.createMemory(tagged('Prod rollout', ['k8s-prod', 'ops']));
+
+      expect((await sqliteManager.getMemoriesByTags(['k8s'])).map(m => m.id)).toEqual([cluster.id]);
+      expect((await sqliteManager.getMemoriesByTags(['k8s', 'k8s-prod'])).map(m => m.id).sort())
+        .toEqual([cluster.id, prod.id].sort());
+      expect((await sqliteManager.getMemoriesByTags(['k8s-prod', 'ops'], 50, 0, 'all')).map(m => m.id))
+        .toEqual([prod.id]);
+    });
+
+    it('counts tag usage and drops tags no live memory uses', async () => {
+      const first = await sqliteManager.createMemory(tagged('First', ['ops', 'draft']));
+      await sqliteManager.createMemory(tagged('Second', ['ops']));
+      await sqliteManager.updateMemory(first.id, { tags: ['ops'] });
+
+      expect(await sqliteManager.getTagUsage()).toEqual([{ name: 'ops', color: undefined, count: 2 }]);
+
+      await sqliteManager.deleteMemory(first.id);
+      expect((await sqliteManager.getTagUsage())[0].count).toBe(1);
+    });
+
+    it('renames a tag on every memory, trashed ones included', async () => {
+      const live = await sqliteManager.createMemory(tagged('Live', ['k8s', 'ops']));
+      const trashed = await sqliteManager.createMemory(tagged('Trashed', ['k8s']));
+      await sqliteManager.deleteMemory(trashed.id);
+
+      const rewritten = await sqliteManager.renameTag('k8s', 'kubernetes');
+
+      expect(rewritten.map(m => m.id).sort()).toEqual([live.id, trashed.id].sort());
+      expect((await sqliteManager.getMemory(live.id))!.tags).toEqual(['kubernetes', 'ops']);
+      expect((await sqliteManager.restoreMemory(trashed.id))!.tags).toEqual(['kubernetes']);
+      expect(await sqliteManager.getAllTags()).toEqual(['kubernetes', 'ops']);
+      expect((await sqliteManager.getRevisions(live.id))[0].tags).toEqual(['kubernetes', 'ops']);
+    });
+
+    it('merges tags without duplicating them on a memory', async () => {
+      const both = await sqliteManager.createMemory(tagged('Both', ['k8s', 'kubernetes']));
+      await sqliteManager.createMemory(tagged('Short', ['kube']));
+
+      await sqliteManager.mergeTags(['k8s', 'kube'], 'kubernetes');
+
+      expect((await sqliteManager.getMemory(both.id))!.tags).toEqual(['kubernetes']);
+      expect(await sqliteManager.getTagUsage()).toEqual([{ name: 'kubernetes', color: undefined, count: 2 }]);
+      await expect(sqliteManager.mergeTags(['kubernetes'], '  ')).rejects.toThrow('Tag name cannot be empty');
+    });
+
+    it('keeps colors, carrying them over on rename', async () => {
+      await sqliteManager.createMemory(tagged('Incident', ['incident']));
+      expect(await sqliteManager.setTagColor('incident', '#dc2626')).toBe(true);
+      expect(await sqliteManager.setTagColor('missing', '#000000')).toBe(false);
+
+      await sqliteManager.renameTag('incident', 'outage');
+      expect(await sqliteManager.getTagUsage()).toEqual([{ name: 'outage', color: '#dc2626', count: 1 }]);
+    });
+  });
+
+  describe('Hierarchical Tags', () => {
+    const tagged = (title: string, tags: string[]) => ({
+      title,
+      content: `${title} notes`,
+      type: MemoryType.NOTE,
+      tags,
+      metadata: {}
+    });
+
+    it('includes nested tags when filtering by a parent', async () => {
+      const ingress = await sqliteManager.createMemory(tagged('Ingress timeouts', ['infra/k8s/ingress']));
+      const infra = await sqliteManager.createMemory(tagged('Infra overview', ['infra']));
+      await sqliteManager.createMemory(tagged('Infrastructure budget', ['infrastructure', 'Infra/k8s']));
+
+      expect((await sqliteManager.getMemoriesByTags(['infra'])).map(m => m.id).sort()).toEqual([ingress.id, infra.id].sort());
+      expect((await sqliteManager.getMemoriesByTags(['infra/k8s'])).map(m => m.id)).toEqual([ingress.id]);
+      expect((await sqliteManager.filterMemories({ excludeTags: ['infra'] })).map(m => m.title)).toEqual(['Infrastructure budget']);
+    });
+
+    it('builds the tag tree with rolled-up counts', async () => {
+      await sqliteManager.createMemory(tagged('Cluster', ['infra/k8s', 'infra/aws']));
+      await sqliteManager.createMemory(tagged('Payments', ['team/payments']));
+
+      const tree = await sqliteManager.getTagTree();
+      expect(tree.map(node => [node.name, node.count])).toEqual([['infra', 1], ['team', 1]]);
+      expect(tree[0].children.map(node => node.label)).toEqual(['aws', 'k8s']);
+    });
+
+    it('renames a whole subtree and refuses to move a tag under itself', async () => {
+      const memory = await sqliteManager.createMemory(tagged('Ingress', ['infra/k8s', 'infra/k8s/ingress', 'team/payments']));
+      await sqliteManager.setTagColor('infra/k8s/ingress', '#16a34a');
+
+      await sqliteManager.renameTag('infra/k8s', 'platform/kubernetes');
+
+      expect((await sqliteManager.getMemory(memory.id))!.tags)
+        .toEqual(['platform/kubernetes', 'platform/kubernetes/ingress', 'team/payments']);
+      expect(await sqliteManager.getTagUsage()).toEqual([
+        { name: 'platform/kubernetes', color: undefined, count: 1 },
+        { name: 'platform/kubernetes/ingress', color: '#16a34a', count: 1 },
+        { name: 'team/payments', color: undefined, count: 1 },
+      ]);
+      await expect(sqliteManager.renameTag('platform', 'platform/old')).rejects.toThrow('Cannot move "platform" under itself');
+    });
+
+    it('colors parent tags that only exist through their children', async () => {
+      await sqliteManager.createMemory(tagged('Ingress', ['infra/k8s']));
+
+      expect(await sqliteManager.setTagColor('infra', '#dc2626')).toBe(true);
+      expect((await sqliteManager.getTagTree())[0].color).toBe('#dc2626');
+      expect(await sqliteManager.setTagColor('inf', '#dc2626')).toBe(false);
+    });
+  });
+
+  describe('Projects', () => {
+    const captured = (title: string, metadata: MemoryMetadata, type = MemoryType.NOTE) => ({
+      title,
+      content: `${title} notes`,
+      type,
+      tags: [],
+      metadata
+    });
+
+    it('creates, renames and validates projects', async () => {
+      const billing = await sqliteManager.createProject({ name: ' Billing ', repository: 'github.com/acme/billing' });
+      expect(billing.name).toBe('Billing');
+
+      await expect(sqliteManager.createProject({ name: 'billing' })).rejects.toThrow('A project named "billing" already exists');
+      await expect(sqliteManager.createProject({ name: '  ' })).rejects.toThrow('Project name cannot be empty');
+
+      const renamed = await sqliteManager.updateProject(billing.id, { name: 'Billing API', repository: '' });
+      expect(renamed).toMatchObject({ name: 'Billing API', repository: undefined });
+      expect((await sqliteManager.getProjects()).map(p => [p.name, p.memoryCount])).toEqual([['Billing API', 0]]);
+      expect(await sqliteManager.updateProject('missing', { name: 'x' })).toBeNull();
+    });
+
+    it('assigns memories by project name, repository and path', async () => {
+      const billing = await sqliteManager.createProject({ name: 'Billing', repository: 'https://github.com/acme/billing.git' });
+      const web = await sqliteManager.createProject({ name: 'Web', path: '/src/acme' });
+      const checkout = await sqliteManager.createProject({ name: 'Checkout', path: '/src/acme/checkout/' });
+
+      const byName = await sqliteManager.createMemory(captured('Named', { project: 'billing' }));
+      const byRepository = await sqliteManager.createMemory(captured('Cloned', { repository: 'git@github.com:acme/billing' }));
+      const byFile = await sqliteManager.createMemory(captured('File', { fullPath: '/src/acme/checkout/cart.ts' }));
+      const byWorkspace = await sqliteManager.createMemory(captured('Workspace', { workspaceFolder: '/src/acme' }));
+      const unmatched = await sqliteManager.createMemory(captured('Elsewhere', { fullPath: '/src/acme-old/app.ts' }));
+
+      expect(byName.projectId).toBe(billing.id);
+      expect(byRepository.projectId).toBe(billing.id);
+      expect(byFile.projectId).toBe(checkout.id);
+      expect(byWorkspace.projectId).toBe(web.id);
+      expect(unmatched.projectId).toBeUndefined();
+    });
+
+    it('assigns existing memories when a matching project is registered', async () => {
+      const memory = await sqliteManager.createMemory(captured('Cart bug', { filePath: '/src/shop/cart.ts' }));
+
+      const shop = await sqliteManager.createProject({ name: 'Shop', path: '/src/shop' });
+      const assigned = await sqliteManager.assignUnresolvedMemories();
+
+      expect(assigned.map(m => m.id)).toEqual([memory.id]);
+      expect((await sqliteManager.getMemory(memory.id))!.projectId).toBe(shop.id);
+      expect(await sqliteManager.assignUnresolvedMemories()).toEqual([]);
+    });
+
+    it('scopes listings and filters to a project', async () => {
+      const shop = await sqliteManager.createProject({ name: 'Shop' });
+      const inShop = await sqliteManager.createMemory({ ...captured('Cart', { project: 'Shop' }), tags: ['infra'] });
+      await sqliteManager.createMemory({ ...captured('Other', {}), tags: ['infra'] });
+
+      expect((await sqliteManager.getRecentMemories(10, shop.id)).map(m => m.id)).toEqual([inShop.id]);
+      expect((await sqliteManager.getMemoriesByTags(['infra'], 10, 0, 'any', shop.id)).map(m => m.id)).toEqual([inShop.id]);
+      expect((await sqliteManager.filterMemories({ projectId: shop.id })).map(m => m.id)).toEqual([inShop.id]);
+    });
+
+    it('summarizes a project on its dashboard', async () => {
+      const shop = await sqliteManager.createProject({ name: 'Shop' });
+      await sqliteManager.createMemory(captured('Use Postgres', { project: 'Shop' }, MemoryType.DECISION));
+      const open = await sqliteManager.createMemory(captured('Flaky checkout', { project: 'Shop' }, MemoryType.DEBUG_SESSION));
+      await sqliteManager.createMemory(captured('Fixed login', { project: 'Shop', status: 'Resolved' }, MemoryType.DEBUG_SESSION));
+      await sqliteManager.createMemory(captured('Old crash', { project: 'Shop', resolved: true }, MemoryType.DEBUG_SESSION));
+
+      const dashboard = await sqliteManager.getProjectDashboard(shop.id);
+
+      expect(dashboard!.memoryCount).toBe(4);
+      expect(dashboard!.countsByType).toEqual({ [MemoryType.DECISION]: 1, [MemoryType.DEBUG_SESSION]: 3 });
+      expect(dashboard!.recentDecisions.map(m => m.title)).toEqual(['Use Postgres']);
+      expect(dashboard!.openDebugSessions.map(m => m.id)).toEqual([open.id]);
+    });
+
+    it('takes memories out of a project on request or when their metadata stops naming it', async () => {
+      const shop = await sqliteManager.createProject({ name: 'Shop' });
+      const named = await sqliteManager.createMemory(captured('Cart', { project: 'Shop' }));
+      const assigned = await sqliteManager.createMemory(captured('Checkout', {}));
+      await sqliteManager.updateMemory(assigned.id, { projectId: shop.id });
+
+      expect((await sqliteManager.updateMemory(named.id, { metadata: {} }))!.projectId).toBeUndefined();
+      // Assigned by hand, so other metadata changes leave it in place
+      expect((await sqliteManager.updateMemory(assigned.id, { metadata: { source: 'ide' } }))!.projectId).toBe(shop.id);
+      expect((await sqliteManager.updateMemory(assigned.id, { title: 'Checkout flow' }))!.projectId).toBe(shop.id);
+      expect((await sqliteManager.updateMemory(assigned.id, { projectId: null }))!.projectId).toBeUndefined();
+      expect((await sqliteManager.getMemory(assigned.id))!.projectId).toBeUndefined();
+    });
+
+    it('keeps memories without a project when their project is deleted', async () => {
+      const shop = await sqliteManager.createProject({ name: 'Shop' });
+      const memory = await sqliteManager.createMemory(captured('Cart', { project: 'Shop' }));
+
+      expect(await sqliteManager.deleteProject(shop.id)).toBe(true);
+      expect((await sqliteManager.getMemory(memory.id))!.projectId).toBeUndefined();
+      expect(await sqliteManager.getProjects()).toEqual([]);
+      expect(await sqliteManager.deleteProject(shop.id)).toBe(false);
+    });
+  });
+
   describe('Error Handling', () => {
     it('handles database connection errors gracefully', () => {
       // Try to create SQLiteManager with invalid path
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteManager } from '../../shared/database/sqlite';
+import {
+  VaultData,
+  createVaultBundle,
+  parseVaultBundle,
+  readVaultBundle,
+  writeVaultBundle,
+} from '../../shared/database/vault-bundle';
+import { MemoryType } from '../../shared/types';
+
+describe('Vault export and import', () => {
+  let source: SQLiteManager;
+  let target: SQLiteManager;
+
+  const memory = (title: string, content: string, tags: string[] = []) => ({
+    title,
+    content,
+    type: MemoryType.NOTE,
+    tags,
+    metadata: {},
+  });
+
+  const exportFrom = async (manager: SQLiteManager): Promise<VaultData> =>
+    // Round-trip through JSON like a bundle file does
+    parseVaultBundle(JSON.parse(JSON.stringify(createVaultBundle(await manager.exportVaultData()))));
+
+  beforeEach(() => {
+    source = new SQLiteManager(':memory:');
+    target = new SQLiteManager(':memory:');
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+  });
+
+  it('carries memories, trash, tags, projects, links and revisions', async () => {
+    const project = await source.createProject({ name: 'DevMemory', path: '/src/devmemory' });
+    const cache = await source.createMemory({ ...memory('Cache design', 'Use an LRU', ['infra/cache']), projectId: project.id });
+    const incident = await source.createMemory(memory('Cache incident', 'See [[Cache design]]'));
+    await source.updateMemory(cache.id, { content: 'Use an LRU with a TTL' });
+    await source.createLink(incident.id, cache.id, 'caused-by');
+    await source.setTagColor('infra/cache', '#ff0000');
+    const trashed = await source.createMemory(memory('Old note', 'Obsolete'));
+    await source.deleteMemory(trashed.id);
+
+    const result = await target.importVaultData(await exportFrom(source), { mode: 'merge', conflict: 'newer' });
+
+    expect(result.summary.memories).toEqual({ added: 3, updated: 0, copied: 0, skipped: 0 });
+    expect(result.summary.projects.added).toBe(1);
+    expect(result.summary.links).toBe(1);
+    expect((await target.getMemory(cache.id))?.projectId).toBe(project.id);
+    expect((await target.getRevisions(cache.id)).map(revision => revision.content))
+      .toEqual(['Use an LRU with a TTL', 'Use an LRU']);
+    expect((await target.getTrashedMemories()).map(m => m.id)).toEqual([trashed.id]);
+    expect(await target.getTagUsage()).toEqual([{ name: 'infra/cache', color: '#ff0000', count: 1 }]);
+    expect((await target.getLinks(incident.id)).outgoing[0].memory.id).toBe(cache.id);
+    expect((await target.getWikiLinks(incident.id))[0].targetId).toBe(cache.id);
+  });
+
+  it('skips unchanged memories when the same export is imported twice', async () => {
+    await source.createMemory(memory('Runbook', 'Restart the worker'));
+    const data = await exportFrom(source);
+
+    await target.importVaultData(data, { mode: 'merge', conflict: 'keep-both' });
+    const again = await target.importVaultData(data, { mode: 'merge', conflict: 'keep-both' });
+
+    expect(again.summary.memories).toEqual({ added: 0, updated: 0, copied: 0, skipped: 1 });
+    expect(again.summary.conflicts).toBe(0);
+    expect(await target.getMemoryCount()).toBe(1);
+  });
+
+  describe('id conflicts', () => {
+    let localId: string;
+    let data: VaultData;
+
+    beforeEach(async () => {
+      const original = await source.createMemory(memory('Deploy steps', 'v1'));
+      await target.importVaultData(await exportFrom(source), { mode: 'merge', conflict: 'newer' });
+      localId = original.id;
+
+      const other = await source.createMemory(memory('Rollback', 'Undo a deploy'));
+      await source.createLink(other.id, original.id, 'references');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await source.updateMemory(original.id, { content: 'v2 from the other machine' });
+      data = await exportFrom(source);
+    });
+
+    it('takes the newer version by default', async () => {
+      const result = await target.importVaultData(data, { mode: 'merge', conflict: 'newer' });
+
+      expect(result.summary.conflicts).toBe(1);
+      expect(result.summary.memories).toMatchObject({ added: 1, updated: 1 });
+      expect((await target.getMemory(localId))?.content).toBe('v2 from the other machine');
+      // The imported state is added on top of the local history
+      expect(await target.getRevisions(localId)).toHaveLength(2);
+    });
+
+    it('keeps the local version when asked to', async () => {
+      const result = await target.importVaultData(data, { mode: 'merge', conflict: 'keep-existing' });
+
+      expect(result.summary.memories).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+      expect((await target.getMemory(localId))?.content).toBe('v1');
+    });
+
+    it('imports a copy with a new id and points the imported links at it', async () => {
+      const result = await target.importVaultData(data, { mode: 'merge', conflict: 'keep-both' });
+      const copyId = result.idMap.get(localId)!;
+
+      expect(copyId).not.toBe(localId);
+      expect((await target.getMemory(localId))?.content).toBe('v1');
+      expect((await target.getMemory(copyId))?.content).toBe('v2 from the other machine');
+      expect((await target.getLinks(copyId)).incoming).toHaveLength(1);
+      expect((await target.getLinks(localId)).incoming).toHaveLength(0);
+    });
+  });
+
+  it('changes nothing on a dry run', async () => {
+    await source.createMemory(memory('New idea', 'Try it'));
+    await target.createMemory(memory('Local only', 'Stays'));
+
+    const result = await target.importVaultData(await exportFrom(source), { mode: 'replace', conflict: 'newer', dryRun: true });
+
+    expect(result.summary).toMatchObject({ dryRun: true, removed: 1, memories: { added: 1 } });
+    expect((await target.getAllMemories()).map(m => m.title)).toEqual(['Local only']);
+  });
+
+  it('empties the vault before a replace', async () => {
+    await source.createMemory(memory('Imported', 'From the export'));
+    await target.createMemory(memory('Local only', 'Goes away'));
+    await target.createProject({ name: 'Local project' });
+
+    const result = await target.importVaultData(await exportFrom(source), { mode: 'replace', conflict: 'newer' });
+
+    expect(result.removedIds).toHaveLength(1);
+    expect((await target.getAllMemories()).map(m => m.title)).toEqual(['Imported']);
+    expect(await target.getProjects()).toEqual([]);
+  });
+
+  it('maps a project to the local one with the same name', async () => {
+    const exported = await source.createProject({ name: 'Payments' });
+    await source.createMemory({ ...memory('Refund flow', 'Two steps'), projectId: exported.id });
+    const local = await target.createProject({ name: 'payments' });
+
+    const result = await target.importVaultData(await exportFrom(source), { mode: 'merge', conflict: 'newer' });
+
+    expect(result.summary.projects).toEqual({ added: 0, updated: 0, skipped: 1 });
+    expect(result.memories[0].projectId).toBe(local.id);
+  });
+
+  describe('bundle files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bundle-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes a compressed bundle and reads it back with its embeddings', async () => {
+      const created = await source.createMemory(memory('Indexed', 'Has a vector'));
+      const filePath = path.join(dir, 'vault.devmemory');
+      const embeddings = [{ memoryId: created.id, model: 'test-model', embedding: [0.6, 0.8] }];
+
+      await writeVaultBundle(filePath, createVaultBundle(await source.exportVaultData(), { vaultName: 'Work', embeddings }));
+      const bundle = await readVaultBundle(filePath);
+
+      expect(fs.readFileSync(filePath).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+      expect(bundle.vaultName).toBe('Work');
+      expect(bundle.memories[0].createdAt).toEqual(created.createdAt);
+      expect(bundle.embeddings).toEqual(embeddings);
+    });
+
+    it('rejects files that are not vault exports', async () => {
+      const filePath = path.join(dir, 'notes.json');
+      fs.writeFileSync(filePath, '{"memories": []}');
+
+      await expect(readVaultBundle(filePath)).rejects.toThrow('This file is not a DevMemory vault export');
+      expect(() => parseVaultBundle({ format: 'devmemory-vault', version: 99 }))
+        .toThrow('This export was made by a newer version of DevMemory (format 99)');
+      expect(() => parseVaultBundle({ format: 'devmemory-vault', version: 1, memories: [{ id: 'x' }] }))
+        .toThrow('The export is damaged: memory 1 has no title');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import * as path from 'path';
+import { DEFAULT_VAULT_ID, VaultRegistry, VaultStorage } from '../../shared/database/vault-registry';
+
+const DATA_DIR = path.join('/data', 'devmemory');
+
+describe('VaultRegistry', () => {
+  let values: Map<string, unknown>;
+  let registry: VaultRegistry;
+
+  beforeEach(() => {
+    values = new Map();
+    const storage: VaultStorage = {
+      get: key => values.get(key),
+      set: (key, value) => values.set(key, JSON.parse(JSON.stringify(value))),
+    };
+    registry = new VaultRegistry(storage, DATA_DIR);
+  });
+
+  it('starts with a default vault on the existing database files', () => {
+    expect(registry.list()).toEqual([{
+      id: DEFAULT_VAULT_ID,
+      name: 'Default',
+      sqlitePath: path.join(DATA_DIR, 'devmemory.db'),
+      vectorPath: path.join(DATA_DIR, 'vector-data.json'),
+      createdAt: new Date(0),
+    }]);
+    expect(registry.getActive().id).toBe(DEFAULT_VAULT_ID);
+  });
+
+  it('gives each new vault its own folder', () => {
+    const work = registry.create(' Client X ');
+    const other = registry.create('client-x!');
+
+    expect(work.name).toBe('Client X');
+    expect(work.sqlitePath).toBe(path.join(DATA_DIR, 'vaults', 'client-x', 'devmemory.db'));
+    expect(work.vectorPath).toBe(path.join(DATA_DIR, 'vaults', 'client-x', 'vector-data.json'));
+    expect(path.dirname(other.sqlitePath)).toBe(path.join(DATA_DIR, 'vaults', 'client-x-2'));
+    expect(registry.list().map(vault => vault.name)).toEqual(['Default', 'Client X', 'client-x!']);
+  });
+
+  it('rejects empty and duplicate names', () => {
+    const work = registry.create('Work');
+
+    expect(() => registry.create('  ')).toThrow('Vault name cannot be empty');
+    expect(() => registry.create('work')).toThrow('A vault named "work" already exists');
+    expect(() => registry.rename(DEFAULT_VAULT_ID, 'WORK')).toThrow('A vault named "WORK" already exists');
+    expect(registry.rename(work.id, 'Office')?.name).toBe('Office');
+    expect(registry.rename('missing', 'Anything')).toBeNull();
+  });
+
+  it('remembers the active vault and refuses to remove it', () => {
+    const personal = registry.create('Personal');
+    registry.setActive(personal.id);
+
+    expect(registry.getActive().id).toBe(personal.id);
+    expect(() => registry.remove(personal.id)).toThrow('Switch to another vault before removing this one');
+    expect(() => registry.setActive('missing')).toThrow('Vault not found');
+
+    registry.setActive(DEFAULT_VAULT_ID);
+    expect(registry.remove(personal.id)).toBe(true);
+    expect(registry.remove(personal.id)).toBe(false);
+    expect(registry.list().map(vault => vault.id)).toEqual([DEFAULT_VAULT_ID]);
+  });
+
+  it('records a new location for a vault', () => {
+    const location = { sqlitePath: '/mnt/sync/devmemory.db', vectorPath: '/mnt/sync/vector-data.json' };
+
+    expect(registry.relocate(DEFAULT_VAULT_ID, location)).toMatchObject({ id: DEFAULT_VAULT_ID, ...location });
+    expect(registry.getActive()).toMatchObject(location);
+    expect(registry.relocate('missing', location)).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VectorStore, VectorStoreOptions } from '../../shared/database/vector-store';
+import { LEGACY_BACKUP_SUFFIX } from '../../shared/database/vector-storage';
+import { isSQLiteFile } from '../../shared/database/relocation';
+import { Memory, MemoryType } from '../../shared/types';
+
+describe('Vector storage', () => {
+  let dir: string;
+  let file: string;
+  let stores: VectorStore[];
+
+  const legacyDocument = (id: string) => ({
+    id,
+    content: `Title ${id}\n\nBody\n\nTags: ops`,
+    embedding: [0.1, -0.25, 0.5],
+    model: 'amazon.titan-embed-text-v1',
+    metadata: { title: `Title ${id}`, type: 'note', tags: ['ops'], createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+  });
+
+  const memory: Memory = {
+    id: 'memory-1',
+    title: 'Runbook',
+    content: 'Restart the worker',
+    type: MemoryType.NOTE,
+    tags: ['ops'],
+    metadata: {},
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+
+  const open = async (options?: VectorStoreOptions) => {
+    const store = new VectorStore(file, options);
+    await store.initialize();
+    stores.push(store);
+    return store;
+  };
+
+  const savedNodes = () => {
+    const db = new Database(file, { readonly: true });
+    try {
+      return (db.prepare('SELECT id FROM index_nodes').all() as Array<{ id: string }>).map(row => row.id).sort();
+    } finally {
+      db.close();
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-vector-storage-'));
+    file = path.join(dir, 'vector-data.json');
+    stores = [];
+  });
+
+  afterEach(async () => {
+    for (const store of stores) {
+      await store.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('converts a vector file written as a bare array', async () => {
+    const json = JSON.stringify([legacyDocument('a'), legacyDocument('b')], null, 2);
+    fs.writeFileSync(file, json);
+
+    const store = await open();
+
+    expect(isSQLiteFile(file)).toBe(true);
+    expect(fs.readFileSync(`${file}${LEGACY_BACKUP_SUFFIX}`, 'utf-8')).toBe(json);
+    expect((await store.getIndexedDocuments()).map(document => document.memoryId).sort()).toEqual(['a', 'b']);
+    const [embedding] = await store.getEmbeddings();
+    expect(embedding.model).toBe('amazon.titan-embed-text-v1');
+    [0.1, -0.25, 0.5].forEach((value, i) => expect(embedding.embedding[i]).toBeCloseTo(value, 6));
+  });
+
+  it('converts a vector file with an embeddings list, skipping broken entries', async () => {
+    fs.writeFileSync(file, JSON.stringify({
+      version: '1.0',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      embeddings: [legacyDocument('a'), { id: 'no-embedding', content: 'x', metadata: {} }],
+    }));
+
+    const store = await open();
+
+    expect((await store.getCollectionInfo()).count).toBe(1);
+  });
+
+  it('keeps an unreadable vector file aside and starts empty', async () => {
+    fs.writeFileSync(file, '{"embeddings": [');
+
+    const store = await open();
+
+    expect((await store.getCollectionInfo()).count).toBe(0);
+    expect(fs.readFileSync(`${file}${LEGACY_BACKUP_SUFFIX}`, 'utf-8')).toBe('{"embeddings": [');
+  });
+
+  it('writes each change to disk as it happens', async () => {
+    const store = await open();
+    await store.addMemory(memory);
+    await store.addMemory({ ...memory, id: 'memory-2' });
+    await store.setDeleted(memory.id, new Date('2026-02-01T00:00:00.000Z'));
+    await store.setProject(memory.id, 'project-1');
+    await store.deleteMemory('memory-2');
+
+    // A second store on the same file sees everything without a save or close
+    const reopened = await open();
+
+    expect(await reopened.getIndexedDocuments()).toEqual([{
+      memoryId: memory.id,
+      contentHash: store.getContentHash(memory),
+      deleted: true,
+      projectId: 'project-1',
+    }]);
+    expect(fs.existsSync(`${file}${LEGACY_BACKUP_SUFFIX}`)).toBe(false);
+  });
+
+  it('empties the file on reset', async () => {
+    const store = await open();
+    await store.addMemory(memory);
+
+    await store.resetCollection();
+
+    expect((await (await open()).getCollectionInfo()).count).toBe(0);
+  });
+
+  it('saves the search index with the documents and searches through it once reopened', async () => {
+    const store = await open();
+    const titles = ['Restart the worker', 'Rotate the keys', 'Release checklist', 'Worker memory leak'];
+    for (const [i, title] of titles.entries()) {
+      await store.addMemory({ ...memory, id: `memory-${i}`, title });
+    }
+    await store.deleteMemory('memory-1');
+    expect(savedNodes()).toEqual(['memory-0', 'memory-2', 'memory-3']);
+
+    const indexed = await open({ exactSearchLimit: 0 });
+
+    const expected = await store.searchSimilar('worker', 3, 0);
+    const results = await indexed.searchSimilar('worker', 3, 0);
+    expect(results.map(result => result.memoryId)).toEqual(expected.map(result => result.memoryId));
+    // The index compares Float32 vectors
+    results.forEach((result, i) => expect(result.similarity).toBeCloseTo(expected[i].similarity, 6));
+  });
+
+  describe('long memories', () => {
+    // Ten filler sections, then the one searched for, well past what one embedding request takes
+    const longMemory: Memory = {
+      ...memory,
+      id: 'memory-long',
+      title: 'Platform handbook',
+      content: [
+        ...Array.from({ length: 10 }, (_, i) =>
+          `## Topic ${i}\n\n${Array.from({ length: 25 }, (_, j) => `Filler sentence ${j} about topic number ${i}.`).join(' ')}`),
+        '## Certificates\n\nRotate the ingress certificate before it expires and reload the ingress controller.',
+      ].join('\n\n'),
+    };
+
+    it('finds a memory by its best chunk and reports where that chunk is', async () => {
+      const store = await open();
+      await store.addMemory(longMemory);
+      await store.addMemory(memory);
+
+      const results = await store.searchSimilar('rotate the ingress certificate', 5, 0);
+
+      expect(longMemory.content.length).toBeGreaterThan(8000);
+      expect(results.map(result => result.memoryId)).toEqual(['memory-long', 'memory-1']);
+      const { start, end } = results[0].chunk!;
+      expect(longMemory.content.slice(start, end)).toContain('Rotate the ingress certificate');
+      expect(results[1].chunk).toBeUndefined();
+
+      // The index holds every chunk and finds the same one
+      const indexed = await open({ exactSearchLimit: 0 });
+      expect((await indexed.searchSimilar('rotate the ingress certificate', 5, 0))[0].chunk).toEqual({ start, end });
+    });
+
+    it('drops every chunk of a deleted or shortened memory', async () => {
+      const store = await open();
+      await store.addMemory(longMemory);
+      await store.addMemory(memory);
+      expect(savedNodes().length).toBeGreaterThan(3);
+
+      await store.updateMemory({ ...longMemory, content: 'Now a short note' });
+      expect(savedNodes()).toEqual(['memory-1', 'memory-long']);
+
+      await store.deleteMemory('memory-long');
+      expect(savedNodes()).toEqual(['memory-1']);
+    });
+
+    it('keeps documents from before chunking and marks long ones stale', async () => {
+      const db = new Database(file);
+      db.exec(`
+        CREATE TABLE vectors (id TEXT PRIMARY KEY, content TEXT NOT NULL, model TEXT, dimensions INTEGER NOT NULL, embedding BLOB NOT NULL, metadata TEXT NOT NULL);
+        CREATE TABLE index_nodes (id TEXT PRIMARY KEY, level INTEGER NOT NULL, neighbors TEXT NOT NULL);
+        PRAGMA user_version = 2;
+      `);
+      const insert = db.prepare('INSERT INTO vectors VALUES (?, ?, ?, 3, ?, ?)');
+      for (const { title, content, tags, id } of [memory, longMemory]) {
+        const document = legacyDocument(id);
+        insert.run(id, `${title}\n\n${content}\n\nTags: ${tags.join(', ')}`, document.model,
+          Buffer.from(Float32Array.from(document.embedding).buffer), JSON.stringify(document.metadata));
+      }
+      db.close();
+
+      const store = await open();
+
+      const hashes = new Map((await store.getIndexedDocuments()).map(document => [document.memoryId, document.contentHash]));
+      expect(hashes.get(memory.id)).toBe(store.getContentHash(memory));
+      expect(hashes.get(longMemory.id)).not.toBe(store.getContentHash(longMemory));
+      expect(await store.indexMemory(memory)).toBe(false);
+      expect(await store.indexMemory(longMemory)).toBe(true);
+      expect(savedNodes().filter(id => id.startsWith('memory-long#')).length).toBeGreaterThan(0);
+    });
+  });
+
+  it('indexes the documents of a converted file in the background', async () => {
+    fs.writeFileSync(file, JSON.stringify([legacyDocument('a'), legacyDocument('b')]));
+
+    await open();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(savedNodes()).toEqual(['a', 'b']);
+  });
+});
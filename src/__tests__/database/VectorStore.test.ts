@@ -203,6 +203,28 @@ describe('VectorStore', () => {
       fs.unlinkSync(emptyVectorPath);
     });
 
+    it('pre-filters documents by metadata', async () => {
+      const results = await vectorStore.searchSimilar('error handling', 5, 0, {
+        type: MemoryType.CODE_SNIPPET,
+        language: 'Python',
+      });
+
+      expect(results.map(r => r.memoryId)).toEqual(['python-1']);
+
+      const byTag = await vectorStore.searchSimilar('database', 5, 0, { tags: ['sql', 'performance'] });
+      expect(byTag.map(r => r.memoryId)).toEqual(['database-1']);
+    });
+
+    it('skips trashed documents until they are restored', async () => {
+      await vectorStore.setDeleted('database-1', new Date());
+      const whileTrashed = await vectorStore.searchSimilar('database', 5, 0);
+      expect(whileTrashed.map(r => r.memoryId)).not.toContain('database-1');
+
+      await vectorStore.setDeleted('database-1', null);
+      const afterRestore = await vectorStore.searchSimilar('database', 5, 0);
+      expect(afterRestore.map(r => r.memoryId)).toContain('database-1');
+    });
+
     it('handles special characters in search queries', async () => {
       const results = await vectorStore.searchSimilar('React & hooks @#$%', 5, 0.1);
       expect(Array.isArray(results)).toBe(true);
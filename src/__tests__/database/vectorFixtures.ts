@@ -0,0 +1,40 @@
+// Seeded so every run builds the same data set
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+}
+
+/**
+ * Returns a factory of vectors scattered around `topics` random points, the
+ * way embeddings of related notes are. Vector `i` lies near topic
+ * `i % topics`, `spread` times a normal deviate away on each axis.
+ */
+export function createTopicVectors({ seed, dimensions, topics, spread }: {
+  seed: number;
+  dimensions: number;
+  topics: number;
+  spread: number;
+}): (i: number) => number[] {
+  const random = createRandom(seed);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const centres = Array.from({ length: topics }, () => Array.from({ length: dimensions }, gaussian));
+  return i => centres[i % centres.length].map(value => value + spread * gaussian());
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+// Share of the expected ids found, over all queries
+export function recall(expected: string[][], actual: string[][]): number {
+  return expected.reduce((found, ids, i) => found + ids.filter(id => actual[i].includes(id)).length, 0) /
+    expected.reduce((total, ids) => total + ids.length, 0);
+}
@@ -11,13 +11,72 @@ const mockElectronAPI = {
   getMemory: jest.fn(),
   updateMemory: jest.fn(),
   deleteMemory: jest.fn(),
+  getRevisions: jest.fn(),
+  restoreRevision: jest.fn(),
+  getLinks: jest.fn(),
+  getAllLinks: jest.fn(),
+  getAllWikiLinks: jest.fn(),
+  suggestTitles: jest.fn(),
+  createLink: jest.fn(),
+  updateLink: jest.fn(),
+  deleteLink: jest.fn(),
   searchMemories: jest.fn(),
+  search: jest.fn(),
   getMemoriesByType: jest.fn(),
   getMemoriesByTags: jest.fn(),
   getRecentMemories: jest.fn(),
   getAllMemories: jest.fn(),
   getMemoryCount: jest.fn(),
   getAllTags: jest.fn(),
+  getTagUsage: jest.fn(),
+  getTagTree: jest.fn(),
+  setTagColor: jest.fn(),
+  renameTag: jest.fn(),
+  mergeTags: jest.fn(),
+  getSavedSearches: jest.fn(),
+  createSavedSearch: jest.fn(),
+  updateSavedSearch: jest.fn(),
+  deleteSavedSearch: jest.fn(),
+  runSavedSearch: jest.fn(),
+  getProjects: jest.fn(),
+  getProjectDashboard: jest.fn(),
+  createProject: jest.fn(),
+  updateProject: jest.fn(),
+  deleteProject: jest.fn(),
+  getTrash: jest.fn(),
+  restoreMemory: jest.fn(),
+  purgeMemory: jest.fn(),
+  emptyTrash: jest.fn(),
+  getVaults: jest.fn(),
+  getActiveVault: jest.fn(),
+  createVault: jest.fn(),
+  renameVault: jest.fn(),
+  removeVault: jest.fn(),
+  switchVault: jest.fn(),
+  checkDatabaseLocation: jest.fn(),
+  relocateDatabase: jest.fn(),
+  exportVault: jest.fn(),
+  chooseVaultImport: jest.fn(),
+  importVault: jest.fn(),
+  onVaultTransferProgress: jest.fn(),
+  exportMarkdown: jest.fn(),
+  chooseMarkdownImport: jest.fn(),
+  importMarkdown: jest.fn(),
+  getMarkdownSync: jest.fn().mockResolvedValue({ config: null, conflicts: [] }),
+  chooseMarkdownSyncFolder: jest.fn(),
+  setMarkdownSync: jest.fn(),
+  syncMarkdown: jest.fn(),
+  resolveMarkdownSyncConflict: jest.fn(),
+  getIndexQueue: jest.fn().mockResolvedValue({ pending: 0, retrying: 0, failed: [] }),
+  retryFailedIndexing: jest.fn(),
+  onIndexQueueStatus: jest.fn(),
+  getConsistencyReport: jest.fn().mockResolvedValue(null),
+  checkConsistency: jest.fn(),
+  repairConsistency: jest.fn(),
+  getBackups: jest.fn().mockResolvedValue([]),
+  backUpNow: jest.fn(),
+  restoreBackup: jest.fn(),
+  chooseBackupFolder: jest.fn(),
   getAppConfig: jest.fn(),
   setAppConfig: jest.fn(),
   getAppVersion: jest.fn(),
@@ -68,6 +127,16 @@ describe('App Integration Tests', () => {
     
     // Setup default mock implementations
     mockElectronAPI.getRecentMemories.mockResolvedValue(sampleMemories);
+    mockElectronAPI.getSavedSearches.mockResolvedValue([]);
+    mockElectronAPI.getLinks.mockResolvedValue({ outgoing: [], incoming: [], wikiLinks: [], mentions: [] });
+    mockElectronAPI.getAllLinks.mockResolvedValue([]);
+    mockElectronAPI.getAllWikiLinks.mockResolvedValue([]);
+    mockElectronAPI.suggestTitles.mockResolvedValue([]);
+    mockElectronAPI.getTagUsage.mockResolvedValue([]);
+    mockElectronAPI.getTagTree.mockResolvedValue([]);
+    mockElectronAPI.getProjects.mockResolvedValue([]);
+    mockElectronAPI.getVaults.mockResolvedValue([]);
+    mockElectronAPI.getActiveVault.mockResolvedValue({ id: 'default', name: 'Default', sqlitePath: '', vectorPath: '', createdAt: new Date(0) });
     mockElectronAPI.searchMemories.mockResolvedValue(sampleMemories);
     mockElectronAPI.createMemory.mockImplementation((memory) => 
       Promise.resolve({
@@ -0,0 +1,72 @@
+import { chunkMemory, MAX_CHUNK_LENGTH } from '../../shared/utils/chunking';
+
+const paragraph = (topic: string, sentences: number) =>
+  Array.from({ length: sentences }, (_, i) => `The ${topic} step ${i} is checked before moving on.`).join(' ');
+
+describe('chunkMemory', () => {
+  it('keeps a short memory in one chunk of its whole text', () => {
+    const memory = { title: 'Runbook', content: 'Restart the worker', tags: ['ops', 'oncall'] };
+
+    expect(chunkMemory(memory)).toEqual([
+      { text: 'Runbook\n\nRestart the worker\n\nTags: ops, oncall', start: 0, end: memory.content.length },
+    ]);
+  });
+
+  it('cuts long memories at headings and repeats the headings above each chunk', () => {
+    const content = [
+      '# Deployment',
+      '## Build',
+      paragraph('build', 25),
+      '## Release',
+      paragraph('release', 10),
+      '### Rollback',
+      paragraph('rollback', 10),
+    ].join('\n\n');
+
+    const chunks = chunkMemory({ title: 'Guide', content, tags: ['ops'] });
+
+    expect(chunks.map(chunk => content.slice(chunk.start, chunk.end).split('\n')[0])).toEqual([
+      '# Deployment',
+      '## Release',
+    ]);
+    expect(chunks[1].text.startsWith('Guide\n\n# Deployment\n\n## Release\n\n')).toBe(true);
+    expect(chunks[1].text.endsWith('\n\nTags: ops')).toBe(true);
+    expect(chunks[1].text).toContain('The rollback step 9');
+  });
+
+  it('keeps code blocks whole', () => {
+    const code = ['```bash', ...Array.from({ length: 30 }, (_, i) => `kubectl rollout restart deployment/service-${i}`), '```'].join('\n');
+    const content = [paragraph('setup', 20), code, paragraph('cleanup', 20)].join('\n\n');
+
+    const chunks = chunkMemory({ title: 'Restart', content, tags: [] });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.filter(chunk => chunk.text.includes('```bash')).every(chunk => chunk.text.includes(code))).toBe(true);
+  });
+
+  it('splits long paragraphs between sentences with an overlap', () => {
+    const content = paragraph('migration', 150);
+
+    const chunks = chunkMemory({ title: 'Migration', content, tags: [] });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const [i, chunk] of chunks.entries()) {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(MAX_CHUNK_LENGTH);
+      expect(content.slice(chunk.start, chunk.end)).toMatch(/^The migration step \d+ .*\.$/s);
+      if (i > 0) {
+        expect(chunk.start).toBeLessThan(chunks[i - 1].end);
+      }
+    }
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+  });
+
+  it('cuts text without sentences at whitespace', () => {
+    const content = Array.from({ length: 1000 }, (_, i) => `token${i}`).join(' ');
+
+    const chunks = chunkMemory({ title: 'Tokens', content, tags: [] });
+
+    expect(chunks.every(chunk => chunk.end - chunk.start <= MAX_CHUNK_LENGTH)).toBe(true);
+    expect(chunks.every(chunk => /^token\d+$/.test(content.slice(chunk.start, chunk.end).split(' ').pop()!))).toBe(true);
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+  });
+});
@@ -0,0 +1,82 @@
+import { parseFrontMatter, stringifyFrontMatter } from '../../shared/utils/front-matter';
+
+describe('parseFrontMatter', () => {
+  it('returns the whole text as body when there is no front matter', () => {
+    expect(parseFrontMatter('# Title\n---\nText')).toEqual({ data: {}, body: '# Title\n---\nText' });
+    expect(parseFrontMatter('---\nnot: closed')).toEqual({ data: {}, body: '---\nnot: closed' });
+  });
+
+  it('reads scalars, lists and mappings as Obsidian writes them', () => {
+    const { data, body } = parseFrontMatter([
+      '---',
+      'title: Cache design # the working title',
+      'url: https://example.com/a:b',
+      'quoted: "line one\\nline two"',
+      "single: 'it''s'",
+      'exitCode: 0',
+      'draft: false',
+      'owner: ~',
+      'tags:',
+      '- infra/cache',
+      '- "#perf"',
+      'aliases: [LRU, cache]',
+      'extra: {"retries": 3}',
+      'links:',
+      '  repo: memoryme',
+      '  branch: main',
+      'notes: |',
+      '  first',
+      '  second',
+      '---',
+      'Body',
+    ].join('\r\n'));
+
+    expect(data).toEqual({
+      title: 'Cache design',
+      url: 'https://example.com/a:b',
+      quoted: 'line one\nline two',
+      single: "it's",
+      exitCode: 0,
+      draft: false,
+      owner: null,
+      tags: ['infra/cache', '#perf'],
+      aliases: ['LRU', 'cache'],
+      extra: { retries: 3 },
+      links: { repo: 'memoryme', branch: 'main' },
+      notes: 'first\nsecond\n',
+    });
+    expect(body).toBe('Body');
+  });
+
+  it('folds > block scalars', () => {
+    expect(parseFrontMatter('---\nsummary: >-\n  one\n  two\n\n  three\n---\n').data.summary).toBe('one two\nthree');
+  });
+});
+
+describe('stringifyFrontMatter', () => {
+  it('reads back what it writes', () => {
+    const data = {
+      id: '7f1c',
+      title: 'Decision: use "SQLite"',
+      tags: ['a', 'b c'],
+      empty: [],
+      version: '1.0',
+      enabled: 'true',
+      hash: '#hash',
+      multiline: 'one\ntwo',
+      exitCode: 1,
+      nested: { list: [1, { deep: true }] },
+      nothing: null,
+    };
+
+    const text = stringifyFrontMatter(data);
+
+    expect(text).toContain('tags:\n  - a\n  - b c\n');
+    expect(text).toContain('version: "1.0"\n');
+    expect(parseFrontMatter(text + 'Body')).toEqual({ data, body: 'Body' });
+  });
+
+  it('skips undefined values', () => {
+    expect(stringifyFrontMatter({ a: undefined, b: 'x' })).toBe('---\nb: x\n---\n');
+  });
+});
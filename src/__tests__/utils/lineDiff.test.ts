@@ -0,0 +1,46 @@
+import { diffLines } from '../../shared/utils/line-diff';
+
+const render = (before: string, after: string) =>
+  diffLines(before, after).map(line => `${{ added: '+', removed: '-', unchanged: ' ' }[line.type]}${line.text}`);
+
+describe('diffLines', () => {
+  it('marks identical text as unchanged', () => {
+    expect(render('a\nb', 'a\nb')).toEqual([' a', ' b']);
+  });
+
+  it('detects added and removed lines', () => {
+    expect(render('a\nb\nc', 'a\nc\nd')).toEqual([' a', '-b', ' c', '+d']);
+  });
+
+  it('shows a replaced line as a removal followed by an addition', () => {
+    expect(render('one\ntwo\nthree', 'one\n2\nthree')).toEqual([' one', '-two', '+2', ' three']);
+  });
+
+  it('handles empty text on either side', () => {
+    expect(render('', 'a')).toEqual(['-', '+a']);
+    expect(render('a\nb', '')).toEqual(['-a', '-b', '+']);
+  });
+
+  it('numbers lines in both versions', () => {
+    const diff = diffLines('keep\nold\nend', 'new\nkeep\nend');
+
+    expect(diff).toEqual([
+      { type: 'added', text: 'new', newLine: 1 },
+      { type: 'unchanged', text: 'keep', oldLine: 1, newLine: 2 },
+      { type: 'removed', text: 'old', oldLine: 2 },
+      { type: 'unchanged', text: 'end', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('keeps long unchanged runs out of the comparison table', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const edited = [...lines];
+    edited[10000] = 'edited';
+
+    const changed = diffLines(lines.join('\n'), edited.join('\n')).filter(line => line.type !== 'unchanged');
+    expect(changed).toEqual([
+      { type: 'removed', text: 'line 10000', oldLine: 10001 },
+      { type: 'added', text: 'edited', newLine: 10001 },
+    ]);
+  });
+});
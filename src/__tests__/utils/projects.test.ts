@@ -0,0 +1,53 @@
+import { isPathInside, normalizeRepository, resolveProject } from '../../shared/utils/projects';
+import { Project } from '../../shared/types';
+
+const project = (name: string, fields: Partial<Project> = {}): Project => ({
+  id: name.toLowerCase(),
+  name,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...fields,
+});
+
+describe('normalizeRepository', () => {
+  it('reduces every remote form to host/owner/name', () => {
+    expect([
+      'https://github.com/acme/billing.git',
+      'git@github.com:acme/billing.git',
+      'ssh://git@github.com:22/acme/billing',
+      'https://token@GitHub.com/acme/billing/',
+      'github.com/acme/billing',
+    ].map(normalizeRepository)).toEqual(Array(5).fill('github.com/acme/billing'));
+  });
+});
+
+describe('isPathInside', () => {
+  it('matches the folder and its descendants only', () => {
+    expect(isPathInside('/src/acme/app.ts', '/src/acme/')).toBe(true);
+    expect(isPathInside('/src/acme', '/src/acme')).toBe(true);
+    expect(isPathInside('/src/acme-old/app.ts', '/src/acme')).toBe(false);
+  });
+
+  it('compares Windows paths regardless of separators and drive case', () => {
+    expect(isPathInside('C:\\Src\\Acme\\app.ts', 'c:/src/acme')).toBe(true);
+  });
+});
+
+describe('resolveProject', () => {
+  const billing = project('Billing', { repository: 'github.com/acme/billing', path: '/src/billing' });
+  const monorepo = project('Monorepo', { path: '/src' });
+
+  it('prefers the named project, then the repository, then the closest path', () => {
+    const projects = [monorepo, billing];
+
+    expect(resolveProject(projects, { project: 'monorepo', repository: 'github.com/acme/billing' })).toBe(monorepo);
+    expect(resolveProject(projects, { project: 'unknown', repository: 'git@github.com:acme/billing.git' })).toBe(billing);
+    expect(resolveProject(projects, { fullPath: '/src/billing/invoice.ts' })).toBe(billing);
+    expect(resolveProject(projects, { workspaceFolder: '/src/web' })).toBe(monorepo);
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(resolveProject([billing], { filePath: '/tmp/scratch.ts' })).toBeUndefined();
+    expect(resolveProject([billing])).toBeUndefined();
+  });
+});
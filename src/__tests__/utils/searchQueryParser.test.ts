@@ -0,0 +1,159 @@
+import { parseSearchQuery, SearchQueryParseError } from '../../shared/utils/search-query-parser';
+import { MemoryType } from '../../shared/types';
+
+const parseError = (input: string): SearchQueryParseError => {
+  try {
+    parseSearchQuery(input);
+  } catch (error) {
+    if (error instanceof SearchQueryParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail parsing`);
+};
+
+describe('parseSearchQuery', () => {
+  describe('free text', () => {
+    it('quotes bare words as FTS terms', () => {
+      expect(parseSearchQuery('connection pool')).toEqual({
+        query: '"connection" "pool"',
+        semanticQuery: 'connection pool',
+      });
+    });
+
+    it('keeps quoted phrases together', () => {
+      const result = parseSearchQuery('"rate limit" nginx');
+
+      expect(result.query).toBe('"rate limit" "nginx"');
+      expect(result.semanticQuery).toBe('rate limit nginx');
+    });
+
+    it('supports trailing * prefix terms', () => {
+      expect(parseSearchQuery('kube*').query).toBe('"kube"*');
+      expect(parseSearchQuery('"kube*"').query).toBe('"kube*"');
+    });
+
+    it('escapes FTS syntax inside terms', () => {
+      expect(parseSearchQuery('NEAR(a b)').query).toBe('"NEAR(a" "b)"');
+    });
+
+    it('treats URLs as text rather than qualifiers', () => {
+      expect(parseSearchQuery('https://example.com').query).toBe('"https://example.com"');
+    });
+
+    it('returns an empty query for blank input', () => {
+      expect(parseSearchQuery('   ')).toEqual({ query: '' });
+    });
+  });
+
+  describe('qualifiers', () => {
+    it('maps filter fields', () => {
+      const result = parseSearchQuery('type:decision tag:k8s tags:ingress project:billing repo:api lang:go');
+
+      expect(result).toMatchObject({
+        query: '',
+        type: MemoryType.DECISION,
+        tags: ['k8s', 'ingress'],
+        project: 'billing',
+        repository: 'api',
+        language: 'go',
+      });
+    });
+
+    it('maps metadata fields', () => {
+      const result = parseSearchQuery('ns:kube-system kind:Deployment author:"Sam Lee"');
+
+      expect(result.metadata).toEqual({
+        kubernetesNamespace: 'kube-system',
+        kubernetesKind: 'Deployment',
+        author: 'Sam Lee',
+      });
+    });
+
+    it('normalizes memory type spellings', () => {
+      expect(parseSearchQuery('type:code-snippet').type).toBe(MemoryType.CODE_SNIPPET);
+      expect(parseSearchQuery('TYPE:Kubernetes_Resource').type).toBe(MemoryType.KUBERNETES_RESOURCE);
+    });
+
+    it('parses date bounds as local days', () => {
+      const { dateRange } = parseSearchQuery('after:2026-01-01 before:2026-02-01');
+
+      expect(dateRange?.start).toEqual(new Date(2026, 0, 1));
+      expect(dateRange?.end).toEqual(new Date(new Date(2026, 1, 1).getTime() - 1));
+    });
+
+    it('combines qualifiers with free text', () => {
+      const result = parseSearchQuery('tag:k8s ingress timeout');
+
+      expect(result.query).toBe('"ingress" "timeout"');
+      expect(result.tags).toEqual(['k8s']);
+    });
+  });
+
+  describe('negation', () => {
+    it('excludes terms, tags and types', () => {
+      const result = parseSearchQuery('deploy -draft -tag:wip -type:meeting-notes');
+
+      expect(result).toMatchObject({
+        query: '"deploy"',
+        excludeTerms: ['draft'],
+        excludeTags: ['wip'],
+        excludeTypes: [MemoryType.MEETING_NOTES],
+      });
+    });
+
+    it('treats a lone hyphen as text', () => {
+      expect(parseSearchQuery('a - b').query).toBe('"a" "-" "b"');
+    });
+  });
+
+  describe('OR groups', () => {
+    it('joins free-text terms', () => {
+      const result = parseSearchQuery('redis OR memcached cache');
+
+      expect(result.query).toBe('("redis" OR "memcached") "cache"');
+      expect(result.semanticQuery).toBe('redis memcached cache');
+    });
+
+    it('chains more than two terms', () => {
+      expect(parseSearchQuery('a OR b OR c').query).toBe('("a" OR "b" OR "c")');
+    });
+
+    it('turns tag alternatives into anyTags', () => {
+      expect(parseSearchQuery('tag:k8s OR tag:docker').anyTags).toEqual(['k8s', 'docker']);
+    });
+
+    it('turns type alternatives into a type list', () => {
+      expect(parseSearchQuery('type:decision OR type:note').type).toEqual([
+        MemoryType.DECISION,
+        MemoryType.NOTE,
+      ]);
+    });
+
+    it('treats lowercase or as a word', () => {
+      expect(parseSearchQuery('this or that').query).toBe('"this" "or" "that"');
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['"rate limit', 'Unterminated quote', 0],
+      ['foo colour:red', 'Unknown field "colour:"', 4],
+      ['tag:', 'Missing value for "tag:"', 0],
+      ['type:memo', 'Unknown memory type "memo"', 0],
+      ['after:2026-02-30', 'Invalid date "2026-02-30"', 0],
+      ['after:yesterday', 'Use YYYY-MM-DD', 0],
+      ['project:a project:b', '"project:" can only be used once', 10],
+      ['-project:a', '"project:" cannot be negated', 0],
+      ['OR foo', 'OR needs a term on both sides', 0],
+      ['foo OR', 'OR needs a term on both sides', 0],
+      ['foo OR -bar', 'Excluded terms cannot be part of an OR group', 7],
+      ['tag:a OR foo', 'not a mix', 0],
+      ['type:note type:decision', '"type:" can only be used once', 10],
+    ])('rejects %p', (input, message, position) => {
+      const error = parseError(input);
+
+      expect(error.message).toContain(message);
+      expect(error.position).toBe(position);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { buildTagTree, isTagInSubtree, normalizeTag, rebaseTag } from '../../shared/utils/tag-hierarchy';
+
+describe('tag paths', () => {
+  it('normalizes whitespace and empty segments', () => {
+    expect(normalizeTag(' infra // k8s/ ')).toBe('infra/k8s');
+    expect(normalizeTag(' / ')).toBe('');
+  });
+
+  it('matches a tag and everything nested under it, not siblings sharing a prefix', () => {
+    expect(isTagInSubtree('infra', 'infra')).toBe(true);
+    expect(isTagInSubtree('infra/k8s/ingress', 'infra')).toBe(true);
+    expect(isTagInSubtree('infrastructure', 'infra')).toBe(false);
+    expect(isTagInSubtree('infra', 'infra/k8s')).toBe(false);
+  });
+
+  it('moves tags from one subtree to another', () => {
+    expect(rebaseTag('infra/k8s/ingress', 'infra/k8s', 'platform/k8s')).toBe('platform/k8s/ingress');
+    expect(rebaseTag('infra/k8s', 'infra/k8s', 'k8s')).toBe('k8s');
+    expect(rebaseTag('team/payments', 'infra', 'platform')).toBe('team/payments');
+  });
+});
+
+describe('buildTagTree', () => {
+  it('creates parent levels and rolls up distinct memory counts', () => {
+    const tree = buildTagTree(
+      [
+        { memoryId: 'a', tag: 'infra/k8s' },
+        { memoryId: 'a', tag: 'infra/aws' },
+        { memoryId: 'b', tag: 'infra/k8s/ingress' },
+        { memoryId: 'c', tag: 'team/payments' },
+      ],
+      { 'infra/k8s': '#2563eb' }
+    );
+
+    expect(tree.map(node => [node.name, node.count])).toEqual([['infra', 2], ['team', 1]]);
+    const [aws, k8s] = tree[0].children;
+    expect([aws.label, aws.count]).toEqual(['aws', 1]);
+    expect([k8s.label, k8s.count, k8s.color]).toEqual(['k8s', 2, '#2563eb']);
+    expect(k8s.children).toEqual([
+      { name: 'infra/k8s/ingress', label: 'ingress', color: undefined, count: 1, children: [] },
+    ]);
+  });
+});
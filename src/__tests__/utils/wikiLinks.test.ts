@@ -0,0 +1,58 @@
+import { extractWikiLinks, getOpenWikiLink, renameWikiLinks } from '../../shared/utils/wiki-links';
+
+describe('extractWikiLinks', () => {
+  it('finds title and id references with their positions', () => {
+    const content = 'See [[Deploy runbook]] and [[3f2a-id]].';
+    const links = extractWikiLinks(content);
+
+    expect(links.map(link => link.target)).toEqual(['Deploy runbook', '3f2a-id']);
+    expect(content.slice(links[0].start, links[0].end)).toBe('[[Deploy runbook]]');
+  });
+
+  it('separates aliases from targets and trims whitespace', () => {
+    const content = '[[ Deploy runbook | the runbook ]]';
+    expect(extractWikiLinks(content)).toEqual([
+      { target: 'Deploy runbook', alias: 'the runbook', start: 0, end: content.length },
+    ]);
+  });
+
+  it('ignores empty, unterminated and multi-line brackets', () => {
+    expect(extractWikiLinks('[[]] [[  ]] [[open\nclose]] [[never closed')).toEqual([]);
+  });
+
+  it('skips references inside code', () => {
+    const content = [
+      'Real [[Link]]',
+      '```bash',
+      'if [[ -f file ]]; then echo ok; fi',
+      '```',
+      'Inline `[[not a link]]` here',
+    ].join('\n');
+
+    expect(extractWikiLinks(content).map(link => link.target)).toEqual(['Link']);
+  });
+});
+
+describe('renameWikiLinks', () => {
+  it('rewrites every reference to the old title, keeping aliases', () => {
+    expect(renameWikiLinks('[[Old]] and [[old|alias]] but not [[Older]]', 'Old', 'New'))
+      .toBe('[[New]] and [[New|alias]] but not [[Older]]');
+  });
+
+  it('leaves code untouched', () => {
+    expect(renameWikiLinks('`[[Old]]` [[Old]]', 'Old', 'New')).toBe('`[[Old]]` [[New]]');
+  });
+});
+
+describe('getOpenWikiLink', () => {
+  it('returns the text typed after an unclosed [[', () => {
+    const content = 'Related: [[Depl';
+    expect(getOpenWikiLink(content, content.length)).toEqual({ query: 'Depl', start: 11 });
+  });
+
+  it('returns null once the link is closed or the line ends', () => {
+    expect(getOpenWikiLink('[[Deploy]] more', 15)).toBeNull();
+    expect(getOpenWikiLink('[[Deploy\nmore', 13)).toBeNull();
+    expect(getOpenWikiLink('no link here', 12)).toBeNull();
+  });
+});
@@ -1,17 +1,78 @@
-import { app, BrowserWindow, ipcMain, Menu, shell } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu, shell, WebContents } from 'electron';
 import * as path from 'path';
+import * as fs from 'fs';
 import { SQLiteManager } from '../shared/database/sqlite';
 import { VectorStore } from '../shared/database/vector-store';
-import { Memory, MemoryType, SearchQuery, AppConfig } from '../shared/types';
+import { HybridSearch } from '../shared/database/hybrid-search';
+import { VaultRegistry } from '../shared/database/vault-registry';
+import {
+  checkDatabaseLocation,
+  copyDatabaseFiles,
+  getRelocationProblem,
+  removeDatabaseFiles,
+  removeFiles,
+} from '../shared/database/relocation';
+import {
+  BundleEmbedding,
+  VAULT_BUNDLE_EXTENSION,
+  VaultData,
+  createVaultBundle,
+  readVaultBundle,
+  writeVaultBundle,
+} from '../shared/database/vault-bundle';
+import {
+  createBackup,
+  isBackupDue,
+  listBackups,
+  nextBackupKind,
+  restoreBackupFiles,
+  rotateBackups,
+  undoRestore,
+  verifyBackup,
+} from '../shared/database/backups';
+import { ConsistencyChecker } from '../shared/database/consistency';
+import { IndexWorker } from '../shared/database/index-worker';
+import { readMarkdownFolder, writeMarkdownFolder } from '../shared/database/markdown-folder';
+import { MarkdownSync, MarkdownSyncResult } from '../shared/database/markdown-sync';
+import { Memory, MemoryLinkType, MemoryType, MemoryUpdate, Project, SearchQuery, AppConfig, SavedSearch, SmartCollection, Vault, DatabaseLocation, RelocationMode, VaultExportOptions, VaultExportSummary, VaultImportOptions, VaultImportSummary, VaultTransferProgress, MarkdownLayout, MarkdownExportSummary, MarkdownSyncConfig, MarkdownSyncResolution, MarkdownSyncStatus, MarkdownSyncSummary, BackupInfo, BackupKind, ConsistencyReport, ConsistencyRepairSummary } from '../shared/types';
 import Store from 'electron-store';
 import { createLogger } from '../shared/utils/logger';
+import { chunkMemory } from '../shared/utils/chunking';
 
-const store = new Store();
+// What main keeps in electron-store; the vault registry keeps its own keys alongside
+interface AppStoreSchema {
+  appConfig?: Partial<AppConfig>;
+  [key: string]: unknown;
+}
+
+// get and set come from electron-store's base class in `conf`, whose types only the
+// package's exports map points to, which "node" module resolution does not read
+interface AppStore {
+  get<K extends keyof AppStoreSchema>(key: K): AppStoreSchema[K];
+  set<K extends keyof AppStoreSchema>(key: K, value: AppStoreSchema[K]): void;
+}
+
+const store = new Store<AppStoreSchema>() as unknown as AppStore;
 const logger = createLogger('Main');
+const vaultRegistry = new VaultRegistry({
+  get: key => store.get(key),
+  set: (key, value) => store.set(key, value),
+}, app.getPath('userData'));
 let mainWindow: BrowserWindow | null = null;
 let sqliteManager: SQLiteManager | null = null;
 let vectorStore: VectorStore | null = null;
+let hybridSearch: HybridSearch | null = null;
+let indexWorker: IndexWorker | null = null;
 let databaseReady: Promise<void>;
+let activeVault: Vault | null = null;
+let trashPurgeTimer: NodeJS.Timeout | null = null;
+let backupTimer: NodeJS.Timeout | null = null;
+let runningBackup: Promise<BackupInfo> | null = null;
+let runningRepair: Promise<ConsistencyRepairSummary> | null = null;
+let consistencyReport: ConsistencyReport | null = null;
+
+const TRASH_PURGE_INTERVAL = 24 * 60 * 60 * 1000; // daily
+const BACKUP_CHECK_INTERVAL = 60 * 60 * 1000; // hourly, so a backup is not skipped while the app stays open overnight
 
 const isDev = process.env.NODE_ENV === 'development';
 
@@ -174,32 +235,313 @@ function createMenu() {
 }
 
 async function initializeDatabase() {
-  const userDataDir = app.getPath('userData');
-  const dbPath = path.join(userDataDir, 'devmemory.db');
-  const vectorPath = path.join(userDataDir, 'vector-data.json');
-  
   try {
-    // Ensure user data directory exists
-    const fs = require('fs');
-    if (!fs.existsSync(userDataDir)) {
-      fs.mkdirSync(userDataDir, { recursive: true });
-    }
-    
-    // Initialize SQLite database
-    sqliteManager = new SQLiteManager(dbPath);
-    console.log('SQLite database initialized at:', dbPath);
-    
-    // Initialize vector store
-    vectorStore = new VectorStore(vectorPath);
-    await vectorStore.initialize();
-    console.log('Vector store initialized at:', vectorPath);
-    
+    await openVault(vaultRegistry.getActive());
+    await exportVaults();
   } catch (error) {
     console.error('Database initialization failed:', error);
     throw error;
   }
 }
 
+async function openVault(vault: Vault) {
+  for (const file of [vault.sqlitePath, vault.vectorPath]) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  try {
+    sqliteManager = new SQLiteManager(vault.sqlitePath);
+    console.log('SQLite database initialized at:', vault.sqlitePath);
+
+    vectorStore = new VectorStore(vault.vectorPath, { quantization: getAppConfig().search.vectorQuantization });
+    await vectorStore.initialize();
+    console.log('Vector store initialized at:', vault.vectorPath);
+
+    activeVault = vault;
+    hybridSearch = new HybridSearch(sqliteManager, vectorStore);
+    indexWorker = new IndexWorker(sqliteManager, vectorStore, exportIndexQueueStatus);
+    await exportSavedSearches();
+    await syncVectorProjects();
+    await exportProjects();
+    await purgeExpiredTrash();
+    await runScheduledBackup();
+  } catch (error) {
+    await closeVault();
+    throw error;
+  }
+
+  // Timers and the index worker start only once nothing else can fail
+  trashPurgeTimer = setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL);
+  backupTimer = setInterval(runScheduledBackup, BACKUP_CHECK_INTERVAL);
+  // The repair starts the index worker once it is done; re-embedding can take a while,
+  // so the window does not wait for it
+  repairVectorStore().catch(error => logger.warn('Startup vector store repair failed', error));
+  logger.info('Vault opened', { id: vault.id, name: vault.name });
+}
+
+async function closeVault() {
+  if (trashPurgeTimer) {
+    clearInterval(trashPurgeTimer);
+    trashPurgeTimer = null;
+  }
+  if (backupTimer) {
+    clearInterval(backupTimer);
+    backupTimer = null;
+  }
+  await runningBackup?.catch(() => undefined);
+  await runningRepair?.catch(() => undefined);
+  consistencyReport = null;
+  await indexWorker?.stop();
+  indexWorker = null;
+  hybridSearch = null;
+  try {
+    await vectorStore?.close();
+  } catch (error) {
+    logger.warn('Failed to close vector store', error);
+  }
+  vectorStore = null;
+  try {
+    sqliteManager?.close();
+  } catch (error) {
+    logger.warn('Failed to close database', error);
+  }
+  sqliteManager = null;
+  activeVault = null;
+}
+
+/**
+ * Closes the open vault and opens `next` in its place, running `prepare` while
+ * neither is open. If either step fails, whatever the attempt opened is
+ * closed, `rollback` runs, the previous vault is reopened and the error is
+ * rethrown, along with the reopening's own error if that fails too.
+ */
+async function reopenVault(
+  next: Vault,
+  steps: { prepare?: () => void; rollback?: () => void } = {}
+): Promise<void> {
+  await databaseReady;
+  const previous = activeVault;
+
+  const reopening = (async () => {
+    await closeVault();
+    try {
+      steps.prepare?.();
+      await openVault(next);
+    } catch (error) {
+      logger.error('Failed to open vault, reopening the previous one', { vault: next.name, error });
+      await closeVault();
+      steps.rollback?.();
+      if (previous) {
+        try {
+          await openVault(previous);
+        } catch (reopenError) {
+          logger.error('Failed to reopen the previous vault', { vault: previous.name, error: reopenError });
+          const message = error instanceof Error ? error.message : String(error);
+          const reopenMessage = reopenError instanceof Error ? reopenError.message : String(reopenError);
+          throw new Error(`${message} (reopening "${previous.name}" also failed: ${reopenMessage})`);
+        }
+      }
+      throw error;
+    }
+  })();
+  // Handlers waiting on the database resume with whichever vault ended up open
+  databaseReady = reopening.catch(() => undefined);
+  await reopening;
+}
+
+async function switchVault(id: string): Promise<Vault> {
+  const target = vaultRegistry.get(id);
+  if (!target) throw new Error('Vault not found');
+
+  await databaseReady;
+  if (activeVault?.id === target.id) return target;
+
+  try {
+    await reopenVault(target);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not open vault "${target.name}": ${message}`);
+  }
+
+  vaultRegistry.setActive(target.id);
+  await exportVaults();
+  return target;
+}
+
+/**
+ * Points the open vault at new files. Moving and copying take the current
+ * files along; opening an existing location leaves them where they are. The
+ * old files of a move are only deleted once the new location has opened.
+ */
+async function relocateVault(location: DatabaseLocation, mode: RelocationMode): Promise<Vault> {
+  await databaseReady;
+  const current = activeVault;
+  if (!current) throw new Error('Database not initialized');
+
+  const problem = getRelocationProblem(checkDatabaseLocation(location, current), mode);
+  if (problem) throw new Error(problem);
+
+  const relocated: Vault = { ...current, ...location };
+  let copied: string[] = [];
+  try {
+    await reopenVault(relocated, {
+      prepare: () => {
+        if (mode !== 'open-existing') {
+          copied = copyDatabaseFiles(current, location);
+        }
+      },
+      rollback: () => removeFiles(copied),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`The database could not be opened at the new location, so it was left where it was: ${message}`);
+  }
+
+  vaultRegistry.relocate(current.id, location);
+  if (mode === 'move') {
+    try {
+      removeDatabaseFiles(current, location);
+    } catch (error) {
+      logger.warn('Failed to remove the old database files after moving them', error);
+    }
+  }
+  logger.info('Vault relocated', { vault: current.name, mode, ...location });
+  await exportVaults();
+  return relocated;
+}
+
+// Keeps the queue panel in the settings current while the worker runs
+async function exportIndexQueueStatus() {
+  if (!sqliteManager || !mainWindow || mainWindow.isDestroyed()) return;
+  try {
+    mainWindow.webContents.send('index-queue-status', await sqliteManager.getIndexQueueStatus());
+  } catch (error) {
+    logger.warn('Failed to send index queue status', error);
+  }
+}
+
+/**
+ * Brings the vector store back in line with the database. A repair already
+ * running is awaited instead of starting a second one. The index worker is
+ * stopped meanwhile, so the two never embed the same memory at once, and
+ * started again afterwards.
+ */
+async function repairVectorStore(): Promise<ConsistencyRepairSummary> {
+  if (runningRepair) return await runningRepair;
+  if (!sqliteManager || !vectorStore) throw new Error('Database not initialized');
+
+  const checker = new ConsistencyChecker(sqliteManager, vectorStore);
+  const worker = indexWorker;
+  runningRepair = (async () => {
+    await worker?.stop();
+    try {
+      return await checker.repair();
+    } finally {
+      worker?.start();
+    }
+  })();
+  try {
+    const summary = await runningRepair;
+    consistencyReport = summary.report;
+    return summary;
+  } finally {
+    runningRepair = null;
+  }
+}
+
+// Each vault's backups get their own folder, so switching vaults never mixes them
+function getBackupDir(vault: Vault): string {
+  return path.join(getAppConfig().backup.folderPath, vault.id);
+}
+
+/**
+ * Backs up the open vault and, unless told not to, drops the backups that
+ * fall out of rotation. A backup already running is awaited instead of
+ * starting a second one.
+ */
+async function backUpVault(kind?: BackupKind, { rotate = true } = {}): Promise<BackupInfo> {
+  if (runningBackup) return await runningBackup;
+  if (!sqliteManager || !activeVault) throw new Error('Database not initialized');
+
+  const sqlite = sqliteManager;
+  const vault = activeVault;
+  runningBackup = (async () => {
+    const dir = getBackupDir(vault);
+    const backup = await createBackup(sqlite, vault, dir, kind ?? nextBackupKind(listBackups(dir)));
+    if (rotate) {
+      rotateBackups(dir, getAppConfig().backup);
+    }
+    return backup;
+  })();
+  try {
+    return await runningBackup;
+  } finally {
+    runningBackup = null;
+  }
+}
+
+async function runScheduledBackup() {
+  if (!activeVault || !getAppConfig().backup.enabled) return;
+  try {
+    if (isBackupDue(listBackups(getBackupDir(activeVault)))) {
+      await backUpVault();
+    }
+  } catch (error) {
+    logger.warn('Scheduled backup failed', error);
+  }
+}
+
+/**
+ * Replaces the open vault's files with a backup. The current data is backed
+ * up first, so the restore can itself be undone from the backup list. If the
+ * restored files fail to open, the replaced ones are put back.
+ */
+async function restoreVaultBackup(id: string): Promise<void> {
+  await databaseReady;
+  const vault = activeVault;
+  if (!vault) throw new Error('Database not initialized');
+
+  const backup = listBackups(getBackupDir(vault)).find(candidate => candidate.id === id);
+  if (!backup) throw new Error('Backup not found');
+  const problem = verifyBackup(backup.path);
+  if (problem) throw new Error(`This backup cannot be restored: ${problem}`);
+
+  // Rotating now could delete the backup about to be restored
+  await backUpVault('daily', { rotate: false });
+
+  let setAside: string[] = [];
+  try {
+    await reopenVault(vault, {
+      prepare: () => {
+        setAside = restoreBackupFiles(backup.path, vault);
+      },
+      rollback: () => undoRestore(vault, setAside),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`The backup could not be opened, so the current data was kept: ${message}`);
+  }
+
+  removeFiles(setAside);
+  logger.info('Vault restored from backup', { vault: vault.name, backup: backup.id });
+}
+
+// Files shared with the VS Code extension live next to the vault's database
+function getVaultDir(): string {
+  return activeVault ? path.dirname(activeVault.sqlitePath) : app.getPath('userData');
+}
+
+// Lets the VS Code extension list the vaults and follow the one open in the app
+async function exportVaults() {
+  try {
+    const vaults = vaultRegistry.list().map(vault => ({ ...vault, active: vault.id === activeVault?.id }));
+    const exportPath = path.join(app.getPath('userData'), 'vaults.json');
+    await fs.promises.writeFile(exportPath, JSON.stringify(vaults, null, 2));
+  } catch (error) {
+    logger.warn('Failed to export vaults', error);
+  }
+}
+
 // IPC Handlers
 ipcMain.handle('create-memory', async (event, memory: Omit<Memory, 'id' | 'createdAt' | 'updatedAt'>) => {
   logger.info('IPC: Creating memory', { title: memory.title, type: memory.type });
@@ -213,19 +555,8 @@ ipcMain.handle('create-memory', async (event, memory: Omit<Memory, 'id' | 'creat
     const savedMemory = await sqliteManager.createMemory(memory);
     logger.info('Memory created in SQLite successfully', { id: savedMemory.id });
     
-    // Add to vector store for semantic search (optional)
-    if (vectorStore) {
-      try {
-        logger.debug('Adding memory to vector store...');
-        await vectorStore.addMemory(savedMemory);
-        logger.info('Memory added to vector store successfully');
-      } catch (vectorError) {
-        logger.warn('Failed to add to vector store, continuing without it', vectorError);
-        // Continue - SQLite save was successful
-      }
-    } else {
-      logger.debug('Vector store not available, skipping vector indexing');
-    }
+    // The new memory is queued for the vector store in the same transaction
+    indexWorker?.wake();
     
     logger.info('Memory creation completed successfully', { 
       id: savedMemory.id, 
@@ -244,20 +575,13 @@ ipcMain.handle('get-memory', async (event, id: string) => {
   return await sqliteManager.getMemory(id);
 });
 
-ipcMain.handle('update-memory', async (event, id: string, updates: Partial<Omit<Memory, 'id' | 'createdAt'>>) => {
+ipcMain.handle('update-memory', async (event, id: string, updates: MemoryUpdate) => {
   await databaseReady;
-  if (!sqliteManager || !vectorStore) throw new Error('Database not initialized');
+  if (!sqliteManager) throw new Error('Database not initialized');
   try {
+    // Memories whose [[links]] a rename rewrote are queued along with this one
     const updatedMemory = await sqliteManager.updateMemory(id, updates);
-    
-    if (updatedMemory) {
-      try {
-        await vectorStore.updateMemory(updatedMemory);
-      } catch (vectorError) {
-        console.warn('Failed to update in vector store:', vectorError);
-      }
-    }
-    
+    indexWorker?.wake();
     return updatedMemory;
   } catch (error) {
     console.error('Failed to update memory:', error);
@@ -267,18 +591,10 @@ ipcMain.handle('update-memory', async (event, id: string, updates: Partial<Omit<
 
 ipcMain.handle('delete-memory', async (event, id: string) => {
   await databaseReady;
-  if (!sqliteManager || !vectorStore) throw new Error('Database not initialized');
+  if (!sqliteManager) throw new Error('Database not initialized');
   try {
     const result = await sqliteManager.deleteMemory(id);
-    
-    if (result) {
-      try {
-        await vectorStore.deleteMemory(id);
-      } catch (vectorError) {
-        console.warn('Failed to delete from vector store:', vectorError);
-      }
-    }
-    
+    indexWorker?.wake();
     return result;
   } catch (error) {
     console.error('Failed to delete memory:', error);
@@ -286,33 +602,115 @@ ipcMain.handle('delete-memory', async (event, id: string) => {
   }
 });
 
-ipcMain.handle('search-memories', async (event, query: string, limit?: number, offset?: number) => {
+ipcMain.handle('get-trash', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getTrashedMemories();
+});
+
+ipcMain.handle('restore-memory', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const restored = await sqliteManager.restoreMemory(id);
+  indexWorker?.wake();
+  return restored;
+});
+
+ipcMain.handle('purge-memory', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const result = await sqliteManager.purgeMemory(id);
+  indexWorker?.wake();
+  return result;
+});
+
+ipcMain.handle('empty-trash', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const ids = await sqliteManager.emptyTrash();
+  indexWorker?.wake();
+  return ids.length;
+});
+
+async function purgeExpiredTrash() {
+  if (!sqliteManager) return;
+  try {
+    const { trash } = getAppConfig();
+    await sqliteManager.purgeExpiredTrash(trash.retentionDays);
+    indexWorker?.wake();
+  } catch (error) {
+    logger.warn('Failed to purge expired trash', error);
+  }
+}
+
+ipcMain.handle('get-revisions', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getRevisions(id);
+});
+
+ipcMain.handle('restore-revision', async (event, id: string, revision: number) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const restored = await sqliteManager.restoreRevision(id, revision);
+  indexWorker?.wake();
+  return restored;
+});
+
+ipcMain.handle('get-links', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getLinks(id);
+});
+
+ipcMain.handle('get-all-links', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getAllLinks();
+});
+
+ipcMain.handle('get-all-wiki-links', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getAllWikiLinks();
+});
+
+ipcMain.handle('suggest-titles', async (event, text: string, limit?: number) => {
   await databaseReady;
   if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.suggestTitles(text, limit);
+});
+
+ipcMain.handle('create-link', async (event, sourceId: string, targetId: string, type: MemoryLinkType) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.createLink(sourceId, targetId, type);
+});
+
+ipcMain.handle('update-link', async (event, id: string, type: MemoryLinkType) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.updateLink(id, type);
+});
+
+ipcMain.handle('delete-link', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.deleteLink(id);
+});
+
+ipcMain.handle('search-memories', async (event, query: string, limit?: number, offset?: number) => {
+  await databaseReady;
+  if (!sqliteManager || !hybridSearch) throw new Error('Database not initialized');
   
   try {
-    // First try semantic search with vector store
-    if (vectorStore) {
-      const vectorResults = await vectorStore.searchSimilar(query, limit || 20, 0.3);
-      
-      if (vectorResults.length > 0) {
-        console.log(`Found ${vectorResults.length} semantic matches for: "${query}"`);
-        
-        // Get full memory objects from SQLite
-        const memories: Memory[] = [];
-        for (const result of vectorResults) {
-          const memory = await sqliteManager.getMemory(result.memoryId);
-          if (memory) {
-            memories.push(memory);
-          }
-        }
-        
-        return memories.slice(offset || 0, (offset || 0) + (limit || 20));
-      }
+    const results = await runHybridSearch({ query, limit: limit || 20, offset: offset || 0 });
+    if (results.length > 0) {
+      return results.map(result => result.memory);
     }
     
-    // Fallback to traditional full-text search
-    console.log(`Using full-text search for: "${query}"`);
+    // Nothing ranked - fall back to the substring scan
+    console.log(`Using substring search for: "${query}"`);
     return await sqliteManager.searchMemories(query, limit, offset);
   } catch (error) {
     console.error('Search failed:', error);
@@ -321,19 +719,33 @@ ipcMain.handle('search-memories', async (event, query: string, limit?: number, o
   }
 });
 
+ipcMain.handle('search', async (event, query: SearchQuery) => {
+  await databaseReady;
+  if (!hybridSearch) throw new Error('Database not initialized');
+  return await runHybridSearch(query);
+});
+
+async function runHybridSearch(query: SearchQuery) {
+  const { search } = getAppConfig();
+  return await hybridSearch!.search(query, {
+    vectorWeight: search.vectorWeight,
+    fullTextWeight: search.fullTextWeight,
+  });
+}
+
 ipcMain.handle('get-memories-by-type', async (event, type: MemoryType, limit?: number, offset?: number) => {
   if (!sqliteManager) throw new Error('Database not initialized');
   return await sqliteManager.getMemoriesByType(type, limit, offset);
 });
 
-ipcMain.handle('get-memories-by-tags', async (event, tags: string[], limit?: number, offset?: number) => {
+ipcMain.handle('get-memories-by-tags', async (event, tags: string[], limit?: number, offset?: number, projectId?: string) => {
   if (!sqliteManager) throw new Error('Database not initialized');
-  return await sqliteManager.getMemoriesByTags(tags, limit, offset);
+  return await sqliteManager.getMemoriesByTags(tags, limit, offset, 'any', projectId);
 });
 
-ipcMain.handle('get-recent-memories', async (event, limit?: number) => {
+ipcMain.handle('get-recent-memories', async (event, limit?: number, projectId?: string) => {
   if (!sqliteManager) throw new Error('Database not initialized');
-  return await sqliteManager.getRecentMemories(limit);
+  return await sqliteManager.getRecentMemories(limit, projectId);
 });
 
 ipcMain.handle('get-all-memories', async () => {
@@ -351,8 +763,166 @@ ipcMain.handle('get-all-tags', async () => {
   return await sqliteManager.getAllTags();
 });
 
-ipcMain.handle('get-app-config', async () => {
-  return store.get('appConfig', {
+ipcMain.handle('get-tag-usage', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getTagUsage();
+});
+
+ipcMain.handle('get-tag-tree', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getTagTree();
+});
+
+ipcMain.handle('set-tag-color', async (event, name: string, color: string | null) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.setTagColor(name, color);
+});
+
+ipcMain.handle('rename-tag', async (event, from: string, to: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const memories = await sqliteManager.renameTag(from, to);
+  indexWorker?.wake();
+  return memories.length;
+});
+
+ipcMain.handle('merge-tags', async (event, sources: string[], target: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const memories = await sqliteManager.mergeTags(sources, target);
+  indexWorker?.wake();
+  return memories.length;
+});
+
+ipcMain.handle('get-saved-searches', async (): Promise<SmartCollection[]> => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const savedSearches = await sqliteManager.getSavedSearches();
+  return await Promise.all(savedSearches.map(async savedSearch => ({
+    ...savedSearch,
+    count: await sqliteManager!.countSearchMatches(savedSearch.query),
+  })));
+});
+
+ipcMain.handle('create-saved-search', async (event, search: Omit<SavedSearch, 'id' | 'createdAt' | 'updatedAt'>) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const savedSearch = await sqliteManager.createSavedSearch(search);
+  await exportSavedSearches();
+  return savedSearch;
+});
+
+ipcMain.handle('update-saved-search', async (event, id: string, updates: Partial<Omit<SavedSearch, 'id' | 'createdAt'>>) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const savedSearch = await sqliteManager.updateSavedSearch(id, updates);
+  await exportSavedSearches();
+  return savedSearch;
+});
+
+ipcMain.handle('delete-saved-search', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const result = await sqliteManager.deleteSavedSearch(id);
+  await exportSavedSearches();
+  return result;
+});
+
+// `projectId` narrows the collection to the project the app is scoped to
+ipcMain.handle('run-saved-search', async (event, id: string, limit?: number, offset?: number, projectId?: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const savedSearch = await sqliteManager.getSavedSearch(id);
+  if (!savedSearch) throw new Error(`Saved search not found: ${id}`);
+  const query = projectId ? { ...savedSearch.query, projectId } : savedSearch.query;
+  return await sqliteManager.getSearchMatches(query, savedSearch.sort, limit, offset);
+});
+
+ipcMain.handle('get-projects', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getProjects();
+});
+
+ipcMain.handle('get-project-dashboard', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getProjectDashboard(id);
+});
+
+ipcMain.handle('create-project', async (event, project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const created = await sqliteManager.createProject(project);
+  await assignProjects();
+  return created;
+});
+
+ipcMain.handle('update-project', async (event, id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const updated = await sqliteManager.updateProject(id, updates);
+  await assignProjects();
+  return updated;
+});
+
+ipcMain.handle('delete-project', async (event, id: string) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const deleted = await sqliteManager.deleteProject(id);
+  await exportProjects();
+  return deleted;
+});
+
+// Vector documents indexed before a memory got its project (or before projects existed)
+async function syncVectorProjects() {
+  if (!sqliteManager || !vectorStore) return;
+  try {
+    for (const memory of await sqliteManager.getAllMemories()) {
+      await vectorStore.setProject(memory.id, memory.projectId ?? null);
+    }
+  } catch (error) {
+    logger.warn('Failed to sync memory projects to vector store', error);
+  }
+}
+
+// A new or changed project can claim memories that had none
+async function assignProjects() {
+  if (!sqliteManager) return;
+  await sqliteManager.assignUnresolvedMemories();
+  indexWorker?.wake();
+  await exportProjects();
+}
+
+// Lets the VS Code extension resolve the project of what it captures
+async function exportProjects() {
+  if (!sqliteManager) return;
+  try {
+    const projects = await sqliteManager.getProjects();
+    const exportPath = path.join(getVaultDir(), 'projects.json');
+    await fs.promises.writeFile(exportPath, JSON.stringify(projects, null, 2));
+  } catch (error) {
+    logger.warn('Failed to export projects', error);
+  }
+}
+
+// The VS Code extension has no SQLite driver, so it reads saved searches from this file
+async function exportSavedSearches() {
+  if (!sqliteManager) return;
+  try {
+    const savedSearches = await sqliteManager.getSavedSearches();
+    const exportPath = path.join(getVaultDir(), 'saved-searches.json');
+    await fs.promises.writeFile(exportPath, JSON.stringify(savedSearches, null, 2));
+  } catch (error) {
+    logger.warn('Failed to export saved searches', error);
+  }
+}
+
+function getDefaultAppConfig(): AppConfig {
+  return {
     database: {
       sqlitePath: path.join(app.getPath('userData'), 'devmemory.db'),
       chromaPath: path.join(app.getPath('userData'), 'chroma'),
@@ -362,6 +932,20 @@ ipcMain.handle('get-app-config', async () => {
       bedrockModelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
       embeddingModelId: 'amazon.titan-embed-text-v1',
     },
+    search: {
+      vectorWeight: 1,
+      fullTextWeight: 1,
+      vectorQuantization: 'none',
+    },
+    trash: {
+      retentionDays: 30,
+    },
+    backup: {
+      enabled: true,
+      folderPath: path.join(app.getPath('userData'), 'backups'),
+      keepDaily: 7,
+      keepWeekly: 4,
+    },
     ui: {
       theme: 'system',
       defaultView: 'list',
@@ -374,11 +958,383 @@ ipcMain.handle('get-app-config', async () => {
         captureFiles: true,
       },
     },
-  } as AppConfig);
+  };
+}
+
+// Stored configs from older versions lack newer sections, so fill them from the defaults
+function getAppConfig(): AppConfig {
+  const defaults = getDefaultAppConfig();
+  const stored = store.get('appConfig');
+  return {
+    ...defaults,
+    ...stored,
+    // The open vault decides where the data lives; relocate-database changes it
+    database: activeVault
+      ? { sqlitePath: activeVault.sqlitePath, chromaPath: activeVault.vectorPath }
+      : { ...defaults.database, ...stored?.database },
+    search: { ...defaults.search, ...stored?.search },
+    trash: { ...defaults.trash, ...stored?.trash },
+    backup: { ...defaults.backup, ...stored?.backup },
+  };
+}
+
+ipcMain.handle('get-vaults', async () => {
+  return vaultRegistry.list();
+});
+
+ipcMain.handle('get-active-vault', async () => {
+  await databaseReady;
+  return activeVault ?? vaultRegistry.getActive();
+});
+
+ipcMain.handle('create-vault', async (event, name: string) => {
+  const vault = vaultRegistry.create(name);
+  await exportVaults();
+  return vault;
+});
+
+ipcMain.handle('rename-vault', async (event, id: string, name: string) => {
+  const vault = vaultRegistry.rename(id, name);
+  if (vault && activeVault?.id === id) {
+    activeVault = vault;
+  }
+  await exportVaults();
+  return vault;
+});
+
+ipcMain.handle('remove-vault', async (event, id: string) => {
+  const removed = vaultRegistry.remove(id);
+  await exportVaults();
+  return removed;
+});
+
+ipcMain.handle('switch-vault', async (event, id: string) => {
+  logger.info('IPC: Switching vault', { id });
+  return await switchVault(id);
+});
+
+ipcMain.handle('check-database-location', async (event, location: DatabaseLocation) => {
+  await databaseReady;
+  if (!activeVault) throw new Error('Database not initialized');
+  return checkDatabaseLocation(location, activeVault);
+});
+
+ipcMain.handle('relocate-database', async (event, location: DatabaseLocation, mode: RelocationMode) => {
+  logger.info('IPC: Relocating database', { mode, ...location });
+  return await relocateVault(location, mode);
+});
+
+ipcMain.handle('get-index-queue', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return await sqliteManager.getIndexQueueStatus();
+});
+
+ipcMain.handle('retry-failed-indexing', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  const count = await sqliteManager.retryFailedIndexEntries();
+  indexWorker?.wake();
+  return count;
+});
+
+// The last check, which is null until the startup repair has finished
+ipcMain.handle('get-consistency-report', async () => {
+  await databaseReady;
+  return consistencyReport;
+});
+
+ipcMain.handle('check-consistency', async () => {
+  await databaseReady;
+  if (!sqliteManager || !vectorStore) throw new Error('Database not initialized');
+  consistencyReport = await new ConsistencyChecker(sqliteManager, vectorStore).check();
+  return consistencyReport;
+});
+
+ipcMain.handle('repair-consistency', async () => {
+  await databaseReady;
+  logger.info('IPC: Repairing vector store');
+  return await repairVectorStore();
+});
+
+ipcMain.handle('get-backups', async () => {
+  await databaseReady;
+  if (!activeVault) throw new Error('Database not initialized');
+  return listBackups(getBackupDir(activeVault));
+});
+
+ipcMain.handle('back-up-now', async () => {
+  await databaseReady;
+  logger.info('IPC: Backing up vault');
+  return await backUpVault();
+});
+
+ipcMain.handle('restore-backup', async (event, id: string) => {
+  logger.info('IPC: Restoring backup', { id });
+  await restoreVaultBackup(id);
+});
+
+ipcMain.handle('choose-backup-folder', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Choose Backup Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  return canceled || filePaths.length === 0 ? null : filePaths[0];
+});
+
+// Progress goes to the window that started the export or import
+function reportProgressTo(sender: WebContents) {
+  return (progress: VaultTransferProgress) => {
+    if (!sender.isDestroyed()) {
+      sender.send('vault-transfer-progress', progress);
+    }
+  };
+}
+
+/**
+ * Writes the open vault to a bundle at `filePath`. Embeddings are optional
+ * because they make the file many times larger and can be regenerated.
+ */
+async function exportVault(
+  filePath: string,
+  options: VaultExportOptions,
+  onProgress: (progress: VaultTransferProgress) => void
+): Promise<VaultExportSummary> {
+  await databaseReady;
+  if (!sqliteManager || !activeVault) throw new Error('Database not initialized');
+
+  const report = (message: string, done: number) => onProgress({ operation: 'export', message, done, total: 3 });
+  report('Reading memories', 0);
+  const data = await sqliteManager.exportVaultData();
+
+  let embeddings: BundleEmbedding[] | undefined;
+  if (options.includeEmbeddings && vectorStore) {
+    report('Reading embeddings', 1);
+    const ids = new Set(data.memories.map(memory => memory.id));
+    embeddings = (await vectorStore.getEmbeddings()).filter(vector => ids.has(vector.memoryId));
+  }
+
+  report('Writing export', 2);
+  await writeVaultBundle(filePath, createVaultBundle(data, { vaultName: activeVault.name, embeddings }));
+  report('Export complete', 3);
+
+  logger.info('Vault exported', { filePath, memories: data.memories.length, embeddings: embeddings?.length ?? 0 });
+  return { filePath, memories: data.memories.length, embeddings: embeddings?.length ?? 0 };
+}
+
+// Writes the open vault's memories to `folderPath` as Markdown notes with YAML front matter
+async function exportMarkdown(
+  folderPath: string,
+  layout: MarkdownLayout,
+  onProgress: (progress: VaultTransferProgress) => void
+): Promise<MarkdownExportSummary> {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+
+  onProgress({ operation: 'export', message: 'Writing notes', done: 0, total: 0 });
+  const data = await sqliteManager.exportVaultData();
+  const { written, unchanged } = await writeMarkdownFolder(folderPath, data.memories, data.projects, layout);
+
+  logger.info('Markdown folder exported', { folderPath, layout, written, unchanged });
+  return { folderPath, written, unchanged };
+}
+
+/**
+ * Imports a bundle into the open vault. Exported vectors are reused when they
+ * come from the model this vault embeds with; other memories are re-embedded.
+ * A dry run reports the same summary without changing anything.
+ */
+async function importVault(
+  filePath: string,
+  options: VaultImportOptions,
+  onProgress: (progress: VaultTransferProgress) => void
+): Promise<VaultImportSummary> {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+
+  onProgress({ operation: 'import', message: 'Reading export', done: 0, total: 0 });
+  const bundle = await readVaultBundle(filePath);
+
+  const summary = await storeImport(bundle, bundle.embeddings || [], options, onProgress);
+  if (!summary.dryRun) {
+    logger.info('Vault imported', { filePath, mode: options.mode, conflict: options.conflict });
+  }
+  return summary;
+}
+
+/**
+ * Merges a Markdown folder into the open vault. Notes carry no history,
+ * links or projects beyond their front matter, and always merge so files
+ * that are not in the folder stay in the vault.
+ */
+async function importMarkdown(
+  folderPath: string,
+  options: VaultImportOptions,
+  onProgress: (progress: VaultTransferProgress) => void
+): Promise<VaultImportSummary> {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+
+  onProgress({ operation: 'import', message: 'Reading notes', done: 0, total: 0 });
+  const notes = await readMarkdownFolder(folderPath);
+  const data = { memories: notes.map(note => note.memory), tags: [], projects: [], links: [], revisions: [] };
+
+  const summary = await storeImport(data, [], { ...options, mode: 'merge' }, onProgress);
+  if (!summary.dryRun) {
+    logger.info('Markdown folder imported', { folderPath, notes: notes.length, conflict: options.conflict });
+  }
+  return summary;
+}
+
+// Stores imported data and indexes the memories it changed, reusing vectors made by the same model
+async function storeImport(
+  data: VaultData,
+  embeddings: BundleEmbedding[],
+  options: VaultImportOptions,
+  onProgress: (progress: VaultTransferProgress) => void
+): Promise<VaultImportSummary> {
+  if (!sqliteManager) throw new Error('Database not initialized');
+
+  onProgress({ operation: 'import', message: options.dryRun ? 'Comparing memories' : 'Importing memories', done: 0, total: 0 });
+  const result = await sqliteManager.importVaultData(data, options);
+  const { summary } = result;
+
+  const model = vectorStore?.getModelId();
+  const vectors = new Map(embeddings
+    .filter(vector => vector.model === model)
+    .map(vector => [vector.memoryId, vector]));
+  const importedIds = new Map(Array.from(result.idMap, ([importedId, id]) => [id, importedId]));
+  // An exported vector stands for the whole memory, so memories long enough to be chunked are embedded again
+  const exportedVector = (memory: Memory) =>
+    chunkMemory(memory).length === 1 ? vectors.get(importedIds.get(memory.id) ?? '') : undefined;
+
+  summary.embeddings.reused = result.memories.filter(memory => exportedVector(memory)).length;
+  summary.embeddings.regenerated = result.memories.length - summary.embeddings.reused;
+  if (summary.dryRun || !vectorStore) return summary;
+
+  if (options.mode === 'replace') {
+    await vectorStore.resetCollection();
+  }
+  // The import queued every memory it wrote; storing the exported vectors first
+  // leaves the index worker to embed only the rest
+  for (const [index, memory] of result.memories.entries()) {
+    onProgress({ operation: 'import', message: 'Indexing memories', done: index, total: result.memories.length });
+    const vector = exportedVector(memory);
+    if (vector) {
+      await vectorStore.addMemoryWithEmbedding(memory, vector.embedding, vector.model);
+    }
+  }
+  indexWorker?.wake();
+  onProgress({ operation: 'import', message: 'Import complete', done: result.memories.length, total: result.memories.length });
+
+  await exportProjects();
+  return summary;
+}
+
+ipcMain.handle('export-vault', async (event, options: VaultExportOptions) => {
+  await databaseReady;
+  const name = (activeVault?.name ?? 'devmemory').replace(/[^\w.-]+/g, '-');
+  const date = new Date().toISOString().slice(0, 10);
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export Vault',
+    defaultPath: path.join(app.getPath('documents'), `${name}-${date}.${VAULT_BUNDLE_EXTENSION}`),
+    filters: [{ name: 'DevMemory Export', extensions: [VAULT_BUNDLE_EXTENSION] }],
+  });
+  if (canceled || !filePath) return null;
+
+  logger.info('IPC: Exporting vault', { filePath, ...options });
+  return await exportVault(filePath, options, reportProgressTo(event.sender));
+});
+
+ipcMain.handle('choose-vault-import', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Import Vault',
+    properties: ['openFile'],
+    filters: [{ name: 'DevMemory Export', extensions: [VAULT_BUNDLE_EXTENSION, 'json'] }],
+  });
+  return canceled || filePaths.length === 0 ? null : filePaths[0];
+});
+
+ipcMain.handle('import-vault', async (event, filePath: string, options: VaultImportOptions) => {
+  logger.info('IPC: Importing vault', { filePath, ...options });
+  return await importVault(filePath, options, reportProgressTo(event.sender));
+});
+
+ipcMain.handle('export-markdown', async (event, layout: MarkdownLayout) => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Export to Markdown Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (canceled || filePaths.length === 0) return null;
+
+  logger.info('IPC: Exporting Markdown folder', { folderPath: filePaths[0], layout });
+  return await exportMarkdown(filePaths[0], layout, reportProgressTo(event.sender));
+});
+
+ipcMain.handle('choose-markdown-import', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Import Markdown Folder',
+    properties: ['openDirectory'],
+  });
+  return canceled || filePaths.length === 0 ? null : filePaths[0];
+});
+
+ipcMain.handle('import-markdown', async (event, folderPath: string, options: VaultImportOptions) => {
+  logger.info('IPC: Importing Markdown folder', { folderPath, ...options });
+  return await importMarkdown(folderPath, options, reportProgressTo(event.sender));
+});
+
+// The memories a Markdown sync imported or trashed are already queued for indexing
+function indexSyncResult(result: MarkdownSyncResult): MarkdownSyncSummary {
+  indexWorker?.wake();
+  return result.summary;
+}
+
+ipcMain.handle('get-markdown-sync', async (): Promise<MarkdownSyncStatus> => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  return {
+    config: await sqliteManager.getMarkdownSyncConfig(),
+    conflicts: await new MarkdownSync(sqliteManager).getConflicts(),
+  };
+});
+
+ipcMain.handle('choose-markdown-sync-folder', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Choose Sync Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  return canceled || filePaths.length === 0 ? null : filePaths[0];
+});
+
+ipcMain.handle('set-markdown-sync', async (event, config: Omit<MarkdownSyncConfig, 'lastSyncedAt'> | null) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  logger.info('IPC: Setting Markdown sync', config ?? { disabled: true });
+  return await sqliteManager.setMarkdownSyncConfig(config);
+});
+
+ipcMain.handle('sync-markdown', async () => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  logger.info('IPC: Syncing Markdown folder');
+  return indexSyncResult(await new MarkdownSync(sqliteManager).sync());
+});
+
+ipcMain.handle('resolve-markdown-sync-conflict', async (event, memoryId: string, resolution: MarkdownSyncResolution) => {
+  await databaseReady;
+  if (!sqliteManager) throw new Error('Database not initialized');
+  logger.info('IPC: Resolving Markdown sync conflict', { memoryId, resolution });
+  return indexSyncResult(await new MarkdownSync(sqliteManager).resolve(memoryId, resolution));
+});
+
+ipcMain.handle('get-app-config', async () => {
+  return getAppConfig();
 });
 
 ipcMain.handle('set-app-config', async (event, config: AppConfig) => {
   store.set('appConfig', config);
+  await vectorStore?.setQuantization(getAppConfig().search.vectorQuantization);
   return config;
 });
 
@@ -425,14 +1381,19 @@ app.on('window-all-closed', () => {
   }
 });
 
-app.on('before-quit', () => {
-  if (sqliteManager) {
-    try {
-      sqliteManager.close();
-    } catch (error) {
-      console.error('Error closing database:', error);
-    }
-  }
+// Quitting waits for the vault to close, so the index worker stops before the stores it writes to
+let vaultClosedForQuit = false;
+app.on('before-quit', event => {
+  if (vaultClosedForQuit) return;
+  event.preventDefault();
+  Promise.resolve(databaseReady)
+    .catch(() => undefined)
+    .then(closeVault)
+    .catch(error => logger.error('Failed to close vault on quit', error))
+    .finally(() => {
+      vaultClosedForQuit = true;
+      app.quit();
+    });
 });
 
 // Handle protocol for deep linking (future feature)
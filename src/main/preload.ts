@@ -1,25 +1,104 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { Memory, MemoryType, AppConfig } from '../shared/types';
+import { Memory, MemoryUpdate, MemoryLink, MemoryLinks, MemoryLinkType, MemoryRevision, MemoryType, Project, ProjectDashboard, ProjectSummary, WikiLink, AppConfig, SearchQuery, SearchResult, SavedSearch, SmartCollection, TagInfo, TagNode, Vault, DatabaseLocation, DatabaseLocationCheck, RelocationMode, VaultExportOptions, VaultExportSummary, VaultImportOptions, VaultImportSummary, VaultTransferProgress, MarkdownLayout, MarkdownExportSummary, MarkdownSyncConfig, MarkdownSyncResolution, MarkdownSyncStatus, MarkdownSyncSummary, BackupInfo, ConsistencyReport, ConsistencyRepairSummary, IndexQueueStatus } from '../shared/types';
 
 export interface ElectronAPI {
   // Memory operations
   createMemory: (memory: Omit<Memory, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Memory>;
   getMemory: (id: string) => Promise<Memory | null>;
-  updateMemory: (id: string, updates: Partial<Omit<Memory, 'id' | 'createdAt'>>) => Promise<Memory | null>;
+  updateMemory: (id: string, updates: MemoryUpdate) => Promise<Memory | null>;
   deleteMemory: (id: string) => Promise<boolean>;
+  getRevisions: (id: string) => Promise<MemoryRevision[]>;
+  restoreRevision: (id: string, revision: number) => Promise<Memory | null>;
+  getLinks: (id: string) => Promise<MemoryLinks>;
+  getAllLinks: () => Promise<MemoryLink[]>;
+  getAllWikiLinks: () => Promise<WikiLink[]>;
+  suggestTitles: (text: string, limit?: number) => Promise<Array<Pick<Memory, 'id' | 'title'>>>;
+  createLink: (sourceId: string, targetId: string, type: MemoryLinkType) => Promise<MemoryLink>;
+  updateLink: (id: string, type: MemoryLinkType) => Promise<MemoryLink | null>;
+  deleteLink: (id: string) => Promise<boolean>;
   searchMemories: (query: string, limit?: number, offset?: number) => Promise<Memory[]>;
+  search: (query: SearchQuery) => Promise<SearchResult[]>;
   getMemoriesByType: (type: MemoryType, limit?: number, offset?: number) => Promise<Memory[]>;
-  getMemoriesByTags: (tags: string[], limit?: number, offset?: number) => Promise<Memory[]>;
-  getRecentMemories: (limit?: number) => Promise<Memory[]>;
+  getMemoriesByTags: (tags: string[], limit?: number, offset?: number, projectId?: string) => Promise<Memory[]>;
+  getRecentMemories: (limit?: number, projectId?: string) => Promise<Memory[]>;
   getAllMemories: () => Promise<Memory[]>;
   getMemoryCount: () => Promise<number>;
   getAllTags: () => Promise<string[]>;
 
+  // Tags
+  getTagUsage: () => Promise<TagInfo[]>;
+  getTagTree: () => Promise<TagNode[]>;
+  setTagColor: (name: string, color: string | null) => Promise<boolean>;
+  renameTag: (from: string, to: string) => Promise<number>;
+  mergeTags: (sources: string[], target: string) => Promise<number>;
+
+  // Saved searches
+  getSavedSearches: () => Promise<SmartCollection[]>;
+  createSavedSearch: (search: Omit<SavedSearch, 'id' | 'createdAt' | 'updatedAt'>) => Promise<SavedSearch>;
+  updateSavedSearch: (id: string, updates: Partial<Omit<SavedSearch, 'id' | 'createdAt'>>) => Promise<SavedSearch | null>;
+  deleteSavedSearch: (id: string) => Promise<boolean>;
+  runSavedSearch: (id: string, limit?: number, offset?: number, projectId?: string) => Promise<Memory[]>;
+
+  // Projects
+  getProjects: () => Promise<ProjectSummary[]>;
+  getProjectDashboard: (id: string) => Promise<ProjectDashboard | null>;
+  createProject: (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Project>;
+  updateProject: (id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>) => Promise<Project | null>;
+  deleteProject: (id: string) => Promise<boolean>;
+
+  // Trash
+  getTrash: () => Promise<Memory[]>;
+  restoreMemory: (id: string) => Promise<Memory | null>;
+  purgeMemory: (id: string) => Promise<boolean>;
+  emptyTrash: () => Promise<number>;
+
+  // Vaults
+  getVaults: () => Promise<Vault[]>;
+  getActiveVault: () => Promise<Vault>;
+  createVault: (name: string) => Promise<Vault>;
+  renameVault: (id: string, name: string) => Promise<Vault | null>;
+  removeVault: (id: string) => Promise<boolean>;
+  switchVault: (id: string) => Promise<Vault>;
+  checkDatabaseLocation: (location: DatabaseLocation) => Promise<DatabaseLocationCheck>;
+  relocateDatabase: (location: DatabaseLocation, mode: RelocationMode) => Promise<Vault>;
+
+  // Export and import
+  exportVault: (options: VaultExportOptions) => Promise<VaultExportSummary | null>;
+  chooseVaultImport: () => Promise<string | null>;
+  importVault: (filePath: string, options: VaultImportOptions) => Promise<VaultImportSummary>;
+  onVaultTransferProgress: (callback: (progress: VaultTransferProgress) => void) => void;
+  exportMarkdown: (layout: MarkdownLayout) => Promise<MarkdownExportSummary | null>;
+  chooseMarkdownImport: () => Promise<string | null>;
+  importMarkdown: (folderPath: string, options: VaultImportOptions) => Promise<VaultImportSummary>;
+
+  // Markdown sync
+  getMarkdownSync: () => Promise<MarkdownSyncStatus>;
+  chooseMarkdownSyncFolder: () => Promise<string | null>;
+  setMarkdownSync: (config: Omit<MarkdownSyncConfig, 'lastSyncedAt'> | null) => Promise<MarkdownSyncConfig | null>;
+  syncMarkdown: () => Promise<MarkdownSyncSummary>;
+  resolveMarkdownSyncConflict: (memoryId: string, resolution: MarkdownSyncResolution) => Promise<MarkdownSyncSummary>;
+
+  // Vector index queue
+  getIndexQueue: () => Promise<IndexQueueStatus>;
+  retryFailedIndexing: () => Promise<number>;
+  onIndexQueueStatus: (callback: (status: IndexQueueStatus) => void) => void;
+
+  // Vector store consistency
+  getConsistencyReport: () => Promise<ConsistencyReport | null>;
+  checkConsistency: () => Promise<ConsistencyReport>;
+  repairConsistency: () => Promise<ConsistencyRepairSummary>;
+
+  // Backups
+  getBackups: () => Promise<BackupInfo[]>;
+  backUpNow: () => Promise<BackupInfo>;
+  restoreBackup: (id: string) => Promise<void>;
+  chooseBackupFolder: () => Promise<string | null>;
+
   // App configuration
   getAppConfig: () => Promise<AppConfig>;
   setAppConfig: (config: AppConfig) => Promise<AppConfig>;
   getAppVersion: () => Promise<string>;
-  getVectorInfo: () => Promise<{count: number, name: string, healthy: boolean}>;
+  getVectorInfo: () => Promise<{count: number, name: string, healthy: boolean, vectorBytes?: number}>;
 
   // Menu events
   onMenuNewMemory: (callback: () => void) => void;
@@ -39,14 +118,93 @@ const electronAPI: ElectronAPI = {
   getMemory: (id) => ipcRenderer.invoke('get-memory', id),
   updateMemory: (id, updates) => ipcRenderer.invoke('update-memory', id, updates),
   deleteMemory: (id) => ipcRenderer.invoke('delete-memory', id),
+  getRevisions: (id) => ipcRenderer.invoke('get-revisions', id),
+  restoreRevision: (id, revision) => ipcRenderer.invoke('restore-revision', id, revision),
+  getLinks: (id) => ipcRenderer.invoke('get-links', id),
+  getAllLinks: () => ipcRenderer.invoke('get-all-links'),
+  getAllWikiLinks: () => ipcRenderer.invoke('get-all-wiki-links'),
+  suggestTitles: (text, limit) => ipcRenderer.invoke('suggest-titles', text, limit),
+  createLink: (sourceId, targetId, type) => ipcRenderer.invoke('create-link', sourceId, targetId, type),
+  updateLink: (id, type) => ipcRenderer.invoke('update-link', id, type),
+  deleteLink: (id) => ipcRenderer.invoke('delete-link', id),
   searchMemories: (query, limit, offset) => ipcRenderer.invoke('search-memories', query, limit, offset),
+  search: (query) => ipcRenderer.invoke('search', query),
   getMemoriesByType: (type, limit, offset) => ipcRenderer.invoke('get-memories-by-type', type, limit, offset),
-  getMemoriesByTags: (tags, limit, offset) => ipcRenderer.invoke('get-memories-by-tags', tags, limit, offset),
-  getRecentMemories: (limit) => ipcRenderer.invoke('get-recent-memories', limit),
+  getMemoriesByTags: (tags, limit, offset, projectId) => ipcRenderer.invoke('get-memories-by-tags', tags, limit, offset, projectId),
+  getRecentMemories: (limit, projectId) => ipcRenderer.invoke('get-recent-memories', limit, projectId),
   getAllMemories: () => ipcRenderer.invoke('get-all-memories'),
   getMemoryCount: () => ipcRenderer.invoke('get-memory-count'),
   getAllTags: () => ipcRenderer.invoke('get-all-tags'),
 
+  // Tags
+  getTagUsage: () => ipcRenderer.invoke('get-tag-usage'),
+  getTagTree: () => ipcRenderer.invoke('get-tag-tree'),
+  setTagColor: (name, color) => ipcRenderer.invoke('set-tag-color', name, color),
+  renameTag: (from, to) => ipcRenderer.invoke('rename-tag', from, to),
+  mergeTags: (sources, target) => ipcRenderer.invoke('merge-tags', sources, target),
+
+  // Saved searches
+  getSavedSearches: () => ipcRenderer.invoke('get-saved-searches'),
+  createSavedSearch: (search) => ipcRenderer.invoke('create-saved-search', search),
+  updateSavedSearch: (id, updates) => ipcRenderer.invoke('update-saved-search', id, updates),
+  deleteSavedSearch: (id) => ipcRenderer.invoke('delete-saved-search', id),
+  runSavedSearch: (id, limit, offset, projectId) => ipcRenderer.invoke('run-saved-search', id, limit, offset, projectId),
+
+  // Projects
+  getProjects: () => ipcRenderer.invoke('get-projects'),
+  getProjectDashboard: (id) => ipcRenderer.invoke('get-project-dashboard', id),
+  createProject: (project) => ipcRenderer.invoke('create-project', project),
+  updateProject: (id, updates) => ipcRenderer.invoke('update-project', id, updates),
+  deleteProject: (id) => ipcRenderer.invoke('delete-project', id),
+
+  // Trash
+  getTrash: () => ipcRenderer.invoke('get-trash'),
+  restoreMemory: (id) => ipcRenderer.invoke('restore-memory', id),
+  purgeMemory: (id) => ipcRenderer.invoke('purge-memory', id),
+  emptyTrash: () => ipcRenderer.invoke('empty-trash'),
+
+  // Vaults
+  getVaults: () => ipcRenderer.invoke('get-vaults'),
+  getActiveVault: () => ipcRenderer.invoke('get-active-vault'),
+  createVault: (name) => ipcRenderer.invoke('create-vault', name),
+  renameVault: (id, name) => ipcRenderer.invoke('rename-vault', id, name),
+  removeVault: (id) => ipcRenderer.invoke('remove-vault', id),
+  switchVault: (id) => ipcRenderer.invoke('switch-vault', id),
+  checkDatabaseLocation: (location) => ipcRenderer.invoke('check-database-location', location),
+  relocateDatabase: (location, mode) => ipcRenderer.invoke('relocate-database', location, mode),
+
+  // Export and import
+  exportVault: (options) => ipcRenderer.invoke('export-vault', options),
+  chooseVaultImport: () => ipcRenderer.invoke('choose-vault-import'),
+  importVault: (filePath, options) => ipcRenderer.invoke('import-vault', filePath, options),
+  onVaultTransferProgress: (callback) => ipcRenderer.on('vault-transfer-progress', (_event, progress) => callback(progress)),
+  exportMarkdown: (layout) => ipcRenderer.invoke('export-markdown', layout),
+  chooseMarkdownImport: () => ipcRenderer.invoke('choose-markdown-import'),
+  importMarkdown: (folderPath, options) => ipcRenderer.invoke('import-markdown', folderPath, options),
+
+  // Markdown sync
+  getMarkdownSync: () => ipcRenderer.invoke('get-markdown-sync'),
+  chooseMarkdownSyncFolder: () => ipcRenderer.invoke('choose-markdown-sync-folder'),
+  setMarkdownSync: (config) => ipcRenderer.invoke('set-markdown-sync', config),
+  syncMarkdown: () => ipcRenderer.invoke('sync-markdown'),
+  resolveMarkdownSyncConflict: (memoryId, resolution) => ipcRenderer.invoke('resolve-markdown-sync-conflict', memoryId, resolution),
+
+  // Vector index queue
+  getIndexQueue: () => ipcRenderer.invoke('get-index-queue'),
+  retryFailedIndexing: () => ipcRenderer.invoke('retry-failed-indexing'),
+  onIndexQueueStatus: (callback) => ipcRenderer.on('index-queue-status', (_event, status) => callback(status)),
+
+  // Vector store consistency
+  getConsistencyReport: () => ipcRenderer.invoke('get-consistency-report'),
+  checkConsistency: () => ipcRenderer.invoke('check-consistency'),
+  repairConsistency: () => ipcRenderer.invoke('repair-consistency'),
+
+  // Backups
+  getBackups: () => ipcRenderer.invoke('get-backups'),
+  backUpNow: () => ipcRenderer.invoke('back-up-now'),
+  restoreBackup: (id) => ipcRenderer.invoke('restore-backup', id),
+  chooseBackupFolder: () => ipcRenderer.invoke('choose-backup-folder'),
+
   // App configuration
   getAppConfig: () => ipcRenderer.invoke('get-app-config'),
   setAppConfig: (config) => ipcRenderer.invoke('set-app-config', config),
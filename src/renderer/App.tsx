@@ -1,18 +1,28 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Routes, Route } from 'react-router-dom';
-import { Memory, MemoryType } from '../shared/types';
+import { Memory, MemoryType, ProjectSummary, SmartCollection, TagNode, Vault } from '../shared/types';
 import Sidebar from './components/Sidebar';
 import MemoryList from './components/MemoryList';
 import MemoryEditor from './components/MemoryEditor';
 import SearchView from './components/SearchView';
 import SettingsView from './components/SettingsView';
 import KnowledgeGraph from './components/KnowledgeGraph';
+import TrashView from './components/TrashView';
+import TagManager from './components/TagManager';
+import ProjectsView from './components/ProjectsView';
 import ErrorBoundary from './components/ErrorBoundary';
 import { ToastProvider, useToast } from './components/Toast';
 import { LoadingSpinner, LoadingOverlay } from './components/LoadingSpinner';
 import { Search, Plus, Settings } from 'lucide-react';
 
-const AppContent: React.FC = () => {
+const COLLECTION_LIMIT = 200;
+
+interface AppContentProps {
+  // Called once another vault or database file is open, or an import rewrote it, so the whole view can be rebuilt
+  onDatabaseReopened: () => void;
+}
+
+const AppContent: React.FC<AppContentProps> = ({ onDatabaseReopened }) => {
   const { showError, showSuccess } = useToast();
   const [memories, setMemories] = useState<Memory[]>([]);
   const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
@@ -20,12 +30,25 @@ const AppContent: React.FC = () => {
   const [showSearch, setShowSearch] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showKnowledgeGraph, setShowKnowledgeGraph] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  // Narrows the memory list, tags, collections and search to one project
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState<string | null>(null);
+  const [tagTree, setTagTree] = useState<TagNode[]>([]);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagMemories, setTagMemories] = useState<Memory[]>([]);
   const [loading, setLoading] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [collections, setCollections] = useState<SmartCollection[]>([]);
+  const [activeCollection, setActiveCollection] = useState<SmartCollection | null>(null);
+  const [collectionMemories, setCollectionMemories] = useState<Memory[]>([]);
 
   useEffect(() => {
-    loadRecentMemories();
     setupMenuListeners();
     setupConnectionListeners();
     return () => {
@@ -46,7 +69,7 @@ const AppContent: React.FC = () => {
   const loadRecentMemories = useCallback(async (showRetryMessage = false) => {
     try {
       setLoading(true);
-      const recentMemories = await window.electronAPI.getRecentMemories(50);
+      const recentMemories = await window.electronAPI.getRecentMemories(50, activeProjectId ?? undefined);
       setMemories(recentMemories);
       setRetryCount(0); // Reset retry count on success
       
@@ -71,7 +94,46 @@ const AppContent: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [showError, showSuccess, retryCount]);
+  }, [showError, showSuccess, retryCount, activeProjectId]);
+
+  // Runs on mount and again whenever the project scope changes
+  useEffect(() => {
+    loadRecentMemories();
+  }, [activeProjectId]);
+
+  const loadCollections = useCallback(async () => {
+    try {
+      setCollections(await window.electronAPI.getSavedSearches());
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    }
+  }, []);
+
+  // Any change to the memory list can move memories in or out of a collection
+  useEffect(() => {
+    loadCollections();
+  }, [memories, loadCollections]);
+
+  useEffect(() => {
+    if (!activeCollection) return;
+    window.electronAPI.runSavedSearch(activeCollection.id, COLLECTION_LIMIT, 0, activeProjectId ?? undefined)
+      .then(setCollectionMemories)
+      .catch(error => {
+        console.error('Failed to load collection:', error);
+        showError('Failed to open collection', 'Unable to run the saved search. Please try again.');
+      });
+  }, [memories, activeCollection, activeProjectId, showError]);
+
+  // Selecting a tag lists its memories and those of every tag nested under it
+  useEffect(() => {
+    if (!activeTag) return;
+    window.electronAPI.getMemoriesByTags([activeTag], COLLECTION_LIMIT, 0, activeProjectId ?? undefined)
+      .then(setTagMemories)
+      .catch(error => {
+        console.error('Failed to load tag:', error);
+        showError('Failed to open tag', 'Unable to load memories with this tag. Please try again.');
+      });
+  }, [memories, activeTag, activeProjectId, showError]);
 
   const setupMenuListeners = useCallback(() => {
     window.electronAPI.onMenuNewMemory(() => {
@@ -91,9 +153,14 @@ const AppContent: React.FC = () => {
     });
 
     window.electronAPI.onMenuMemoryList(() => {
+      setActiveCollection(null);
+      setActiveTag(null);
       setShowKnowledgeGraph(false);
       setShowSearch(false);
       setShowSettings(false);
+      setShowTrash(false);
+      setShowTags(false);
+      setShowProjects(false);
       setShowEditor(false);
     });
   }, []);
@@ -152,6 +219,11 @@ const AppContent: React.FC = () => {
     }
   }, [showError, showSuccess]);
 
+  const handleMemoryRestored = useCallback((restored: Memory) => {
+    setMemories(prev => [restored, ...prev.filter(m => m.id !== restored.id)]);
+    setSelectedMemory(restored);
+  }, []);
+
   const handleMemoryDelete = useCallback(async (memoryId: string) => {
     try {
       // Optimistic update - remove from UI immediately
@@ -162,7 +234,7 @@ const AppContent: React.FC = () => {
       }
       
       await window.electronAPI.deleteMemory(memoryId);
-      showSuccess('Memory deleted', 'The memory has been permanently deleted.');
+      showSuccess('Moved to Trash', 'You can restore the memory from the Trash.');
     } catch (error) {
       console.error('Failed to delete memory:', error);
       // Revert optimistic update on error
@@ -171,6 +243,186 @@ const AppContent: React.FC = () => {
     }
   }, [memories, selectedMemory, showError, showSuccess, loadRecentMemories]);
 
+  const handleCollectionSelect = useCallback((collection: SmartCollection) => {
+    setActiveCollection(collection);
+    setActiveTag(null);
+    setShowEditor(false);
+    setShowSearch(false);
+    setShowSettings(false);
+    setShowKnowledgeGraph(false);
+    setShowTrash(false);
+    setShowTags(false);
+    setShowProjects(false);
+  }, []);
+
+  const handleTrashOpen = useCallback(() => {
+    setActiveCollection(null);
+    setActiveTag(null);
+    setShowTrash(true);
+    setShowTags(false);
+    setShowProjects(false);
+    setShowEditor(false);
+    setShowSearch(false);
+    setShowSettings(false);
+    setShowKnowledgeGraph(false);
+  }, []);
+
+  const handleTrashRestored = useCallback((restored: Memory) => {
+    setMemories(prev => [restored, ...prev.filter(m => m.id !== restored.id)]);
+  }, []);
+
+  const handleTagsOpen = useCallback(() => {
+    setActiveCollection(null);
+    setActiveTag(null);
+    setShowTags(true);
+    setShowTrash(false);
+    setShowProjects(false);
+    setShowEditor(false);
+    setShowSearch(false);
+    setShowSettings(false);
+    setShowKnowledgeGraph(false);
+  }, []);
+
+  const handleTagSelect = useCallback((tag: string) => {
+    setActiveTag(tag);
+    setActiveCollection(null);
+    setShowEditor(false);
+    setShowSearch(false);
+    setShowSettings(false);
+    setShowKnowledgeGraph(false);
+    setShowTrash(false);
+    setShowTags(false);
+    setShowProjects(false);
+  }, []);
+
+  const handleProjectsOpen = useCallback(() => {
+    setActiveCollection(null);
+    setActiveTag(null);
+    setShowProjects(true);
+    setShowTags(false);
+    setShowTrash(false);
+    setShowEditor(false);
+    setShowSearch(false);
+    setShowSettings(false);
+    setShowKnowledgeGraph(false);
+  }, []);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setProjects(await window.electronAPI.getProjects());
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+  }, []);
+
+  // Saving a memory can assign it to a project and change the counts
+  useEffect(() => {
+    loadProjects();
+  }, [memories, loadProjects]);
+
+  // Creating or editing a project can assign memories to it
+  const handleProjectsChanged = useCallback(() => {
+    loadProjects();
+    loadRecentMemories();
+  }, [loadProjects, loadRecentMemories]);
+
+  // A deleted project can no longer be the scope
+  useEffect(() => {
+    if (activeProjectId && !projects.some(project => project.id === activeProjectId)) {
+      setActiveProjectId(null);
+    }
+  }, [projects, activeProjectId]);
+
+  const loadVaults = useCallback(async () => {
+    try {
+      const [all, active] = await Promise.all([
+        window.electronAPI.getVaults(),
+        window.electronAPI.getActiveVault(),
+      ]);
+      setVaults(all);
+      setActiveVaultId(active.id);
+    } catch (error) {
+      console.error('Failed to load vaults:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVaults();
+  }, [loadVaults]);
+
+  const handleVaultSwitch = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      const vault = await window.electronAPI.switchVault(id);
+      showSuccess('Vault opened', `Now working in "${vault.name}".`);
+      onDatabaseReopened();
+    } catch (error) {
+      console.error('Failed to switch vault:', error);
+      showError('Failed to open vault', error instanceof Error ? error.message : 'The previous vault is still open.');
+      setLoading(false);
+    }
+  }, [onDatabaseReopened, showError, showSuccess]);
+
+  const loadTagTree = useCallback(async () => {
+    try {
+      setTagTree(await window.electronAPI.getTagTree());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTagTree();
+  }, [memories, loadTagTree]);
+
+  const tagColors = useMemo(() => {
+    const colors: Record<string, string> = {};
+    const collect = (nodes: TagNode[]) => nodes.forEach(node => {
+      if (node.color) colors[node.name] = node.color;
+      collect(node.children);
+    });
+    collect(tagTree);
+    return colors;
+  }, [tagTree]);
+
+  // Renames and merges rewrite the tags of memories already on screen
+  const handleTagsChanged = useCallback(() => {
+    setActiveTag(null);
+    loadTagTree();
+    loadRecentMemories();
+    loadCollections();
+  }, [loadTagTree, loadRecentMemories, loadCollections]);
+
+  // A Markdown sync can add, edit or trash memories behind the list
+  const handleMemoriesSynced = useCallback(() => {
+    loadRecentMemories();
+    loadCollections();
+  }, [loadRecentMemories, loadCollections]);
+
+  const handleCollectionPin = useCallback(async (collection: SmartCollection) => {
+    try {
+      await window.electronAPI.updateSavedSearch(collection.id, { pinned: !collection.pinned });
+      await loadCollections();
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+      showError('Failed to update collection', 'The operation failed. Please try again.');
+    }
+  }, [loadCollections, showError]);
+
+  const handleCollectionDelete = useCallback(async (collection: SmartCollection) => {
+    try {
+      await window.electronAPI.deleteSavedSearch(collection.id);
+      if (activeCollection?.id === collection.id) {
+        setActiveCollection(null);
+      }
+      await loadCollections();
+      showSuccess('Collection deleted', `"${collection.name}" has been removed.`);
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+      showError('Failed to delete collection', 'The operation failed. Please try again.');
+    }
+  }, [activeCollection, loadCollections, showError, showSuccess]);
+
   const handleSearch = useCallback(async (query: string) => {
     try {
       setLoading(true);
@@ -209,7 +461,24 @@ const AppContent: React.FC = () => {
             onNewMemory={handleNewMemory}
             onSearch={() => setShowSearch(true)}
             onSettings={() => setShowSettings(true)}
+            onTrash={handleTrashOpen}
+            onTags={handleTagsOpen}
+            onProjects={handleProjectsOpen}
             selectedMemory={selectedMemory}
+            collections={collections}
+            activeCollectionId={activeCollection?.id ?? null}
+            onCollectionSelect={handleCollectionSelect}
+            onCollectionPin={handleCollectionPin}
+            onCollectionDelete={handleCollectionDelete}
+            tagTree={tagTree}
+            activeTag={activeTag}
+            onTagSelect={handleTagSelect}
+            projects={projects}
+            activeProjectId={activeProjectId}
+            onProjectScopeChange={setActiveProjectId}
+            vaults={vaults}
+            activeVaultId={activeVaultId}
+            onVaultSwitch={handleVaultSwitch}
           />
         </ErrorBoundary>
         
@@ -220,6 +489,8 @@ const AppContent: React.FC = () => {
                 memory={selectedMemory}
                 onSave={handleMemorySave}
                 onCancel={() => setShowEditor(false)}
+                onRestored={handleMemoryRestored}
+                onOpenMemory={handleMemorySelect}
               />
             </ErrorBoundary>
           )}
@@ -230,6 +501,8 @@ const AppContent: React.FC = () => {
                 onSearch={handleSearch}
                 onClose={() => setShowSearch(false)}
                 onMemorySelect={handleMemorySelect}
+                onSearchSaved={loadCollections}
+                projectId={activeProjectId ?? undefined}
               />
             </ErrorBoundary>
           )}
@@ -238,6 +511,11 @@ const AppContent: React.FC = () => {
             <ErrorBoundary>
               <SettingsView
                 onClose={() => setShowSettings(false)}
+                onVaultsChanged={loadVaults}
+                onDatabaseRelocated={onDatabaseReopened}
+                onVaultImported={onDatabaseReopened}
+                onMemoriesSynced={handleMemoriesSynced}
+                onBackupRestored={onDatabaseReopened}
               />
             </ErrorBoundary>
           )}
@@ -254,12 +532,52 @@ const AppContent: React.FC = () => {
           
           {!showEditor && !showSearch && !showSettings && !showKnowledgeGraph && (
             <ErrorBoundary>
-              <MemoryList
-                memories={memoizedMemories}
-                onMemorySelect={handleMemorySelect}
-                onMemoryDelete={handleMemoryDelete}
-                selectedMemory={selectedMemory}
-              />
+              {showProjects ? (
+                <ProjectsView
+                  projects={projects}
+                  onClose={() => setShowProjects(false)}
+                  onProjectsChanged={handleProjectsChanged}
+                  onMemorySelect={handleMemorySelect}
+                />
+              ) : showTags ? (
+                <TagManager
+                  onClose={() => setShowTags(false)}
+                  onTagsChanged={handleTagsChanged}
+                />
+              ) : showTrash ? (
+                <TrashView
+                  onClose={() => setShowTrash(false)}
+                  onMemoryRestored={handleTrashRestored}
+                />
+              ) : activeTag ? (
+                <MemoryList
+                  memories={tagMemories}
+                  onMemorySelect={handleMemorySelect}
+                  onMemoryDelete={handleMemoryDelete}
+                  selectedMemory={selectedMemory}
+                  title={`#${activeTag}`}
+                  onClose={() => setActiveTag(null)}
+                  tagColors={tagColors}
+                />
+              ) : activeCollection ? (
+                <MemoryList
+                  memories={collectionMemories}
+                  onMemorySelect={handleMemorySelect}
+                  onMemoryDelete={handleMemoryDelete}
+                  selectedMemory={selectedMemory}
+                  title={activeCollection.name}
+                  onClose={() => setActiveCollection(null)}
+                  tagColors={tagColors}
+                />
+              ) : (
+                <MemoryList
+                  memories={memoizedMemories}
+                  onMemorySelect={handleMemorySelect}
+                  onMemoryDelete={handleMemoryDelete}
+                  selectedMemory={selectedMemory}
+                  tagColors={tagColors}
+                />
+              )}
             </ErrorBoundary>
           )}
         </main>
@@ -285,9 +603,13 @@ const AppContent: React.FC = () => {
 };
 
 const App: React.FC = () => {
+  // Remounting after a vault switch or relocation drops every list, filter and selection of the old database
+  const [databaseGeneration, setDatabaseGeneration] = useState(0);
+  const handleDatabaseReopened = useCallback(() => setDatabaseGeneration(generation => generation + 1), []);
+
   return (
     <ToastProvider>
-      <AppContent />
+      <AppContent key={databaseGeneration} onDatabaseReopened={handleDatabaseReopened} />
     </ToastProvider>
   );
 };
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BackupConfig, BackupInfo } from '../../shared/types';
+import { Archive, FolderOpen, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import ConfirmDialog from './ConfirmDialog';
+import { useToast } from './Toast';
+
+interface BackupSettingsProps {
+  config: BackupConfig;
+  // Edits the unsaved settings; they apply once the settings are saved
+  onChange: (config: BackupConfig) => void;
+  // Called once the open vault uses the restored files
+  onRestored?: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ config, onChange, onRestored }) => {
+  const { showError, showSuccess } = useToast();
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<BackupInfo | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await window.electronAPI.getBackups());
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleChooseFolder = async () => {
+    try {
+      const chosen = await window.electronAPI.chooseBackupFolder();
+      if (chosen) onChange({ ...config, folderPath: chosen });
+    } catch (error) {
+      console.error('Failed to choose backup folder:', error);
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    setBusy(true);
+    try {
+      const backup = await window.electronAPI.backUpNow();
+      await loadBackups();
+      showSuccess('Backup created', `The ${backup.kind} backup passed its integrity check.`);
+    } catch (error) {
+      console.error('Failed to back up vault:', error);
+      showError('Backup failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+    const backup = pendingRestore;
+    setPendingRestore(null);
+    setBusy(true);
+    try {
+      await window.electronAPI.restoreBackup(backup.id);
+      await loadBackups();
+      showSuccess('Backup restored', `The vault is back to ${format(new Date(backup.createdAt), 'MMM d, yyyy HH:mm')}.`);
+      onRestored?.();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      showError('Restore failed', error instanceof Error ? error.message : 'The current data was kept.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateKeep = (key: 'keepDaily' | 'keepWeekly', value: string) => {
+    onChange({ ...config, [key]: Math.max(1, Math.round(Number(value))) });
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <Archive className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Backups</h3>
+      </div>
+
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Back up the open vault once a day
+        </label>
+
+        <div>
+          <label htmlFor="backup-folder" className="block text-sm font-medium text-gray-700 mb-1">
+            Backup Folder
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="backup-folder"
+              type="text"
+              value={config.folderPath}
+              onChange={(e) => onChange({ ...config, folderPath: e.target.value })}
+              className="input-field"
+            />
+            <button onClick={handleChooseFolder} className="btn-secondary">
+              <FolderOpen className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="backup-keep-daily" className="block text-sm font-medium text-gray-700 mb-1">
+              Daily backups to keep
+            </label>
+            <input
+              id="backup-keep-daily"
+              type="number"
+              min={1}
+              step={1}
+              value={config.keepDaily}
+              onChange={(e) => updateKeep('keepDaily', e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label htmlFor="backup-keep-weekly" className="block text-sm font-medium text-gray-700 mb-1">
+              Weekly backups to keep
+            </label>
+            <input
+              id="backup-keep-weekly"
+              type="number"
+              min={1}
+              step={1}
+              value={config.keepWeekly}
+              onChange={(e) => updateKeep('keepWeekly', e.target.value)}
+              className="input-field"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Each backup holds the database and the vector data, and is checked with SQLite&apos;s integrity check before
+          it is kept. Folder and rotation changes apply once the settings are saved.
+        </p>
+
+        <button onClick={handleBackUpNow} disabled={busy} className="btn-secondary">
+          <Archive className="w-4 h-4 mr-1" />
+          Back Up Now
+        </button>
+
+        {backups.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {backups.map(backup => (
+              <li key={backup.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {format(new Date(backup.createdAt), 'MMM d, yyyy HH:mm')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {backup.kind === 'weekly' ? 'Weekly' : 'Daily'} · {formatSize(backup.sizeBytes)}
+                    {!backup.hasVectors && ' · no vector data'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setPendingRestore(backup)}
+                  disabled={busy}
+                  className="btn-secondary"
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingRestore !== null}
+        title="Restore Backup"
+        message={
+          pendingRestore
+            ? `The vault will be replaced with the backup from ${format(new Date(pendingRestore.createdAt), 'MMM d, yyyy HH:mm')}. The current data is backed up first, so this can be undone.`
+            : ''
+        }
+        confirmText="Restore"
+        confirmVariant="danger"
+        onConfirm={handleRestore}
+        onCancel={() => setPendingRestore(null)}
+      />
+    </section>
+  );
+};
+
+export default BackupSettings;
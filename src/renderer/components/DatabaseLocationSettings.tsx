@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { DatabaseLocation, DatabaseLocationCheck, RelocationMode, Vault } from '../../shared/types';
+import { Database, AlertCircle } from 'lucide-react';
+import { useToast } from './Toast';
+
+interface DatabaseLocationSettingsProps {
+  // Called once the open vault uses the new files
+  onRelocated?: (vault: Vault) => void;
+}
+
+const MODE_LABELS: Record<RelocationMode, { label: string; done: string }> = {
+  move: { label: 'Move Here', done: 'moved' },
+  copy: { label: 'Copy Here', done: 'copied' },
+  'open-existing': { label: 'Open Existing', done: 'opened' },
+};
+
+const DatabaseLocationSettings: React.FC<DatabaseLocationSettingsProps> = ({ onRelocated }) => {
+  const { showError, showSuccess } = useToast();
+  const [current, setCurrent] = useState<DatabaseLocation | null>(null);
+  const [form, setForm] = useState<DatabaseLocation>({ sqlitePath: '', vectorPath: '' });
+  const [check, setCheck] = useState<DatabaseLocationCheck | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.getActiveVault()
+      .then(vault => {
+        const location = { sqlitePath: vault.sqlitePath, vectorPath: vault.vectorPath };
+        setCurrent(location);
+        setForm(location);
+      })
+      .catch(error => console.error('Failed to load database location:', error));
+  }, []);
+
+  const changed = current !== null &&
+    (form.sqlitePath !== current.sqlitePath || form.vectorPath !== current.vectorPath);
+
+  const updateForm = (key: keyof DatabaseLocation, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+    setCheck(null);
+  };
+
+  const handleCheck = async () => {
+    try {
+      setCheck(await window.electronAPI.checkDatabaseLocation(form));
+    } catch (error) {
+      console.error('Failed to check database location:', error);
+      showError('Check failed', 'Unable to inspect this location.');
+    }
+  };
+
+  const handleRelocate = async (mode: RelocationMode) => {
+    setBusy(true);
+    try {
+      const vault = await window.electronAPI.relocateDatabase(form, mode);
+      const location = { sqlitePath: vault.sqlitePath, vectorPath: vault.vectorPath };
+      setCurrent(location);
+      setForm(location);
+      setCheck(null);
+      showSuccess('Database relocated', `The database was ${MODE_LABELS[mode].done} at the new location.`);
+      onRelocated?.(vault);
+    } catch (error) {
+      console.error('Failed to relocate database:', error);
+      showError('Relocation failed', error instanceof Error ? error.message : 'The database was left where it was.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const modes: RelocationMode[] = check?.sqliteExists || check?.vectorExists ? ['open-existing'] : ['move', 'copy'];
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <Database className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Database</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="sqlite-path" className="block text-sm font-medium text-gray-700 mb-1">
+            SQLite Database Path
+          </label>
+          <input
+            id="sqlite-path"
+            type="text"
+            value={form.sqlitePath}
+            onChange={(e) => updateForm('sqlitePath', e.target.value)}
+            className="input-field"
+            placeholder="/path/to/devmemory.db"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="vector-path" className="block text-sm font-medium text-gray-700 mb-1">
+            Vector Store Path
+          </label>
+          <input
+            id="vector-path"
+            type="text"
+            value={form.vectorPath}
+            onChange={(e) => updateForm('vectorPath', e.target.value)}
+            className="input-field"
+            placeholder="/path/to/vector-data.json"
+          />
+        </div>
+
+        {changed && !check && (
+          <button onClick={handleCheck} className="btn-secondary">
+            Check New Location
+          </button>
+        )}
+
+        {check && check.problems.length > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <ul>
+              {check.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {check && check.problems.length === 0 && (
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-md">
+            <p className="text-sm text-gray-700 mb-3">
+              {modes.includes('open-existing')
+                ? 'A database already exists at this location. Open it to use its memories instead of the current ones; the current files are kept.'
+                : 'Move the current database there, or copy it and keep the original. It stays where it is if the new location cannot be opened.'}
+            </p>
+            <div className="flex gap-2">
+              {modes.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => handleRelocate(mode)}
+                  disabled={busy}
+                  className={mode === 'copy' ? 'btn-secondary' : 'btn-primary'}
+                >
+                  {MODE_LABELS[mode].label}
+                </button>
+              ))}
+              <button
+                onClick={() => {
+                  if (current) setForm(current);
+                  setCheck(null);
+                }}
+                disabled={busy}
+                className="btn-secondary"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DatabaseLocationSettings;
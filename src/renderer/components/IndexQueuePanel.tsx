@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { IndexQueueStatus } from '../../shared/types';
+import { AlertCircle, Loader, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from './Toast';
+
+const IndexQueuePanel: React.FC = () => {
+  const { showError } = useToast();
+  const [status, setStatus] = useState<IndexQueueStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.getIndexQueue()
+      .then(setStatus)
+      .catch(error => console.error('Failed to load index queue:', error));
+    window.electronAPI.onIndexQueueStatus(setStatus);
+    return () => window.electronAPI.removeAllListeners('index-queue-status');
+  }, []);
+
+  const handleRetry = async () => {
+    setBusy(true);
+    try {
+      await window.electronAPI.retryFailedIndexing();
+      setStatus(await window.electronAPI.getIndexQueue());
+    } catch (error) {
+      console.error('Failed to retry indexing:', error);
+      showError('Retry failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!status || (status.pending === 0 && status.failed.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-3">
+      {status.pending > 0 && (
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <Loader className="w-4 h-4 animate-spin" />
+          {status.pending} memories waiting to be indexed
+          {status.retrying > 0 && `, ${status.retrying} retrying after an error`}
+        </p>
+      )}
+
+      {status.failed.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800 space-y-2">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {status.failed.length} memories could not be indexed and are left out of semantic search
+          </p>
+          <ul className="space-y-1">
+            {status.failed.map(item => (
+              <li key={item.memoryId} className="text-xs">
+                <span className="font-medium">{item.title ?? item.memoryId}</span>
+                {' · '}
+                {item.attempts} attempts since {format(new Date(item.enqueuedAt), 'MMM d, yyyy HH:mm')}
+                {item.lastError && <span className="block text-red-700 text-truncate" title={item.lastError}>{item.lastError}</span>}
+              </li>
+            ))}
+          </ul>
+          <button onClick={handleRetry} disabled={busy} className="btn-secondary">
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Retry Now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexQueuePanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Memory } from '../../shared/types';
+import { Memory, MemoryLink, MemoryLinkType, WikiLink } from '../../shared/types';
 import { X, RefreshCw, ZoomIn, ZoomOut } from 'lucide-react';
+import { LINK_TYPE_LABELS } from './LinkedMemories';
 
 interface KnowledgeGraphProps {
   memories: Memory[];
@@ -21,7 +22,8 @@ interface Node {
 interface Edge {
   from: string;
   to: string;
-  type: 'tag' | 'project' | 'similar';
+  type: 'tag' | 'project' | 'similar' | 'link' | 'mention';
+  linkType?: MemoryLinkType;
 }
 
 const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
@@ -32,14 +34,25 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [nodes, setNodes] = useState<Node[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
+  const [links, setLinks] = useState<MemoryLink[]>([]);
+  const [wikiLinks, setWikiLinks] = useState<WikiLink[]>([]);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
 
   useEffect(() => {
-    generateGraph();
+    window.electronAPI.getAllLinks()
+      .then(setLinks)
+      .catch(error => console.error('Failed to load memory links:', error));
+    window.electronAPI.getAllWikiLinks()
+      .then(setWikiLinks)
+      .catch(error => console.error('Failed to load wiki links:', error));
   }, [memories]);
 
+  useEffect(() => {
+    generateGraph();
+  }, [memories, links, wikiLinks]);
+
   useEffect(() => {
     drawGraph();
   }, [nodes, edges, hoveredNode, zoom, pan]);
@@ -139,6 +152,30 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
       }
     });
 
+    // Explicit links between memories that are both on the graph
+    const memoryIds = new Set(memories.map(memory => memory.id));
+    links.forEach(link => {
+      if (memoryIds.has(link.sourceId) && memoryIds.has(link.targetId)) {
+        newEdges.push({
+          from: link.sourceId,
+          to: link.targetId,
+          type: 'link',
+          linkType: link.type
+        });
+      }
+    });
+
+    // [[...]] references written in memory content
+    wikiLinks.forEach(link => {
+      if (link.targetId && memoryIds.has(link.sourceId) && memoryIds.has(link.targetId)) {
+        newEdges.push({
+          from: link.sourceId,
+          to: link.targetId,
+          type: 'mention'
+        });
+      }
+    });
+
     setNodes([...memoryNodes, ...tagNodes, ...projectNodes]);
     setEdges(newEdges);
   };
@@ -177,12 +214,40 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
             ctx.strokeStyle = '#3b82f6';
             ctx.lineWidth = 2;
             break;
+          case 'link':
+            ctx.strokeStyle = '#8b5cf6';
+            ctx.lineWidth = 2;
+            break;
+          case 'mention':
+            ctx.strokeStyle = '#a78bfa';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            break;
           default:
             ctx.strokeStyle = '#6b7280';
             ctx.lineWidth = 1;
         }
         
         ctx.stroke();
+        ctx.setLineDash([]);
+
+        if (edge.type === 'mention') {
+          drawArrowHead(ctx, fromNode, toNode);
+        }
+
+        if (edge.type === 'link') {
+          drawArrowHead(ctx, fromNode, toNode);
+          if (hoveredNode === edge.from || hoveredNode === edge.to) {
+            ctx.fillStyle = '#6d28d9';
+            ctx.font = '11px system-ui';
+            ctx.textAlign = 'center';
+            ctx.fillText(
+              edge.linkType ? LINK_TYPE_LABELS[edge.linkType].outgoing : '',
+              (fromNode.x + toNode.x) / 2,
+              (fromNode.y + toNode.y) / 2 - 6
+            );
+          }
+        }
       }
     });
 
@@ -220,6 +285,22 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
     ctx.restore();
   };
 
+  // Links are directed, so mark the target end just outside its node
+  const drawArrowHead = (ctx: CanvasRenderingContext2D, from: Node, to: Node) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const tipX = to.x - Math.cos(angle) * 10;
+    const tipY = to.y - Math.sin(angle) * 10;
+    const size = 8;
+
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 6), tipY - size * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 6), tipY - size * Math.sin(angle + Math.PI / 6));
+    ctx.closePath();
+    ctx.fillStyle = '#8b5cf6';
+    ctx.fill();
+  };
+
   const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -339,6 +420,14 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
             <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
             <span className="text-gray-600">Projects</span>
           </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-0.5 bg-violet-500"></div>
+            <span className="text-gray-600">Links</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-0 border-t border-dashed border-violet-400"></div>
+            <span className="text-gray-600">[[Mentions]]</span>
+          </div>
           <div className="ml-auto text-gray-500">
             Click on memory nodes to open them
           </div>
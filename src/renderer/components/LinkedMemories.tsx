@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MEMORY_LINK_TYPES, Memory, MemoryLinks, MemoryLinkType, LinkedMemory } from '../../shared/types';
+import { Link2, X, ArrowRight, ArrowLeft, AtSign, AlertTriangle } from 'lucide-react';
+import { useToast } from './Toast';
+
+interface LinkedMemoriesProps {
+  memoryId: string;
+  onOpenMemory?: (memory: Memory) => void;
+}
+
+// How a link reads from its source and from its target
+export const LINK_TYPE_LABELS: Record<MemoryLinkType, { outgoing: string; incoming: string }> = {
+  supersedes: { outgoing: 'Supersedes', incoming: 'Superseded by' },
+  implements: { outgoing: 'Implements', incoming: 'Implemented by' },
+  'caused-by': { outgoing: 'Caused by', incoming: 'Causes' },
+  references: { outgoing: 'References', incoming: 'Referenced by' },
+  'duplicate-of': { outgoing: 'Duplicate of', incoming: 'Duplicated by' },
+};
+
+const SEARCH_LIMIT = 8;
+const SEARCH_DELAY = 200;
+
+const LinkedMemories: React.FC<LinkedMemoriesProps> = ({ memoryId, onOpenMemory }) => {
+  const { showError } = useToast();
+  const [links, setLinks] = useState<MemoryLinks>({ outgoing: [], incoming: [], wikiLinks: [], mentions: [] });
+  const [linkType, setLinkType] = useState<MemoryLinkType>('references');
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<Memory[]>([]);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await window.electronAPI.getLinks(memoryId));
+    } catch (error) {
+      console.error('Failed to load links:', error);
+    }
+  }, [memoryId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setCandidates([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await window.electronAPI.searchMemories(query, SEARCH_LIMIT);
+        const alreadyLinked = new Set(
+          links.outgoing.filter(l => l.link.type === linkType).map(l => l.memory.id)
+        );
+        setCandidates(results.filter(m => m.id !== memoryId && !alreadyLinked.has(m.id)));
+      } catch (error) {
+        console.error('Failed to search memories to link:', error);
+      }
+    }, SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query, linkType, links, memoryId]);
+
+  const handleCreate = async (target: Memory) => {
+    try {
+      await window.electronAPI.createLink(memoryId, target.id, linkType);
+      setQuery('');
+      await loadLinks();
+    } catch (error) {
+      console.error('Failed to create link:', error);
+      showError('Link failed', error instanceof Error ? error.message : 'Unable to link these memories.');
+    }
+  };
+
+  const handleTypeChange = async (linked: LinkedMemory, type: MemoryLinkType) => {
+    try {
+      await window.electronAPI.updateLink(linked.link.id, type);
+      await loadLinks();
+    } catch (error) {
+      console.error('Failed to update link:', error);
+      showError('Update failed', error instanceof Error ? error.message : 'Unable to change this link.');
+    }
+  };
+
+  const handleDelete = async (linked: LinkedMemory) => {
+    try {
+      await window.electronAPI.deleteLink(linked.link.id);
+      await loadLinks();
+    } catch (error) {
+      console.error('Failed to delete link:', error);
+      showError('Unlink failed', 'Unable to remove this link. Please try again.');
+    }
+  };
+
+  const renderLink = (linked: LinkedMemory, direction: 'outgoing' | 'incoming') => (
+    <li key={linked.link.id} className="flex items-center gap-2 text-sm">
+      {direction === 'outgoing' ? (
+        <>
+          <ArrowRight className="w-3 h-3 text-gray-400 flex-shrink-0" />
+          <select
+            value={linked.link.type}
+            onChange={(e) => handleTypeChange(linked, e.target.value as MemoryLinkType)}
+            aria-label={`Relation to ${linked.memory.title}`}
+            className="text-xs border border-gray-200 rounded px-1 py-0.5 bg-white"
+          >
+            {MEMORY_LINK_TYPES.map(type => (
+              <option key={type} value={type}>{LINK_TYPE_LABELS[type].outgoing}</option>
+            ))}
+          </select>
+        </>
+      ) : (
+        <>
+          <ArrowLeft className="w-3 h-3 text-gray-400 flex-shrink-0" />
+          <span className="text-xs text-gray-500">{LINK_TYPE_LABELS[linked.link.type].incoming}</span>
+        </>
+      )}
+      <button
+        type="button"
+        onClick={() => onOpenMemory?.(linked.memory)}
+        disabled={!onOpenMemory}
+        className="flex-1 text-left text-blue-700 hover:underline text-truncate disabled:text-gray-900 disabled:no-underline"
+      >
+        {linked.memory.title}
+      </button>
+      <button
+        type="button"
+        onClick={() => handleDelete(linked)}
+        className="p-0.5 text-gray-400 hover:text-red-600"
+        title="Remove link"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </li>
+  );
+
+  const danglingLinks = links.wikiLinks.filter(link => !link.targetId);
+  const isEmpty = links.outgoing.length === 0 && links.incoming.length === 0 &&
+    links.mentions.length === 0 && danglingLinks.length === 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <Link2 className="w-4 h-4 text-gray-500" />
+        <span className="text-sm font-medium text-gray-700">Linked memories</span>
+      </div>
+
+      {isEmpty ? (
+        <p className="text-sm text-gray-500 mb-2">No linked memories</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {links.outgoing.map(linked => renderLink(linked, 'outgoing'))}
+          {links.incoming.map(linked => renderLink(linked, 'incoming'))}
+          {links.mentions.map(mention => (
+            <li key={`mention-${mention.id}`} className="flex items-center gap-2 text-sm">
+              <AtSign className="w-3 h-3 text-gray-400 flex-shrink-0" />
+              <span className="text-xs text-gray-500">Mentioned in</span>
+              <button
+                type="button"
+                onClick={() => onOpenMemory?.(mention)}
+                disabled={!onOpenMemory}
+                className="flex-1 text-left text-blue-700 hover:underline text-truncate disabled:text-gray-900 disabled:no-underline"
+              >
+                {mention.title}
+              </button>
+            </li>
+          ))}
+          {danglingLinks.map(link => (
+            <li key={`dangling-${link.target}`} className="flex items-center gap-2 text-sm text-amber-700">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              <span className="text-truncate">[[{link.target}]] does not match any memory</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={linkType}
+          onChange={(e) => setLinkType(e.target.value as MemoryLinkType)}
+          aria-label="Relation"
+          className="select-field w-40"
+        >
+          {MEMORY_LINK_TYPES.map(type => (
+            <option key={type} value={type}>{LINK_TYPE_LABELS[type].outgoing}</option>
+          ))}
+        </select>
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            aria-label="Find a memory to link"
+            className="input-field"
+            placeholder="Search memories to link..."
+          />
+          {candidates.length > 0 && (
+            <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+              {candidates.map(candidate => (
+                <li key={candidate.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleCreate(candidate)}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 text-truncate"
+                  >
+                    {candidate.title}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkedMemories;
@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  MarkdownLayout,
+  MarkdownSyncConflict,
+  MarkdownSyncConflictKind,
+  MarkdownSyncResolution,
+  MarkdownSyncStatus,
+  MarkdownSyncSummary,
+} from '../../shared/types';
+import { diffLines } from '../../shared/utils/line-diff';
+import { normalizeTag } from '../../shared/utils/tag-hierarchy';
+import { AlertTriangle, FolderOpen, GitBranch, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from './Toast';
+
+interface MarkdownSyncSettingsProps {
+  // Called after a sync changed memories in the open vault
+  onSynced?: () => void;
+}
+
+const CONFLICT_LABELS: Record<MarkdownSyncConflictKind, string> = {
+  'both-changed': 'Changed in the vault and in the folder',
+  'deleted-in-folder': 'Changed in the vault, deleted in the folder',
+  'deleted-in-vault': 'Changed in the folder, deleted in the vault',
+};
+
+const RESOLUTION_LABELS: Record<MarkdownSyncConflictKind, Record<MarkdownSyncResolution, string>> = {
+  'both-changed': { 'keep-vault': 'Keep Vault Version', 'keep-file': 'Keep Folder Version' },
+  'deleted-in-folder': { 'keep-vault': 'Write the Note Again', 'keep-file': 'Move Memory to Trash' },
+  'deleted-in-vault': { 'keep-vault': 'Delete the Note', 'keep-file': 'Restore the Memory' },
+};
+
+const DIFF_LINE_STYLES = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  unchanged: 'text-gray-600',
+};
+
+const DIFF_LINE_MARKERS = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+const describeSummary = (summary: MarkdownSyncSummary) => {
+  const parts = [
+    `${summary.exported} notes written`,
+    `${summary.imported} memories updated from notes`,
+    summary.removedFiles > 0 && `${summary.removedFiles} notes removed`,
+    summary.trashed > 0 && `${summary.trashed} memories moved to the trash`,
+  ].filter(Boolean);
+  return parts.join(', ');
+};
+
+const ConflictDiff: React.FC<{ conflict: MarkdownSyncConflict }> = ({ conflict }) => {
+  const diff = diffLines(conflict.vaultText ?? '', conflict.fileText ?? '');
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-1">- vault, + folder</p>
+      <pre className="text-xs font-mono bg-white border border-gray-200 rounded-md overflow-x-auto max-h-64">
+        {diff.map((line, index) => (
+          <div key={index} className={`px-2 whitespace-pre ${DIFF_LINE_STYLES[line.type]}`}>
+            {DIFF_LINE_MARKERS[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+const MarkdownSyncSettings: React.FC<MarkdownSyncSettingsProps> = ({ onSynced }) => {
+  const { showError, showSuccess } = useToast();
+  const [status, setStatus] = useState<MarkdownSyncStatus | null>(null);
+  const [folderPath, setFolderPath] = useState<string | null>(null);
+  const [layout, setLayout] = useState<MarkdownLayout>('type');
+  const [tagsInput, setTagsInput] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await window.electronAPI.getMarkdownSync());
+    } catch (error) {
+      console.error('Failed to load Markdown sync:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const finishSync = (summary: MarkdownSyncSummary) => {
+    setStatus(current => current && { ...current, conflicts: summary.conflicts });
+    if (summary.imported > 0 || summary.trashed > 0) {
+      onSynced?.();
+    }
+  };
+
+  const handleSync = async () => {
+    setBusy(true);
+    try {
+      const summary = await window.electronAPI.syncMarkdown();
+      finishSync(summary);
+      await loadStatus();
+      showSuccess(
+        'Folder synced',
+        describeSummary(summary) + (summary.conflicts.length > 0 ? `; ${summary.conflicts.length} conflicts need a decision` : '')
+      );
+    } catch (error) {
+      console.error('Failed to sync Markdown folder:', error);
+      showError('Sync failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const chosen = await window.electronAPI.chooseMarkdownSyncFolder();
+      if (chosen) setFolderPath(chosen);
+    } catch (error) {
+      console.error('Failed to choose sync folder:', error);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!folderPath) return;
+    const tags = tagsInput.split(',').map(normalizeTag).filter(Boolean);
+    setBusy(true);
+    try {
+      await window.electronAPI.setMarkdownSync({ folderPath, layout, filters: tags.length > 0 ? { anyTags: tags } : {} });
+      setFolderPath(null);
+      setTagsInput('');
+      await loadStatus();
+    } catch (error) {
+      console.error('Failed to set up Markdown sync:', error);
+      showError('Failed to set up sync', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+      return;
+    } finally {
+      setBusy(false);
+    }
+    await handleSync();
+  };
+
+  const handleStop = async () => {
+    setBusy(true);
+    try {
+      await window.electronAPI.setMarkdownSync(null);
+      await loadStatus();
+    } catch (error) {
+      console.error('Failed to stop Markdown sync:', error);
+      showError('Failed to stop syncing', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResolve = async (conflict: MarkdownSyncConflict, resolution: MarkdownSyncResolution) => {
+    setBusy(true);
+    try {
+      finishSync(await window.electronAPI.resolveMarkdownSyncConflict(conflict.memoryId, resolution));
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error);
+      showError('Failed to resolve conflict', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const config = status?.config;
+  const sharedTags = config?.filters.anyTags ?? [];
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <GitBranch className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Markdown Sync</h3>
+      </div>
+
+      <p className="mb-3 text-xs text-gray-500">
+        Mirrors memories to a folder of Markdown notes, such as a git checkout shared with your team. Syncing writes
+        memories changed here and reads back notes changed in the folder; commit and pull with git as usual.
+      </p>
+
+      {config ? (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-700 space-y-1">
+            <p className="text-truncate" title={config.folderPath}>{config.folderPath}</p>
+            <p className="text-xs text-gray-500">
+              {sharedTags.length > 0 ? `Memories tagged ${sharedTags.join(', ')}` : 'All memories'}, in folders by{' '}
+              {config.layout}.{' '}
+              {config.lastSyncedAt
+                ? `Last synced ${format(new Date(config.lastSyncedAt), 'MMM d, yyyy HH:mm')}.`
+                : 'Not synced yet.'}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={handleSync} disabled={busy} className="btn-primary">
+              <RefreshCw className={`w-4 h-4 mr-1 ${busy ? 'animate-spin' : ''}`} />
+              Sync Now
+            </button>
+            <button onClick={handleStop} disabled={busy} className="btn-secondary">
+              Stop Syncing
+            </button>
+          </div>
+
+          {status.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                <AlertTriangle className="w-4 h-4" />
+                {status.conflicts.length} conflicts
+              </div>
+              {status.conflicts.map(conflict => (
+                <div key={conflict.memoryId} className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 text-truncate">{conflict.title}</p>
+                      <p className="text-xs text-gray-500 text-truncate" title={conflict.path}>
+                        {CONFLICT_LABELS[conflict.kind]} · {conflict.path}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setExpanded(expanded === conflict.memoryId ? null : conflict.memoryId)}
+                      className="text-xs text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                    >
+                      {expanded === conflict.memoryId ? 'Hide changes' : 'Show changes'}
+                    </button>
+                  </div>
+                  {expanded === conflict.memoryId && <ConflictDiff conflict={conflict} />}
+                  <div className="flex gap-2">
+                    {(['keep-vault', 'keep-file'] as MarkdownSyncResolution[]).map(resolution => (
+                      <button
+                        key={resolution}
+                        onClick={() => handleResolve(conflict, resolution)}
+                        disabled={busy}
+                        className="btn-secondary"
+                      >
+                        {RESOLUTION_LABELS[conflict.kind][resolution]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <button onClick={handleChooseFolder} disabled={busy} className="btn-secondary">
+            <FolderOpen className="w-4 h-4 mr-1" />
+            Choose Folder
+          </button>
+
+          {folderPath && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-3">
+              <p className="text-xs text-gray-500 text-truncate" title={folderPath}>{folderPath}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="sync-tags" className="block text-sm font-medium text-gray-700 mb-1">
+                    Share memories tagged
+                  </label>
+                  <input
+                    id="sync-tags"
+                    type="text"
+                    value={tagsInput}
+                    onChange={(e) => setTagsInput(e.target.value)}
+                    placeholder="team, infra/k8s (empty for all)"
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="sync-layout" className="block text-sm font-medium text-gray-700 mb-1">
+                    Folders by
+                  </label>
+                  <select
+                    id="sync-layout"
+                    value={layout}
+                    onChange={(e) => setLayout(e.target.value as MarkdownLayout)}
+                    className="select-field"
+                  >
+                    <option value="type">Type</option>
+                    <option value="project">Project</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={handleStart} disabled={busy} className="btn-primary">
+                  Start Syncing
+                </button>
+                <button onClick={() => setFolderPath(null)} disabled={busy} className="btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MarkdownSyncSettings;
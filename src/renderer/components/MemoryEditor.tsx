@@ -1,19 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Memory, MemoryType, MemoryMetadata } from '../../shared/types';
-import { Save, X, Plus, Tag, AlertCircle } from 'lucide-react';
+import { Save, X, Plus, Tag, AlertCircle, History } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { useToast } from './Toast';
+import RevisionHistory from './RevisionHistory';
+import LinkedMemories from './LinkedMemories';
+import { getOpenWikiLink } from '../../shared/utils/wiki-links';
+import { normalizeTag } from '../../shared/utils/tag-hierarchy';
+
+type TitleSuggestion = Pick<Memory, 'id' | 'title'>;
 
 interface MemoryEditorProps {
   memory: Memory | null;
   onSave: (memory: Memory) => void;
   onCancel: () => void;
+  onRestored?: (memory: Memory) => void;
+  onOpenMemory?: (memory: Memory) => void;
 }
 
 const MemoryEditor: React.FC<MemoryEditorProps> = ({
   memory,
   onSave,
   onCancel,
+  onRestored,
+  onOpenMemory,
 }) => {
   const { showError } = useToast();
   const [formData, setFormData] = useState({
@@ -30,6 +40,12 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
   const [newTag, setNewTag] = useState('');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [titleSuggestions, setTitleSuggestions] = useState<TitleSuggestion[]>([]);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [projectNames, setProjectNames] = useState<string[]>([]);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const suggestionRequest = useRef(0);
 
   useEffect(() => {
     if (memory) {
@@ -81,6 +97,13 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
     return errors;
   };
 
+  // Registered projects are offered as completions for the project field
+  useEffect(() => {
+    window.electronAPI.getProjects()
+      .then(projects => setProjectNames(projects.map(project => project.name)))
+      .catch(error => console.error('Failed to load projects:', error));
+  }, []);
+
   // Real-time validation
   useEffect(() => {
     const errors = validateInput();
@@ -126,10 +149,11 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
   };
 
   const handleAddTag = () => {
-    if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
+    const tag = normalizeTag(newTag);
+    if (tag && !formData.tags.includes(tag)) {
       setFormData(prev => ({
         ...prev,
-        tags: [...prev.tags, newTag.trim()],
+        tags: [...prev.tags, tag],
       }));
       setNewTag('');
     }
@@ -142,6 +166,69 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
     }));
   };
 
+  // Offer titles while the cursor is inside an unfinished [[link
+  const updateTitleSuggestions = async (content: string, cursor: number) => {
+    const request = ++suggestionRequest.current;
+    const openLink = getOpenWikiLink(content, cursor);
+    if (!openLink || !openLink.query.trim()) {
+      setTitleSuggestions([]);
+      return;
+    }
+
+    try {
+      const suggestions = await window.electronAPI.suggestTitles(openLink.query.trim());
+      if (request === suggestionRequest.current) {
+        setTitleSuggestions((suggestions || []).filter(suggestion => suggestion.id !== memory?.id));
+        setSuggestionIndex(0);
+      }
+    } catch (error) {
+      console.error('Failed to suggest titles:', error);
+    }
+  };
+
+  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = e.target;
+    setFormData(prev => ({ ...prev, content: value }));
+    updateTitleSuggestions(value, selectionStart);
+  };
+
+  const insertTitleSuggestion = (suggestion: TitleSuggestion) => {
+    const textarea = contentRef.current;
+    const cursor = textarea ? textarea.selectionStart : formData.content.length;
+    const openLink = getOpenWikiLink(formData.content, cursor);
+    if (!openLink) return;
+
+    const after = formData.content.slice(cursor);
+    const closing = after.startsWith(']]') ? '' : ']]';
+    const content = formData.content.slice(0, openLink.start) + suggestion.title + closing + after;
+    const newCursor = openLink.start + suggestion.title.length + 2;
+
+    suggestionRequest.current++;
+    setTitleSuggestions([]);
+    setFormData(prev => ({ ...prev, content }));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(newCursor, newCursor);
+    });
+  };
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (titleSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSuggestionIndex(index => (index + 1) % titleSuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSuggestionIndex(index => (index - 1 + titleSuggestions.length) % titleSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertTitleSuggestion(titleSuggestions[suggestionIndex]);
+    } else if (e.key === 'Escape') {
+      setTitleSuggestions([]);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && e.target === document.activeElement) {
       e.preventDefault();
@@ -159,6 +246,15 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
           {memory ? 'Edit Memory' : 'New Memory'}
         </h2>
         <div className="flex items-center gap-2">
+          {memory?.id && onRestored && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`btn-secondary ${showHistory ? 'bg-blue-50 text-blue-700' : ''}`}
+            >
+              <History className="w-4 h-4 mr-1" />
+              History
+            </button>
+          )}
           <button
             onClick={onCancel}
             className="btn-secondary"
@@ -177,176 +273,225 @@ const MemoryEditor: React.FC<MemoryEditorProps> = ({
         </div>
       </div>
 
-      {/* Form */}
-      <div className="flex-1 overflow-y-auto p-6">
-        <div className="max-w-4xl mx-auto space-y-6">
-          {/* Title */}
-          <div>
-            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
-              Title *
-            </label>
-            <input
-              type="text"
-              id="title"
-              value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-              className={`input-field ${validationErrors.title ? 'border-red-500 focus:border-red-500' : ''}`}
-              placeholder="Enter a descriptive title..."
-              autoFocus
-            />
-            {validationErrors.title && (
-              <div className="flex items-center mt-1 text-sm text-red-600">
-                <AlertCircle className="w-4 h-4 mr-1" />
-                {validationErrors.title}
-              </div>
-            )}
-          </div>
-
-          {/* Type */}
-          <div>
-            <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
-              Type
-            </label>
-            <select
-              id="type"
-              value={formData.type}
-              onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as MemoryType }))}
-              className="select-field"
-            >
-              <option value={MemoryType.NOTE}>Note</option>
-              <option value={MemoryType.CODE_SNIPPET}>Code Snippet</option>
-              <option value={MemoryType.DOCUMENTATION}>Documentation</option>
-              <option value={MemoryType.MEETING_NOTES}>Meeting Notes</option>
-              <option value={MemoryType.DECISION}>Decision</option>
-              <option value={MemoryType.API_CALL}>API Call</option>
-              <option value={MemoryType.DEBUG_SESSION}>Debug Session</option>
-              <option value={MemoryType.PROJECT_CONTEXT}>Project Context</option>
-              <option value={MemoryType.KUBERNETES_RESOURCE}>Kubernetes Resource</option>
-              <option value={MemoryType.COMMAND}>Command</option>
-              <option value={MemoryType.LINK}>Link</option>
-            </select>
-          </div>
-
-          {/* Content */}
-          <div>
-            <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-1">
-              Content *
-            </label>
-            <textarea
-              id="content"
-              value={formData.content}
-              onChange={(e) => setFormData(prev => ({ ...prev, content: e.target.value }))}
-              className={`textarea-field h-64 ${validationErrors.content ? 'border-red-500 focus:border-red-500' : ''}`}
-              placeholder="Enter your memory content..."
-            />
-            {validationErrors.content && (
-              <div className="flex items-center mt-1 text-sm text-red-600">
-                <AlertCircle className="w-4 h-4 mr-1" />
-                {validationErrors.content}
-              </div>
-            )}
-          </div>
-
-          {/* Tags */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Tags
-            </label>
-            <div className="flex flex-wrap gap-2 mb-2">
-              {(formData.tags || []).map((tag) => (
-                <div
-                  key={tag}
-                  className="flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
-                >
-                  <Tag className="w-3 h-3" />
-                  <span>{tag}</span>
-                  <button
-                    onClick={() => handleRemoveTag(tag)}
-                    className="ml-1 text-blue-600 hover:text-blue-800"
-                  >
-                    <X className="w-3 h-3" />
-                  </button>
-                </div>
-              ))}
-            </div>
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={newTag}
-                onChange={(e) => setNewTag(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="input-field flex-1"
-                placeholder="Add a tag..."
-              />
-              <button
-                onClick={handleAddTag}
-                className="btn-secondary"
-              >
-                <Plus className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
-
-          {/* Metadata */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="flex-1 flex min-h-0">
+        {/* Form */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Title */}
             <div>
-              <label htmlFor="source" className="block text-sm font-medium text-gray-700 mb-1">
-                Source
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
+                Title *
               </label>
               <input
                 type="text"
-                id="source"
-                value={formData.metadata.source || ''}
-                onChange={(e) => setFormData(prev => ({
-                  ...prev,
-                  metadata: { ...prev.metadata, source: e.target.value }
-                }))}
-                className="input-field"
-                placeholder="e.g., VSCode, Terminal, Browser"
+                id="title"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                className={`input-field ${validationErrors.title ? 'border-red-500 focus:border-red-500' : ''}`}
+                placeholder="Enter a descriptive title..."
+                autoFocus
               />
+              {validationErrors.title && (
+                <div className="flex items-center mt-1 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 mr-1" />
+                  {validationErrors.title}
+                </div>
+              )}
             </div>
 
+            {/* Type */}
             <div>
-              <label htmlFor="project" className="block text-sm font-medium text-gray-700 mb-1">
-                Project
+              <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
+                Type
               </label>
-              <input
-                type="text"
-                id="project"
-                value={formData.metadata.project || ''}
-                onChange={(e) => setFormData(prev => ({
-                  ...prev,
-                  metadata: { ...prev.metadata, project: e.target.value }
-                }))}
-                className="input-field"
-                placeholder="Project name"
-              />
+              <select
+                id="type"
+                value={formData.type}
+                onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as MemoryType }))}
+                className="select-field"
+              >
+                <option value={MemoryType.NOTE}>Note</option>
+                <option value={MemoryType.CODE_SNIPPET}>Code Snippet</option>
+                <option value={MemoryType.DOCUMENTATION}>Documentation</option>
+                <option value={MemoryType.MEETING_NOTES}>Meeting Notes</option>
+                <option value={MemoryType.DECISION}>Decision</option>
+                <option value={MemoryType.API_CALL}>API Call</option>
+                <option value={MemoryType.DEBUG_SESSION}>Debug Session</option>
+                <option value={MemoryType.PROJECT_CONTEXT}>Project Context</option>
+                <option value={MemoryType.KUBERNETES_RESOURCE}>Kubernetes Resource</option>
+                <option value={MemoryType.COMMAND}>Command</option>
+                <option value={MemoryType.LINK}>Link</option>
+              </select>
             </div>
 
+            {/* Content */}
             <div>
-              <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">
-                URL/Link
+              <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-1">
+                Content *
               </label>
-              <input
-                type="url"
-                id="url"
-                value={formData.metadata.url || ''}
-                onChange={(e) => setFormData(prev => ({
-                  ...prev,
-                  metadata: { ...prev.metadata, url: e.target.value }
-                }))}
-                className={`input-field ${validationErrors.url ? 'border-red-500 focus:border-red-500' : ''}`}
-                placeholder="https://..."
-              />
-              {validationErrors.url && (
+              <div className="relative">
+                <textarea
+                  id="content"
+                  ref={contentRef}
+                  value={formData.content}
+                  onChange={handleContentChange}
+                  onKeyDown={handleContentKeyDown}
+                  onBlur={() => setTitleSuggestions([])}
+                  className={`textarea-field h-64 ${validationErrors.content ? 'border-red-500 focus:border-red-500' : ''}`}
+                  placeholder="Enter your memory content... Link other memories with [[Title]]"
+                />
+                {titleSuggestions.length > 0 && (
+                  <ul
+                    role="listbox"
+                    aria-label="Memory suggestions"
+                    className="absolute z-10 left-2 bottom-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto"
+                  >
+                    {titleSuggestions.map((suggestion, index) => (
+                      <li
+                        key={suggestion.id}
+                        role="option"
+                        aria-selected={index === suggestionIndex}
+                        // Keep focus in the textarea so the cursor position survives the click
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          insertTitleSuggestion(suggestion);
+                        }}
+                        className={`px-3 py-2 text-sm cursor-pointer text-truncate ${
+                          index === suggestionIndex ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        {suggestion.title}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {validationErrors.content && (
                 <div className="flex items-center mt-1 text-sm text-red-600">
                   <AlertCircle className="w-4 h-4 mr-1" />
-                  {validationErrors.url}
+                  {validationErrors.content}
                 </div>
               )}
             </div>
+
+            {/* Tags */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tags
+              </label>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {(formData.tags || []).map((tag) => (
+                  <div
+                    key={tag}
+                    className="flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
+                  >
+                    <Tag className="w-3 h-3" />
+                    <span>{tag}</span>
+                    <button
+                      onClick={() => handleRemoveTag(tag)}
+                      className="ml-1 text-blue-600 hover:text-blue-800"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  className="input-field flex-1"
+                  placeholder="Add a tag..."
+                />
+                <button
+                  onClick={handleAddTag}
+                  className="btn-secondary"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {/* Metadata */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="source" className="block text-sm font-medium text-gray-700 mb-1">
+                  Source
+                </label>
+                <input
+                  type="text"
+                  id="source"
+                  value={formData.metadata.source || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    metadata: { ...prev.metadata, source: e.target.value }
+                  }))}
+                  className="input-field"
+                  placeholder="e.g., VSCode, Terminal, Browser"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="project" className="block text-sm font-medium text-gray-700 mb-1">
+                  Project
+                </label>
+                <input
+                  type="text"
+                  id="project"
+                  value={formData.metadata.project || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    metadata: { ...prev.metadata, project: e.target.value }
+                  }))}
+                  className="input-field"
+                  placeholder="Project name"
+                  list="project-names"
+                />
+                <datalist id="project-names">
+                  {projectNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+
+              <div>
+                <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">
+                  URL/Link
+                </label>
+                <input
+                  type="url"
+                  id="url"
+                  value={formData.metadata.url || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    metadata: { ...prev.metadata, url: e.target.value }
+                  }))}
+                  className={`input-field ${validationErrors.url ? 'border-red-500 focus:border-red-500' : ''}`}
+                  placeholder="https://..."
+                />
+                {validationErrors.url && (
+                  <div className="flex items-center mt-1 text-sm text-red-600">
+                    <AlertCircle className="w-4 h-4 mr-1" />
+                    {validationErrors.url}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Links */}
+            {memory?.id && (
+              <LinkedMemories memoryId={memory.id} onOpenMemory={onOpenMemory} />
+            )}
           </div>
         </div>
+
+        {showHistory && memory?.id && onRestored && (
+          <RevisionHistory
+            memoryId={memory.id}
+            onRestored={onRestored}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
     </div>
   );
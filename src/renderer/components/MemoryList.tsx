@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Memory } from '../../shared/types';
-import { FileText, Calendar, Tag, Trash2, ExternalLink } from 'lucide-react';
+import { FileText, Calendar, Tag, Trash2, ExternalLink, X } from 'lucide-react';
 import { format } from 'date-fns';
 import ConfirmDialog from './ConfirmDialog';
 import { useToast } from './Toast';
@@ -10,6 +10,9 @@ interface MemoryListProps {
   onMemorySelect: (memory: Memory) => void;
   onMemoryDelete: (memoryId: string) => void;
   selectedMemory: Memory | null;
+  title?: string;
+  onClose?: () => void;
+  tagColors?: Record<string, string>;
 }
 
 const MemoryList: React.FC<MemoryListProps> = ({
@@ -17,6 +20,9 @@ const MemoryList: React.FC<MemoryListProps> = ({
   onMemorySelect,
   onMemoryDelete,
   selectedMemory,
+  title = 'Memories',
+  onClose,
+  tagColors = {},
 }) => {
   const { showError, showSuccess } = useToast();
   const [confirmDelete, setConfirmDelete] = useState<{ show: boolean; memoryId: string; title: string }>({
@@ -55,6 +61,21 @@ const MemoryList: React.FC<MemoryListProps> = ({
     }
   };
 
+  if (memories.length === 0 && onClose) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{title} is empty</h3>
+          <p className="text-gray-600 mb-6">No memories match this collection yet</p>
+          <button onClick={onClose} className="btn-secondary">
+            Back to all memories
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (memories.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center bg-gray-50">
@@ -78,8 +99,17 @@ const MemoryList: React.FC<MemoryListProps> = ({
       <div className="p-6">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-gray-900">
-            Memories ({memories.length})
+            {title} ({memories.length})
           </h2>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Back to all memories"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          )}
         </div>
 
         <div className="grid gap-4">
@@ -132,7 +162,7 @@ const MemoryList: React.FC<MemoryListProps> = ({
                     
                     {memory.tags.map((tag) => (
                       <div key={tag} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full">
-                        <Tag className="w-3 h-3 text-gray-500" />
+                        <Tag className="w-3 h-3 text-gray-500" style={tagColors[tag] ? { color: tagColors[tag] } : undefined} />
                         <span className="text-xs text-gray-600">{tag}</span>
                       </div>
                     ))}
@@ -167,7 +197,7 @@ const MemoryList: React.FC<MemoryListProps> = ({
       <ConfirmDialog
         isOpen={confirmDelete.show}
         title="Delete Memory"
-        message={`Are you sure you want to delete "${confirmDelete.title}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${confirmDelete.title}"? It will be moved to the Trash, where you can restore it.`}
         confirmText="Delete"
         cancelText="Cancel"
         confirmVariant="danger"
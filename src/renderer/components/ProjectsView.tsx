@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Memory, MemoryType, ProjectDashboard, ProjectSummary } from '../../shared/types';
+import { FolderGit2, X, Plus, Pencil, Trash2, Bug, GitBranch, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import ConfirmDialog from './ConfirmDialog';
+import { useToast } from './Toast';
+
+interface ProjectsViewProps {
+  projects: ProjectSummary[];
+  onClose: () => void;
+  // Called after a project was created, edited or deleted
+  onProjectsChanged: () => void;
+  onMemorySelect: (memory: Memory) => void;
+}
+
+const EMPTY_FORM = { name: '', path: '', repository: '', description: '' };
+
+type ProjectForm = typeof EMPTY_FORM;
+
+const MemoryLinkList: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  memories: Memory[];
+  empty: string;
+  onMemorySelect: (memory: Memory) => void;
+}> = ({ title, icon, memories, empty, onMemorySelect }) => (
+  <div className="memory-card">
+    <div className="flex items-center gap-2 mb-2">
+      {icon}
+      <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+    </div>
+    {memories.length === 0 ? (
+      <p className="text-sm text-gray-500">{empty}</p>
+    ) : (
+      <ul className="space-y-1">
+        {memories.map(memory => (
+          <li key={memory.id} className="flex items-center gap-2 text-sm">
+            <button
+              onClick={() => onMemorySelect(memory)}
+              className="flex-1 text-left text-blue-700 hover:underline text-truncate"
+            >
+              {memory.title}
+            </button>
+            <span className="text-xs text-gray-400">{format(new Date(memory.updatedAt), 'MMM d')}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const ProjectsView: React.FC<ProjectsViewProps> = ({ projects, onClose, onProjectsChanged, onMemorySelect }) => {
+  const { showError, showSuccess } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(projects[0]?.id ?? null);
+  const [dashboard, setDashboard] = useState<ProjectDashboard | null>(null);
+  // null when the form is closed, '' when creating a new project
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+  const [pendingDelete, setPendingDelete] = useState<ProjectSummary | null>(null);
+
+  const loadDashboard = useCallback(async (id: string) => {
+    try {
+      setDashboard(await window.electronAPI.getProjectDashboard(id));
+    } catch (error) {
+      console.error('Failed to load project dashboard:', error);
+      showError('Failed to load project', 'Unable to load this project. Please try again.');
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadDashboard(selectedId);
+    } else {
+      setDashboard(null);
+    }
+  }, [selectedId, projects, loadDashboard]);
+
+  const startCreate = () => {
+    setEditingId('');
+    setForm(EMPTY_FORM);
+  };
+
+  const startEdit = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setForm({
+      name: project.name,
+      path: project.path || '',
+      repository: project.repository || '',
+      description: project.description || '',
+    });
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) return;
+
+    // Blank fields are sent as they are: the registry stores them as absent
+    try {
+      if (editingId) {
+        await window.electronAPI.updateProject(editingId, { ...form, name });
+        showSuccess('Project updated', `"${name}" has been saved.`);
+      } else {
+        const created = await window.electronAPI.createProject({ ...form, name });
+        setSelectedId(created.id);
+        showSuccess('Project created', `Memories from "${name}" are now assigned to it.`);
+      }
+      setEditingId(null);
+      onProjectsChanged();
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      showError('Failed to save project', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const project = pendingDelete;
+    setPendingDelete(null);
+
+    try {
+      await window.electronAPI.deleteProject(project.id);
+      if (selectedId === project.id) {
+        setSelectedId(null);
+      }
+      showSuccess('Project deleted', `Memories from "${project.name}" are no longer assigned to a project.`);
+      onProjectsChanged();
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      showError('Failed to delete project', 'The operation failed. Please try again.');
+    }
+  };
+
+  const describe = (count: number) => `${count} ${count === 1 ? 'memory' : 'memories'}`;
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-gray-50">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            Projects ({projects.length})
+          </h2>
+          <div className="flex items-center gap-2">
+            <button onClick={startCreate} className="btn-primary">
+              <Plus className="w-4 h-4 mr-1" />
+              New Project
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Back to all memories"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Memories are assigned to a project by the project name in their metadata, by their repository, or by a
+          file path or VS Code workspace under the project path.
+        </p>
+
+        {editingId !== null && (
+          <div className="memory-card mb-6 space-y-3">
+            <div>
+              <label htmlFor="project-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="project-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="input-field"
+                placeholder="billing-service"
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="project-path" className="block text-sm font-medium text-gray-700 mb-1">Path</label>
+                <input
+                  id="project-path"
+                  type="text"
+                  value={form.path}
+                  onChange={(e) => setForm({ ...form, path: e.target.value })}
+                  className="input-field"
+                  placeholder="/home/me/src/billing"
+                />
+              </div>
+              <div>
+                <label htmlFor="project-repository" className="block text-sm font-medium text-gray-700 mb-1">Repository</label>
+                <input
+                  id="project-repository"
+                  type="text"
+                  value={form.repository}
+                  onChange={(e) => setForm({ ...form, repository: e.target.value })}
+                  className="input-field"
+                  placeholder="github.com/acme/billing"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="project-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                id="project-description"
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setEditingId(null)} className="btn-secondary">Cancel</button>
+              <button onClick={handleSave} disabled={!form.name.trim()} className="btn-primary">
+                {editingId ? 'Save Project' : 'Create Project'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {projects.length === 0 ? (
+          <div className="text-center py-16">
+            <FolderGit2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No projects yet</h3>
+            <p className="text-gray-600">Create a project to group the memories of a codebase</p>
+          </div>
+        ) : (
+          <div className="flex gap-6">
+            <ul className="w-64 flex-shrink-0 bg-white border border-gray-200 rounded-md divide-y divide-gray-100 self-start">
+              {projects.map(project => (
+                <li
+                  key={project.id}
+                  onClick={() => setSelectedId(project.id)}
+                  className={`group flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                    selectedId === project.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="flex-1 text-sm text-truncate" title={project.name}>{project.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEdit(project);
+                    }}
+                    className="hidden group-hover:block p-0.5 text-gray-400 hover:text-blue-600"
+                    title="Edit project"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setPendingDelete(project);
+                    }}
+                    className="hidden group-hover:block p-0.5 text-gray-400 hover:text-red-600"
+                    title="Delete project"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                  <span className="text-xs text-gray-500 bg-gray-100 rounded-full px-2">{project.memoryCount}</span>
+                </li>
+              ))}
+            </ul>
+
+            {dashboard && (
+              <div className="flex-1 space-y-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">{dashboard.project.name}</h3>
+                  {dashboard.project.description && (
+                    <p className="text-sm text-gray-600">{dashboard.project.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {[dashboard.project.repository, dashboard.project.path].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+
+                <div className="memory-card">
+                  <p className="text-sm font-medium text-gray-900 mb-2">{describe(dashboard.memoryCount)}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.entries(dashboard.countsByType) as [MemoryType, number][]).map(([type, count]) => (
+                      <span key={type} className={`memory-type-badge memory-type-${type}`}>
+                        {type.replace('_', ' ')}: {count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <MemoryLinkList
+                    title="Recent decisions"
+                    icon={<GitBranch className="w-4 h-4 text-gray-500" />}
+                    memories={dashboard.recentDecisions}
+                    empty="No decisions recorded"
+                    onMemorySelect={onMemorySelect}
+                  />
+                  <MemoryLinkList
+                    title="Open debug sessions"
+                    icon={<Bug className="w-4 h-4 text-gray-500" />}
+                    memories={dashboard.openDebugSessions}
+                    empty="No open debug sessions"
+                    onMemorySelect={onMemorySelect}
+                  />
+                </div>
+
+                <MemoryLinkList
+                  title="Recently updated"
+                  icon={<Clock className="w-4 h-4 text-gray-500" />}
+                  memories={dashboard.recentMemories}
+                  empty="No memories in this project yet"
+                  onMemorySelect={onMemorySelect}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Project"
+        message={`"${pendingDelete?.name}" will be removed. Its memories are kept but no longer assigned to a project.`}
+        confirmText="Delete"
+        confirmVariant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default ProjectsView;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Memory, MemoryRevision } from '../../shared/types';
+import { diffLines } from '../../shared/utils/line-diff';
+import { History, RotateCcw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from './Toast';
+
+interface RevisionHistoryProps {
+  memoryId: string;
+  onRestored: (memory: Memory) => void;
+  onClose: () => void;
+}
+
+const formatRevision = (revision: MemoryRevision) =>
+  `Revision ${revision.revision} · ${format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')}`;
+
+const DIFF_LINE_STYLES = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  unchanged: 'text-gray-600',
+};
+
+const DIFF_LINE_MARKERS = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  memoryId,
+  onRestored,
+  onClose,
+}) => {
+  const { showError, showSuccess } = useToast();
+  const [revisions, setRevisions] = useState<MemoryRevision[]>([]);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const history = await window.electronAPI.getRevisions(memoryId);
+      setRevisions(history);
+      // Newest first: compare the previous revision with the current one
+      setToRevision(history[0]?.revision ?? null);
+      setFromRevision(history[1]?.revision ?? history[0]?.revision ?? null);
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+      showError('Failed to load history', 'Unable to load revisions for this memory.');
+    } finally {
+      setLoading(false);
+    }
+  }, [memoryId, showError]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const from = revisions.find(r => r.revision === fromRevision);
+  const to = revisions.find(r => r.revision === toRevision);
+  const current = revisions[0];
+
+  const diff = useMemo(
+    () => (from && to ? diffLines(from.content, to.content) : []),
+    [from, to]
+  );
+
+  const fieldChanges = useMemo(() => {
+    if (!from || !to) return [];
+    const changes: string[] = [];
+    if (from.title !== to.title) changes.push(`Title: "${from.title}" → "${to.title}"`);
+    if (from.type !== to.type) changes.push(`Type: ${from.type} → ${to.type}`);
+    if (from.tags.join(', ') !== to.tags.join(', ')) {
+      changes.push(`Tags: ${from.tags.join(', ') || 'none'} → ${to.tags.join(', ') || 'none'}`);
+    }
+    if (JSON.stringify(from.metadata) !== JSON.stringify(to.metadata)) changes.push('Metadata changed');
+    return changes;
+  }, [from, to]);
+
+  const handleRestore = async (revision: number) => {
+    try {
+      setRestoring(true);
+      const restored = await window.electronAPI.restoreRevision(memoryId, revision);
+      if (!restored) {
+        showError('Restore failed', `Revision ${revision} no longer exists.`);
+        return;
+      }
+      showSuccess('Revision restored', `Revision ${revision} is now the current version.`);
+      onRestored(restored);
+      await loadRevisions();
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      showError('Restore failed', 'Unable to restore this revision. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="w-[28rem] flex flex-col border-l border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-900">History</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading && revisions.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Loading history...</p>
+      ) : revisions.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">No revisions recorded yet</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-gray-700">Compare</label>
+            <select
+              value={fromRevision ?? ''}
+              onChange={(e) => setFromRevision(Number(e.target.value))}
+              className="select-field text-sm"
+            >
+              {revisions.map(revision => (
+                <option key={revision.revision} value={revision.revision}>
+                  {formatRevision(revision)}
+                </option>
+              ))}
+            </select>
+            <label className="block text-xs font-medium text-gray-700">with</label>
+            <select
+              value={toRevision ?? ''}
+              onChange={(e) => setToRevision(Number(e.target.value))}
+              className="select-field text-sm"
+            >
+              {revisions.map(revision => (
+                <option key={revision.revision} value={revision.revision}>
+                  {formatRevision(revision)}{revision === current ? ' (current)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {from && from !== current && (
+            <button
+              onClick={() => handleRestore(from.revision)}
+              disabled={restoring}
+              className="btn-secondary text-sm w-full disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              {restoring ? 'Restoring...' : `Restore revision ${from.revision}`}
+            </button>
+          )}
+
+          {fieldChanges.length > 0 && (
+            <ul className="text-xs text-gray-700 space-y-1">
+              {fieldChanges.map(change => (
+                <li key={change}>{change}</li>
+              ))}
+            </ul>
+          )}
+
+          <pre className="text-xs font-mono bg-white border border-gray-200 rounded-md overflow-x-auto">
+            {diff.map((line, index) => (
+              <div key={index} className={`px-2 whitespace-pre ${DIFF_LINE_STYLES[line.type]}`}>
+                {DIFF_LINE_MARKERS[line.type]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
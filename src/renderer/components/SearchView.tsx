@@ -1,31 +1,145 @@
 import React, { useState, useEffect } from 'react';
-import { Memory, MemoryType } from '../../shared/types';
-import { Search, X, Filter, Calendar, Tag, FileText } from 'lucide-react';
+import { Memory, MemoryType, SavedSearchSort, SearchQuery, SearchResult } from '../../shared/types';
+import { Search, X, Filter, Calendar, Tag, FileText, Sparkles, Type, AlertCircle, Bookmark } from 'lucide-react';
+import { useToast } from './Toast';
 import { format } from 'date-fns';
+import { parseSearchQuery, SearchQueryParseError } from '../../shared/utils/search-query-parser';
 
 interface SearchViewProps {
   onSearch: (query: string) => void;
   onClose: () => void;
   onMemorySelect: (memory: Memory) => void;
+  onSearchSaved?: () => void;
+  // The project scope chosen in the sidebar; not stored with saved searches
+  projectId?: string;
 }
 
+const HIGHLIGHT_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+// Renders FTS snippets without injecting HTML: only the <mark> markers become elements
+const HighlightedText: React.FC<{ text: string }> = ({ text }) => {
+  const parts = text.split(HIGHLIGHT_PATTERN);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part}</mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+// The title highlight duplicates the heading, so prefer a snippet from the body: one
+// with marked keywords, or else the passage of a long memory that matched semantically
+const findContentSnippet = (memory: Memory, highlights: string[] = []) => {
+  const snippets = highlights.filter(text => text.replace(HIGHLIGHT_PATTERN, '$1') !== memory.title);
+  return snippets.find(text => text.includes('<mark>')) ?? snippets[0];
+};
+
+const MatchSources: React.FC<{ sources: SearchResult['sources'] }> = ({ sources }) => {
+  const { vector, fullText } = sources || {};
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-500">
+      {fullText && (
+        <span
+          className="flex items-center gap-1 px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full"
+          title={`Keyword rank #${fullText.rank} (BM25 ${fullText.score.toFixed(2)})`}
+        >
+          <Type className="w-3 h-3" />
+          Keyword #{fullText.rank}
+        </span>
+      )}
+      {vector && (
+        <span
+          className="flex items-center gap-1 px-2 py-0.5 bg-purple-50 text-purple-700 rounded-full"
+          title={`Semantic rank #${vector.rank}`}
+        >
+          <Sparkles className="w-3 h-3" />
+          Semantic {Math.round(vector.score * 100)}%
+        </span>
+      )}
+    </div>
+  );
+};
+
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: { value: SavedSearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'created', label: 'Recently created' },
+  { value: 'title', label: 'Title' },
+];
+
+const EMPTY_FILTERS = {
+  type: '' as MemoryType | '',
+  tags: [] as string[],
+  project: '',
+  repository: '',
+  language: '',
+  dateRange: {
+    start: '',
+    end: '',
+  },
+};
+
+type SearchFilterState = typeof EMPTY_FILTERS;
+
+const hasActiveFilters = (filters: SearchFilterState) =>
+  Boolean(
+    filters.type ||
+    filters.tags.some(tag => tag.trim()) ||
+    filters.project.trim() ||
+    filters.repository.trim() ||
+    filters.language.trim() ||
+    filters.dateRange.start ||
+    filters.dateRange.end
+  );
+
+// Date inputs are local calendar days; the end bound covers the whole day.
+// Panel fields narrow whatever the typed query already asks for.
+const toSearchQuery = (text: string, filters: SearchFilterState, offset: number): SearchQuery => {
+  const parsed = parseSearchQuery(text);
+  const { start, end } = filters.dateRange;
+  const tags = [...(parsed.tags || []), ...filters.tags.map(tag => tag.trim()).filter(Boolean)];
+  return {
+    ...parsed,
+    limit: PAGE_SIZE,
+    offset,
+    type: filters.type || parsed.type,
+    tags: tags.length > 0 ? tags : undefined,
+    project: filters.project.trim() || parsed.project,
+    repository: filters.repository.trim() || parsed.repository,
+    language: filters.language.trim() || parsed.language,
+    dateRange: start || end
+      ? {
+          start: start ? new Date(`${start}T00:00:00`) : parsed.dateRange?.start,
+          end: end ? new Date(`${end}T23:59:59.999`) : parsed.dateRange?.end,
+        }
+      : parsed.dateRange,
+  };
+};
+
 const SearchView: React.FC<SearchViewProps> = ({
   onSearch,
   onClose,
   onMemorySelect,
+  onSearchSaved,
+  projectId,
 }) => {
+  const { showError, showSuccess } = useToast();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<Memory[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState({
-    type: '' as MemoryType | '',
-    tags: [] as string[],
-    dateRange: {
-      start: '',
-      end: '',
-    },
-  });
+  const [hasMore, setHasMore] = useState(false);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [parseError, setParseError] = useState<SearchQueryParseError | null>(null);
+  const [showSave, setShowSave] = useState(false);
+  const [saveForm, setSaveForm] = useState({ name: '', sort: 'relevance' as SavedSearchSort, pinned: false });
 
   useEffect(() => {
     const searchInput = document.getElementById('search-input');
@@ -34,16 +148,30 @@ const SearchView: React.FC<SearchViewProps> = ({
     }
   }, []);
 
-  const handleSearch = async (searchQuery: string = query) => {
-    if (!searchQuery.trim()) {
+  const handleSearch = async (searchQuery: string = query, offset: number = 0) => {
+    if (!searchQuery.trim() && !hasActiveFilters(filters)) {
       setResults([]);
+      setHasMore(false);
       return;
     }
 
+    let request: SearchQuery;
+    try {
+      request = toSearchQuery(searchQuery, filters, offset);
+      setParseError(null);
+    } catch (error) {
+      if (error instanceof SearchQueryParseError) {
+        setParseError(error);
+        return;
+      }
+      throw error;
+    }
+
     setLoading(true);
     try {
-      const searchResults = await window.electronAPI.searchMemories(searchQuery.trim(), 50);
-      setResults(searchResults);
+      const searchResults = await window.electronAPI.search(projectId ? { ...request, projectId } : request);
+      setResults(prev => (offset > 0 ? [...prev, ...searchResults] : searchResults));
+      setHasMore(searchResults.length === PAGE_SIZE);
     } catch (error) {
       console.error('Search failed:', error);
     } finally {
@@ -51,6 +179,35 @@ const SearchView: React.FC<SearchViewProps> = ({
     }
   };
 
+  const handleSaveSearch = async () => {
+    let searchQuery: SearchQuery;
+    try {
+      searchQuery = toSearchQuery(query, filters, 0);
+    } catch (error) {
+      if (error instanceof SearchQueryParseError) {
+        setParseError(error);
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      await window.electronAPI.createSavedSearch({
+        name: saveForm.name.trim(),
+        query: searchQuery,
+        sort: saveForm.sort,
+        pinned: saveForm.pinned,
+      });
+      showSuccess('Search saved', `"${saveForm.name.trim()}" is now in your collections.`);
+      setShowSave(false);
+      setSaveForm({ name: '', sort: 'relevance', pinned: false });
+      onSearchSaved?.();
+    } catch (error) {
+      console.error('Failed to save search:', error);
+      showError('Failed to save search', 'The operation failed. Please try again.');
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -68,14 +225,7 @@ const SearchView: React.FC<SearchViewProps> = ({
   };
 
   const clearFilters = () => {
-    setFilters({
-      type: '',
-      tags: [],
-      dateRange: {
-        start: '',
-        end: '',
-      },
-    });
+    setFilters(EMPTY_FILTERS);
   };
 
   return (
@@ -100,10 +250,15 @@ const SearchView: React.FC<SearchViewProps> = ({
               id="search-input"
               type="text"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setParseError(null);
+              }}
               onKeyPress={handleKeyPress}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Search memories, tags, content..."
+              className={`w-full pl-10 pr-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                parseError ? 'border-red-400' : 'border-gray-300'
+              }`}
+              placeholder='Search... e.g. type:decision tag:k8s "rate limit" -draft'
             />
           </div>
           <button
@@ -118,8 +273,77 @@ const SearchView: React.FC<SearchViewProps> = ({
           >
             <Filter className="w-4 h-4" />
           </button>
+          <button
+            onClick={() => setShowSave(!showSave)}
+            disabled={!query.trim() && !hasActiveFilters(filters)}
+            className={`btn-secondary disabled:opacity-50 ${showSave ? 'bg-blue-50 text-blue-700' : ''}`}
+            title="Save as collection"
+          >
+            <Bookmark className="w-4 h-4" />
+          </button>
         </div>
 
+        {showSave && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-md flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[12rem]">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Collection Name
+              </label>
+              <input
+                type="text"
+                value={saveForm.name}
+                onChange={(e) => setSaveForm(prev => ({ ...prev, name: e.target.value }))}
+                className="input-field"
+                placeholder="Open payment decisions"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sort By
+              </label>
+              <select
+                value={saveForm.sort}
+                onChange={(e) => setSaveForm(prev => ({ ...prev, sort: e.target.value as SavedSearchSort }))}
+                className="select-field"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={saveForm.pinned}
+                onChange={(e) => setSaveForm(prev => ({ ...prev, pinned: e.target.checked }))}
+              />
+              Pin to top
+            </label>
+
+            <button
+              onClick={handleSaveSearch}
+              disabled={!saveForm.name.trim()}
+              className="btn-primary text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        )}
+
+        {parseError && (
+          <div className="mt-2 flex items-start gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <p>{parseError.message}</p>
+              <pre className="mt-1 text-xs font-mono text-gray-600 whitespace-pre overflow-x-auto">
+                {`${query}\n${' '.repeat(parseError.position)}^`}
+              </pre>
+            </div>
+          </div>
+        )}
+
         {/* Filters */}
         {showFilters && (
           <div className="mt-4 p-4 bg-gray-50 rounded-md">
@@ -171,9 +395,64 @@ const SearchView: React.FC<SearchViewProps> = ({
                   className="input-field"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  value={filters.tags.join(',')}
+                  onChange={(e) => handleFilterChange('tags', e.target.value.split(','))}
+                  className="input-field"
+                  placeholder="k8s, ingress"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Project
+                </label>
+                <input
+                  type="text"
+                  value={filters.project}
+                  onChange={(e) => handleFilterChange('project', e.target.value)}
+                  className="input-field"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Repository
+                </label>
+                <input
+                  type="text"
+                  value={filters.repository}
+                  onChange={(e) => handleFilterChange('repository', e.target.value)}
+                  className="input-field"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Language
+                </label>
+                <input
+                  type="text"
+                  value={filters.language}
+                  onChange={(e) => handleFilterChange('language', e.target.value)}
+                  className="input-field"
+                />
+              </div>
             </div>
 
             <div className="flex gap-2 mt-4">
+              <button
+                onClick={() => handleSearch()}
+                className="btn-primary text-sm"
+              >
+                Apply Filters
+              </button>
               <button
                 onClick={clearFilters}
                 className="btn-secondary text-sm"
@@ -187,7 +466,7 @@ const SearchView: React.FC<SearchViewProps> = ({
 
       {/* Results */}
       <div className="flex-1 overflow-y-auto p-4">
-        {loading && (
+        {loading && results.length === 0 && (
           <div className="text-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
             <p className="mt-2 text-sm text-gray-600">Searching...</p>
@@ -210,7 +489,7 @@ const SearchView: React.FC<SearchViewProps> = ({
           </div>
         )}
 
-        {!loading && results.length > 0 && (
+        {results.length > 0 && (
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-medium text-gray-900">
@@ -219,7 +498,7 @@ const SearchView: React.FC<SearchViewProps> = ({
             </div>
 
             <div className="grid gap-4">
-              {results.map((memory) => (
+              {results.map(({ memory, highlights, sources }) => (
                 <div
                   key={memory.id}
                   onClick={() => onMemorySelect(memory)}
@@ -228,11 +507,14 @@ const SearchView: React.FC<SearchViewProps> = ({
                   <div className="flex items-start gap-3">
                     <FileText className="w-5 h-5 text-gray-400 mt-0.5" />
                     <div className="flex-1 min-w-0">
-                      <h4 className="text-lg font-medium text-gray-900 mb-1">
-                        {memory.title}
-                      </h4>
+                      <div className="flex items-start justify-between gap-3 mb-1">
+                        <h4 className="text-lg font-medium text-gray-900">
+                          {memory.title}
+                        </h4>
+                        <MatchSources sources={sources} />
+                      </div>
                       <p className="text-gray-600 line-clamp-3 mb-3">
-                        {memory.content}
+                        <HighlightedText text={findContentSnippet(memory, highlights) ?? memory.content} />
                       </p>
                       
                       <div className="flex items-center gap-3 text-sm text-gray-500 mb-2">
@@ -272,6 +554,18 @@ const SearchView: React.FC<SearchViewProps> = ({
                 </div>
               ))}
             </div>
+
+            {hasMore && (
+              <div className="text-center">
+                <button
+                  onClick={() => handleSearch(query, results.length)}
+                  disabled={loading}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  {loading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
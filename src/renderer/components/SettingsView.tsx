@@ -1,17 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { AppConfig } from '../../shared/types';
-import { X, Save, Database, Brain, Palette, Code, Info } from 'lucide-react';
+import { AppConfig, Vault } from '../../shared/types';
+import { X, Save, Database, Brain, Palette, Code, Info, Search, Trash2 } from 'lucide-react';
+import VaultSettings from './VaultSettings';
+import DatabaseLocationSettings from './DatabaseLocationSettings';
+import VaultTransferSettings from './VaultTransferSettings';
+import MarkdownSyncSettings from './MarkdownSyncSettings';
+import BackupSettings from './BackupSettings';
+import IndexQueuePanel from './IndexQueuePanel';
+import VectorConsistencyPanel from './VectorConsistencyPanel';
 
 interface SettingsViewProps {
   onClose: () => void;
+  onVaultsChanged?: () => void;
+  onDatabaseRelocated?: (vault: Vault) => void;
+  onVaultImported?: () => void;
+  onMemoriesSynced?: () => void;
+  onBackupRestored?: () => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ onClose, onVaultsChanged, onDatabaseRelocated, onVaultImported, onMemoriesSynced, onBackupRestored }) => {
   const [config, setConfig] = useState<AppConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [appVersion, setAppVersion] = useState('');
-  const [vectorInfo, setVectorInfo] = useState<{count: number, name: string, healthy: boolean} | null>(null);
+  const [vectorInfo, setVectorInfo] = useState<{count: number, name: string, healthy: boolean, vectorBytes?: number} | null>(null);
 
   useEffect(() => {
     loadConfig();
@@ -54,6 +66,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
     setSaving(true);
     try {
       await window.electronAPI.setAppConfig(config);
+      loadVectorInfo();
       alert('Settings saved successfully!');
     } catch (error) {
       console.error('Failed to save config:', error);
@@ -129,41 +142,13 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
       <div className="flex-1 overflow-y-auto p-6">
         <div className="max-w-4xl mx-auto space-y-8">
           
-          {/* Database Settings */}
-          <section>
-            <div className="flex items-center gap-2 mb-4">
-              <Database className="w-5 h-5 text-gray-600" />
-              <h3 className="text-lg font-medium text-gray-900">Database</h3>
-            </div>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  SQLite Database Path
-                </label>
-                <input
-                  type="text"
-                  value={config.database.sqlitePath}
-                  onChange={(e) => updateConfig(['database', 'sqlitePath'], e.target.value)}
-                  className="input-field"
-                  placeholder="/path/to/devmemory.db"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Chroma Vector Database Path
-                </label>
-                <input
-                  type="text"
-                  value={config.database.chromaPath}
-                  onChange={(e) => updateConfig(['database', 'chromaPath'], e.target.value)}
-                  className="input-field"
-                  placeholder="/path/to/chroma"
-                />
-              </div>
-            </div>
-          </section>
+          <VaultSettings onVaultsChanged={onVaultsChanged} />
+
+          <DatabaseLocationSettings onRelocated={onDatabaseRelocated} />
+
+          <VaultTransferSettings onImported={onVaultImported} />
+
+          <MarkdownSyncSettings onSynced={onMemoriesSynced} />
 
           {/* LLM Settings */}
           <section>
@@ -221,6 +206,97 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
             </div>
           </section>
 
+          {/* Search Settings */}
+          <section>
+            <div className="flex items-center gap-2 mb-4">
+              <Search className="w-5 h-5 text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-900">Search</h3>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Semantic Weight
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={config.search.vectorWeight}
+                  onChange={(e) => updateConfig(['search', 'vectorWeight'], Number(e.target.value))}
+                  className="input-field"
+                />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Keyword Weight
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={config.search.fullTextWeight}
+                  onChange={(e) => updateConfig(['search', 'fullTextWeight'], Number(e.target.value))}
+                  className="input-field"
+                />
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Results from semantic and keyword search are merged by rank. Raise a weight to favour that engine;
+              set it to 0 to turn the engine off.
+            </p>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vector Precision
+              </label>
+              <select
+                value={config.search.vectorQuantization}
+                onChange={(e) => updateConfig(['search', 'vectorQuantization'], e.target.value)}
+                className="select-field"
+              >
+                <option value="none">Full (32-bit)</option>
+                <option value="int8">Compact (8-bit)</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Compact vectors take a quarter of the memory. The best matches are scored again with the full
+                vectors on disk, so results barely change.
+              </p>
+            </div>
+          </section>
+
+          {/* Trash Settings */}
+          <section>
+            <div className="flex items-center gap-2 mb-4">
+              <Trash2 className="w-5 h-5 text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-900">Trash</h3>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Keep deleted memories for (days)
+              </label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={config.trash.retentionDays}
+                onChange={(e) => updateConfig(['trash', 'retentionDays'], Math.max(1, Math.round(Number(e.target.value))))}
+                className="input-field"
+              />
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Deleted memories stay in the Trash until they are older than this, then they are removed permanently.
+            </p>
+          </section>
+
+          <BackupSettings
+            config={config.backup}
+            onChange={(backup) => updateConfig(['backup'], backup)}
+            onRestored={onBackupRestored}
+          />
+
           {/* UI Settings */}
           <section>
             <div className="flex items-center gap-2 mb-4">
@@ -351,6 +427,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
                   <span className="text-gray-600">Store:</span>
                   <span className="ml-2 font-medium">{vectorInfo?.name || 'Unknown'}</span>
                 </div>
+                {vectorInfo?.vectorBytes !== undefined && (
+                  <div>
+                    <span className="text-gray-600">Vectors in memory:</span>
+                    <span className="ml-2 font-medium">{(vectorInfo.vectorBytes / (1024 * 1024)).toFixed(1)} MB</span>
+                  </div>
+                )}
               </div>
               
               <div className="mt-3 pt-3 border-t border-gray-200">
@@ -363,6 +445,10 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
                 </p>
               </div>
             </div>
+
+            <IndexQueuePanel />
+
+            <VectorConsistencyPanel onRepaired={loadVectorInfo} />
           </section>
 
           {/* About */}
@@ -1,6 +1,6 @@
-import React from 'react';
-import { Memory } from '../../shared/types';
-import { Plus, Search, Settings, FileText, Clock, Hash } from 'lucide-react';
+import React, { useState } from 'react';
+import { Memory, ProjectSummary, SmartCollection, TagNode, Vault } from '../../shared/types';
+import { Plus, Search, Settings, FileText, Clock, Hash, Bookmark, Pin, PinOff, X, Trash2, Tags, Tag, ChevronRight, ChevronDown, FolderGit2 } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface SidebarProps {
@@ -9,7 +9,25 @@ interface SidebarProps {
   onNewMemory: () => void;
   onSearch: () => void;
   onSettings: () => void;
+  onTrash: () => void;
+  onTags: () => void;
+  onProjects: () => void;
   selectedMemory: Memory | null;
+  collections: SmartCollection[];
+  activeCollectionId: string | null;
+  onCollectionSelect: (collection: SmartCollection) => void;
+  onCollectionPin: (collection: SmartCollection) => void;
+  onCollectionDelete: (collection: SmartCollection) => void;
+  tagTree: TagNode[];
+  activeTag: string | null;
+  onTagSelect: (tag: string) => void;
+  projects: ProjectSummary[];
+  // null means every project
+  activeProjectId: string | null;
+  onProjectScopeChange: (projectId: string | null) => void;
+  vaults: Vault[];
+  activeVaultId: string | null;
+  onVaultSwitch: (id: string) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -18,9 +36,74 @@ const Sidebar: React.FC<SidebarProps> = ({
   onNewMemory,
   onSearch,
   onSettings,
+  onTrash,
+  onTags,
+  onProjects,
   selectedMemory,
+  collections,
+  activeCollectionId,
+  onCollectionSelect,
+  onCollectionPin,
+  onCollectionDelete,
+  tagTree,
+  activeTag,
+  onTagSelect,
+  projects,
+  activeProjectId,
+  onProjectScopeChange,
+  vaults,
+  activeVaultId,
+  onVaultSwitch,
 }) => {
   const recentMemories = memories.slice(0, 10);
+  const [expandedTags, setExpandedTags] = useState<Set<string>>(new Set());
+
+  const toggleTag = (name: string) => {
+    setExpandedTags(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const renderTag = (node: TagNode, depth: number): React.ReactNode => {
+    const expanded = expandedTags.has(node.name);
+    return (
+      <div key={node.name}>
+        <div
+          onClick={() => onTagSelect(node.name)}
+          className={`flex items-center gap-1 pr-3 py-1 rounded-md cursor-pointer transition-colors ${
+            activeTag === node.name ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+          style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+          title={node.name}
+        >
+          {node.children.length > 0 ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleTag(node.name);
+              }}
+              className="p-0.5 text-gray-400 hover:text-gray-600"
+              aria-label={`${expanded ? 'Collapse' : 'Expand'} ${node.name}`}
+            >
+              {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <Tag className="w-3 h-3 text-gray-400 flex-shrink-0" style={node.color ? { color: node.color } : undefined} />
+          <span className="flex-1 text-sm text-truncate">{node.label}</span>
+          <span className="text-xs text-gray-500 bg-gray-100 rounded-full px-2">{node.count}</span>
+        </div>
+        {expanded && node.children.map(child => renderTag(child, depth + 1))}
+      </div>
+    );
+  };
 
   return (
     <div className="w-80 bg-white border-r border-gray-200 flex flex-col">
@@ -28,6 +111,18 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="p-4 border-b border-gray-200">
         <h1 className="text-xl font-bold text-gray-900">DevMemory</h1>
         <p className="text-sm text-gray-600">Enterprise Developer Memory</p>
+        {vaults.length > 1 && (
+          <select
+            value={activeVaultId ?? ''}
+            onChange={(e) => onVaultSwitch(e.target.value)}
+            aria-label="Vault"
+            className="select-field mt-2"
+          >
+            {vaults.map(vault => (
+              <option key={vault.id} value={vault.id}>{vault.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Actions */}
@@ -47,10 +142,91 @@ const Sidebar: React.FC<SidebarProps> = ({
           <Search className="w-4 h-4" />
           Search
         </button>
+
+        {projects.length > 0 && (
+          <select
+            value={activeProjectId ?? ''}
+            onChange={(e) => onProjectScopeChange(e.target.value || null)}
+            aria-label="Project scope"
+            className="select-field"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
-      {/* Recent Memories */}
       <div className="flex-1 overflow-y-auto">
+        {/* Smart Collections */}
+        {collections.length > 0 && (
+          <div className="px-4 pt-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Bookmark className="w-4 h-4 text-gray-500" />
+              <h2 className="text-sm font-medium text-gray-900">Collections</h2>
+            </div>
+
+            <div className="space-y-1">
+              {collections.map((collection) => (
+                <div
+                  key={collection.id}
+                  onClick={() => onCollectionSelect(collection)}
+                  className={`group flex items-center gap-2 px-3 py-2 rounded-md cursor-pointer transition-colors ${
+                    activeCollectionId === collection.id
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {collection.pinned ? (
+                    <Pin className="w-3 h-3 text-blue-500 flex-shrink-0" />
+                  ) : (
+                    <Hash className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                  )}
+                  <span className="flex-1 text-sm text-truncate">{collection.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCollectionPin(collection);
+                    }}
+                    className="hidden group-hover:block p-0.5 text-gray-400 hover:text-gray-600"
+                    title={collection.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    {collection.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCollectionDelete(collection);
+                    }}
+                    className="hidden group-hover:block p-0.5 text-gray-400 hover:text-red-600"
+                    title="Delete collection"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                  <span className="text-xs text-gray-500 bg-gray-100 rounded-full px-2">
+                    {collection.count}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Tags */}
+        {tagTree.length > 0 && (
+          <div className="px-4 pt-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Tags className="w-4 h-4 text-gray-500" />
+              <h2 className="text-sm font-medium text-gray-900">Tags</h2>
+            </div>
+            <div className="space-y-0.5">
+              {tagTree.map(node => renderTag(node, 0))}
+            </div>
+          </div>
+        )}
+
+        {/* Recent Memories */}
         <div className="p-4">
           <div className="flex items-center gap-2 mb-3">
             <Clock className="w-4 h-4 text-gray-500" />
@@ -101,8 +277,29 @@ const Sidebar: React.FC<SidebarProps> = ({
         </div>
       </div>
 
-      {/* Settings */}
-      <div className="p-4 border-t border-gray-200">
+      {/* Projects, Tags, Trash and Settings */}
+      <div className="p-4 border-t border-gray-200 space-y-1">
+        <button
+          onClick={onProjects}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+        >
+          <FolderGit2 className="w-4 h-4" />
+          Projects
+        </button>
+        <button
+          onClick={onTags}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+        >
+          <Tags className="w-4 h-4" />
+          Tags
+        </button>
+        <button
+          onClick={onTrash}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+          Trash
+        </button>
         <button
           onClick={onSettings}
           className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
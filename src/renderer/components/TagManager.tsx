@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TagNode } from '../../shared/types';
+import { Tag, X, Pencil, Check, Merge } from 'lucide-react';
+import { useToast } from './Toast';
+
+interface TagManagerProps {
+  onClose: () => void;
+  // Called after tags were renamed, merged or recolored
+  onTagsChanged: () => void;
+}
+
+const DEFAULT_COLOR = '#6b7280';
+
+type TagRow = TagNode & { depth: number };
+
+// Parents directly above their children, so the list reads like the sidebar tree
+const flattenTags = (nodes: TagNode[], depth = 0): TagRow[] =>
+  nodes.flatMap(node => [{ ...node, depth }, ...flattenTags(node.children, depth + 1)]);
+
+const TagManager: React.FC<TagManagerProps> = ({ onClose, onTagsChanged }) => {
+  const { showError, showSuccess } = useToast();
+  const [tags, setTags] = useState<TagRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ name: string; value: string } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const loadTags = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTags(flattenTags(await window.electronAPI.getTagTree()));
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      showError('Failed to load tags', 'Unable to load your tags.');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const describe = (count: number) => `${count} ${count === 1 ? 'memory' : 'memories'}`;
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const to = editing.value.trim();
+    setEditing(null);
+    if (!to || to === editing.name) return;
+
+    try {
+      const count = await window.electronAPI.renameTag(editing.name, to);
+      showSuccess('Tag renamed', `"${editing.name}" is now "${to}" on ${describe(count)}.`);
+      await loadTags();
+      onTagsChanged();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      showError('Rename failed', error instanceof Error ? error.message : 'Unable to rename this tag.');
+    }
+  };
+
+  const handleMerge = async () => {
+    const target = mergeTarget.trim();
+    if (!target || selected.size === 0) return;
+
+    try {
+      const count = await window.electronAPI.mergeTags(Array.from(selected), target);
+      showSuccess('Tags merged', `${describe(count)} now tagged "${target}".`);
+      setSelected(new Set());
+      setMergeTarget('');
+      await loadTags();
+      onTagsChanged();
+    } catch (error) {
+      console.error('Failed to merge tags:', error);
+      showError('Merge failed', error instanceof Error ? error.message : 'Unable to merge these tags.');
+    }
+  };
+
+  const handleColorChange = async (tag: TagRow, color: string | null) => {
+    try {
+      await window.electronAPI.setTagColor(tag.name, color);
+      setTags(prev => prev.map(t => (t.name === tag.name ? { ...t, color: color ?? undefined } : t)));
+      onTagsChanged();
+    } catch (error) {
+      console.error('Failed to set tag color:', error);
+      showError('Update failed', 'Unable to change the tag color.');
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-gray-50">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            Tags ({tags.length})
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Back to all memories"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Use <code>/</code> to nest tags, as in <code>infra/k8s</code>. Renaming or merging a tag also moves
+          every tag nested under it.
+        </p>
+
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2 mb-4 p-3 bg-white border border-gray-200 rounded-md">
+            <span className="text-sm text-gray-700 whitespace-nowrap">
+              Merge {selected.size} {selected.size === 1 ? 'tag' : 'tags'} into
+            </span>
+            <input
+              type="text"
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleMerge()}
+              aria-label="Merge into tag"
+              className="input-field"
+              placeholder="Tag name"
+              list="tag-manager-names"
+            />
+            <datalist id="tag-manager-names">
+              {tags.map(tag => <option key={tag.name} value={tag.name} />)}
+            </datalist>
+            <button onClick={handleMerge} disabled={!mergeTarget.trim()} className="btn-primary whitespace-nowrap">
+              <Merge className="w-4 h-4 mr-1" />
+              Merge
+            </button>
+          </div>
+        )}
+
+        {loading && tags.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading tags...</p>
+        ) : tags.length === 0 ? (
+          <div className="text-center py-16">
+            <Tag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No tags yet</h3>
+            <p className="text-gray-600">Tags you add to memories appear here</p>
+          </div>
+        ) : (
+          <ul className="bg-white border border-gray-200 rounded-md divide-y divide-gray-100">
+            {tags.map(tag => (
+              <li
+                key={tag.name}
+                className="flex items-center gap-3 pr-4 py-2"
+                style={{ paddingLeft: `${1 + tag.depth * 1.5}rem` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(tag.name)}
+                  onChange={() => toggleSelected(tag.name)}
+                  aria-label={`Select ${tag.name}`}
+                />
+                <input
+                  type="color"
+                  value={tag.color || DEFAULT_COLOR}
+                  onChange={(e) => handleColorChange(tag, e.target.value)}
+                  aria-label={`Color for ${tag.name}`}
+                  className="w-6 h-6 border-0 p-0 bg-transparent cursor-pointer"
+                />
+                {editing?.name === tag.name ? (
+                  <input
+                    type="text"
+                    value={editing.value}
+                    onChange={(e) => setEditing({ name: tag.name, value: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    onBlur={handleRename}
+                    aria-label={`New name for ${tag.name}`}
+                    className="input-field flex-1"
+                    autoFocus
+                  />
+                ) : (
+                  <span className="flex-1 text-sm text-gray-900 text-truncate" title={tag.name}>{tag.label}</span>
+                )}
+                <span className="text-xs text-gray-500 bg-gray-100 rounded-full px-2">{tag.count}</span>
+                {tag.color && (
+                  <button
+                    onClick={() => handleColorChange(tag, null)}
+                    className="text-xs text-gray-400 hover:text-gray-600"
+                    title="Remove color"
+                  >
+                    Clear
+                  </button>
+                )}
+                <button
+                  onClick={() => (editing?.name === tag.name ? handleRename() : setEditing({ name: tag.name, value: tag.name }))}
+                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                  title={editing?.name === tag.name ? 'Apply rename' : 'Rename tag'}
+                >
+                  {editing?.name === tag.name ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Memory } from '../../shared/types';
+import { Trash2, RotateCcw, X, FileText } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import ConfirmDialog from './ConfirmDialog';
+import { useToast } from './Toast';
+
+interface TrashViewProps {
+  onClose: () => void;
+  onMemoryRestored: (memory: Memory) => void;
+}
+
+type PendingAction = { kind: 'purge'; memory: Memory } | { kind: 'empty' } | null;
+
+const TrashView: React.FC<TrashViewProps> = ({ onClose, onMemoryRestored }) => {
+  const { showError, showSuccess } = useToast();
+  const [trashed, setTrashed] = useState<Memory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<PendingAction>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTrashed(await window.electronAPI.getTrash());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      showError('Failed to load trash', 'Unable to load deleted memories.');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (memory: Memory) => {
+    try {
+      const restored = await window.electronAPI.restoreMemory(memory.id);
+      setTrashed(prev => prev.filter(m => m.id !== memory.id));
+      if (restored) {
+        onMemoryRestored(restored);
+        showSuccess('Memory restored', `"${memory.title}" is back in your memories.`);
+      }
+    } catch (error) {
+      console.error('Failed to restore memory:', error);
+      showError('Restore failed', 'Unable to restore this memory. Please try again.');
+    }
+  };
+
+  const handleConfirm = async () => {
+    const action = pending;
+    setPending(null);
+    if (!action) return;
+
+    try {
+      if (action.kind === 'purge') {
+        await window.electronAPI.purgeMemory(action.memory.id);
+        setTrashed(prev => prev.filter(m => m.id !== action.memory.id));
+        showSuccess('Memory deleted', `"${action.memory.title}" has been permanently deleted.`);
+      } else {
+        const count = await window.electronAPI.emptyTrash();
+        setTrashed([]);
+        showSuccess('Trash emptied', `${count} ${count === 1 ? 'memory was' : 'memories were'} permanently deleted.`);
+      }
+    } catch (error) {
+      console.error('Failed to delete from trash:', error);
+      showError('Delete failed', 'The operation failed. Please try again.');
+      loadTrash();
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-gray-50">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            Trash ({trashed.length})
+          </h2>
+          <div className="flex items-center gap-2">
+            {trashed.length > 0 && (
+              <button onClick={() => setPending({ kind: 'empty' })} className="btn-secondary text-red-600">
+                <Trash2 className="w-4 h-4 mr-1" />
+                Empty Trash
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Back to all memories"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {loading && trashed.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : trashed.length === 0 ? (
+          <div className="text-center py-16">
+            <Trash2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-600">Deleted memories appear here until they are removed permanently</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {trashed.map(memory => (
+              <div key={memory.id} className="memory-card">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FileText className="w-4 h-4 text-gray-400" />
+                      <h3 className="text-lg font-medium text-gray-900 text-truncate">
+                        {memory.title}
+                      </h3>
+                    </div>
+                    <p className="text-gray-600 line-clamp-2 mb-3">
+                      {memory.content}
+                    </p>
+                    {memory.deletedAt && (
+                      <p className="text-sm text-gray-500" title={format(new Date(memory.deletedAt), 'MMM d, yyyy HH:mm')}>
+                        Deleted {formatDistanceToNow(new Date(memory.deletedAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => handleRestore(memory)} className="btn-secondary" title="Restore memory">
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => setPending({ kind: 'purge', memory })}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={pending !== null}
+        title={pending?.kind === 'empty' ? 'Empty Trash' : 'Delete Permanently'}
+        message={pending?.kind === 'purge'
+          ? `"${pending.memory.title}" and its history will be deleted permanently. This action cannot be undone.`
+          : `All ${trashed.length} memories in the Trash will be deleted permanently. This action cannot be undone.`}
+        confirmText="Delete"
+        confirmVariant="danger"
+        onConfirm={handleConfirm}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Vault } from '../../shared/types';
+import { Archive, Check, Pencil, Plus, X } from 'lucide-react';
+import ConfirmDialog from './ConfirmDialog';
+import { useToast } from './Toast';
+
+interface VaultSettingsProps {
+  // Called after a vault was created, renamed or removed
+  onVaultsChanged?: () => void;
+}
+
+const VaultSettings: React.FC<VaultSettingsProps> = ({ onVaultsChanged }) => {
+  const { showError, showSuccess } = useToast();
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+  const [pendingRemove, setPendingRemove] = useState<Vault | null>(null);
+
+  const loadVaults = useCallback(async () => {
+    try {
+      const [all, active] = await Promise.all([
+        window.electronAPI.getVaults(),
+        window.electronAPI.getActiveVault(),
+      ]);
+      setVaults(all);
+      setActiveId(active.id);
+    } catch (error) {
+      console.error('Failed to load vaults:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVaults();
+  }, [loadVaults]);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      await window.electronAPI.createVault(name);
+      setNewName('');
+      showSuccess('Vault created', `Switch to "${name}" from the sidebar to start using it.`);
+      await loadVaults();
+      onVaultsChanged?.();
+    } catch (error) {
+      console.error('Failed to create vault:', error);
+      showError('Failed to create vault', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const { id, value } = editing;
+    setEditing(null);
+    if (!value.trim() || vaults.find(vault => vault.id === id)?.name === value.trim()) return;
+
+    try {
+      await window.electronAPI.renameVault(id, value);
+      await loadVaults();
+      onVaultsChanged?.();
+    } catch (error) {
+      console.error('Failed to rename vault:', error);
+      showError('Rename failed', error instanceof Error ? error.message : 'Unable to rename this vault.');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemove) return;
+    const vault = pendingRemove;
+    setPendingRemove(null);
+
+    try {
+      await window.electronAPI.removeVault(vault.id);
+      showSuccess('Vault removed', `"${vault.name}" is no longer listed. Its files were kept.`);
+      await loadVaults();
+      onVaultsChanged?.();
+    } catch (error) {
+      console.error('Failed to remove vault:', error);
+      showError('Failed to remove vault', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <Archive className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Vaults</h3>
+      </div>
+
+      <p className="mb-3 text-xs text-gray-500">
+        Each vault has its own database and vector store. Switch between them with the vault picker at the top of
+        the sidebar.
+      </p>
+
+      <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 mb-3">
+        {vaults.map(vault => (
+          <li key={vault.id} className="flex items-center gap-3 px-4 py-2">
+            {editing?.id === vault.id ? (
+              <input
+                type="text"
+                value={editing.value}
+                onChange={(e) => setEditing({ id: vault.id, value: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                onBlur={handleRename}
+                aria-label={`New name for ${vault.name}`}
+                className="input-field flex-1"
+                autoFocus
+              />
+            ) : (
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900">
+                  {vault.name}
+                  {vault.id === activeId && <span className="ml-2 text-xs text-blue-600">Open</span>}
+                </p>
+                <p className="text-xs text-gray-500 text-truncate" title={vault.sqlitePath}>{vault.sqlitePath}</p>
+              </div>
+            )}
+            <button
+              onClick={() => (editing?.id === vault.id ? handleRename() : setEditing({ id: vault.id, value: vault.name }))}
+              className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+              title={editing?.id === vault.id ? 'Apply rename' : 'Rename vault'}
+            >
+              {editing?.id === vault.id ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => setPendingRemove(vault)}
+              disabled={vault.id === activeId}
+              className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+              title={vault.id === activeId ? 'Switch to another vault to remove this one' : 'Remove vault'}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          aria-label="New vault name"
+          className="input-field"
+          placeholder="e.g. work, personal, client-x"
+        />
+        <button onClick={handleCreate} disabled={!newName.trim()} className="btn-secondary whitespace-nowrap">
+          <Plus className="w-4 h-4 mr-1" />
+          Add Vault
+        </button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingRemove !== null}
+        title="Remove Vault"
+        message={`"${pendingRemove?.name}" will be removed from the list. Its database files stay on disk.`}
+        confirmText="Remove"
+        confirmVariant="danger"
+        onConfirm={handleRemove}
+        onCancel={() => setPendingRemove(null)}
+      />
+    </section>
+  );
+};
+
+export default VaultSettings;
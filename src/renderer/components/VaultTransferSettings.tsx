@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import { MarkdownLayout, VaultImportConflict, VaultImportMode, VaultImportOptions, VaultImportSummary, VaultTransferProgress } from '../../shared/types';
+import { ArrowLeftRight, Download, FileText, FolderOpen, Upload } from 'lucide-react';
+import ConfirmDialog from './ConfirmDialog';
+import { useToast } from './Toast';
+
+interface VaultTransferSettingsProps {
+  // Called after an import changed the open vault
+  onImported?: () => void;
+}
+
+// A bundle file, or a folder of Markdown notes which always merges
+interface ImportSource {
+  kind: 'bundle' | 'markdown';
+  path: string;
+}
+
+const CONFLICT_LABELS: Record<VaultImportConflict, string> = {
+  newer: 'Keep the more recently updated version',
+  'keep-existing': 'Keep the version in this vault',
+  'use-imported': 'Use the imported version',
+  'keep-both': 'Keep both, importing a copy',
+};
+
+const runImport = (source: ImportSource, options: VaultImportOptions) =>
+  source.kind === 'markdown'
+    ? window.electronAPI.importMarkdown(source.path, options)
+    : window.electronAPI.importVault(source.path, options);
+
+const describeSummary = (summary: VaultImportSummary) => {
+  const { memories, projects } = summary;
+  const parts = [
+    `${memories.added} new`,
+    `${memories.updated} updated`,
+    memories.copied > 0 && `${memories.copied} copied`,
+    `${memories.skipped} unchanged or kept`,
+  ].filter(Boolean);
+  return `${parts.join(', ')} memories; ${projects.added} new and ${projects.updated} updated projects; ${summary.links} links`;
+};
+
+const VaultTransferSettings: React.FC<VaultTransferSettingsProps> = ({ onImported }) => {
+  const { showError, showSuccess } = useToast();
+  const [includeEmbeddings, setIncludeEmbeddings] = useState(false);
+  const [layout, setLayout] = useState<MarkdownLayout>('type');
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+  const [mode, setMode] = useState<VaultImportMode>('merge');
+  const [conflict, setConflict] = useState<VaultImportConflict>('newer');
+  const [preview, setPreview] = useState<VaultImportSummary | null>(null);
+  const [progress, setProgress] = useState<VaultTransferProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.onVaultTransferProgress(setProgress);
+    return () => window.electronAPI.removeAllListeners('vault-transfer-progress');
+  }, []);
+
+  // Every change of file or option shows what the import would do before it runs
+  useEffect(() => {
+    if (!importSource) return;
+    let cancelled = false;
+
+    setPreview(null);
+    runImport(importSource, { mode, conflict, dryRun: true })
+      .then(summary => {
+        if (!cancelled) setPreview(summary);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to read export:', error);
+        showError(
+          importSource.kind === 'markdown' ? 'Cannot import this folder' : 'Cannot import this file',
+          error instanceof Error ? error.message : 'The file could not be read.'
+        );
+        setImportSource(null);
+      })
+      .finally(() => {
+        if (!cancelled) setProgress(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [importSource, mode, conflict, showError]);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const summary = await window.electronAPI.exportVault({ includeEmbeddings });
+      if (summary) {
+        showSuccess('Vault exported', `${summary.memories} memories were written to ${summary.filePath}.`);
+      }
+    } catch (error) {
+      console.error('Failed to export vault:', error);
+      showError('Export failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleExportMarkdown = async () => {
+    setBusy(true);
+    try {
+      const summary = await window.electronAPI.exportMarkdown(layout);
+      if (summary) {
+        showSuccess('Notes exported', `${summary.written} notes were written to ${summary.folderPath}, ${summary.unchanged} were up to date.`);
+      }
+    } catch (error) {
+      console.error('Failed to export Markdown folder:', error);
+      showError('Export failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleChooseSource = async (kind: ImportSource['kind']) => {
+    try {
+      const chosen = kind === 'markdown'
+        ? await window.electronAPI.chooseMarkdownImport()
+        : await window.electronAPI.chooseVaultImport();
+      if (!chosen) return;
+      if (kind === 'markdown') setMode('merge');
+      setImportSource({ kind, path: chosen });
+    } catch (error) {
+      console.error('Failed to choose import source:', error);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importSource) return;
+    setConfirmReplace(false);
+    setBusy(true);
+    try {
+      const summary = await runImport(importSource, { mode, conflict });
+      showSuccess('Vault imported', describeSummary(summary));
+      setImportSource(null);
+      setPreview(null);
+      onImported?.();
+    } catch (error) {
+      console.error('Failed to import vault:', error);
+      showError('Import failed', error instanceof Error ? error.message : 'Nothing was imported.');
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <ArrowLeftRight className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Export & Import</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="mb-3 text-xs text-gray-500">
+            An export holds the memories of the open vault with their trash, tags, projects, links and revision
+            history in one file.
+          </p>
+          <div className="flex items-center gap-3">
+            <button onClick={handleExport} disabled={busy} className="btn-secondary">
+              <Download className="w-4 h-4 mr-1" />
+              Export Vault
+            </button>
+            <input
+              type="checkbox"
+              id="export-embeddings"
+              checked={includeEmbeddings}
+              onChange={(e) => setIncludeEmbeddings(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="export-embeddings" className="text-sm text-gray-700">
+              Include embeddings (larger file, no re-embedding on import)
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <p className="mb-3 text-xs text-gray-500">
+            Markdown notes carry their fields in YAML front matter and can be edited in any editor. Exporting to the
+            same folder again updates the notes in place.
+          </p>
+          <div className="flex items-center gap-3">
+            <button onClick={handleExportMarkdown} disabled={busy} className="btn-secondary">
+              <FileText className="w-4 h-4 mr-1" />
+              Export Markdown
+            </button>
+            <label htmlFor="markdown-layout" className="text-sm text-gray-700">
+              Folders by
+            </label>
+            <select
+              id="markdown-layout"
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as MarkdownLayout)}
+              className="select-field w-auto"
+            >
+              <option value="type">Type</option>
+              <option value="project">Project</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={() => handleChooseSource('bundle')} disabled={busy} className="btn-secondary">
+            <Upload className="w-4 h-4 mr-1" />
+            Import From File
+          </button>
+          <button onClick={() => handleChooseSource('markdown')} disabled={busy} className="btn-secondary">
+            <FolderOpen className="w-4 h-4 mr-1" />
+            Import Markdown Folder
+          </button>
+        </div>
+
+        {importSource && (
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-3">
+            <p className="text-xs text-gray-500 text-truncate" title={importSource.path}>{importSource.path}</p>
+
+            <div className="grid grid-cols-2 gap-3">
+              {importSource.kind === 'bundle' && (
+                <div>
+                  <label htmlFor="import-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                    Mode
+                  </label>
+                  <select
+                    id="import-mode"
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as VaultImportMode)}
+                    className="select-field"
+                  >
+                    <option value="merge">Merge into this vault</option>
+                    <option value="replace">Replace everything in this vault</option>
+                  </select>
+                </div>
+              )}
+              {mode === 'merge' && (
+                <div>
+                  <label htmlFor="import-conflict" className="block text-sm font-medium text-gray-700 mb-1">
+                    When a memory differs
+                  </label>
+                  <select
+                    id="import-conflict"
+                    value={conflict}
+                    onChange={(e) => setConflict(e.target.value as VaultImportConflict)}
+                    className="select-field"
+                  >
+                    {(Object.keys(CONFLICT_LABELS) as VaultImportConflict[]).map(option => (
+                      <option key={option} value={option}>{CONFLICT_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {preview ? (
+              <div className="text-sm text-gray-700">
+                <p>Importing will bring in {describeSummary(preview)}.</p>
+                {preview.removed > 0 && (
+                  <p className="text-red-700">{preview.removed} memories currently in this vault will be removed.</p>
+                )}
+                {preview.conflicts > 0 && (
+                  <p>{preview.conflicts} memories exist here with different content.</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {preview.embeddings.reused} embeddings reused, {preview.embeddings.regenerated} generated.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {importSource.kind === 'markdown' ? 'Reading the notes...' : 'Checking the export...'}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => (mode === 'replace' ? setConfirmReplace(true) : handleImport())}
+                disabled={busy || !preview}
+                className="btn-primary"
+              >
+                Import
+              </button>
+              <button
+                onClick={() => {
+                  setImportSource(null);
+                  setPreview(null);
+                }}
+                disabled={busy}
+                className="btn-secondary"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {busy && progress && (
+          <div>
+            <p className="text-xs text-gray-600 mb-1">
+              {progress.message}{progress.total > 0 ? ` (${progress.done} of ${progress.total})` : '...'}
+            </p>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmReplace}
+        title="Replace Vault Contents"
+        message={`All ${preview?.removed ?? 0} memories in this vault, with their history, links and projects, will be replaced by the export. Saved searches are kept.`}
+        confirmText="Replace"
+        confirmVariant="danger"
+        onConfirm={handleImport}
+        onCancel={() => setConfirmReplace(false)}
+      />
+    </section>
+  );
+};
+
+export default VaultTransferSettings;
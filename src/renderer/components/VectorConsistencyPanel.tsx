@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { ConsistencyIssueKind, ConsistencyReport } from '../../shared/types';
+import { AlertTriangle, CheckCircle, RefreshCw, Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from './Toast';
+
+interface VectorConsistencyPanelProps {
+  // Called after a repair changed the vector store
+  onRepaired?: () => void;
+}
+
+const ISSUE_LABELS: Record<ConsistencyIssueKind, string> = {
+  missing: 'memories without a vector',
+  stale: 'vectors made from older text',
+  metadata: 'vectors with the wrong trash state or project',
+  orphaned: 'vectors of deleted memories',
+};
+
+// Shown by name before the rest are summed up
+const LISTED_ISSUES = 5;
+
+const VectorConsistencyPanel: React.FC<VectorConsistencyPanelProps> = ({ onRepaired }) => {
+  const { showError, showSuccess } = useToast();
+  const [report, setReport] = useState<ConsistencyReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.getConsistencyReport()
+      .then(setReport)
+      .catch(error => console.error('Failed to load consistency report:', error));
+  }, []);
+
+  const handleCheck = async () => {
+    setBusy(true);
+    try {
+      setReport(await window.electronAPI.checkConsistency());
+    } catch (error) {
+      console.error('Failed to check vector store:', error);
+      showError('Check failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setBusy(true);
+    try {
+      const summary = await window.electronAPI.repairConsistency();
+      setReport(summary.report);
+      if (summary.failed > 0) {
+        showError('Repair incomplete', `${summary.repaired} fixed, ${summary.failed} failed. Try again once embeddings are available.`);
+      } else {
+        showSuccess('Vector store repaired', `${summary.repaired} problems fixed.`);
+      }
+      onRepaired?.();
+    } catch (error) {
+      console.error('Failed to repair vector store:', error);
+      showError('Repair failed', error instanceof Error ? error.message : 'The operation failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counts = new Map<ConsistencyIssueKind, number>();
+  for (const issue of report?.issues ?? []) {
+    counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1);
+  }
+  const named = (report?.issues ?? []).filter(issue => issue.title).slice(0, LISTED_ISSUES);
+
+  return (
+    <div className="mt-4 space-y-3">
+      {report && (
+        report.issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            All {report.memories} memories match the vector store.
+          </p>
+        ) : (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800 space-y-1">
+            <p className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              The vector store is out of step with the database
+            </p>
+            <ul className="list-disc pl-6">
+              {Array.from(counts, ([kind, count]) => (
+                <li key={kind}>{count} {ISSUE_LABELS[kind]}</li>
+              ))}
+            </ul>
+            {named.length > 0 && (
+              <p className="text-xs text-amber-700 text-truncate">
+                Including {named.map(issue => `"${issue.title}"`).join(', ')}
+              </p>
+            )}
+          </div>
+        )
+      )}
+      {report && (
+        <p className="text-xs text-gray-500">
+          Checked {format(new Date(report.checkedAt), 'MMM d, yyyy HH:mm')}: {report.memories} memories,{' '}
+          {report.vectors} vectors.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={handleCheck} disabled={busy} className="btn-secondary">
+          <RefreshCw className={`w-4 h-4 mr-1 ${busy ? 'animate-spin' : ''}`} />
+          Check Now
+        </button>
+        {report && report.issues.length > 0 && (
+          <button onClick={handleRepair} disabled={busy} className="btn-primary">
+            <Wrench className="w-4 h-4 mr-1" />
+            Repair
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VectorConsistencyPanel;
@@ -8,13 +8,72 @@ const mockElectronAPI = {
   getMemory: jest.fn(),
   updateMemory: jest.fn(),
   deleteMemory: jest.fn(),
+  getRevisions: jest.fn(),
+  restoreRevision: jest.fn(),
+  getLinks: jest.fn().mockResolvedValue({ outgoing: [], incoming: [], wikiLinks: [], mentions: [] }),
+  getAllLinks: jest.fn().mockResolvedValue([]),
+  getAllWikiLinks: jest.fn().mockResolvedValue([]),
+  suggestTitles: jest.fn().mockResolvedValue([]),
+  createLink: jest.fn(),
+  updateLink: jest.fn(),
+  deleteLink: jest.fn(),
   searchMemories: jest.fn(),
+  search: jest.fn(),
   getMemoriesByType: jest.fn(),
   getMemoriesByTags: jest.fn(),
   getRecentMemories: jest.fn(),
   getAllMemories: jest.fn(),
   getMemoryCount: jest.fn(),
   getAllTags: jest.fn(),
+  getTagUsage: jest.fn().mockResolvedValue([]),
+  getTagTree: jest.fn().mockResolvedValue([]),
+  setTagColor: jest.fn(),
+  renameTag: jest.fn(),
+  mergeTags: jest.fn(),
+  getSavedSearches: jest.fn().mockResolvedValue([]),
+  createSavedSearch: jest.fn(),
+  updateSavedSearch: jest.fn(),
+  deleteSavedSearch: jest.fn(),
+  runSavedSearch: jest.fn(),
+  getProjects: jest.fn().mockResolvedValue([]),
+  getProjectDashboard: jest.fn(),
+  createProject: jest.fn(),
+  updateProject: jest.fn(),
+  deleteProject: jest.fn(),
+  getTrash: jest.fn(),
+  restoreMemory: jest.fn(),
+  purgeMemory: jest.fn(),
+  emptyTrash: jest.fn(),
+  getVaults: jest.fn().mockResolvedValue([]),
+  getActiveVault: jest.fn().mockResolvedValue({ id: 'default', name: 'Default', sqlitePath: '', vectorPath: '', createdAt: new Date(0) }),
+  createVault: jest.fn(),
+  renameVault: jest.fn(),
+  removeVault: jest.fn(),
+  switchVault: jest.fn(),
+  checkDatabaseLocation: jest.fn(),
+  relocateDatabase: jest.fn(),
+  exportVault: jest.fn(),
+  chooseVaultImport: jest.fn(),
+  importVault: jest.fn(),
+  onVaultTransferProgress: jest.fn(),
+  exportMarkdown: jest.fn(),
+  chooseMarkdownImport: jest.fn(),
+  importMarkdown: jest.fn(),
+  getMarkdownSync: jest.fn().mockResolvedValue({ config: null, conflicts: [] }),
+  chooseMarkdownSyncFolder: jest.fn(),
+  setMarkdownSync: jest.fn(),
+  syncMarkdown: jest.fn(),
+  resolveMarkdownSyncConflict: jest.fn(),
+  getIndexQueue: jest.fn().mockResolvedValue({ pending: 0, retrying: 0, failed: [] }),
+  retryFailedIndexing: jest.fn(),
+  onIndexQueueStatus: jest.fn(),
+  getConsistencyReport: jest.fn().mockResolvedValue(null),
+  checkConsistency: jest.fn(),
+  repairConsistency: jest.fn(),
+  getBackups: jest.fn().mockResolvedValue([]),
+  backUpNow: jest.fn(),
+  restoreBackup: jest.fn(),
+  chooseBackupFolder: jest.fn(),
   getAppConfig: jest.fn(),
   setAppConfig: jest.fn(),
   getAppVersion: jest.fn(),
@@ -52,6 +111,9 @@ global.ResizeObserver = jest.fn().mockImplementation(() => ({
   disconnect: jest.fn(),
 }));
 
+// jsdom lacks setImmediate, which better-sqlite3's online backup schedules its steps with
+global.setImmediate = global.setImmediate || ((callback: (...args: any[]) => void, ...args: any[]) => setTimeout(callback, 0, ...args)) as any;
+
 // Mock canvas for KnowledgeGraph tests
 HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
   clearRect: jest.fn(),
@@ -61,6 +123,8 @@ HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
   beginPath: jest.fn(),
   moveTo: jest.fn(),
   lineTo: jest.fn(),
+  setLineDash: jest.fn(),
+  closePath: jest.fn(),
   arc: jest.fn(),
   save: jest.fn(),
   restore: jest.fn(),
@@ -0,0 +1,244 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackupInfo, BackupKind, DatabaseLocation, Vault } from '../types';
+import { createLogger } from '../utils/logger';
+import { isSQLiteFile, removeFiles } from './relocation';
+import { SQLiteManager } from './sqlite';
+
+const logger = createLogger('Backups');
+
+const MANIFEST_FILE = 'backup.json';
+const DATABASE_FILE = 'devmemory.db';
+const VECTOR_FILE = 'vector-data.json';
+
+// A backup is written under this name and only renamed once it has been verified
+const PARTIAL_SUFFIX = '.partial';
+
+// The files a restore replaced, kept until the restored vault has opened
+const SET_ASIDE_SUFFIX = '.before-restore';
+
+// SQLite keeps uncommitted or unmerged pages next to the database in these files
+const SQLITE_SIDECARS = ['-wal', '-journal', '-shm'];
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+interface BackupManifest {
+  version: 1;
+  kind: BackupKind;
+  createdAt: string;
+  vaultId: string;
+  vaultName: string;
+  hasVectors: boolean;
+}
+
+// Timestamps sort like the dates they name, so the folder list is in order
+function backupId(kind: BackupKind, createdAt: Date): string {
+  return `${createdAt.toISOString().replace(/[:.]/g, '-')}-${kind}`;
+}
+
+function vaultFiles(location: DatabaseLocation): string[] {
+  return [...['', ...SQLITE_SIDECARS].map(suffix => `${location.sqlitePath}${suffix}`), location.vectorPath];
+}
+
+function folderSize(dir: string): number {
+  return fs.readdirSync(dir).reduce((total, file) => total + fs.statSync(path.join(dir, file)).size, 0);
+}
+
+// Why the SQLite file cannot be trusted, or null if it passes its integrity check
+function checkIntegrity(file: string, label: string): string | null {
+  try {
+    const db = new Database(file, { readonly: true, fileMustExist: true });
+    try {
+      const rows = db.pragma('integrity_check') as Array<{ integrity_check: string }>;
+      const messages = rows.map(row => row.integrity_check);
+      if (messages.length !== 1 || messages[0] !== 'ok') {
+        return `The ${label} failed its integrity check: ${messages.join('; ')}`;
+      }
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    return `The ${label} could not be read: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+/**
+ * Reasons the backup in `dir` cannot be trusted, or null if it passes. The
+ * database and the vector store must pass SQLite's integrity check; vector
+ * data from before the store moved to SQLite must parse as JSON.
+ */
+export function verifyBackup(dir: string): string | null {
+  const databaseFile = path.join(dir, DATABASE_FILE);
+  if (!fs.existsSync(databaseFile)) {
+    return 'The backup has no database';
+  }
+
+  const problem = checkIntegrity(databaseFile, 'database');
+  if (problem) {
+    return problem;
+  }
+
+  const vectorFile = path.join(dir, VECTOR_FILE);
+  if (!fs.existsSync(vectorFile)) {
+    return null;
+  }
+  if (isSQLiteFile(vectorFile)) {
+    return checkIntegrity(vectorFile, 'vector store');
+  }
+  try {
+    JSON.parse(fs.readFileSync(vectorFile, 'utf-8'));
+  } catch {
+    return 'The vector data is not valid JSON';
+  }
+  return null;
+}
+
+/**
+ * Snapshots the open vault into a new folder inside `root`, using SQLite's
+ * online backup so the app keeps working meanwhile. The vector store writes
+ * each change as it happens, so its file is copied as it is. A backup that
+ * fails verification is removed and the problem is thrown.
+ */
+export async function createBackup(
+  sqlite: SQLiteManager,
+  vault: Vault,
+  root: string,
+  kind: BackupKind,
+  now: Date = new Date()
+): Promise<BackupInfo> {
+  const id = backupId(kind, now);
+  const dir = path.join(root, id);
+  const partial = `${dir}${PARTIAL_SUFFIX}`;
+
+  const hasVectors = fs.existsSync(vault.vectorPath);
+  fs.mkdirSync(partial, { recursive: true });
+  try {
+    await sqlite.backup(path.join(partial, DATABASE_FILE));
+    if (hasVectors) {
+      fs.copyFileSync(vault.vectorPath, path.join(partial, VECTOR_FILE));
+    }
+
+    const problem = verifyBackup(partial);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const manifest: BackupManifest = {
+      version: 1,
+      kind,
+      createdAt: now.toISOString(),
+      vaultId: vault.id,
+      vaultName: vault.name,
+      hasVectors,
+    };
+    fs.writeFileSync(path.join(partial, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    fs.renameSync(partial, dir);
+  } catch (error) {
+    fs.rmSync(partial, { recursive: true, force: true });
+    logger.error('Backup failed', { vault: vault.name, kind, error });
+    throw error;
+  }
+
+  logger.info('Vault backed up', { vault: vault.name, kind, dir });
+  return { id, kind, createdAt: now, path: dir, sizeBytes: folderSize(dir), hasVectors };
+}
+
+// The finished backups in `root`, newest first
+export function listBackups(root: string): BackupInfo[] {
+  if (!fs.existsSync(root)) return [];
+
+  const backups: BackupInfo[] = [];
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.endsWith(PARTIAL_SUFFIX)) continue;
+
+    const dir = path.join(root, entry.name);
+    try {
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, MANIFEST_FILE), 'utf-8')) as BackupManifest;
+      backups.push({
+        id: entry.name,
+        kind: manifest.kind,
+        createdAt: new Date(manifest.createdAt),
+        path: dir,
+        sizeBytes: folderSize(dir),
+        hasVectors: manifest.hasVectors,
+      });
+    } catch {
+      // Not a backup, or one written by hand; leave it alone
+    }
+  }
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// One scheduled backup a calendar day is enough
+export function isBackupDue(backups: BackupInfo[], now: Date = new Date()): boolean {
+  return !backups.some(backup => backup.createdAt.toDateString() === now.toDateString());
+}
+
+/**
+ * A week after the last weekly backup, the next one is weekly. The daily run
+ * drifts by the hours the app was closed, so half a day short still counts.
+ */
+export function nextBackupKind(backups: BackupInfo[], now: Date = new Date()): BackupKind {
+  const lastWeekly = backups.find(backup => backup.kind === 'weekly');
+  return !lastWeekly || now.getTime() - lastWeekly.createdAt.getTime() >= WEEK - DAY / 2 ? 'weekly' : 'daily';
+}
+
+/**
+ * Deletes all but the newest `keepDaily` daily and `keepWeekly` weekly
+ * backups in `root`, and returns the ids it removed.
+ */
+export function rotateBackups(root: string, keep: { keepDaily: number; keepWeekly: number }): string[] {
+  const removed: string[] = [];
+  const kept: Record<BackupKind, number> = { daily: 0, weekly: 0 };
+  const limits: Record<BackupKind, number> = { daily: keep.keepDaily, weekly: keep.keepWeekly };
+
+  for (const backup of listBackups(root)) {
+    kept[backup.kind]++;
+    if (kept[backup.kind] <= limits[backup.kind]) continue;
+
+    fs.rmSync(backup.path, { recursive: true, force: true });
+    removed.push(backup.id);
+  }
+  if (removed.length > 0) {
+    logger.info('Removed old backups', { root, removed });
+  }
+  return removed;
+}
+
+/**
+ * Puts the files of the backup in `dir` where `location` expects them. The
+ * current files are renamed aside rather than deleted, and returned so they
+ * can be removed once the restored vault opens, or put back with
+ * `undoRestore` if it does not. The vault must be closed.
+ */
+export function restoreBackupFiles(dir: string, location: DatabaseLocation): string[] {
+  const setAside: string[] = [];
+  try {
+    for (const file of vaultFiles(location)) {
+      if (!fs.existsSync(file)) continue;
+      fs.renameSync(file, `${file}${SET_ASIDE_SUFFIX}`);
+      setAside.push(`${file}${SET_ASIDE_SUFFIX}`);
+    }
+
+    fs.copyFileSync(path.join(dir, DATABASE_FILE), location.sqlitePath);
+    // A backup without vectors restores an empty store, which reindexing fills
+    if (fs.existsSync(path.join(dir, VECTOR_FILE))) {
+      fs.copyFileSync(path.join(dir, VECTOR_FILE), location.vectorPath);
+    }
+  } catch (error) {
+    undoRestore(location, setAside);
+    throw error;
+  }
+  return setAside;
+}
+
+// Removes restored files and puts back the ones `restoreBackupFiles` set aside
+export function undoRestore(location: DatabaseLocation, setAside: string[]): void {
+  removeFiles(vaultFiles(location));
+  for (const file of setAside) {
+    fs.renameSync(file, file.slice(0, -SET_ASIDE_SUFFIX.length));
+  }
+}
@@ -4,6 +4,14 @@ export interface IEmbeddingFunction {
   generate(texts: string[]): Promise<number[][]>;
 }
 
+// Names the hash-based vectors used when Bedrock is unavailable; they only compare with each other
+export const FALLBACK_EMBEDDING_MODEL_ID = 'devmemory-fallback-hash-384';
+
+export interface ModelEmbedding {
+  embedding: number[];
+  model: string;
+}
+
 export class BedrockEmbeddingFunction implements IEmbeddingFunction {
   private client: BedrockRuntimeClient;
   private modelId: string;
@@ -35,41 +43,57 @@ export class BedrockEmbeddingFunction implements IEmbeddingFunction {
   }
 
   private async generateSingleEmbedding(text: string): Promise<number[]> {
-    try {
-      // Prepare the request for Amazon Titan Text Embeddings
-      const body = {
-        inputText: text.substring(0, 8000), // Titan has 8k token limit
-      };
-
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify(body),
-      });
-
-      const response = await this.client.send(command);
-      
-      if (!response.body) {
-        throw new Error('No response body from Bedrock');
-      }
-
-      // Parse the response
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-      
-      if (!responseBody.embedding) {
-        throw new Error('No embedding in response');
-      }
+    return (await this.embed(text)).embedding;
+  }
 
-      return responseBody.embedding;
+  /**
+   * Embeds one text and names the model that produced the vector, which is
+   * the fallback whenever Bedrock could not be reached.
+   */
+  async embed(text: string): Promise<ModelEmbedding> {
+    try {
+      return { embedding: await this.invokeModel(text), model: this.modelId };
     } catch (error) {
       console.error(`Failed to generate embedding for text: ${text.substring(0, 100)}...`, error);
       
       // Fallback to simple embedding
-      return this.generateSimpleEmbedding(text);
+      return { embedding: this.generateSimpleEmbedding(text), model: FALLBACK_EMBEDDING_MODEL_ID };
     }
   }
 
+  getModelId(): string {
+    return this.modelId;
+  }
+
+  private async invokeModel(text: string): Promise<number[]> {
+    // Prepare the request for Amazon Titan Text Embeddings
+    const body = {
+      inputText: text.substring(0, 8000), // Titan has 8k token limit
+    };
+
+    const command = new InvokeModelCommand({
+      modelId: this.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(body),
+    });
+
+    const response = await this.client.send(command);
+    
+    if (!response.body) {
+      throw new Error('No response body from Bedrock');
+    }
+
+    // Parse the response
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+    
+    if (!responseBody.embedding) {
+      throw new Error('No embedding in response');
+    }
+
+    return responseBody.embedding;
+  }
+
   private generateFallbackEmbeddings(texts: string[]): number[][] {
     console.warn('Using fallback embeddings (not AWS Bedrock)');
     return texts.map(text => this.generateSimpleEmbedding(text));
@@ -111,8 +135,8 @@ export class BedrockEmbeddingFunction implements IEmbeddingFunction {
   // Test if AWS Bedrock is available
   async testConnection(): Promise<boolean> {
     try {
-      const testEmbedding = await this.generateSingleEmbedding('test');
-      return testEmbedding.length > 0;
+      const { embedding, model } = await this.embed('test');
+      return model === this.modelId && embedding.length > 0;
     } catch (error) {
       console.warn('AWS Bedrock not available, using fallback embeddings');
       return false;
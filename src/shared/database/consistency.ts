@@ -0,0 +1,99 @@
+import { ConsistencyIssue, ConsistencyReport, ConsistencyRepairSummary, Memory } from '../types';
+import { createLogger } from '../utils/logger';
+import { SQLiteManager } from './sqlite';
+import { VectorStore } from './vector-store';
+
+/**
+ * Finds where the vector store has drifted from the database and repairs it.
+ * Every memory change queues the memory in the database's index queue in the
+ * same transaction, and the index worker retries failed vector writes from
+ * there, so the queue keeps ordinary changes in step. The checker covers what
+ * the queue cannot see: vaults indexed before the queue existed, vector files
+ * edited, restored or swapped outside the app, entries parked after too many
+ * failures, and vectors made by an older way of embedding. The database is
+ * taken as the truth: memories without a vector or with one made from other
+ * text are embedded again, vectors with no memory are deleted, and a wrong
+ * trash state or project is corrected in place. Trashed memories keep their
+ * vectors, so they are checked too.
+ */
+export class ConsistencyChecker {
+  private logger = createLogger('ConsistencyChecker');
+
+  constructor(private sqlite: SQLiteManager, private vectorStore: VectorStore) {}
+
+  async check(): Promise<ConsistencyReport> {
+    const memories = await this.loadMemories();
+    const documents = await this.vectorStore.getIndexedDocuments();
+    const issues: ConsistencyIssue[] = [];
+
+    const indexed = new Map(documents.map(document => [document.memoryId, document]));
+    for (const memory of memories.values()) {
+      const document = indexed.get(memory.id);
+      if (!document) {
+        issues.push({ memoryId: memory.id, kind: 'missing', title: memory.title });
+      } else if (document.contentHash !== this.vectorStore.getContentHash(memory)) {
+        issues.push({ memoryId: memory.id, kind: 'stale', title: memory.title });
+      } else if (document.deleted !== !!memory.deletedAt || (document.projectId ?? null) !== (memory.projectId ?? null)) {
+        issues.push({ memoryId: memory.id, kind: 'metadata', title: memory.title });
+      }
+    }
+    for (const document of documents) {
+      if (!memories.has(document.memoryId)) {
+        issues.push({ memoryId: document.memoryId, kind: 'orphaned' });
+      }
+    }
+
+    const report = { checkedAt: new Date(), memories: memories.size, vectors: documents.length, issues };
+    if (issues.length > 0) {
+      this.logger.warn('Vector store has drifted from the database', countIssues(report));
+    }
+    return report;
+  }
+
+  /**
+   * Fixes the issues in `report`, or in a fresh check if none is given. An
+   * issue that cannot be fixed, such as when embedding fails, is counted and
+   * left for the next repair.
+   */
+  async repair(report?: ConsistencyReport): Promise<ConsistencyRepairSummary> {
+    const { issues } = report ?? await this.check();
+    const memories = await this.loadMemories();
+    let repaired = 0;
+    let failed = 0;
+
+    for (const issue of issues) {
+      const memory = memories.get(issue.memoryId);
+      try {
+        if (!memory) {
+          // Checked against the current database, in case the memory came back since the report
+          await this.vectorStore.deleteMemory(issue.memoryId);
+        } else if (issue.kind === 'metadata') {
+          await this.vectorStore.setDeleted(memory.id, memory.deletedAt ?? null);
+          await this.vectorStore.setProject(memory.id, memory.projectId ?? null);
+        } else {
+          await this.vectorStore.updateMemory(memory);
+        }
+        repaired++;
+      } catch (error) {
+        this.logger.warn('Failed to repair vector', { memoryId: issue.memoryId, kind: issue.kind, error });
+        failed++;
+      }
+    }
+
+    this.logger.info('Vector store repaired', { repaired, failed });
+    return { repaired, failed, report: await this.check() };
+  }
+
+  private async loadMemories(): Promise<Map<string, Memory>> {
+    const memories = [...await this.sqlite.getAllMemories(), ...await this.sqlite.getTrashedMemories()];
+    return new Map(memories.map(memory => [memory.id, memory]));
+  }
+}
+
+function countIssues(report: ConsistencyReport): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const issue of report.issues) {
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,374 @@
+import { StoredVector, encodeVector, vectorSimilarity } from './quantization';
+
+// A node as it is saved: its top layer and its neighbours on each layer from 0 up
+export interface HnswNode {
+  level: number;
+  neighbors: string[][];
+}
+
+// Nodes written or removed since the changes were last taken
+export interface HnswChanges {
+  updated: Array<{ id: string; node: HnswNode }>;
+  removed: string[];
+}
+
+export interface HnswSearchOptions {
+  // How many candidates the bottom layer keeps; more finds more of the true neighbours
+  ef?: number;
+  // Nodes that may be returned; the rest are still walked through
+  accept?: (id: string) => boolean;
+}
+
+export interface HnswHit {
+  id: string;
+  similarity: number;
+}
+
+interface GraphNode extends HnswNode {
+  vector: StoredVector;
+  // The nodes linking to this one on each layer, so a removal visits only those
+  incoming: Array<Set<string>>;
+}
+
+// Neighbours per node on the upper layers, twice as many on layer 0
+const M = 16;
+const EF_CONSTRUCTION = 64;
+export const HNSW_EF_SEARCH = 64;
+
+// Binary heap with the item that comes `before` all others on top
+class Heap {
+  private items: HnswHit[] = [];
+
+  constructor(private before: (a: HnswHit, b: HnswHit) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): HnswHit {
+    return this.items[0];
+  }
+
+  push(item: HnswHit): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HnswHit {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): HnswHit[] {
+    return [...this.items];
+  }
+}
+
+const bySimilarity = (a: HnswHit, b: HnswHit) => b.similarity - a.similarity;
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin) over cosine
+ * similarity. A search walks down from a few long links on the top layers
+ * to the dense bottom layer, so it compares the query with a small share of
+ * the vectors. Nodes are added and removed one at a time, and the nodes
+ * each change touched are collected for the caller to save. Vectors come
+ * encoded, so the graph works the same on full and quantized vectors.
+ */
+export class HnswIndex {
+  private nodes = new Map<string, GraphNode>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private updated = new Set<string>();
+  private removed = new Set<string>();
+
+  constructor(readonly dimensions: number) {}
+
+  /**
+   * Rebuilds an index from saved nodes. Links to nodes that were not saved
+   * are dropped, and the nodes that lost them are reported as changed.
+   */
+  static restore(dimensions: number, entries: Array<{ id: string; vector: StoredVector; node: HnswNode }>): HnswIndex {
+    const index = new HnswIndex(dimensions);
+    for (const { id, vector, node } of entries) {
+      index.nodes.set(id, {
+        vector,
+        level: node.level,
+        neighbors: Array.from({ length: node.level + 1 }, (_, level) => node.neighbors[level] ?? []),
+        incoming: Array.from({ length: node.level + 1 }, () => new Set()),
+      });
+    }
+
+    for (const [id, node] of index.nodes) {
+      const neighbors = node.neighbors.map((list, level) =>
+        list.filter(neighbor => (index.nodes.get(neighbor)?.level ?? -1) >= level));
+      if (neighbors.some((list, level) => list.length !== node.neighbors[level].length)) {
+        node.neighbors = neighbors;
+        index.updated.add(id);
+      }
+      neighbors.forEach((list, level) => list.forEach(neighbor => index.nodes.get(neighbor)!.incoming[level].add(id)));
+      if (node.level > index.maxLevel) {
+        index.entryPoint = id;
+        index.maxLevel = node.level;
+      }
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getVector(id: string): StoredVector | undefined {
+    return this.nodes.get(id)?.vector;
+  }
+
+  // Adds a vector, replacing the one already stored under `id`
+  add(id: string, vector: StoredVector): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(1 - Math.random()) / Math.log(M));
+    const node: GraphNode = {
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      incoming: Array.from({ length: level + 1 }, () => new Set()),
+    };
+
+    if (this.entryPoint === null) {
+      this.nodes.set(id, node);
+      this.touch(id);
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries = this.descend(vector, level);
+    this.nodes.set(id, node);
+    this.touch(id);
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, entries, EF_CONSTRUCTION, layer);
+      this.setNeighbors(id, node, layer, this.selectNeighbors(vector, found, M).map(hit => hit.id));
+      for (const neighbor of node.neighbors[layer]) {
+        this.link(neighbor, id, layer);
+      }
+      entries = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Removes a vector and reconnects the nodes that linked to it through its
+   * own neighbours, so no part of the graph is cut off.
+   */
+  remove(id: string): void {
+    const removedNode = this.nodes.get(id);
+    if (!removedNode) return;
+
+    this.nodes.delete(id);
+    this.updated.delete(id);
+    this.removed.add(id);
+
+    for (let layer = 0; layer <= removedNode.level; layer++) {
+      for (const neighbor of removedNode.neighbors[layer]) {
+        this.nodes.get(neighbor)?.incoming[layer].delete(id);
+      }
+
+      // Links are not always mutual, so the nodes to reconnect are those linking in
+      for (const otherId of Array.from(removedNode.incoming[layer])) {
+        const other = this.nodes.get(otherId);
+        if (!other) continue;
+
+        const candidates = new Set([...other.neighbors[layer], ...removedNode.neighbors[layer]]);
+        candidates.delete(id);
+        candidates.delete(otherId);
+        const scored = Array.from(candidates)
+          .filter(candidate => this.nodes.has(candidate))
+          .map(candidate => ({ id: candidate, similarity: vectorSimilarity(other.vector, this.nodes.get(candidate)!.vector) }));
+        const neighbors = this.selectNeighbors(other.vector, scored, this.maxConnections(layer)).map(hit => hit.id);
+        this.setNeighbors(otherId, other, layer, neighbors);
+        this.touch(otherId);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const [otherId, other] of this.nodes) {
+        if (other.level > this.maxLevel) {
+          this.entryPoint = otherId;
+          this.maxLevel = other.level;
+        }
+      }
+    }
+  }
+
+  // The `k` accepted vectors most similar to `query`, most similar first
+  search(query: ArrayLike<number>, k: number, options: HnswSearchOptions = {}): HnswHit[] {
+    if (this.entryPoint === null || query.length !== this.dimensions) {
+      return [];
+    }
+
+    const vector = encodeVector(query, 'none');
+    const entries = this.descend(vector, 0);
+    const ef = Math.max(options.ef ?? HNSW_EF_SEARCH, k);
+    return this.searchLayer(vector, entries, ef, 0, options.accept).slice(0, k);
+  }
+
+  // The nodes changed since the last call, for the caller to save
+  takeChanges(): HnswChanges {
+    const changes: HnswChanges = {
+      updated: Array.from(this.updated, id => {
+        const { level, neighbors } = this.nodes.get(id)!;
+        return { id, node: { level, neighbors } };
+      }),
+      removed: Array.from(this.removed),
+    };
+    this.updated.clear();
+    this.removed.clear();
+    return changes;
+  }
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? 2 * M : M;
+  }
+
+  private touch(id: string): void {
+    this.updated.add(id);
+    this.removed.delete(id);
+  }
+
+  // Greedy walk down the layers above `level`, to the node closest to `vector`
+  private descend(vector: StoredVector, level: number): HnswHit[] {
+    const entryPoint = this.entryPoint!;
+    let entries = [{ id: entryPoint, similarity: vectorSimilarity(vector, this.nodes.get(entryPoint)!.vector) }];
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entries = this.searchLayer(vector, entries, 1, layer);
+    }
+    return entries;
+  }
+
+  private searchLayer(
+    vector: StoredVector,
+    entries: HnswHit[],
+    ef: number,
+    layer: number,
+    accept?: (id: string) => boolean
+  ): HnswHit[] {
+    const visited = new Set(entries.map(entry => entry.id));
+    const candidates = new Heap((a, b) => a.similarity > b.similarity);
+    const results = new Heap((a, b) => a.similarity < b.similarity);
+
+    for (const entry of entries) {
+      candidates.push(entry);
+      if (!accept || accept(entry.id)) {
+        results.push(entry);
+        if (results.size > ef) results.pop();
+      }
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop();
+      if (results.size >= ef && current.similarity < results.peek().similarity) {
+        break;
+      }
+
+      for (const neighbor of this.nodes.get(current.id)?.neighbors[layer] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const node = this.nodes.get(neighbor);
+        if (!node) continue;
+        const similarity = vectorSimilarity(vector, node.vector);
+        if (results.size < ef || similarity > results.peek().similarity) {
+          candidates.push({ id: neighbor, similarity });
+          if (!accept || accept(neighbor)) {
+            results.push({ id: neighbor, similarity });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort(bySimilarity);
+  }
+
+  /**
+   * Picks up to `m` neighbours, preferring candidates closer to `vector` than
+   * to any neighbour already picked so links spread in every direction. The
+   * rest fill the remaining places.
+   */
+  private selectNeighbors(vector: StoredVector, candidates: HnswHit[], m: number): HnswHit[] {
+    const selected: HnswHit[] = [];
+    const skipped: HnswHit[] = [];
+    for (const candidate of [...candidates].sort(bySimilarity)) {
+      if (selected.length >= m) break;
+      const candidateVector = this.nodes.get(candidate.id)!.vector;
+      if (selected.every(picked => vectorSimilarity(candidateVector, this.nodes.get(picked.id)!.vector) < candidate.similarity)) {
+        selected.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= m) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private link(from: string, to: string, layer: number): void {
+    const node = this.nodes.get(from)!;
+    let list = [...node.neighbors[layer], to];
+    if (list.length > this.maxConnections(layer)) {
+      const scored = list.map(id => ({ id, similarity: vectorSimilarity(node.vector, this.nodes.get(id)!.vector) }));
+      // Dropping the furthest link is much cheaper than reselecting and nearly as good
+      list = scored.sort(bySimilarity).slice(0, this.maxConnections(layer)).map(hit => hit.id);
+    }
+    this.setNeighbors(from, node, layer, list);
+    this.touch(from);
+  }
+
+  // Replaces a node's links on one layer, keeping the incoming links of both ends in step
+  private setNeighbors(id: string, node: GraphNode, layer: number, neighbors: string[]): void {
+    for (const neighbor of node.neighbors[layer]) {
+      this.nodes.get(neighbor)?.incoming[layer].delete(id);
+    }
+    node.neighbors[layer] = neighbors;
+    for (const neighbor of neighbors) {
+      this.nodes.get(neighbor)?.incoming[layer].add(id);
+    }
+  }
+}
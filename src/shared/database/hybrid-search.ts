@@ -0,0 +1,157 @@
+import { SearchFilters, SearchQuery, SearchResult, SearchSource } from '../types';
+import { SQLiteManager } from './sqlite';
+import { VectorStore } from './vector-store';
+import { createLogger } from '../utils/logger';
+
+export interface HybridSearchOptions {
+  vectorWeight?: number;
+  fullTextWeight?: number;
+  similarityThreshold?: number;
+}
+
+export interface RankedList {
+  source: SearchSource;
+  weight: number;
+  results: SearchResult[];
+}
+
+// Standard RRF damping constant; keeps a single top rank from dominating the fused list
+const RRF_K = 60;
+const MIN_CANDIDATES = 50;
+// How much of the matching chunk of a long memory a vector result shows
+const CHUNK_HIGHLIGHT_LENGTH = 300;
+
+// The start of a chunk, with ellipses where the memory's content goes on
+function chunkHighlight(content: string, chunk: { start: number; end: number }): string {
+  const text = content.slice(chunk.start, chunk.end).trim();
+  const before = chunk.start > 0 ? '…' : '';
+  if (text.length > CHUNK_HIGHLIGHT_LENGTH) {
+    return `${before}${text.slice(0, CHUNK_HIGHLIGHT_LENGTH).trimEnd()}…`;
+  }
+  return `${before}${text}${chunk.end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Merges independently ranked result lists with weighted reciprocal rank fusion.
+ * Each result keeps the rank and raw score it had in every list it appeared in.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = RRF_K): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const list of lists) {
+    list.results.forEach((result, index) => {
+      const rank = index + 1;
+      const contribution = list.weight / (k + rank);
+      const existing = fused.get(result.memory.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.sources = { ...existing.sources, [list.source]: { rank, score: result.score } };
+        if (result.highlights?.length) {
+          existing.highlights = [...(existing.highlights || []), ...result.highlights];
+        }
+      } else {
+        fused.set(result.memory.id, {
+          memory: result.memory,
+          score: contribution,
+          highlights: result.highlights,
+          sources: { [list.source]: { rank, score: result.score } },
+        });
+      }
+    });
+  }
+
+  // Ties fall back to recency and id so consecutive pages never overlap
+  return Array.from(fused.values()).sort((a, b) =>
+    b.score - a.score ||
+    new Date(b.memory.updatedAt).getTime() - new Date(a.memory.updatedAt).getTime() ||
+    a.memory.id.localeCompare(b.memory.id)
+  );
+}
+
+export class HybridSearch {
+  private logger = createLogger('HybridSearch');
+
+  constructor(
+    private sqliteManager: SQLiteManager,
+    private vectorStore: VectorStore | null
+  ) {}
+
+  async search(searchQuery: SearchQuery, options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+    const { query, semanticQuery, limit = 20, offset = 0, ...filters } = searchQuery;
+    const {
+      vectorWeight = 1,
+      fullTextWeight = 1,
+      similarityThreshold = 0.3,
+    } = options;
+
+    // Without text there is nothing to rank; list the filtered memories instead
+    if (!query.trim()) {
+      const memories = await this.sqliteManager.filterMemories(filters, limit, offset);
+      return memories.map(memory => ({ memory, score: 0 }));
+    }
+
+    // Both engines over-fetch so fusion can promote items ranked low by one of them
+    const candidates = Math.max(MIN_CANDIDATES, (offset + limit) * 2);
+
+    // A weight of zero switches that engine off entirely
+    const [vectorResults, fullTextResults] = await Promise.all([
+      vectorWeight > 0 ? this.searchVector(semanticQuery || query, candidates, similarityThreshold, filters) : [],
+      fullTextWeight > 0 ? this.searchFullText(query, candidates, filters) : [],
+    ]);
+
+    const fused = reciprocalRankFusion([
+      { source: 'vector', weight: vectorWeight, results: vectorResults },
+      { source: 'fullText', weight: fullTextWeight, results: fullTextResults },
+    ]);
+
+    this.logger.debug('Hybrid search completed', {
+      query,
+      vectorHits: vectorResults.length,
+      fullTextHits: fullTextResults.length,
+      fused: fused.length,
+    });
+
+    return fused.slice(offset, offset + limit);
+  }
+
+  private async searchFullText(query: string, limit: number, filters: SearchFilters): Promise<SearchResult[]> {
+    try {
+      return await this.sqliteManager.searchFullText(query, limit, 0, filters);
+    } catch (error) {
+      this.logger.warn('Full-text search failed, using vector results only', error);
+      return [];
+    }
+  }
+
+  private async searchVector(
+    query: string,
+    limit: number,
+    threshold: number,
+    filters: SearchFilters
+  ): Promise<SearchResult[]> {
+    if (!this.vectorStore) return [];
+
+    try {
+      const hits = await this.vectorStore.searchSimilar(query, limit, threshold, filters);
+      const results: SearchResult[] = [];
+
+      for (const hit of hits) {
+        const memory = await this.sqliteManager.getMemory(hit.memoryId);
+        if (memory) {
+          // Long memories are embedded in chunks; the one that matched shows where
+          results.push({
+            memory,
+            score: hit.similarity,
+            ...(hit.chunk ? { highlights: [chunkHighlight(memory.content, hit.chunk)] } : {}),
+          });
+        }
+      }
+
+      return results;
+    } catch (error) {
+      this.logger.warn('Vector search failed, using full-text results only', error);
+      return [];
+    }
+  }
+}
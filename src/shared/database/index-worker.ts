@@ -0,0 +1,137 @@
+import { createLogger } from '../utils/logger';
+import { SQLiteManager } from './sqlite';
+import { VectorStore } from './vector-store';
+
+// A row of the index queue, as the worker sees it
+export interface IndexQueueEntry {
+  memoryId: string;
+  generation: number;
+  attempts: number;
+}
+
+const BATCH_SIZE = 20;
+
+// Waits double after each failure: 30 seconds, a minute, two, ... up to an hour
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+
+// After this many failures in a row an entry is parked until retried by hand
+export const MAX_INDEX_ATTEMPTS = 8;
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+}
+
+/**
+ * Drains the index queue into the vector store. Triggers add a memory to the
+ * queue in the same transaction that changes it, so a change is never lost
+ * to a crash or an embedding error between the two stores. Each entry is
+ * indexed from the memory as it is now: a purged memory loses its vector, a
+ * changed text is embedded again, and anything else only updates the
+ * document's details. Failures are retried with exponential backoff.
+ */
+export class IndexWorker {
+  private logger = createLogger('IndexWorker');
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = true;
+
+  constructor(
+    private sqlite: SQLiteManager,
+    private vectorStore: VectorStore,
+    // Called after a run that changed the queue
+    private onChange?: () => void
+  ) {}
+
+  start(): void {
+    this.stopped = false;
+    this.wake();
+  }
+
+  // Runs soon after a change instead of waiting for the next retry
+  wake(): void {
+    this.schedule(0);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Indexes every entry due by `now` and returns how many were done. Entries
+   * that fail are rescheduled, so a run always ends.
+   */
+  async drain(now: Date = new Date()): Promise<number> {
+    let indexed = 0;
+    let entries = await this.sqlite.getDueIndexEntries(now, BATCH_SIZE);
+    while (entries.length > 0) {
+      for (const entry of entries) {
+        if (await this.index(entry, now)) indexed++;
+      }
+      entries = await this.sqlite.getDueIndexEntries(now, BATCH_SIZE);
+    }
+    return indexed;
+  }
+
+  private async index(entry: IndexQueueEntry, now: Date): Promise<boolean> {
+    try {
+      const memory = await this.sqlite.getMemoryIncludingTrash(entry.memoryId);
+      if (memory) {
+        await this.vectorStore.indexMemory(memory);
+      } else {
+        await this.vectorStore.deleteMemory(entry.memoryId);
+      }
+      await this.sqlite.completeIndexEntry(entry);
+      return true;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = attempts < MAX_INDEX_ATTEMPTS ? new Date(now.getTime() + getRetryDelay(attempts)) : null;
+      await this.sqlite.failIndexEntry(entry, message, retryAt);
+      this.logger.warn('Failed to index memory', { memoryId: entry.memoryId, attempts, retryAt, error: message });
+      return false;
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, delay);
+  }
+
+  private run(): void {
+    if (this.running) {
+      // The run in progress picks up new entries before it finishes
+      return;
+    }
+
+    this.running = (async () => {
+      try {
+        const before = await this.sqlite.getNextIndexAttempt();
+        await this.drain();
+        const next = await this.sqlite.getNextIndexAttempt();
+        if (before || next) {
+          this.onChange?.();
+        }
+        if (next) {
+          this.schedule(Math.max(0, next.getTime() - Date.now()));
+        }
+      } catch (error) {
+        this.logger.error('Index queue run failed', error);
+      }
+    })();
+    this.running.finally(() => {
+      this.running = null;
+    });
+  }
+}
@@ -0,0 +1,282 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v5 as uuidv5 } from 'uuid';
+import { MarkdownLayout, Memory, MemoryMetadata, MemoryType, Project } from '../types';
+import { parseFrontMatter, stringifyFrontMatter } from '../utils/front-matter';
+import { normalizeTag } from '../utils/tag-hierarchy';
+import { codeRanges } from '../utils/wiki-links';
+
+export const MARKDOWN_EXTENSION = '.md';
+
+// Front matter keys that hold memory fields; every other key is a metadata field
+const MEMORY_KEYS = ['id', 'title', 'type', 'tags', 'created', 'updated'];
+
+// Metadata fields named like a memory key are nested under this one
+const METADATA_KEY = 'metadata';
+
+const NO_PROJECT_FOLDER = 'No project';
+
+// Notes written without an id get one derived from their path, so importing the folder again finds them
+const PATH_ID_NAMESPACE = '3d1c6f0e-8a4b-4f5e-9c2d-7b6a5e4d3c21';
+
+// Obsidian-style #tag at the start of a line or after whitespace, not an issue number, a heading or a link anchor
+const INLINE_TAG = /(^|\s)#([\p{L}_][\p{L}\p{N}_\-/]*)/gu;
+
+// `#fff` or `#ff0000` is a colour, not a tag
+const HEX_COLOUR = /^(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const MEMORY_TYPES = Object.values(MemoryType) as string[];
+
+export interface MarkdownNote {
+  relativePath: string; // `/`-separated, below the folder
+  hash: string; // of the file as read, to notice edits made outside DevMemory
+  memory: Memory;
+}
+
+export function hashMarkdown(text: string): string {
+  return crypto.createHash('sha256').update(text, 'utf-8').digest('hex');
+}
+
+export function memoryToMarkdown(memory: Memory): string {
+  const metadata: Record<string, unknown> = {};
+  const nested: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(memory.metadata || {})) {
+    if (value === undefined) continue;
+    if (MEMORY_KEYS.includes(key) || key === METADATA_KEY) {
+      nested[key] = value;
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  const frontMatter = stringifyFrontMatter({
+    id: memory.id,
+    title: memory.title,
+    type: memory.type,
+    tags: memory.tags,
+    created: memory.createdAt.toISOString(),
+    updated: memory.updatedAt.toISOString(),
+    ...metadata,
+    ...(Object.keys(nested).length > 0 ? { [METADATA_KEY]: nested } : {}),
+  });
+  return `${frontMatter}\n${memory.content}`;
+}
+
+/**
+ * Reads one note. Anything the front matter leaves out comes from the file:
+ * the title from its name, the type from a folder named after one, and the
+ * dates from the file times. The file's modification time wins over an older
+ * `updated` so edits made in another editor count as newer.
+ */
+export function markdownToMemory(
+  text: string,
+  relativePath: string,
+  times: { createdAt: Date; updatedAt: Date }
+): Memory {
+  const { data, body } = parseFrontMatter(text);
+  // Only the blank line the exporter writes after the front matter; the content's own are kept
+  const content = body.startsWith('\n') ? body.slice(1) : body;
+  const segments = relativePath.split('/');
+
+  const metadata: MemoryMetadata = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (MEMORY_KEYS.includes(key)) continue;
+    if (key === METADATA_KEY && value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(metadata, value);
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  const folderType = segments.slice(0, -1).reverse().find(segment => MEMORY_TYPES.includes(segment));
+  const type = (MEMORY_TYPES.includes(String(data.type)) ? data.type : folderType ?? MemoryType.NOTE) as MemoryType;
+
+  const declared = toDate(data.updated);
+  const updatedAt = declared && declared >= times.updatedAt ? declared : times.updatedAt;
+
+  return {
+    id: typeof data.id === 'string' && data.id.trim() ? data.id.trim() : uuidv5(relativePath, PATH_ID_NAMESPACE),
+    title: typeof data.title === 'string' && data.title.trim()
+      ? data.title.trim()
+      : path.posix.basename(relativePath, MARKDOWN_EXTENSION),
+    content,
+    type,
+    tags: collectTags(data.tags ?? data.tag, content),
+    metadata,
+    createdAt: toDate(data.created) ?? times.createdAt,
+    updatedAt,
+  };
+}
+
+// Where a memory goes in an export, relative to the folder
+export function getMarkdownPath(memory: Memory, layout: MarkdownLayout, projects: Project[]): string {
+  const project = layout === 'project' ? projects.find(p => p.id === memory.projectId) : undefined;
+  const folder = layout === 'type'
+    ? memory.type
+    : toFileName(project?.name ?? (typeof memory.metadata?.project === 'string' ? memory.metadata.project : ''))
+      || NO_PROJECT_FOLDER;
+  return `${folder}/${toFileName(memory.title) || 'Untitled'}${MARKDOWN_EXTENSION}`;
+}
+
+/**
+ * Like getMarkdownPath, with the id appended when another note already has
+ * the path. `taken` holds lower-cased paths, because the folder may be
+ * opened on macOS or Windows, and gains the path returned.
+ */
+export function claimMarkdownPath(memory: Memory, layout: MarkdownLayout, projects: Project[], taken: Set<string>): string {
+  let relativePath = getMarkdownPath(memory, layout, projects);
+  if (taken.has(relativePath.toLowerCase())) {
+    relativePath = relativePath.replace(/\.md$/, ` (${memory.id.slice(0, 8)})${MARKDOWN_EXTENSION}`);
+  }
+  taken.add(relativePath.toLowerCase());
+  return relativePath;
+}
+
+/**
+ * Writes a memory's note and removes the file at `previousPath` if the note
+ * moved. The file time carries updatedAt, so importing an untouched note
+ * changes nothing. Returns the text written.
+ */
+export async function writeMarkdownNote(
+  folderPath: string,
+  relativePath: string,
+  memory: Memory,
+  previousPath?: string
+): Promise<string> {
+  const filePath = toFilePath(folderPath, relativePath);
+  const text = memoryToMarkdown(memory);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, text, 'utf-8');
+  await fs.promises.utimes(filePath, new Date(), memory.updatedAt);
+  if (previousPath && previousPath !== relativePath) {
+    await removeMarkdownNote(folderPath, previousPath);
+  }
+  return text;
+}
+
+export async function removeMarkdownNote(folderPath: string, relativePath: string): Promise<void> {
+  await fs.promises.rm(toFilePath(folderPath, relativePath), { force: true });
+}
+
+/**
+ * Writes memories outside the trash as one note each. A memory already in
+ * the folder keeps its file, moved if its title or folder changed, and a
+ * file is only rewritten when its content differs. Other files are left
+ * alone, so the folder can double as an Obsidian vault or a git checkout.
+ */
+export async function writeMarkdownFolder(
+  folderPath: string,
+  memories: Memory[],
+  projects: Project[],
+  layout: MarkdownLayout
+): Promise<{ written: number; unchanged: number }> {
+  const existing = new Map<string, string>();
+  for (const note of await readMarkdownFolder(folderPath)) {
+    existing.set(note.memory.id, note.relativePath);
+  }
+
+  const taken = new Set<string>();
+  let written = 0;
+  let unchanged = 0;
+
+  for (const memory of memories.filter(m => !m.deletedAt)) {
+    const relativePath = claimMarkdownPath(memory, layout, projects, taken);
+    const previous = existing.get(memory.id);
+    const current = previous === relativePath ? await readText(toFilePath(folderPath, relativePath)) : null;
+
+    if (current === memoryToMarkdown(memory)) {
+      unchanged++;
+    } else {
+      await writeMarkdownNote(folderPath, relativePath, memory, previous);
+      written++;
+    }
+  }
+
+  return { written, unchanged };
+}
+
+// Every .md file below the folder, skipping hidden folders such as .git and .obsidian
+export async function readMarkdownFolder(folderPath: string): Promise<MarkdownNote[]> {
+  const notes: MarkdownNote[] = [];
+
+  const walk = async (relativeDir: string[]) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(folderPath, ...relativeDir), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && relativeDir.length === 0) return;
+      throw error;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const segments = [...relativeDir, entry.name];
+      if (entry.isDirectory()) {
+        await walk(segments);
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith(MARKDOWN_EXTENSION)) {
+        const filePath = path.join(folderPath, ...segments);
+        const [text, stats] = await Promise.all([fs.promises.readFile(filePath, 'utf-8'), fs.promises.stat(filePath)]);
+        const relativePath = segments.join('/');
+        notes.push({
+          relativePath,
+          hash: hashMarkdown(text),
+          memory: markdownToMemory(text, relativePath, {
+            createdAt: stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime,
+            updatedAt: stats.mtime,
+          }),
+        });
+      }
+    }
+  };
+
+  await walk([]);
+  return notes;
+}
+
+// Front matter tags as a list or a comma/space separated string, plus #tags in the text
+function collectTags(declared: unknown, content: string): string[] {
+  const names = Array.isArray(declared)
+    ? declared.map(String)
+    : typeof declared === 'string' ? declared.split(/[,\s]+/) : [];
+
+  const code = codeRanges(content);
+  for (const match of content.matchAll(INLINE_TAG)) {
+    const start = match.index! + match[1].length;
+    if (!HEX_COLOUR.test(match[2]) && !code.some(([from, to]) => start >= from && start < to)) {
+      names.push(match[2]);
+    }
+  }
+
+  const tags = names.map(name => normalizeTag(name.replace(/^#/, ''))).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+function toFileName(name: string): string {
+  return name
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, 100)
+    .trim();
+}
+
+function toFilePath(folderPath: string, relativePath: string): string {
+  return path.join(folderPath, ...relativePath.split('/'));
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
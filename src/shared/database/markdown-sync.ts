@@ -0,0 +1,316 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MarkdownLayout,
+  MarkdownSyncConfig,
+  MarkdownSyncConflict,
+  MarkdownSyncConflictKind,
+  MarkdownSyncResolution,
+  MarkdownSyncSummary,
+  Memory,
+  Project,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import {
+  MarkdownNote,
+  claimMarkdownPath,
+  hashMarkdown,
+  memoryToMarkdown,
+  readMarkdownFolder,
+  removeMarkdownNote,
+  writeMarkdownNote,
+} from './markdown-folder';
+import { SQLiteManager } from './sqlite';
+
+// The state a memory and its note last agreed on
+export interface SyncedNote {
+  memoryId: string;
+  path: string;
+  hash: string; // of the note; empty if the two never agreed
+  memoryUpdatedAt: Date;
+  conflict?: MarkdownSyncConflictKind; // set until the user picks a side
+}
+
+export interface MarkdownSyncResult {
+  summary: MarkdownSyncSummary;
+  memories: Memory[]; // added or updated from notes, to be indexed
+  trashedIds: string[];
+}
+
+type SyncAction = 'none' | 'export' | 'import' | 'agree' | 'trash' | 'remove-file' | 'forget' | MarkdownSyncConflictKind;
+
+// Everything one sync looks at, keyed by memory id
+interface SyncState {
+  folderPath: string;
+  layout: MarkdownLayout;
+  projects: Project[];
+  memories: Map<string, Memory>; // outside the trash
+  notes: Map<string, MarkdownNote>;
+  synced: Map<string, SyncedNote>;
+  taken: Set<string>; // lower-cased note paths
+}
+
+/**
+ * Keeps a vault and a folder of Markdown notes in step. A change is found by
+ * comparing each side with the last state both agreed on: the memory's
+ * updatedAt and the hash of its note. A side that changed alone is copied
+ * to the other; when both changed, or one was deleted while the other was
+ * edited, the pair is held as a conflict until the user picks a side.
+ *
+ * Memories matching the configured filters are added to the folder and stay
+ * mirrored while both the memory and its note exist. Only the local folder
+ * is touched, so committing and pulling are left to git.
+ */
+export class MarkdownSync {
+  private logger = createLogger('MarkdownSync');
+
+  constructor(private sqlite: SQLiteManager) {}
+
+  async sync(): Promise<MarkdownSyncResult> {
+    const state = await this.load(await this.requireConfig());
+    const result = emptyResult();
+
+    const ids = new Set([...state.memories.keys(), ...state.notes.keys(), ...state.synced.keys()]);
+    for (const id of ids) {
+      await this.apply(this.decide(state, id), id, state, result);
+    }
+
+    await this.sqlite.setMarkdownSyncTime(new Date());
+    result.summary.conflicts = await this.getConflicts();
+    this.logger.info('Markdown folder synced', { ...result.summary, conflicts: result.summary.conflicts.length });
+    return result;
+  }
+
+  // Settles a conflict by copying the chosen side over the other
+  async resolve(memoryId: string, resolution: MarkdownSyncResolution): Promise<MarkdownSyncResult> {
+    const state = await this.load(await this.requireConfig());
+    if (!state.synced.get(memoryId)?.conflict) {
+      throw new Error('This memory has no sync conflict');
+    }
+
+    const memory = state.memories.get(memoryId);
+    const present = !!memory && !memory.deletedAt;
+    const action: SyncAction = resolution === 'keep-vault'
+      ? (present ? 'export' : 'remove-file')
+      : (state.notes.has(memoryId) ? 'import' : 'trash');
+
+    const result = emptyResult();
+    await this.apply(action, memoryId, state, result);
+    result.summary.conflicts = await this.getConflicts();
+    this.logger.info('Markdown sync conflict resolved', { memoryId, resolution });
+    return result;
+  }
+
+  async getConflicts(): Promise<MarkdownSyncConflict[]> {
+    const config = await this.sqlite.getMarkdownSyncConfig();
+    if (!config) return [];
+
+    const conflicts: MarkdownSyncConflict[] = [];
+    for (const synced of await this.sqlite.getSyncedNotes()) {
+      if (!synced.conflict) continue;
+
+      const memory = await this.sqlite.getMemory(synced.memoryId);
+      const fileText = await readText(path.join(config.folderPath, ...synced.path.split('/')));
+      conflicts.push({
+        memoryId: synced.memoryId,
+        kind: synced.conflict,
+        title: memory?.title ?? path.posix.basename(synced.path, '.md'),
+        path: synced.path,
+        ...(memory && !memory.deletedAt ? { vaultText: memoryToMarkdown(memory) } : {}),
+        ...(fileText !== null ? { fileText } : {}),
+      });
+    }
+    return conflicts;
+  }
+
+  private async requireConfig(): Promise<MarkdownSyncConfig> {
+    const config = await this.sqlite.getMarkdownSyncConfig();
+    if (!config) {
+      throw new Error('Markdown sync is not set up for this vault');
+    }
+    if (!fs.existsSync(config.folderPath)) {
+      throw new Error(`The sync folder ${config.folderPath} does not exist`);
+    }
+    return config;
+  }
+
+  private async load(config: MarkdownSyncConfig): Promise<SyncState> {
+    const memories = new Map<string, Memory>();
+    for (const memory of await this.sqlite.filterMemories(config.filters, Number.MAX_SAFE_INTEGER)) {
+      memories.set(memory.id, memory);
+    }
+
+    // A copied note repeats an id; the first one found is the one synced
+    const notes = new Map<string, MarkdownNote>();
+    for (const note of await readMarkdownFolder(config.folderPath)) {
+      if (!notes.has(note.memory.id)) {
+        notes.set(note.memory.id, note);
+      }
+    }
+
+    const synced = new Map((await this.sqlite.getSyncedNotes()).map(note => [note.memoryId, note]));
+
+    // Memories outside the filters still sync once they have a note
+    for (const id of [...notes.keys(), ...synced.keys()]) {
+      if (!memories.has(id)) {
+        const memory = await this.sqlite.getMemory(id);
+        if (memory) memories.set(id, memory);
+      }
+    }
+
+    return {
+      folderPath: config.folderPath,
+      layout: config.layout,
+      projects: await this.sqlite.getProjects(),
+      memories,
+      notes,
+      synced,
+      taken: new Set(Array.from(notes.values(), note => note.relativePath.toLowerCase())),
+    };
+  }
+
+  private decide(state: SyncState, id: string): SyncAction {
+    const memory = state.memories.get(id);
+    const note = state.notes.get(id);
+    const synced = state.synced.get(id);
+
+    const present = !!memory && !memory.deletedAt;
+    const vaultChanged = present && (!synced || memory.updatedAt.getTime() !== synced.memoryUpdatedAt.getTime());
+    const fileChanged = !!note && (!synced || note.hash !== synced.hash);
+
+    if (present && note) {
+      if (!vaultChanged && !fileChanged) return 'none';
+      if (!fileChanged) return 'export';
+      if (!vaultChanged) return 'import';
+      return sameMemory(memory, note.memory) ? 'agree' : 'both-changed';
+    }
+    if (present) {
+      if (!synced) return 'export';
+      return vaultChanged ? 'deleted-in-folder' : 'trash';
+    }
+    if (note) {
+      if (!memory && !synced) return 'import';
+      return synced && !fileChanged ? 'remove-file' : 'deleted-in-vault';
+    }
+    return 'forget';
+  }
+
+  private async apply(action: SyncAction, id: string, state: SyncState, result: MarkdownSyncResult) {
+    const memory = state.memories.get(id);
+    const note = state.notes.get(id);
+    const synced = state.synced.get(id);
+    const { summary } = result;
+
+    switch (action) {
+      case 'none':
+        // The note was moved or renamed in the folder
+        if (note && synced && synced.path !== note.relativePath) {
+          await this.sqlite.saveSyncedNote({ ...synced, path: note.relativePath });
+        }
+        break;
+
+      case 'export': {
+        const previousPath = note?.relativePath ?? synced?.path;
+        if (note) state.taken.delete(note.relativePath.toLowerCase());
+        const relativePath = claimMarkdownPath(memory!, state.layout, state.projects, state.taken);
+        const text = await writeMarkdownNote(state.folderPath, relativePath, memory!, previousPath);
+        await this.sqlite.saveSyncedNote({
+          memoryId: id,
+          path: relativePath,
+          hash: hashMarkdown(text),
+          memoryUpdatedAt: memory!.updatedAt,
+        });
+        summary.exported++;
+        break;
+      }
+
+      case 'import': {
+        const imported = await this.importNote(note!);
+        if (imported.changed) {
+          result.memories.push(imported.memory);
+          summary.imported++;
+        }
+        await this.sqlite.saveSyncedNote({
+          memoryId: id,
+          path: note!.relativePath,
+          hash: note!.hash,
+          memoryUpdatedAt: imported.memory.updatedAt,
+        });
+        break;
+      }
+
+      case 'agree':
+        await this.sqlite.saveSyncedNote({
+          memoryId: id,
+          path: note!.relativePath,
+          hash: note!.hash,
+          memoryUpdatedAt: memory!.updatedAt,
+        });
+        break;
+
+      case 'trash':
+        if (memory && !memory.deletedAt && await this.sqlite.deleteMemory(id)) {
+          result.trashedIds.push(id);
+          summary.trashed++;
+        }
+        await this.sqlite.forgetSyncedNote(id);
+        break;
+
+      case 'remove-file':
+        if (note) {
+          await removeMarkdownNote(state.folderPath, note.relativePath);
+          summary.removedFiles++;
+        }
+        await this.sqlite.forgetSyncedNote(id);
+        break;
+
+      case 'forget':
+        await this.sqlite.forgetSyncedNote(id);
+        break;
+
+      default:
+        // A conflict keeps the last agreed state so it is found again until resolved
+        await this.sqlite.saveSyncedNote({
+          memoryId: id,
+          path: note?.relativePath ?? synced!.path,
+          hash: synced?.hash ?? '',
+          memoryUpdatedAt: synced?.memoryUpdatedAt ?? new Date(0),
+          conflict: action,
+        });
+    }
+  }
+
+  // The note wins over the memory, which comes back from the trash if it was there
+  private async importNote(note: MarkdownNote): Promise<{ memory: Memory; changed: boolean }> {
+    const restored = await this.sqlite.restoreMemory(note.memory.id);
+
+    const data = { memories: [note.memory], tags: [], projects: [], links: [], revisions: [] };
+    const { memories } = await this.sqlite.importVaultData(data, { mode: 'merge', conflict: 'use-imported' });
+    if (memories.length > 0) {
+      return { memory: memories[0], changed: true };
+    }
+    return { memory: (await this.sqlite.getMemory(note.memory.id))!, changed: restored !== null };
+  }
+}
+
+function emptyResult(): MarkdownSyncResult {
+  return {
+    summary: { exported: 0, imported: 0, removedFiles: 0, trashed: 0, conflicts: [] },
+    memories: [],
+    trashedIds: [],
+  };
+}
+
+// Edits that ended up the same on both sides are not a conflict
+function sameMemory(a: Memory, b: Memory): boolean {
+  const key = (memory: Memory) => JSON.stringify([memory.title, memory.content, memory.type, memory.tags, memory.metadata]);
+  return key(a) === key(b);
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
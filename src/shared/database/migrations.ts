@@ -0,0 +1,430 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../utils/logger';
+import { extractWikiLinks } from '../utils/wiki-links';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationOptions {
+  // Where to copy the database before migrating; omitted for in-memory databases
+  backupPath?: string;
+  // Stop at this version instead of the latest (used to build test fixtures)
+  targetVersion?: number;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  backupPath?: string;
+}
+
+export const FTS_TRIGGERS = `
+  CREATE TRIGGER IF NOT EXISTS memories_ai AFTER INSERT ON memories BEGIN
+    INSERT INTO memories_fts(rowid, id, title, content, tags)
+    VALUES (new.rowid, new.id, new.title, new.content, new.tags);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS memories_ad AFTER DELETE ON memories BEGIN
+    INSERT INTO memories_fts(memories_fts, rowid, id, title, content, tags)
+    VALUES ('delete', old.rowid, old.id, old.title, old.content, old.tags);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS memories_au AFTER UPDATE ON memories BEGIN
+    INSERT INTO memories_fts(memories_fts, rowid, id, title, content, tags)
+    VALUES ('delete', old.rowid, old.id, old.title, old.content, old.tags);
+    INSERT INTO memories_fts(rowid, id, title, content, tags)
+    VALUES (new.rowid, new.id, new.title, new.content, new.tags);
+  END;
+`;
+
+/**
+ * Resolves a wiki link target to a live memory: an exact id wins, then the most
+ * recently updated memory with that title. Takes the target three times.
+ */
+export const WIKI_LINK_TARGET_SQL = `
+  SELECT id FROM memories
+  WHERE deleted_at IS NULL AND (id = ? OR title = ? COLLATE NOCASE)
+  ORDER BY id = ? DESC, updated_at DESC
+  LIMIT 1
+`;
+
+/**
+ * Schema history, applied in order. Never edit a released step; add a new one.
+ * Databases created before versioning report user_version 0 but may already
+ * contain some of these objects, so every step must tolerate that.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema: memories, full-text index, tags and projects',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        tags TEXT, -- JSON array
+        metadata TEXT, -- JSON object
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
+      CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at);
+      CREATE INDEX IF NOT EXISTS idx_memories_updated_at ON memories(updated_at);
+      CREATE INDEX IF NOT EXISTS idx_memories_title ON memories(title);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        id UNINDEXED,
+        title,
+        content,
+        tags,
+        content='memories',
+        content_rowid='rowid'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS memories_ai AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts(id, title, content, tags)
+        VALUES (new.id, new.title, new.content, new.tags);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS memories_ad AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, id, title, content, tags)
+        VALUES ('delete', old.id, old.title, old.content, old.tags);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS memories_au AFTER UPDATE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, id, title, content, tags)
+        VALUES ('delete', old.id, old.title, old.content, old.tags);
+        INSERT INTO memories_fts(id, title, content, tags)
+        VALUES (new.id, new.title, new.content, new.tags);
+      END;
+
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        color TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        path TEXT,
+        repository TEXT,
+        description TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `),
+  },
+  {
+    // The original triggers did not carry the memories rowid, so index rows
+    // could not be joined back to memories
+    version: 2,
+    description: 'Keep the full-text index in sync by rowid and rebuild it',
+    up: db => db.exec(`
+      DROP TRIGGER IF EXISTS memories_ai;
+      DROP TRIGGER IF EXISTS memories_ad;
+      DROP TRIGGER IF EXISTS memories_au;
+      ${FTS_TRIGGERS}
+      INSERT INTO memories_fts(memories_fts) VALUES ('rebuild');
+    `),
+  },
+  {
+    version: 3,
+    description: 'Saved searches',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        query TEXT NOT NULL, -- JSON SearchQuery
+        sort TEXT NOT NULL DEFAULT 'relevance',
+        pinned INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `),
+  },
+  {
+    // Existing memories start their history at their current state
+    version: 4,
+    description: 'Memory revision history',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_revisions (
+        memory_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        tags TEXT, -- JSON array
+        metadata TEXT, -- JSON object
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (memory_id, revision)
+      );
+
+      INSERT OR IGNORE INTO memory_revisions (memory_id, revision, title, content, type, tags, metadata, created_at)
+      SELECT id, 1, title, content, type, tags, metadata, updated_at FROM memories;
+    `),
+  },
+  {
+    // Deleting a memory moves it to the trash; purging removes the row
+    version: 5,
+    description: 'Soft delete for memories',
+    up: db => db.exec(`
+      ALTER TABLE memories ADD COLUMN deleted_at INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_memories_deleted_at ON memories(deleted_at);
+    `),
+  },
+  {
+    version: 6,
+    description: 'Typed links between memories',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_links (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (source_id, target_id, type)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memory_links_source ON memory_links(source_id);
+      CREATE INDEX IF NOT EXISTS idx_memory_links_target ON memory_links(target_id);
+    `),
+  },
+  {
+    // Existing content may already contain [[...]] references
+    version: 7,
+    description: 'Wiki links parsed from memory content',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS wiki_links (
+          source_id TEXT NOT NULL,
+          target TEXT NOT NULL, -- text between the brackets
+          target_id TEXT, -- NULL while the link is dangling
+          PRIMARY KEY (source_id, target)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_wiki_links_target_id ON wiki_links(target_id);
+      `);
+
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO wiki_links (source_id, target, target_id)
+        VALUES (?, ?, (${WIKI_LINK_TARGET_SQL}))
+      `);
+      const rows = db.prepare("SELECT id, content FROM memories WHERE content LIKE '%[[%'").all() as Array<{ id: string; content: string }>;
+      for (const row of rows) {
+        for (const link of extractWikiLinks(row.content)) {
+          insert.run(row.id, link.target, link.target, link.target, link.target);
+        }
+      }
+      // A memory mentioning its own title is not a link
+      db.exec('DELETE FROM wiki_links WHERE target_id = source_id');
+    },
+  },
+  {
+    // memories.tags stays as the denormalized copy the full-text index reads
+    version: 8,
+    description: 'Normalized memory tags',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_tags (
+          memory_id TEXT NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (memory_id, tag_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_memory_tags_tag_id ON memory_tags(tag_id);
+      `);
+
+      db.prepare(`
+        INSERT OR IGNORE INTO tags (name, created_at)
+        SELECT DISTINCT j.value, ? FROM memories m, json_each(m.tags) j
+        WHERE json_valid(m.tags) AND j.type = 'text'
+      `).run(Date.now());
+
+      db.exec(`
+        INSERT OR IGNORE INTO memory_tags (memory_id, tag_id)
+        SELECT m.id, t.id FROM memories m, json_each(m.tags) j
+        JOIN tags t ON t.name = j.value
+        WHERE json_valid(m.tags);
+      `);
+    },
+  },
+  {
+    // Free-text metadata.project names become registered projects
+    version: 9,
+    description: 'Project registry',
+    up: db => {
+      db.exec(`
+        ALTER TABLE memories ADD COLUMN project_id TEXT;
+        CREATE INDEX IF NOT EXISTS idx_memories_project_id ON memories(project_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_name ON projects(name COLLATE NOCASE);
+      `);
+
+      const names = db.prepare(`
+        SELECT DISTINCT trim(json_extract(metadata, '$.project')) AS name FROM memories
+        WHERE json_valid(metadata) AND json_type(metadata, '$.project') = 'text'
+          AND trim(json_extract(metadata, '$.project')) != ''
+      `).all() as Array<{ name: string }>;
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO projects (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)
+      `);
+      const now = Date.now();
+      for (const { name } of names) {
+        insert.run(uuidv4(), name, now, now);
+      }
+
+      db.exec(`
+        UPDATE memories SET project_id = (
+          SELECT p.id FROM projects p
+          WHERE p.name = trim(json_extract(memories.metadata, '$.project')) COLLATE NOCASE
+        )
+        WHERE json_valid(metadata) AND json_type(metadata, '$.project') = 'text';
+      `);
+    },
+  },
+  {
+    // One Markdown folder per vault; the file rows hold what each memory and its note last agreed on
+    version: 10,
+    description: 'Markdown sync state',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS markdown_sync (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          folder_path TEXT NOT NULL,
+          layout TEXT NOT NULL,
+          filters TEXT NOT NULL,
+          last_synced_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS markdown_sync_files (
+          memory_id TEXT PRIMARY KEY,
+          path TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          memory_updated_at INTEGER NOT NULL,
+          conflict TEXT
+        );
+      `);
+    },
+  },
+  {
+    // The vector index outbox: a row per memory whose vector is out of date, written by
+    // triggers in the same transaction as the change. A null next_attempt_at parks a
+    // memory that kept failing until it is retried by hand.
+    version: 11,
+    description: 'Vector index queue',
+    up: db => {
+      const now = `CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)`;
+      const enqueue = (id: string) => `
+        INSERT INTO index_queue (memory_id, enqueued_at, next_attempt_at) VALUES (${id}, ${now}, ${now})
+        ON CONFLICT(memory_id) DO UPDATE SET
+          generation = generation + 1, attempts = 0, next_attempt_at = excluded.next_attempt_at, last_error = NULL;
+      `;
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS index_queue (
+          memory_id TEXT PRIMARY KEY,
+          generation INTEGER NOT NULL DEFAULT 0, -- bumped by each change, so a stale run cannot dequeue a newer one
+          enqueued_at INTEGER NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER,
+          last_error TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_index_queue_next_attempt_at ON index_queue(next_attempt_at);
+
+        CREATE TRIGGER IF NOT EXISTS memories_index_ai AFTER INSERT ON memories BEGIN
+          ${enqueue('new.id')}
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS memories_index_ad AFTER DELETE ON memories BEGIN
+          ${enqueue('old.id')}
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS memories_index_au
+        AFTER UPDATE OF title, content, type, tags, metadata, created_at, deleted_at, project_id ON memories
+        WHEN old.title IS NOT new.title OR old.content IS NOT new.content OR old.type IS NOT new.type
+          OR old.tags IS NOT new.tags OR old.metadata IS NOT new.metadata OR old.created_at IS NOT new.created_at
+          OR old.deleted_at IS NOT new.deleted_at OR old.project_id IS NOT new.project_id
+        BEGIN
+          ${enqueue('new.id')}
+        END;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const logger = createLogger('Migrations');
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Brings the database up to `targetVersion` (the latest by default). Each step
+ * runs in its own transaction together with its user_version bump, so a failed
+ * step leaves the database at the last version that fully applied.
+ */
+export function runMigrations(db: Database.Database, options: MigrationOptions = {}): MigrationResult {
+  const targetVersion = options.targetVersion ?? LATEST_SCHEMA_VERSION;
+  const fromVersion = getSchemaVersion(db);
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${fromVersion} is newer than this version of DevMemory supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion && m.version <= targetVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion };
+  }
+
+  const backupPath = options.backupPath && hasUserTables(db)
+    ? backupDatabase(db, options.backupPath)
+    : undefined;
+
+  for (const migration of pending) {
+    logger.info('Applying migration', { version: migration.version, description: migration.description });
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    } catch (error) {
+      logger.error('Migration failed', { version: migration.version, backupPath, error });
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(
+        `Migration to schema version ${migration.version} failed: ${reason}` +
+        (backupPath ? `. A copy of the database from before the upgrade is at ${backupPath}` : '')
+      );
+    }
+  }
+
+  logger.info('Database schema up to date', { fromVersion, toVersion: targetVersion, backupPath });
+  return { fromVersion, toVersion: targetVersion, backupPath };
+}
+
+// A brand-new file has nothing worth backing up
+function hasUserTables(db: Database.Database): boolean {
+  const row = db.prepare("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'").get() as { count: number };
+  return row.count > 0;
+}
+
+// VACUUM INTO writes a consistent, compacted copy without closing the connection
+function backupDatabase(db: Database.Database, backupPath: string): string {
+  if (fs.existsSync(backupPath)) {
+    fs.unlinkSync(backupPath);
+  }
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  logger.info('Backed up database before migrating', { backupPath });
+  return backupPath;
+}
@@ -0,0 +1,63 @@
+import { VectorQuantization } from '../types';
+
+/**
+ * A unit-length vector as held in memory for search: Float32 values, or
+ * int8 codes that `scale` turns back into nearly the same values at a
+ * quarter of the size.
+ */
+export interface StoredVector {
+  values: Float32Array | Int8Array;
+  scale: number;
+}
+
+const INT8_MAX = 127;
+
+// Unit length, so the dot product of two vectors is their cosine similarity
+function normalize(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+export function encodeVector(values: ArrayLike<number>, quantization: VectorQuantization): StoredVector {
+  const vector = normalize(values);
+  if (quantization === 'none') {
+    return { values: vector, scale: 1 };
+  }
+
+  // Symmetric scalar quantization: the largest component maps to ±127
+  let max = 0;
+  for (let i = 0; i < vector.length; i++) {
+    max = Math.max(max, Math.abs(vector[i]));
+  }
+  const scale = max > 0 ? max / INT8_MAX : 1;
+  const codes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    codes[i] = Math.round(vector[i] / scale);
+  }
+  return { values: codes, scale };
+}
+
+// Cosine similarity, approximate when either vector is quantized; 0 for vectors of different models
+export function vectorSimilarity(a: StoredVector, b: StoredVector): number {
+  const x = a.values;
+  const y = b.values;
+  if (x.length !== y.length) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) {
+    sum += x[i] * y[i];
+  }
+  return sum * a.scale * b.scale;
+}
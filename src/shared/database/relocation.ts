@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseLocation, DatabaseLocationCheck, RelocationMode } from '../types';
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+// SQLite keeps uncommitted or unmerged pages next to the database in these files
+const SQLITE_SIDECARS = ['-wal', '-journal'];
+
+const FILES: Array<keyof DatabaseLocation> = ['sqlitePath', 'vectorPath'];
+
+const isSamePath = (a: string, b: string) => path.resolve(a) === path.resolve(b);
+
+// The closest directory that already exists, which is where writability is decided
+function findExistingParent(dir: string): string {
+  let current = path.resolve(dir);
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return current;
+}
+
+export function isSQLiteFile(file: string): boolean {
+  const header = Buffer.alloc(SQLITE_HEADER.length);
+  const fd = fs.openSync(file, 'r');
+  try {
+    const read = fs.readSync(fd, header, 0, header.length, 0);
+    // An empty file is a valid, new SQLite database
+    return read === 0 || header.toString('latin1') === SQLITE_HEADER;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Checks that the database files can live at `target`. Problems are phrased
+ * for the settings screen; an empty list means the location can be used.
+ */
+export function checkDatabaseLocation(target: DatabaseLocation, current: DatabaseLocation): DatabaseLocationCheck {
+  const problems: string[] = [];
+  const check: DatabaseLocationCheck = { sqliteExists: false, vectorExists: false, problems };
+
+  if (FILES.some(key => !target[key].trim() || !path.isAbsolute(target[key]))) {
+    problems.push('Database paths must be absolute');
+    return check;
+  }
+  if (isSamePath(target.sqlitePath, target.vectorPath)) {
+    problems.push('The database and the vector store need different files');
+    return check;
+  }
+  if (FILES.every(key => isSamePath(target[key], current[key]))) {
+    problems.push('The database is already at this location');
+    return check;
+  }
+
+  for (const key of FILES) {
+    const file = target[key];
+    if (isSamePath(file, current[key])) continue;
+
+    if (fs.existsSync(file)) {
+      if (!fs.statSync(file).isFile()) {
+        problems.push(`${file} is a directory`);
+        continue;
+      }
+      if (key === 'sqlitePath' && !isSQLiteFile(file)) {
+        problems.push(`${file} is not a SQLite database`);
+        continue;
+      }
+      check[key === 'sqlitePath' ? 'sqliteExists' : 'vectorExists'] = true;
+    }
+
+    const parent = findExistingParent(path.dirname(file));
+    try {
+      if (!fs.statSync(parent).isDirectory()) {
+        problems.push(`${parent} is not a folder`);
+        continue;
+      }
+      fs.accessSync(parent, fs.constants.W_OK);
+    } catch {
+      problems.push(`Cannot write to ${parent}`);
+    }
+  }
+
+  return check;
+}
+
+/**
+ * Reasons the files cannot be relocated with `mode`, or null if they can.
+ * Moving and copying never overwrite; existing files are opened instead.
+ */
+export function getRelocationProblem(check: DatabaseLocationCheck, mode: RelocationMode): string | null {
+  if (check.problems.length > 0) {
+    return check.problems[0];
+  }
+  if (mode === 'open-existing') {
+    return check.sqliteExists || check.vectorExists ? null : 'There is no existing database at this location';
+  }
+  return check.sqliteExists || check.vectorExists
+    ? 'A database already exists at this location. Open it instead, or choose another path'
+    : null;
+}
+
+/**
+ * Copies the files whose path changed from one location to the other and
+ * returns the files it created, so a failed relocation can remove them.
+ * The source database must be closed.
+ */
+export function copyDatabaseFiles(from: DatabaseLocation, to: DatabaseLocation): string[] {
+  const created: string[] = [];
+  try {
+    for (const key of FILES) {
+      if (isSamePath(from[key], to[key])) continue;
+
+      const suffixes = key === 'sqlitePath' ? ['', ...SQLITE_SIDECARS] : [''];
+      for (const suffix of suffixes) {
+        const source = `${from[key]}${suffix}`;
+        if (!fs.existsSync(source)) continue;
+
+        fs.mkdirSync(path.dirname(to[key]), { recursive: true });
+        fs.copyFileSync(source, `${to[key]}${suffix}`, fs.constants.COPYFILE_EXCL);
+        created.push(`${to[key]}${suffix}`);
+      }
+    }
+  } catch (error) {
+    removeFiles(created);
+    throw error;
+  }
+  return created;
+}
+
+/**
+ * Deletes the files at `location` that `keep` does not also use, as the last
+ * step of a move.
+ */
+export function removeDatabaseFiles(location: DatabaseLocation, keep: DatabaseLocation): void {
+  for (const key of FILES) {
+    if (isSamePath(location[key], keep[key])) continue;
+    const suffixes = key === 'sqlitePath' ? ['', ...SQLITE_SIDECARS, '-shm'] : [''];
+    removeFiles(suffixes.map(suffix => `${location[key]}${suffix}`));
+  }
+}
+
+export function removeFiles(files: string[]): void {
+  for (const file of files) {
+    fs.rmSync(file, { force: true });
+  }
+}
@@ -1,13 +1,143 @@
 import Database from 'better-sqlite3';
-import { Memory, MemoryType, MemoryMetadata } from '../types';
+import { MEMORY_LINK_TYPES, Memory, MemoryLink, MemoryLinks, MemoryLinkType, MemoryRevision, MemoryType, Project, ProjectDashboard, ProjectSummary, SavedSearch, TagInfo, TagNode, WikiLink, SavedSearchSort, SearchFilters, SearchQuery, SearchResult, MemoryUpdate, VaultImportConflict, VaultImportOptions, VaultImportSummary, MarkdownSyncConfig, MarkdownLayout, MarkdownSyncConflictKind, IndexQueueStatus } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../utils/logger';
+import { getMetadataFilters } from '../utils/search-filters';
+import { resolveProject } from '../utils/projects';
+import { TAG_SEPARATOR, buildTagTree, isTagInSubtree, normalizeTag, rebaseTag } from '../utils/tag-hierarchy';
+import { extractWikiLinks, renameWikiLinks } from '../utils/wiki-links';
+import { WIKI_LINK_TARGET_SQL, getSchemaVersion, runMigrations } from './migrations';
+import { IndexQueueEntry } from './index-worker';
+import { SyncedNote } from './markdown-sync';
+import { VaultData, VaultImportResult, VaultTag } from './vault-bundle';
+
+// Column weights for bm25(): id (unindexed), title, content, tags
+const BM25_WEIGHTS = '0.0, 10.0, 1.0, 5.0';
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+
+/**
+ * Subquery matching a memory aliased `m` that carries any of `tags` or a tag
+ * nested under one of them. Compares prefixes with substr() because LIKE
+ * would ignore case.
+ */
+function taggedWith(tags: string[]): { sql: string; params: string[] } {
+  const matches = tags.map(() => '(t.name = ? OR substr(t.name, 1, length(?)) = ?)').join(' OR ');
+  return {
+    sql: `SELECT 1 FROM memory_tags mt JOIN tags t ON t.id = mt.tag_id WHERE mt.memory_id = m.id AND (${matches})`,
+    params: tags.flatMap(tag => [tag, tag + TAG_SEPARATOR, tag + TAG_SEPARATOR]),
+  };
+}
+
+// Thrown to roll back the transaction of a dry-run import
+class DryRunRollback extends Error {}
+
+const MATCH_ORDER: Record<SavedSearchSort, string> = {
+  relevance: `bm25(memories_fts, ${BM25_WEIGHTS}), m.updated_at DESC, m.id`,
+  updated: 'm.updated_at DESC, m.id',
+  created: 'm.created_at DESC, m.id',
+  title: 'm.title COLLATE NOCASE, m.id',
+};
+
+interface MemoryRow {
+  id: string;
+  title: string;
+  content: string;
+  type: MemoryType;
+  tags: string | null; // JSON array
+  metadata: string | null; // JSON object
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+  project_id: string | null;
+}
+
+// A full-text match with its BM25 rank and highlighted text
+interface RankedMemoryRow extends MemoryRow {
+  rank: number;
+  title_highlight: string | null;
+  content_snippet: string | null;
+}
+
+// The memory at the other end of a link, with the link's columns renamed beside it
+interface LinkedMemoryRow extends MemoryRow {
+  link_id: string;
+  source_id: string;
+  target_id: string;
+  link_type: MemoryLinkType;
+  link_created_at: number;
+}
+
+interface RevisionRow {
+  memory_id: string;
+  revision: number;
+  title: string;
+  content: string;
+  type: MemoryType;
+  tags: string | null;
+  metadata: string | null;
+  created_at: number;
+}
+
+interface LinkRow {
+  id: string;
+  source_id: string;
+  target_id: string;
+  type: MemoryLinkType;
+  created_at: number;
+}
+
+interface WikiLinkRow {
+  source_id: string;
+  target: string;
+  target_id: string | null;
+}
+
+interface SavedSearchRow {
+  id: string;
+  name: string;
+  query: string; // JSON SearchQuery
+  sort: SavedSearchSort;
+  pinned: number;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  path: string | null;
+  repository: string | null;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface TagRow {
+  name: string;
+  color: string | null;
+}
+
+interface MarkdownSyncRow {
+  folder_path: string;
+  layout: MarkdownLayout;
+  filters: string; // JSON SearchFilters
+  last_synced_at: number | null;
+}
+
+interface SyncedNoteRow {
+  memory_id: string;
+  path: string;
+  hash: string;
+  memory_updated_at: number;
+  conflict: MarkdownSyncConflictKind | null;
+}
 
 export class SQLiteManager {
   private db: Database.Database;
   private logger = createLogger('SQLiteManager');
 
-  constructor(dbPath: string) {
+  constructor(private dbPath: string) {
     this.logger.info('Initializing SQLite database', { dbPath });
     try {
       this.db = new Database(dbPath);
@@ -21,66 +151,12 @@ export class SQLiteManager {
   }
 
   private init() {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS memories (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        content TEXT NOT NULL,
-        type TEXT NOT NULL,
-        tags TEXT, -- JSON array
-        metadata TEXT, -- JSON object
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
-      CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at);
-      CREATE INDEX IF NOT EXISTS idx_memories_updated_at ON memories(updated_at);
-      CREATE INDEX IF NOT EXISTS idx_memories_title ON memories(title);
-
-      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
-        id UNINDEXED,
-        title,
-        content,
-        tags,
-        content='memories',
-        content_rowid='rowid'
-      );
+    // Keep the pre-upgrade copy next to the database, named after the version it holds
+    const backupPath = this.dbPath === ':memory:'
+      ? undefined
+      : `${this.dbPath}.v${getSchemaVersion(this.db)}.bak`;
 
-      CREATE TRIGGER IF NOT EXISTS memories_ai AFTER INSERT ON memories BEGIN
-        INSERT INTO memories_fts(id, title, content, tags)
-        VALUES (new.id, new.title, new.content, new.tags);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS memories_ad AFTER DELETE ON memories BEGIN
-        INSERT INTO memories_fts(memories_fts, id, title, content, tags)
-        VALUES ('delete', old.id, old.title, old.content, old.tags);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS memories_au AFTER UPDATE ON memories BEGIN
-        INSERT INTO memories_fts(memories_fts, id, title, content, tags)
-        VALUES ('delete', old.id, old.title, old.content, old.tags);
-        INSERT INTO memories_fts(id, title, content, tags)
-        VALUES (new.id, new.title, new.content, new.tags);
-      END;
-
-      CREATE TABLE IF NOT EXISTS tags (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT UNIQUE NOT NULL,
-        color TEXT,
-        created_at INTEGER NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS projects (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        path TEXT,
-        repository TEXT,
-        description TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-    `);
+    runMigrations(this.db, { backupPath });
   }
 
   async createMemory(memory: Omit<Memory, 'id' | 'createdAt' | 'updatedAt'>): Promise<Memory> {
@@ -94,22 +170,34 @@ export class SQLiteManager {
         createdAt: now,
         updatedAt: now,
       };
+      const projectId = memory.projectId ?? this.resolveProjectId(memory.metadata);
+      if (projectId) {
+        newMemory.projectId = projectId;
+      }
 
       const stmt = this.db.prepare(`
-        INSERT INTO memories (id, title, content, type, tags, metadata, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO memories (id, title, content, type, tags, metadata, project_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
-      const result = stmt.run(
-        newMemory.id,
-        newMemory.title,
-        newMemory.content,
-        newMemory.type,
-        JSON.stringify(newMemory.tags || []),
-        JSON.stringify(newMemory.metadata || {}),
-        newMemory.createdAt.getTime(),
-        newMemory.updatedAt.getTime()
-      );
+      const result = this.db.transaction(() => {
+        const inserted = stmt.run(
+          newMemory.id,
+          newMemory.title,
+          newMemory.content,
+          newMemory.type,
+          JSON.stringify(newMemory.tags || []),
+          JSON.stringify(newMemory.metadata || {}),
+          newMemory.projectId ?? null,
+          newMemory.createdAt.getTime(),
+          newMemory.updatedAt.getTime()
+        );
+        this.insertRevision(newMemory);
+        this.syncTags(newMemory);
+        this.syncWikiLinks(newMemory);
+        this.resolveDanglingWikiLinks(newMemory);
+        return inserted;
+      })();
 
       this.logger.info('Memory created successfully', { 
         id: newMemory.id, 
@@ -131,63 +219,493 @@ export class SQLiteManager {
   }
 
   async getMemory(id: string): Promise<Memory | null> {
-    const stmt = this.db.prepare('SELECT * FROM memories WHERE id = ?');
-    const row = stmt.get(id) as any;
+    const stmt = this.db.prepare('SELECT * FROM memories WHERE id = ? AND deleted_at IS NULL');
+    const row = stmt.get(id) as MemoryRow | undefined;
     
     if (!row) return null;
     
     return this.rowToMemory(row);
   }
 
-  async updateMemory(id: string, updates: Partial<Omit<Memory, 'id' | 'createdAt'>>): Promise<Memory | null> {
+  async updateMemory(id: string, updates: MemoryUpdate): Promise<Memory | null> {
     const existing = await this.getMemory(id);
     if (!existing) return null;
 
+    const { projectId: requestedProjectId, ...changes } = updates;
     const updated: Memory = {
       ...existing,
-      ...updates,
+      ...changes,
       updatedAt: new Date(),
     };
+    const projectId = 'projectId' in updates
+      ? requestedProjectId ?? undefined
+      : changes.metadata
+        ? this.resolveProjectId(changes.metadata) ?? this.manualProjectId(existing)
+        : existing.projectId;
+    delete updated.projectId;
+    if (projectId) {
+      updated.projectId = projectId;
+    }
 
     const stmt = this.db.prepare(`
       UPDATE memories 
-      SET title = ?, content = ?, type = ?, tags = ?, metadata = ?, updated_at = ?
+      SET title = ?, content = ?, type = ?, tags = ?, metadata = ?, project_id = ?, updated_at = ?
       WHERE id = ?
     `);
 
-    stmt.run(
-      updated.title,
-      updated.content,
-      updated.type,
-      JSON.stringify(updated.tags),
-      JSON.stringify(updated.metadata),
-      updated.updatedAt.getTime(),
-      id
-    );
+    this.db.transaction(() => {
+      stmt.run(
+        updated.title,
+        updated.content,
+        updated.type,
+        JSON.stringify(updated.tags),
+        JSON.stringify(updated.metadata),
+        updated.projectId ?? null,
+        updated.updatedAt.getTime(),
+        id
+      );
+
+      // Saving without changes should not clutter the history
+      if (this.revisionKey(updated) !== this.revisionKey(existing)) {
+        this.insertRevision(updated);
+      }
+
+      this.syncTags(updated);
+      if (updated.title !== existing.title) {
+        this.retargetWikiLinks(updated);
+      }
+      this.syncWikiLinks(updated);
+      this.resolveDanglingWikiLinks(updated);
+    })();
 
     return updated;
   }
 
+  /**
+   * Moves a memory to the trash. It disappears from lists and searches but
+   * keeps its history until it is purged.
+   */
   async deleteMemory(id: string): Promise<boolean> {
-    const stmt = this.db.prepare('DELETE FROM memories WHERE id = ?');
-    const result = stmt.run(id);
+    const result = this.db.prepare(`
+      UPDATE memories SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL
+    `).run(Date.now(), id);
+    return result.changes > 0;
+  }
+
+  async restoreMemory(id: string): Promise<Memory | null> {
+    const result = this.db.prepare(`
+      UPDATE memories SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL
+    `).run(id);
+    if (result.changes === 0) return null;
+
+    this.logger.info('Memory restored from trash', { id });
+    const restored = await this.getMemory(id);
+    if (restored) {
+      this.resolveDanglingWikiLinks(restored);
+    }
+    return restored;
+  }
+
+  /**
+   * Permanently removes a trashed memory and its revisions.
+   */
+  async purgeMemory(id: string): Promise<boolean> {
+    const result = this.db.transaction(() => {
+      const deleted = this.db.prepare('DELETE FROM memories WHERE id = ? AND deleted_at IS NOT NULL').run(id);
+      if (deleted.changes > 0) {
+        this.db.prepare('DELETE FROM memory_revisions WHERE memory_id = ?').run(id);
+        this.db.prepare('DELETE FROM memory_links WHERE source_id = ? OR target_id = ?').run(id, id);
+        this.forgetWikiLinks(id);
+        this.removeTags(id);
+      }
+      return deleted;
+    })();
     return result.changes > 0;
   }
 
+  // Like getMemory, but also finds memories in the trash
+  async getMemoryIncludingTrash(id: string): Promise<Memory | null> {
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as MemoryRow | undefined;
+    return row ? this.rowToMemory(row) : null;
+  }
+
+  /**
+   * Trashed memories, most recently deleted first.
+   */
+  async getTrashedMemories(): Promise<Memory[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC
+    `).all() as MemoryRow[];
+    return rows.map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Purges memories that have been in the trash longer than `retentionDays`.
+   * Returns the ids removed so callers can drop them from the vector store.
+   */
+  async purgeExpiredTrash(retentionDays: number, now: Date = new Date()): Promise<string[]> {
+    const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+    const ids = this.purgeTrashWhere('deleted_at <= ?', [cutoff]);
+    if (ids.length > 0) {
+      this.logger.info('Purged expired trash', { count: ids.length, retentionDays });
+    }
+    return ids;
+  }
+
+  async emptyTrash(): Promise<string[]> {
+    const ids = this.purgeTrashWhere('1 = 1', []);
+    this.logger.info('Emptied trash', { count: ids.length });
+    return ids;
+  }
+
+  private purgeTrashWhere(condition: string, params: unknown[]): string[] {
+    return this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT id FROM memories WHERE deleted_at IS NOT NULL AND ${condition}
+      `).all(...params) as Array<{ id: string }>;
+      const ids = rows.map(row => row.id);
+
+      const deleteRevisions = this.db.prepare('DELETE FROM memory_revisions WHERE memory_id = ?');
+      const deleteLinks = this.db.prepare('DELETE FROM memory_links WHERE source_id = ? OR target_id = ?');
+      const deleteMemory = this.db.prepare('DELETE FROM memories WHERE id = ?');
+      for (const id of ids) {
+        deleteRevisions.run(id);
+        deleteLinks.run(id, id);
+        this.forgetWikiLinks(id);
+        this.removeTags(id);
+        deleteMemory.run(id);
+      }
+      return ids;
+    })();
+  }
+
+  /**
+   * All revisions of a memory, newest first. The first entry is the current state.
+   */
+  async getRevisions(memoryId: string): Promise<MemoryRevision[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM memory_revisions
+      WHERE memory_id = ?
+      ORDER BY revision DESC
+    `).all(memoryId) as RevisionRow[];
+    return rows.map(row => this.rowToRevision(row));
+  }
+
+  /**
+   * Makes an old revision current again. The restore is recorded as a new
+   * revision, so the versions it replaces stay in the history.
+   */
+  async restoreRevision(memoryId: string, revision: number): Promise<Memory | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM memory_revisions WHERE memory_id = ? AND revision = ?
+    `).get(memoryId, revision) as RevisionRow | undefined;
+    if (!row) return null;
+
+    const { title, content, type, tags, metadata } = this.rowToRevision(row);
+    this.logger.info('Restoring memory revision', { memoryId, revision });
+    return await this.updateMemory(memoryId, { title, content, type, tags, metadata });
+  }
+
+  private insertRevision(memory: Memory) {
+    this.db.prepare(`
+      INSERT INTO memory_revisions (memory_id, revision, title, content, type, tags, metadata, created_at)
+      SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ?, ?
+      FROM memory_revisions WHERE memory_id = ?
+    `).run(
+      memory.id,
+      memory.title,
+      memory.content,
+      memory.type,
+      JSON.stringify(memory.tags || []),
+      JSON.stringify(memory.metadata || {}),
+      memory.updatedAt.getTime(),
+      memory.id
+    );
+  }
+
+  private revisionKey(memory: Memory): string {
+    return JSON.stringify([memory.title, memory.content, memory.type, memory.tags || [], memory.metadata || {}]);
+  }
+
+  private rowToRevision(row: RevisionRow): MemoryRevision {
+    return {
+      memoryId: row.memory_id,
+      revision: row.revision,
+      title: row.title,
+      content: row.content,
+      type: row.type,
+      tags: this.safeJsonParse(row.tags, []),
+      metadata: this.safeJsonParse(row.metadata, {}),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Links `sourceId` to `targetId`. Creating a link that already exists
+   * returns the existing one.
+   */
+  async createLink(sourceId: string, targetId: string, type: MemoryLinkType): Promise<MemoryLink> {
+    this.validateLinkType(type);
+    if (sourceId === targetId) {
+      throw new Error('A memory cannot be linked to itself');
+    }
+    for (const id of [sourceId, targetId]) {
+      if (!(await this.getMemory(id))) {
+        throw new Error(`Memory not found: ${id}`);
+      }
+    }
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO memory_links (id, source_id, target_id, type, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(uuidv4(), sourceId, targetId, type, Date.now());
+
+    const row = this.db.prepare(`
+      SELECT * FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ?
+    `).get(sourceId, targetId, type) as LinkRow;
+    this.logger.info('Memory link created', { sourceId, targetId, type });
+    return this.rowToLink(row);
+  }
+
+  async getLink(id: string): Promise<MemoryLink | null> {
+    const row = this.db.prepare('SELECT * FROM memory_links WHERE id = ?').get(id) as LinkRow | undefined;
+    return row ? this.rowToLink(row) : null;
+  }
+
+  /**
+   * Links from and to a memory, each paired with the memory at the other end.
+   * Links to trashed memories are hidden until those memories are restored.
+   */
+  async getLinks(memoryId: string): Promise<MemoryLinks> {
+    const select = (linkColumn: string, otherColumn: string) => this.db.prepare(`
+      SELECT l.id AS link_id, l.source_id, l.target_id, l.type AS link_type, l.created_at AS link_created_at, m.*
+      FROM memory_links l
+      JOIN memories m ON m.id = l.${otherColumn}
+      WHERE l.${linkColumn} = ? AND m.deleted_at IS NULL
+      ORDER BY l.type, m.title COLLATE NOCASE
+    `).all(memoryId) as LinkedMemoryRow[];
+
+    const toLinkedMemory = (row: LinkedMemoryRow) => ({
+      link: this.rowToLink({
+        id: row.link_id,
+        source_id: row.source_id,
+        target_id: row.target_id,
+        type: row.link_type,
+        created_at: row.link_created_at,
+      }),
+      memory: this.rowToMemory(row),
+    });
+
+    return {
+      outgoing: select('source_id', 'target_id').map(toLinkedMemory),
+      incoming: select('target_id', 'source_id').map(toLinkedMemory),
+      wikiLinks: await this.getWikiLinks(memoryId),
+      mentions: await this.getMentions(memoryId),
+    };
+  }
+
+  /**
+   * Every link between two memories that are not in the trash.
+   */
+  async getAllLinks(): Promise<MemoryLink[]> {
+    const rows = this.db.prepare(`
+      SELECT l.* FROM memory_links l
+      JOIN memories s ON s.id = l.source_id AND s.deleted_at IS NULL
+      JOIN memories t ON t.id = l.target_id AND t.deleted_at IS NULL
+      ORDER BY l.created_at
+    `).all() as LinkRow[];
+    return rows.map(row => this.rowToLink(row));
+  }
+
+  async updateLink(id: string, type: MemoryLinkType): Promise<MemoryLink | null> {
+    this.validateLinkType(type);
+    const existing = await this.getLink(id);
+    if (!existing) return null;
+
+    const duplicate = this.db.prepare(`
+      SELECT 1 FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ? AND id != ?
+    `).get(existing.sourceId, existing.targetId, type, id);
+    if (duplicate) {
+      throw new Error(`These memories are already linked as ${type}`);
+    }
+
+    this.db.prepare('UPDATE memory_links SET type = ? WHERE id = ?').run(type, id);
+    return { ...existing, type };
+  }
+
+  async deleteLink(id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM memory_links WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * The `[[...]]` references in a memory's content. Links to trashed memories
+   * count as dangling.
+   */
+  async getWikiLinks(memoryId: string): Promise<WikiLink[]> {
+    const rows = this.db.prepare(`
+      SELECT w.source_id, w.target, m.id AS target_id
+      FROM wiki_links w
+      LEFT JOIN memories m ON m.id = w.target_id AND m.deleted_at IS NULL
+      WHERE w.source_id = ?
+      ORDER BY w.target COLLATE NOCASE
+    `).all(memoryId) as WikiLinkRow[];
+    return rows.map(row => this.rowToWikiLink(row));
+  }
+
+  /**
+   * Memories whose content links to this one with `[[...]]`.
+   */
+  async getMentions(memoryId: string): Promise<Memory[]> {
+    const rows = this.db.prepare(`
+      SELECT m.* FROM memories m
+      WHERE m.deleted_at IS NULL
+        AND m.id IN (SELECT source_id FROM wiki_links WHERE target_id = ?)
+      ORDER BY m.title COLLATE NOCASE
+    `).all(memoryId) as MemoryRow[];
+    return rows.map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Every resolved wiki link between two memories that are not in the trash.
+   */
+  async getAllWikiLinks(): Promise<WikiLink[]> {
+    const rows = this.db.prepare(`
+      SELECT w.* FROM wiki_links w
+      JOIN memories s ON s.id = w.source_id AND s.deleted_at IS NULL
+      JOIN memories t ON t.id = w.target_id AND t.deleted_at IS NULL
+    `).all() as WikiLinkRow[];
+    return rows.map(row => this.rowToWikiLink(row));
+  }
+
+  /**
+   * Titles containing `text`, those starting with it first, for [[ completion.
+   */
+  async suggestTitles(text: string, limit: number = 8): Promise<Array<Pick<Memory, 'id' | 'title'>>> {
+    const escaped = text.replace(/[\\%_]/g, match => `\\${match}`);
+    return this.db.prepare(`
+      SELECT id, title FROM memories
+      WHERE deleted_at IS NULL AND title LIKE ? ESCAPE '\\'
+      ORDER BY title LIKE ? ESCAPE '\\' DESC, updated_at DESC
+      LIMIT ?
+    `).all(`%${escaped}%`, `${escaped}%`, limit) as Array<Pick<Memory, 'id' | 'title'>>;
+  }
+
+  // Re-reads the memory's own [[...]] references; called inside the save transaction
+  private syncWikiLinks(memory: Memory) {
+    this.db.prepare('DELETE FROM wiki_links WHERE source_id = ?').run(memory.id);
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO wiki_links (source_id, target, target_id)
+      VALUES (?, ?, (${WIKI_LINK_TARGET_SQL}))
+    `);
+    for (const link of extractWikiLinks(memory.content)) {
+      insert.run(memory.id, link.target, link.target, link.target, link.target);
+    }
+    this.db.prepare('DELETE FROM wiki_links WHERE source_id = ? AND target_id = source_id').run(memory.id);
+  }
+
+  // Dangling links written before this memory existed (or had this title) now resolve
+  private resolveDanglingWikiLinks(memory: Memory) {
+    this.db.prepare(`
+      UPDATE wiki_links SET target_id = ?
+      WHERE target_id IS NULL AND source_id != ? AND (target = ? OR target = ? COLLATE NOCASE)
+    `).run(memory.id, memory.id, memory.id, memory.title);
+  }
+
+  /**
+   * After a rename, rewrites `[[Old title]]` in every memory that links to
+   * this one so the references keep resolving. Links written as `[[id]]`
+   * need no change.
+   */
+  private retargetWikiLinks(memory: Memory) {
+    const rows = this.db.prepare(`
+      SELECT w.source_id, w.target, m.content
+      FROM wiki_links w
+      JOIN memories m ON m.id = w.source_id
+      WHERE w.target_id = ? AND w.target != ?
+    `).all(memory.id, memory.id) as Array<{ source_id: string; target: string; content: string }>;
+
+    const contents = new Map<string, string>();
+    for (const row of rows) {
+      const content = contents.get(row.source_id) ?? row.content;
+      contents.set(row.source_id, renameWikiLinks(content, row.target, memory.title));
+    }
+
+    const now = new Date();
+    for (const [sourceId, content] of contents) {
+      const source = this.rowToMemory(this.db.prepare('SELECT * FROM memories WHERE id = ?').get(sourceId) as MemoryRow);
+      if (content === source.content) continue;
+
+      const rewritten: Memory = { ...source, content, updatedAt: now };
+      this.db.prepare('UPDATE memories SET content = ?, updated_at = ? WHERE id = ?')
+        .run(content, now.getTime(), sourceId);
+      this.insertRevision(rewritten);
+      this.syncWikiLinks(rewritten);
+    }
+
+    if (contents.size > 0) {
+      this.logger.info('Updated wiki links after rename', { id: memory.id, sources: contents.size });
+    }
+  }
+
+  // Purged memories keep no links of their own; links to them become dangling
+  private forgetWikiLinks(id: string) {
+    this.db.prepare('DELETE FROM wiki_links WHERE source_id = ?').run(id);
+    this.db.prepare('UPDATE wiki_links SET target_id = NULL WHERE target_id = ?').run(id);
+  }
+
+  private rowToWikiLink(row: WikiLinkRow): WikiLink {
+    return {
+      sourceId: row.source_id,
+      target: row.target,
+      targetId: row.target_id,
+    };
+  }
+
+  private validateLinkType(type: string) {
+    if (!MEMORY_LINK_TYPES.includes(type as MemoryLinkType)) {
+      throw new Error(`Unknown link type: ${type}`);
+    }
+  }
+
+  private rowToLink(row: LinkRow): MemoryLink {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      targetId: row.target_id,
+      type: row.type,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   async searchMemories(query: string, limit: number = 50, offset: number = 0): Promise<Memory[]> {
     this.logger.debug('Searching memories', { query, limit, offset });
     
     try {
-      // Use simple LIKE search for reliability
+      if (query.trim()) {
+        const ranked = await this.searchFullText(query, limit, offset);
+        if (ranked.length > 0) {
+          return ranked.map(result => result.memory);
+        }
+        // Past the last ranked hit the pages end, rather than going on in another order
+        if (offset > 0 && (await this.searchFullText(query, 1)).length > 0) {
+          return [];
+        }
+      }
+
+      // Substring scan catches partial words and punctuation the FTS tokenizer drops
       const searchPattern = `%${query}%`;
       const stmt = this.db.prepare(`
         SELECT * FROM memories 
-        WHERE title LIKE ? OR content LIKE ? OR tags LIKE ?
+        WHERE deleted_at IS NULL AND (title LIKE ? OR content LIKE ? OR tags LIKE ?)
         ORDER BY updated_at DESC
         LIMIT ? OFFSET ?
       `);
       
-      const rows = stmt.all(searchPattern, searchPattern, searchPattern, limit, offset) as any[];
+      const rows = stmt.all(searchPattern, searchPattern, searchPattern, limit, offset) as MemoryRow[];
       const results = rows.map(row => this.rowToMemory(row));
       
       this.logger.info('Search completed', { 
@@ -203,49 +721,1095 @@ export class SQLiteManager {
     }
   }
 
-  async getMemoriesByType(type: MemoryType, limit: number = 50, offset: number = 0): Promise<Memory[]> {
+  /**
+   * Ranked search over `memories_fts`. Accepts FTS5 query syntax (phrases,
+   * `prefix*`, `NEAR`, `AND`/`OR`/`NOT`); input that FTS5 cannot parse is
+   * retried as plain quoted terms. Scores are negated BM25, so higher is better.
+   */
+  async searchFullText(
+    query: string,
+    limit: number = 50,
+    offset: number = 0,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const filter = this.buildFilterClause(filters);
     const stmt = this.db.prepare(`
-      SELECT * FROM memories 
-      WHERE type = ? 
-      ORDER BY updated_at DESC 
+      SELECT m.*,
+        bm25(memories_fts, ${BM25_WEIGHTS}) AS rank,
+        highlight(memories_fts, 1, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}') AS title_highlight,
+        snippet(memories_fts, 2, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', 16) AS content_snippet
+      FROM memories_fts
+      JOIN memories m ON m.rowid = memories_fts.rowid
+      WHERE memories_fts MATCH ? ${filter.sql}
+      ORDER BY rank, m.updated_at DESC, m.id
       LIMIT ? OFFSET ?
     `);
 
-    const rows = stmt.all(type, limit, offset) as any[];
+    let rows: RankedMemoryRow[];
+    try {
+      rows = stmt.all(trimmed, ...filter.params, limit, offset) as RankedMemoryRow[];
+    } catch {
+      const fallback = this.toPlainFtsQuery(trimmed);
+      this.logger.debug('FTS query rejected, retrying as plain terms', { query: trimmed, fallback });
+      if (!fallback) return [];
+      try {
+        rows = stmt.all(fallback, ...filter.params, limit, offset) as RankedMemoryRow[];
+      } catch (fallbackError) {
+        this.logger.warn('Full-text search failed', fallbackError);
+        return [];
+      }
+    }
+
+    return rows.map(row => ({
+      memory: this.rowToMemory(row),
+      score: -row.rank,
+      highlights: [row.title_highlight, row.content_snippet].filter(
+        (text): text is string => !!text && text.includes(HIGHLIGHT_OPEN)
+      ),
+    }));
+  }
+
+  /**
+   * Lists memories matching the filters without a text query, newest first.
+   */
+  async filterMemories(filters: SearchFilters, limit: number = 50, offset: number = 0): Promise<Memory[]> {
+    const filter = this.buildFilterClause(filters);
+    const stmt = this.db.prepare(`
+      SELECT m.* FROM memories m
+      WHERE 1 = 1 ${filter.sql}
+      ORDER BY m.updated_at DESC, m.id
+      LIMIT ? OFFSET ?
+    `);
+
+    const rows = stmt.all(...filter.params, limit, offset) as MemoryRow[];
+    return rows.map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Builds `AND ...` conditions over the `memories` table aliased as `m`.
+   */
+  private buildFilterClause(filters: SearchFilters): { sql: string; params: unknown[] } {
+    // Trashed memories never match a search
+    const conditions: string[] = ['m.deleted_at IS NULL'];
+    const params: unknown[] = [];
+
+    if (filters.type) {
+      const types = Array.isArray(filters.type) ? filters.type : [filters.type];
+      conditions.push(`m.type IN (${types.map(() => '?').join(', ')})`);
+      params.push(...types);
+    }
+
+    if (filters.projectId) {
+      conditions.push('m.project_id = ?');
+      params.push(filters.projectId);
+    }
+
+    if (filters.excludeTypes?.length) {
+      conditions.push(`m.type NOT IN (${filters.excludeTypes.map(() => '?').join(', ')})`);
+      params.push(...filters.excludeTypes);
+    }
+
+    // A tag filter also matches the tags nested under it
+    for (const tag of filters.tags || []) {
+      const tagged = taggedWith([tag]);
+      conditions.push(`EXISTS (${tagged.sql})`);
+      params.push(...tagged.params);
+    }
+
+    if (filters.anyTags?.length) {
+      const tagged = taggedWith(filters.anyTags);
+      conditions.push(`EXISTS (${tagged.sql})`);
+      params.push(...tagged.params);
+    }
+
+    if (filters.excludeTags?.length) {
+      const tagged = taggedWith(filters.excludeTags);
+      conditions.push(`NOT EXISTS (${tagged.sql})`);
+      params.push(...tagged.params);
+    }
+
+    for (const [field, value] of Object.entries(getMetadataFilters(filters))) {
+      conditions.push('json_extract(m.metadata, ?) = ? COLLATE NOCASE');
+      params.push(`$.${field}`, value);
+    }
+
+    const excluded = (filters.excludeTerms || [])
+      .filter(term => /[\p{L}\p{N}]/u.test(term))
+      .map(term => this.toFtsPhrase(term))
+      .join(' OR ');
+    if (excluded) {
+      conditions.push('m.rowid NOT IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?)');
+      params.push(excluded);
+    }
+
+    if (filters.dateRange?.start) {
+      conditions.push('m.created_at >= ?');
+      params.push(new Date(filters.dateRange.start).getTime());
+    }
+
+    if (filters.dateRange?.end) {
+      conditions.push('m.created_at <= ?');
+      params.push(new Date(filters.dateRange.end).getTime());
+    }
+
+    return {
+      sql: conditions.map(condition => `AND ${condition}`).join(' '),
+      params,
+    };
+  }
+
+  private toPlainFtsQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .filter(term => /[\p{L}\p{N}]/u.test(term))
+      .map(term => this.toFtsPhrase(term))
+      .join(' ');
+  }
+
+  private toFtsPhrase(text: string): string {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Exact matches for a search query from SQLite alone: FTS5 for the text and
+   * the same filters as searchFullText. Smart collections use this so their
+   * contents always agree with countSearchMatches.
+   */
+  async getSearchMatches(
+    search: SearchQuery,
+    sort: SavedSearchSort = 'relevance',
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<Memory[]> {
+    const order = sort === 'relevance' && !search.query.trim() ? MATCH_ORDER.updated : MATCH_ORDER[sort];
+    const rows = this.selectMatches<MemoryRow>(search, 'm.*', `ORDER BY ${order} LIMIT ? OFFSET ?`, [limit, offset]);
     return rows.map(row => this.rowToMemory(row));
   }
 
-  async getMemoriesByTags(tags: string[], limit: number = 50, offset: number = 0): Promise<Memory[]> {
-    const placeholders = tags.map(() => 'JSON_EXTRACT(tags, "$[*]") LIKE ?').join(' OR ');
+  async countSearchMatches(search: SearchQuery): Promise<number> {
+    const [row] = this.selectMatches<{ count: number }>(search, 'COUNT(*) AS count', '');
+    return row?.count || 0;
+  }
+
+  private selectMatches<T>(search: SearchQuery, columns: string, suffix: string, suffixParams: unknown[] = []): T[] {
+    const filter = this.buildFilterClause(search);
+    const text = search.query.trim();
+
+    if (!text) {
+      return this.db
+        .prepare(`SELECT ${columns} FROM memories m WHERE 1 = 1 ${filter.sql} ${suffix}`)
+        .all(...filter.params, ...suffixParams) as T[];
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${columns} FROM memories_fts
+      JOIN memories m ON m.rowid = memories_fts.rowid
+      WHERE memories_fts MATCH ? ${filter.sql} ${suffix}
+    `);
+
+    try {
+      return stmt.all(text, ...filter.params, ...suffixParams) as T[];
+    } catch {
+      const fallback = this.toPlainFtsQuery(text);
+      return fallback ? (stmt.all(fallback, ...filter.params, ...suffixParams) as T[]) : [];
+    }
+  }
+
+  async createSavedSearch(search: Omit<SavedSearch, 'id' | 'createdAt' | 'updatedAt'>): Promise<SavedSearch> {
+    const now = new Date();
+    const saved: SavedSearch = {
+      ...search,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO saved_searches (id, name, query, sort, pinned, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      saved.id,
+      saved.name,
+      this.serializeSearchQuery(saved.query),
+      saved.sort,
+      saved.pinned ? 1 : 0,
+      saved.createdAt.getTime(),
+      saved.updatedAt.getTime()
+    );
+
+    this.logger.info('Saved search created', { id: saved.id, name: saved.name });
+    return saved;
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | null> {
+    const row = this.db.prepare('SELECT * FROM saved_searches WHERE id = ?').get(id) as SavedSearchRow | undefined;
+    return row ? this.rowToSavedSearch(row) : null;
+  }
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM saved_searches
+      ORDER BY pinned DESC, name COLLATE NOCASE, id
+    `).all() as SavedSearchRow[];
+    return rows.map(row => this.rowToSavedSearch(row));
+  }
+
+  async updateSavedSearch(
+    id: string,
+    updates: Partial<Omit<SavedSearch, 'id' | 'createdAt'>>
+  ): Promise<SavedSearch | null> {
+    const existing = await this.getSavedSearch(id);
+    if (!existing) return null;
+
+    const updated: SavedSearch = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    this.db.prepare(`
+      UPDATE saved_searches
+      SET name = ?, query = ?, sort = ?, pinned = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      updated.name,
+      this.serializeSearchQuery(updated.query),
+      updated.sort,
+      updated.pinned ? 1 : 0,
+      updated.updatedAt.getTime(),
+      id
+    );
+
+    return updated;
+  }
+
+  async deleteSavedSearch(id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM saved_searches WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // Paging belongs to whoever runs the search, not to the saved definition
+  private serializeSearchQuery(query: SearchQuery): string {
+    return JSON.stringify({ ...query, limit: undefined, offset: undefined });
+  }
+
+  private rowToSavedSearch(row: SavedSearchRow): SavedSearch {
+    const query: SearchQuery = this.safeJsonParse(row.query, { query: '' });
+    if (query.dateRange) {
+      query.dateRange = {
+        start: query.dateRange.start ? new Date(query.dateRange.start) : undefined,
+        end: query.dateRange.end ? new Date(query.dateRange.end) : undefined,
+      };
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      query,
+      sort: row.sort,
+      pinned: row.pinned === 1,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async getMemoriesByType(type: MemoryType, limit: number = 50, offset: number = 0): Promise<Memory[]> {
     const stmt = this.db.prepare(`
       SELECT * FROM memories 
-      WHERE ${placeholders}
+      WHERE type = ? AND deleted_at IS NULL
       ORDER BY updated_at DESC 
       LIMIT ? OFFSET ?
     `);
 
-    const params = [...tags.map(tag => `%${tag}%`), limit, offset];
-    const rows = stmt.all(...params) as any[];
+    const rows = stmt.all(type, limit, offset) as MemoryRow[];
     return rows.map(row => this.rowToMemory(row));
   }
 
+  /**
+   * Memories carrying any of `tags` (`match = 'all'`: every one of them).
+   * A tag also matches the tags nested under it, so `infra` finds
+   * `infra/k8s/ingress`.
+   */
+  async getMemoriesByTags(
+    tags: string[],
+    limit: number = 50,
+    offset: number = 0,
+    match: 'any' | 'all' = 'any',
+    projectId?: string
+  ): Promise<Memory[]> {
+    if (tags.length === 0) return [];
+    const filters: SearchFilters = match === 'all' ? { tags } : { anyTags: tags };
+    return await this.filterMemories(projectId ? { ...filters, projectId } : filters, limit, offset);
+  }
+
+  /**
+   * Names of the tags carried by at least one memory outside the trash.
+   */
   async getAllTags(): Promise<string[]> {
-    const stmt = this.db.prepare('SELECT DISTINCT name FROM tags ORDER BY name');
-    const rows = stmt.all() as any[];
-    return rows.map(row => row.name);
+    return (await this.getTagUsage()).map(tag => tag.name);
+  }
+
+  /**
+   * Tags in use with their colors and how many memories carry them.
+   */
+  async getTagUsage(): Promise<TagInfo[]> {
+    const rows = this.db.prepare(`
+      SELECT t.name, t.color, COUNT(m.id) AS count
+      FROM tags t
+      JOIN memory_tags mt ON mt.tag_id = t.id
+      JOIN memories m ON m.id = mt.memory_id AND m.deleted_at IS NULL
+      GROUP BY t.id
+      ORDER BY t.name
+    `).all() as Array<TagRow & { count: number }>;
+    return rows.map(row => ({ name: row.name, color: row.color ?? undefined, count: row.count }));
+  }
+
+  /**
+   * Tags in use as a `/`-separated hierarchy with rolled-up counts.
+   */
+  async getTagTree(): Promise<TagNode[]> {
+    const assignments = this.db.prepare(`
+      SELECT mt.memory_id AS memoryId, t.name AS tag
+      FROM memory_tags mt
+      JOIN tags t ON t.id = mt.tag_id
+      JOIN memories m ON m.id = mt.memory_id AND m.deleted_at IS NULL
+    `).all() as Array<{ memoryId: string; tag: string }>;
+    const colors = this.db.prepare('SELECT name, color FROM tags WHERE color IS NOT NULL').all() as Array<{ name: string; color: string }>;
+    return buildTagTree(assignments, Object.fromEntries(colors.map(row => [row.name, row.color])));
+  }
+
+  /**
+   * Colors a tag in use, including a parent such as `infra` that only exists
+   * through the tags nested under it. Returns false for unknown tags.
+   */
+  async setTagColor(name: string, color: string | null): Promise<boolean> {
+    const prefix = name + TAG_SEPARATOR;
+    const known = this.db.prepare(`
+      SELECT 1 FROM tags WHERE name = ? OR substr(name, 1, length(?)) = ? LIMIT 1
+    `).get(name, prefix, prefix);
+    if (!known) return false;
+
+    this.db.transaction(() => {
+      this.db.prepare('INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)').run(name, Date.now());
+      this.db.prepare('UPDATE tags SET color = ? WHERE name = ?').run(color, name);
+      this.pruneUnusedTags();
+    })();
+    return true;
+  }
+
+  /**
+   * Renames or moves a tag together with everything nested under it:
+   * `infra/k8s` to `platform/k8s` also turns `infra/k8s/ingress` into
+   * `platform/k8s/ingress`.
+   */
+  async renameTag(from: string, to: string): Promise<Memory[]> {
+    return await this.mergeTags([from], to);
+  }
+
+  /**
+   * Replaces each of `sources` and the tags nested under them with `target`
+   * and the same nesting below it, on every memory that carries them, trashed
+   * ones included. Renaming onto an existing tag merges into it. Returns the
+   * rewritten memories.
+   */
+  async mergeTags(sources: string[], target: string): Promise<Memory[]> {
+    const name = normalizeTag(target);
+    if (!name) {
+      throw new Error('Tag name cannot be empty');
+    }
+    // Deepest first, so a source nested in another source maps onto the target itself
+    const roots = sources.filter(source => source !== name).sort((a, b) => b.length - a.length);
+    const enclosing = roots.find(root => isTagInSubtree(name, root));
+    if (enclosing) {
+      throw new Error(`Cannot move "${enclosing}" under itself`);
+    }
+    if (roots.length === 0) return [];
+
+    const rewritten = this.db.transaction(() => {
+      const existing = this.db.prepare('SELECT name, color FROM tags').all() as TagRow[];
+      const renames = new Map<string, string>();
+      for (const tag of existing) {
+        const root = roots.find(source => isTagInSubtree(tag.name, source));
+        if (root) renames.set(tag.name, rebaseTag(tag.name, root, name));
+      }
+      if (renames.size === 0) return [];
+
+      const placeholders = Array.from(renames.keys(), () => '?').join(', ');
+      const rows = this.db.prepare(`
+        SELECT DISTINCT m.* FROM memories m
+        JOIN memory_tags mt ON mt.memory_id = m.id
+        JOIN tags t ON t.id = mt.tag_id
+        WHERE t.name IN (${placeholders})
+      `).all(...renames.keys()) as MemoryRow[];
+
+      const updateTags = this.db.prepare('UPDATE memories SET tags = ? WHERE id = ?');
+      const now = new Date();
+      const memories = rows.map(row => {
+        const memory = this.rowToMemory(row);
+        const tags = Array.from(new Set(memory.tags.map(tag => renames.get(tag) ?? tag)));
+        const updated: Memory = { ...memory, tags };
+
+        updateTags.run(JSON.stringify(tags), memory.id);
+        // Bulk retagging is recorded in the history but does not make memories "recent"
+        this.insertRevision({ ...updated, updatedAt: now });
+        this.syncTags(updated);
+        return updated;
+      });
+
+      // Colors move with their tags; a destination that has its own color keeps it
+      const destinations = new Set(renames.values());
+      for (const tag of renames.keys()) {
+        if (destinations.has(tag)) {
+          this.db.prepare('UPDATE tags SET color = NULL WHERE name = ?').run(tag);
+        } else {
+          this.db.prepare('DELETE FROM tags WHERE name = ?').run(tag);
+        }
+      }
+      for (const { name: tag, color } of existing) {
+        if (!color || !renames.has(tag)) continue;
+        this.db.prepare('INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)').run(renames.get(tag), Date.now());
+        this.db.prepare('UPDATE tags SET color = ? WHERE name = ? AND color IS NULL').run(color, renames.get(tag));
+      }
+      this.pruneUnusedTags();
+      return memories;
+    })();
+
+    this.logger.info('Merged tags', { sources: roots, target: name, memories: rewritten.length });
+    return rewritten;
+  }
+
+  // Keeps memory_tags in step with memories.tags; called inside the save transaction
+  private syncTags(memory: Memory) {
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)');
+    const link = this.db.prepare(`
+      INSERT OR IGNORE INTO memory_tags (memory_id, tag_id)
+      SELECT ?, id FROM tags WHERE name = ?
+    `);
+
+    this.db.prepare('DELETE FROM memory_tags WHERE memory_id = ?').run(memory.id);
+    for (const tag of memory.tags || []) {
+      insertTag.run(tag, Date.now());
+      link.run(memory.id, tag);
+    }
+    this.pruneUnusedTags();
+  }
+
+  private removeTags(memoryId: string) {
+    this.db.prepare('DELETE FROM memory_tags WHERE memory_id = ?').run(memoryId);
+    this.pruneUnusedTags();
+  }
+
+  // Colored tags are kept so the color survives the tag being unused for a while
+  private pruneUnusedTags() {
+    this.db.prepare(`
+      DELETE FROM tags
+      WHERE color IS NULL AND id NOT IN (SELECT tag_id FROM memory_tags)
+    `).run();
+  }
+
+  async getProjects(): Promise<ProjectSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT p.*, COUNT(m.id) AS memory_count FROM projects p
+      LEFT JOIN memories m ON m.project_id = p.id AND m.deleted_at IS NULL
+      GROUP BY p.id
+      ORDER BY p.name COLLATE NOCASE
+    `).all() as Array<ProjectRow & { memory_count: number }>;
+    return rows.map(row => ({ ...this.rowToProject(row), memoryCount: row.memory_count }));
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    const row = this.db.prepare('SELECT * FROM projects WHERE id = ?').get(id) as ProjectRow | undefined;
+    return row ? this.rowToProject(row) : null;
+  }
+
+  async createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
+    const now = new Date();
+    const created: Project = {
+      ...this.validateProject(project),
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO projects (id, name, path, repository, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      created.id,
+      created.name,
+      created.path ?? null,
+      created.repository ?? null,
+      created.description ?? null,
+      now.getTime(),
+      now.getTime()
+    );
+
+    this.logger.info('Project created', { id: created.id, name: created.name });
+    return created;
+  }
+
+  async updateProject(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): Promise<Project | null> {
+    const existing = await this.getProject(id);
+    if (!existing) return null;
+
+    const updated: Project = {
+      ...existing,
+      ...this.validateProject({ ...existing, ...updates }, id),
+      updatedAt: new Date(),
+    };
+
+    this.db.prepare(`
+      UPDATE projects SET name = ?, path = ?, repository = ?, description = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      updated.name,
+      updated.path ?? null,
+      updated.repository ?? null,
+      updated.description ?? null,
+      updated.updatedAt.getTime(),
+      id
+    );
+    return updated;
+  }
+
+  /**
+   * Removes a project from the registry. Its memories are kept, without a project.
+   */
+  async deleteProject(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db.prepare('UPDATE memories SET project_id = NULL WHERE project_id = ?').run(id);
+      return this.db.prepare('DELETE FROM projects WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  /**
+   * Gives memories without a project the one their metadata now resolves to,
+   * after projects were added or their path or repository changed. Returns the
+   * memories that were assigned.
+   */
+  async assignUnresolvedMemories(): Promise<Memory[]> {
+    const projects = await this.getProjects();
+    if (projects.length === 0) return [];
+
+    const rows = this.db.prepare('SELECT * FROM memories WHERE project_id IS NULL').all() as MemoryRow[];
+    const assign = this.db.prepare('UPDATE memories SET project_id = ? WHERE id = ?');
+    const assigned: Memory[] = [];
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const memory = this.rowToMemory(row);
+        const project = resolveProject(projects, memory.metadata);
+        if (project) {
+          assign.run(project.id, memory.id);
+          assigned.push({ ...memory, projectId: project.id });
+        }
+      }
+    })();
+
+    return assigned;
+  }
+
+  async getProjectDashboard(id: string, limit: number = 5): Promise<ProjectDashboard | null> {
+    const project = await this.getProject(id);
+    if (!project) return null;
+
+    const counts = this.db.prepare(`
+      SELECT type, COUNT(*) AS count FROM memories
+      WHERE project_id = ? AND deleted_at IS NULL
+      GROUP BY type
+    `).all(id) as Array<{ type: MemoryType; count: number }>;
+
+    // A debug session stays open until its metadata marks it resolved or closed
+    const openDebugSessions = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE project_id = ? AND deleted_at IS NULL AND type = ?
+        AND coalesce(json_extract(metadata, '$.resolved'), 0) = 0
+        AND lower(coalesce(json_extract(metadata, '$.status'), 'open')) NOT IN ('resolved', 'closed')
+      ORDER BY updated_at DESC
+      LIMIT ?
+    `).all(id, MemoryType.DEBUG_SESSION, limit) as MemoryRow[];
+
+    return {
+      project,
+      memoryCount: counts.reduce((total, row) => total + row.count, 0),
+      countsByType: Object.fromEntries(counts.map(row => [row.type, row.count])),
+      recentMemories: await this.filterMemories({ projectId: id }, limit),
+      recentDecisions: await this.filterMemories({ projectId: id, type: MemoryType.DECISION }, limit),
+      openDebugSessions: openDebugSessions.map(row => this.rowToMemory(row)),
+    };
+  }
+
+  private resolveProjectId(metadata: Memory['metadata']): string | undefined {
+    const projects = this.db.prepare('SELECT * FROM projects').all() as ProjectRow[];
+    return resolveProject(projects.map(row => this.rowToProject(row)), metadata)?.id;
+  }
+
+  // A project assigned by hand stays when the metadata changes; one the old metadata pointed at goes with it
+  private manualProjectId(memory: Memory): string | undefined {
+    return memory.projectId !== this.resolveProjectId(memory.metadata) ? memory.projectId : undefined;
+  }
+
+  // Trims the fields and enforces a unique, non-empty name
+  private validateProject<T extends Partial<Project>>(project: T, id?: string): T & { name: string } {
+    const name = project.name?.trim();
+    if (!name) {
+      throw new Error('Project name cannot be empty');
+    }
+
+    const clash = this.db.prepare('SELECT id FROM projects WHERE name = ? COLLATE NOCASE AND id != ?').get(name, id ?? '');
+    if (clash) {
+      throw new Error(`A project named "${name}" already exists`);
+    }
+
+    return {
+      ...project,
+      name,
+      path: project.path?.trim() || undefined,
+      repository: project.repository?.trim() || undefined,
+      description: project.description?.trim() || undefined,
+    };
+  }
+
+  /**
+   * Everything needed to rebuild the vault elsewhere, trash included.
+   */
+  async exportVaultData(): Promise<VaultData> {
+    const memories = this.db.prepare('SELECT * FROM memories ORDER BY created_at, id').all() as MemoryRow[];
+    const tags = this.db.prepare('SELECT name, color FROM tags ORDER BY name').all() as TagRow[];
+    const projects = this.db.prepare('SELECT * FROM projects ORDER BY name COLLATE NOCASE').all() as ProjectRow[];
+    const links = this.db.prepare('SELECT * FROM memory_links ORDER BY created_at, id').all() as LinkRow[];
+    const revisions = this.db.prepare('SELECT * FROM memory_revisions ORDER BY memory_id, revision').all() as RevisionRow[];
+
+    return {
+      memories: memories.map(row => this.rowToMemory(row)),
+      tags: tags.map(row => ({ name: row.name, ...(row.color ? { color: row.color } : {}) })),
+      projects: projects.map(row => this.rowToProject(row)),
+      links: links.map(row => this.rowToLink(row)),
+      revisions: revisions.map(row => this.rowToRevision(row)),
+    };
+  }
+
+  /**
+   * Imports exported vault data in one transaction. A merge matches memories
+   * and projects by id (projects also by name) and settles differing memories
+   * with `options.conflict`; a replace empties the vault first. A dry run
+   * rolls the transaction back and only reports what would have changed.
+   */
+  async importVaultData(data: VaultData, options: VaultImportOptions): Promise<VaultImportResult> {
+    const summary: VaultImportSummary = {
+      dryRun: options.dryRun === true,
+      removed: 0,
+      memories: { added: 0, updated: 0, copied: 0, skipped: 0 },
+      projects: { added: 0, updated: 0, skipped: 0 },
+      links: 0,
+      revisions: 0,
+      conflicts: 0,
+      embeddings: { reused: 0, regenerated: 0 },
+    };
+    const result: VaultImportResult = { summary, memories: [], idMap: new Map(), removedIds: [] };
+
+    const run = this.db.transaction(() => {
+      if (options.mode === 'replace') {
+        result.removedIds = (this.db.prepare('SELECT id FROM memories').all() as Array<{ id: string }>).map(row => row.id);
+        summary.removed = result.removedIds.length;
+        this.db.exec(`
+          DELETE FROM memory_links;
+          DELETE FROM wiki_links;
+          DELETE FROM memory_tags;
+          DELETE FROM memory_revisions;
+          DELETE FROM memories;
+          DELETE FROM tags;
+          DELETE FROM projects;
+          DELETE FROM markdown_sync_files;
+        `);
+      }
+
+      const projectIds = this.importProjects(data.projects, options.conflict, summary);
+      this.importTagColors(data.tags, options.conflict);
+
+      const revisions = new Map<string, MemoryRevision[]>();
+      for (const revision of data.revisions) {
+        revisions.set(revision.memoryId, [...(revisions.get(revision.memoryId) || []), revision]);
+      }
+
+      const projects = (this.db.prepare('SELECT * FROM projects').all() as ProjectRow[]).map(row => this.rowToProject(row));
+      for (const imported of data.memories) {
+        const memory: Memory = { ...imported };
+        delete memory.projectId;
+        delete memory.embedding;
+        const projectId = (imported.projectId && projectIds.get(imported.projectId)) || resolveProject(projects, memory.metadata)?.id;
+        if (projectId) {
+          memory.projectId = projectId;
+        }
+
+        const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(memory.id) as MemoryRow | undefined;
+        const existing = row ? this.rowToMemory(row) : null;
+        if (!existing) {
+          this.insertImportedMemory(memory, revisions.get(imported.id) || [], summary);
+          result.memories.push(memory);
+          result.idMap.set(imported.id, memory.id);
+          summary.memories.added++;
+          continue;
+        }
+
+        result.idMap.set(imported.id, existing.id);
+        if (this.revisionKey(existing) === this.revisionKey(memory)) {
+          summary.memories.skipped++;
+          continue;
+        }
+
+        summary.conflicts++;
+        const conflict = options.conflict;
+        if (conflict === 'keep-both') {
+          // The copy gets its own id; links in the bundle follow the copy
+          const copy: Memory = { ...memory, id: uuidv4() };
+          this.insertImportedMemory(copy, revisions.get(imported.id) || [], summary);
+          result.memories.push(copy);
+          result.idMap.set(imported.id, copy.id);
+          summary.memories.copied++;
+        } else if (conflict === 'use-imported' || (conflict === 'newer' && memory.updatedAt > existing.updatedAt)) {
+          // An import that names no project leaves the memory in its own
+          const updated: Memory = { ...memory, projectId: memory.projectId ?? existing.projectId, createdAt: existing.createdAt };
+          this.updateImportedMemory(updated);
+          result.memories.push(updated);
+          summary.memories.updated++;
+        } else {
+          summary.memories.skipped++;
+        }
+      }
+
+      summary.links = this.importLinks(data.links, result.idMap);
+
+      // Wiki links are re-read once every imported memory exists
+      for (const memory of result.memories) {
+        this.syncWikiLinks(memory);
+      }
+      for (const memory of result.memories) {
+        if (!memory.deletedAt) {
+          this.resolveDanglingWikiLinks(memory);
+        }
+      }
+
+      if (summary.dryRun) {
+        throw new DryRunRollback();
+      }
+    });
+
+    try {
+      run();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        this.logger.error('Vault import failed', error);
+        throw error;
+      }
+    }
+
+    this.logger.info('Imported vault data', { mode: options.mode, conflict: options.conflict, ...summary });
+    return result;
+  }
+
+  // Returns the id each project in the bundle has in this vault
+  private importProjects(projects: Project[], conflict: VaultImportConflict, summary: VaultImportSummary): Map<string, string> {
+    const ids = new Map<string, string>();
+    const insert = this.db.prepare(`
+      INSERT INTO projects (id, name, path, repository, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const update = this.db.prepare(`
+      UPDATE projects SET name = ?, path = ?, repository = ?, description = ?, updated_at = ?
+      WHERE id = ?
+    `);
+
+    for (const project of projects) {
+      const name = project.name.trim();
+      if (!name) continue;
+
+      const row = this.db.prepare('SELECT * FROM projects WHERE id = ?').get(project.id) as ProjectRow | undefined;
+      const existing = row ? this.rowToProject(row) : null;
+      const namesake = this.db.prepare('SELECT id FROM projects WHERE name = ? COLLATE NOCASE AND id != ?')
+        .get(name, project.id) as { id: string } | undefined;
+
+      if (!existing) {
+        // Project names are unique, so a project of the same name is the same project
+        if (namesake) {
+          ids.set(project.id, namesake.id);
+          summary.projects.skipped++;
+        } else {
+          insert.run(
+            project.id,
+            name,
+            project.path ?? null,
+            project.repository ?? null,
+            project.description ?? null,
+            project.createdAt.getTime(),
+            project.updatedAt.getTime()
+          );
+          ids.set(project.id, project.id);
+          summary.projects.added++;
+        }
+        continue;
+      }
+
+      ids.set(project.id, existing.id);
+      const changed = (['name', 'path', 'repository', 'description'] as const)
+        .some(key => existing[key] !== (key === 'name' ? name : project[key]));
+      // Keeping both copies only applies to memories; a project is never duplicated
+      const useImported = conflict === 'use-imported' || (conflict === 'newer' && project.updatedAt > existing.updatedAt);
+      if (changed && useImported) {
+        update.run(
+          namesake ? existing.name : name,
+          project.path ?? null,
+          project.repository ?? null,
+          project.description ?? null,
+          project.updatedAt.getTime(),
+          existing.id
+        );
+        summary.projects.updated++;
+      } else {
+        summary.projects.skipped++;
+      }
+    }
+
+    return ids;
+  }
+
+  private importTagColors(tags: VaultTag[], conflict: VaultImportConflict) {
+    for (const tag of tags) {
+      if (!tag.color) continue;
+      const existing = this.db.prepare('SELECT color FROM tags WHERE name = ?').get(tag.name) as { color: string | null } | undefined;
+      if (!existing) {
+        this.db.prepare('INSERT INTO tags (name, color, created_at) VALUES (?, ?, ?)').run(tag.name, tag.color, Date.now());
+      } else if (!existing.color || conflict === 'use-imported') {
+        this.db.prepare('UPDATE tags SET color = ? WHERE name = ?').run(tag.color, tag.name);
+      }
+    }
+  }
+
+  // Keeps the memory's exported history; a memory exported without one starts it here
+  private insertImportedMemory(memory: Memory, revisions: MemoryRevision[], summary: VaultImportSummary) {
+    this.db.prepare(`
+      INSERT INTO memories (id, title, content, type, tags, metadata, project_id, created_at, updated_at, deleted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      memory.id,
+      memory.title,
+      memory.content,
+      memory.type,
+      JSON.stringify(memory.tags),
+      JSON.stringify(memory.metadata),
+      memory.projectId ?? null,
+      memory.createdAt.getTime(),
+      memory.updatedAt.getTime(),
+      memory.deletedAt?.getTime() ?? null
+    );
+
+    const insertRevision = this.db.prepare(`
+      INSERT OR IGNORE INTO memory_revisions (memory_id, revision, title, content, type, tags, metadata, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const revision of revisions) {
+      summary.revisions += insertRevision.run(
+        memory.id,
+        revision.revision,
+        revision.title,
+        revision.content,
+        revision.type,
+        JSON.stringify(revision.tags),
+        JSON.stringify(revision.metadata),
+        revision.createdAt.getTime()
+      ).changes;
+    }
+    if (revisions.length === 0) {
+      this.insertRevision(memory);
+    }
+    this.syncTags(memory);
+  }
+
+  // The imported state becomes a new revision on top of the local history
+  private updateImportedMemory(memory: Memory) {
+    this.db.prepare(`
+      UPDATE memories
+      SET title = ?, content = ?, type = ?, tags = ?, metadata = ?, project_id = ?, updated_at = ?, deleted_at = ?
+      WHERE id = ?
+    `).run(
+      memory.title,
+      memory.content,
+      memory.type,
+      JSON.stringify(memory.tags),
+      JSON.stringify(memory.metadata),
+      memory.projectId ?? null,
+      memory.updatedAt.getTime(),
+      memory.deletedAt?.getTime() ?? null,
+      memory.id
+    );
+    this.insertRevision(memory);
+    this.syncTags(memory);
+  }
+
+  // Links whose ends were not imported are dropped; existing links are kept as they are
+  private importLinks(links: MemoryLink[], idMap: Map<string, string>): number {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO memory_links (id, source_id, target_id, type, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const idTaken = this.db.prepare('SELECT 1 FROM memory_links WHERE id = ?');
+
+    let imported = 0;
+    for (const link of links) {
+      const sourceId = idMap.get(link.sourceId);
+      const targetId = idMap.get(link.targetId);
+      if (!sourceId || !targetId || sourceId === targetId || !MEMORY_LINK_TYPES.includes(link.type)) continue;
+
+      const id = idTaken.get(link.id) ? uuidv4() : link.id;
+      imported += insert.run(id, sourceId, targetId, link.type, link.createdAt.getTime()).changes;
+    }
+    return imported;
+  }
+
+  async getMarkdownSyncConfig(): Promise<MarkdownSyncConfig | null> {
+    const row = this.db.prepare('SELECT * FROM markdown_sync WHERE id = 1').get() as MarkdownSyncRow | undefined;
+    if (!row) return null;
+    return {
+      folderPath: row.folder_path,
+      layout: row.layout,
+      filters: this.safeJsonParse(row.filters, {}),
+      ...(row.last_synced_at !== null ? { lastSyncedAt: new Date(row.last_synced_at) } : {}),
+    };
+  }
+
+  /**
+   * Sets or, with null, removes the vault's Markdown sync. Pointing it at
+   * another folder forgets what the notes of the old one agreed on.
+   */
+  async setMarkdownSyncConfig(config: Omit<MarkdownSyncConfig, 'lastSyncedAt'> | null): Promise<MarkdownSyncConfig | null> {
+    const existing = await this.getMarkdownSyncConfig();
+    this.db.transaction(() => {
+      if (!config || existing?.folderPath !== config.folderPath) {
+        this.db.prepare('DELETE FROM markdown_sync_files').run();
+      }
+      if (!config) {
+        this.db.prepare('DELETE FROM markdown_sync').run();
+        return;
+      }
+      this.db.prepare(`
+        INSERT INTO markdown_sync (id, folder_path, layout, filters, last_synced_at) VALUES (1, ?, ?, ?, NULL)
+        ON CONFLICT(id) DO UPDATE SET
+          folder_path = excluded.folder_path,
+          layout = excluded.layout,
+          filters = excluded.filters,
+          last_synced_at = CASE WHEN markdown_sync.folder_path = excluded.folder_path THEN markdown_sync.last_synced_at END
+      `).run(config.folderPath, config.layout, JSON.stringify(config.filters));
+    })();
+    return this.getMarkdownSyncConfig();
+  }
+
+  async setMarkdownSyncTime(syncedAt: Date): Promise<void> {
+    this.db.prepare('UPDATE markdown_sync SET last_synced_at = ? WHERE id = 1').run(syncedAt.getTime());
+  }
+
+  async getSyncedNotes(): Promise<SyncedNote[]> {
+    const rows = this.db.prepare('SELECT * FROM markdown_sync_files ORDER BY path').all() as SyncedNoteRow[];
+    return rows.map(row => ({
+      memoryId: row.memory_id,
+      path: row.path,
+      hash: row.hash,
+      memoryUpdatedAt: new Date(row.memory_updated_at),
+      ...(row.conflict ? { conflict: row.conflict } : {}),
+    }));
+  }
+
+  async saveSyncedNote(note: SyncedNote): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO markdown_sync_files (memory_id, path, hash, memory_updated_at, conflict)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(note.memoryId, note.path, note.hash, note.memoryUpdatedAt.getTime(), note.conflict ?? null);
+  }
+
+  async forgetSyncedNote(memoryId: string): Promise<void> {
+    this.db.prepare('DELETE FROM markdown_sync_files WHERE memory_id = ?').run(memoryId);
+  }
+
+  // Memories whose vector is due for an update, oldest change first; triggers fill the queue
+  async getDueIndexEntries(now: Date, limit: number): Promise<IndexQueueEntry[]> {
+    const rows = this.db.prepare(`
+      SELECT memory_id, generation, attempts FROM index_queue
+      WHERE next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+      ORDER BY next_attempt_at, enqueued_at
+      LIMIT ?
+    `).all(now.getTime(), limit) as Array<{ memory_id: string; generation: number; attempts: number }>;
+    return rows.map(row => ({ memoryId: row.memory_id, generation: row.generation, attempts: row.attempts }));
+  }
+
+  // When the worker next has something to do, or null if nothing is waiting
+  async getNextIndexAttempt(): Promise<Date | null> {
+    const row = this.db.prepare('SELECT MIN(next_attempt_at) AS next FROM index_queue').get() as { next: number | null };
+    return row.next === null ? null : new Date(row.next);
   }
 
-  async getRecentMemories(limit: number = 20): Promise<Memory[]> {
-    this.logger.debug('Getting recent memories', { limit });
+  /**
+   * Removes an entry the worker finished, unless the memory changed again
+   * meanwhile. Returns false if it did, so the entry stays for the next run.
+   */
+  async completeIndexEntry(entry: IndexQueueEntry): Promise<boolean> {
+    return this.db.prepare('DELETE FROM index_queue WHERE memory_id = ? AND generation = ?')
+      .run(entry.memoryId, entry.generation).changes > 0;
+  }
+
+  // A null `nextAttemptAt` parks the entry until retryFailedIndexEntries
+  async failIndexEntry(entry: IndexQueueEntry, error: string, nextAttemptAt: Date | null): Promise<void> {
+    this.db.prepare(`
+      UPDATE index_queue SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?
+      WHERE memory_id = ? AND generation = ?
+    `).run(error, nextAttemptAt?.getTime() ?? null, entry.memoryId, entry.generation);
+  }
+
+  async retryFailedIndexEntries(now: Date = new Date()): Promise<number> {
+    return this.db.prepare(`
+      UPDATE index_queue SET attempts = 0, last_error = NULL, next_attempt_at = ?
+      WHERE next_attempt_at IS NULL
+    `).run(now.getTime()).changes;
+  }
+
+  async getIndexQueueStatus(): Promise<IndexQueueStatus> {
+    const counts = this.db.prepare(`
+      SELECT COUNT(*) AS pending, COALESCE(SUM(attempts > 0), 0) AS retrying
+      FROM index_queue WHERE next_attempt_at IS NOT NULL
+    `).get() as { pending: number; retrying: number };
+    const failed = this.db.prepare(`
+      SELECT q.memory_id, q.attempts, q.enqueued_at, q.last_error, m.title
+      FROM index_queue q LEFT JOIN memories m ON m.id = q.memory_id
+      WHERE q.next_attempt_at IS NULL
+      ORDER BY q.enqueued_at
+    `).all() as Array<{ memory_id: string; attempts: number; enqueued_at: number; last_error: string | null; title: string | null }>;
+
+    return {
+      pending: counts.pending,
+      retrying: counts.retrying,
+      failed: failed.map(row => ({
+        memoryId: row.memory_id,
+        ...(row.title !== null ? { title: row.title } : {}),
+        attempts: row.attempts,
+        enqueuedAt: new Date(row.enqueued_at),
+        ...(row.last_error ? { lastError: row.last_error } : {}),
+      })),
+    };
+  }
+
+  async getRecentMemories(limit: number = 20, projectId?: string): Promise<Memory[]> {
+    this.logger.debug('Getting recent memories', { limit, projectId });
     
     try {
       const stmt = this.db.prepare(`
         SELECT * FROM memories 
+        WHERE deleted_at IS NULL ${projectId ? 'AND project_id = ?' : ''}
         ORDER BY updated_at DESC 
         LIMIT ?
       `);
 
-      const rows = stmt.all(limit) as any[];
+      const rows = stmt.all(...(projectId ? [projectId] : []), limit) as MemoryRow[];
       const results = rows.map(row => this.rowToMemory(row));
       
       this.logger.info('Retrieved recent memories', { 
@@ -266,10 +1830,11 @@ export class SQLiteManager {
     try {
       const stmt = this.db.prepare(`
         SELECT * FROM memories 
+        WHERE deleted_at IS NULL
         ORDER BY updated_at DESC
       `);
 
-      const rows = stmt.all() as any[];
+      const rows = stmt.all() as MemoryRow[];
       const results = rows.map(row => this.rowToMemory(row));
       
       this.logger.info('Retrieved all memories', { count: results.length });
@@ -283,8 +1848,8 @@ export class SQLiteManager {
 
   async getMemoryCount(): Promise<number> {
     try {
-      const stmt = this.db.prepare('SELECT COUNT(*) as count FROM memories');
-      const result = stmt.get() as any;
+      const stmt = this.db.prepare('SELECT COUNT(*) as count FROM memories WHERE deleted_at IS NULL');
+      const result = stmt.get() as { count: number };
       const count = result.count || 0;
       
       this.logger.debug('Memory count retrieved', { count });
@@ -295,7 +1860,7 @@ export class SQLiteManager {
     }
   }
 
-  private safeJsonParse(jsonString: string, fallback: any): any {
+  private safeJsonParse<T>(jsonString: string | null, fallback: T): T {
     try {
       return JSON.parse(jsonString || JSON.stringify(fallback));
     } catch (error) {
@@ -304,19 +1869,39 @@ export class SQLiteManager {
     }
   }
 
-  private rowToMemory(row: any): Memory {
+  private rowToMemory(row: MemoryRow): Memory {
     return {
       id: row.id,
       title: row.title,
       content: row.content,
-      type: row.type as MemoryType,
+      type: row.type,
       tags: this.safeJsonParse(row.tags, []),
       metadata: this.safeJsonParse(row.metadata, {}),
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
+      ...(row.deleted_at ? { deletedAt: new Date(row.deleted_at) } : {}),
+      ...(row.project_id ? { projectId: row.project_id } : {}),
     };
   }
 
+  private rowToProject(row: ProjectRow): Project {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.path ? { path: row.path } : {}),
+      ...(row.repository ? { repository: row.repository } : {}),
+      ...(row.description ? { description: row.description } : {}),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // SQLite's online backup copies a consistent snapshot while the database stays in use
+  async backup(destination: string): Promise<void> {
+    await this.db.backup(destination);
+    this.logger.info('Database backed up', { destination });
+  }
+
   close() {
     this.db.close();
   }
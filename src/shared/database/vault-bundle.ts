@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { MEMORY_LINK_TYPES, Memory, MemoryLink, MemoryRevision, MemoryType, Project, VaultImportSummary } from '../types';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const VAULT_BUNDLE_FORMAT = 'devmemory-vault';
+export const VAULT_BUNDLE_VERSION = 1;
+export const VAULT_BUNDLE_EXTENSION = 'devmemory';
+
+// Bundles are gzipped JSON; plain JSON is accepted too so a bundle can be edited by hand
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export interface VaultTag {
+  name: string;
+  color?: string;
+}
+
+/**
+ * Everything stored in a vault's database except saved searches. Wiki links
+ * and memory_tags are left out because they are rebuilt from the memories.
+ */
+export interface VaultData {
+  memories: Memory[]; // including the trash
+  tags: VaultTag[];
+  projects: Project[];
+  links: MemoryLink[];
+  revisions: MemoryRevision[];
+}
+
+export interface VaultImportResult {
+  summary: VaultImportSummary;
+  memories: Memory[]; // added, updated or copied, as stored
+  idMap: Map<string, string>; // memory id in the bundle -> id in the vault
+  removedIds: string[]; // memories a replace deleted
+}
+
+// A vector is only reused on import if the importing vault embeds with the same model
+export interface BundleEmbedding {
+  memoryId: string;
+  model: string;
+  embedding: number[];
+}
+
+export interface VaultBundle extends VaultData {
+  format: typeof VAULT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  vaultName?: string;
+  embeddings?: BundleEmbedding[];
+}
+
+export function createVaultBundle(
+  data: VaultData,
+  options: { vaultName?: string; embeddings?: BundleEmbedding[] } = {}
+): VaultBundle {
+  return {
+    format: VAULT_BUNDLE_FORMAT,
+    version: VAULT_BUNDLE_VERSION,
+    exportedAt: new Date(),
+    ...options,
+    ...data,
+  };
+}
+
+export async function writeVaultBundle(filePath: string, bundle: VaultBundle): Promise<void> {
+  const compressed = await gzip(Buffer.from(JSON.stringify(bundle), 'utf-8'));
+
+  // Write to a temporary file first so a failed export never leaves half a bundle
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, compressed);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+export async function readVaultBundle(filePath: string): Promise<VaultBundle> {
+  let buffer = await fs.promises.readFile(filePath);
+  if (GZIP_MAGIC.every((byte, index) => buffer[index] === byte)) {
+    buffer = await gunzip(buffer);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(buffer.toString('utf-8'));
+  } catch {
+    throw new Error('This file is not a DevMemory vault export');
+  }
+  return parseVaultBundle(parsed);
+}
+
+/**
+ * Checks a parsed bundle and turns its ISO date strings back into dates.
+ * Throws on anything the import could not store.
+ */
+export function parseVaultBundle(parsed: unknown): VaultBundle {
+  if (!isRecord(parsed) || parsed.format !== VAULT_BUNDLE_FORMAT) {
+    throw new Error('This file is not a DevMemory vault export');
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || version > VAULT_BUNDLE_VERSION) {
+    throw new Error(`This export was made by a newer version of DevMemory (format ${String(version)})`);
+  }
+
+  const memories = listOf(parsed.memories, 'memories').map((memory, index): Memory => {
+    const label = `memory ${index + 1}`;
+    requireStrings(memory, ['id', 'title', 'content', 'type'], label);
+    return {
+      id: memory.id,
+      title: memory.title,
+      content: memory.content,
+      type: toMemoryType(memory.type, label),
+      tags: toStrings(memory.tags),
+      metadata: isRecord(memory.metadata) ? memory.metadata : {},
+      createdAt: toDate(memory.createdAt),
+      updatedAt: toDate(memory.updatedAt),
+      ...(memory.deletedAt ? { deletedAt: toDate(memory.deletedAt) } : {}),
+      ...(typeof memory.projectId === 'string' ? { projectId: memory.projectId } : {}),
+    };
+  });
+
+  const projects = listOf(parsed.projects, 'projects').map((project, index): Project => {
+    requireStrings(project, ['id', 'name'], `project ${index + 1}`);
+    return {
+      id: project.id,
+      name: project.name,
+      ...(typeof project.path === 'string' ? { path: project.path } : {}),
+      ...(typeof project.repository === 'string' ? { repository: project.repository } : {}),
+      ...(typeof project.description === 'string' ? { description: project.description } : {}),
+      createdAt: toDate(project.createdAt),
+      updatedAt: toDate(project.updatedAt),
+    };
+  });
+
+  const links = listOf(parsed.links, 'links').map((link, index): MemoryLink => {
+    const label = `link ${index + 1}`;
+    requireStrings(link, ['id', 'sourceId', 'targetId', 'type'], label);
+    const type = MEMORY_LINK_TYPES.find(known => known === link.type);
+    if (!type) {
+      throw new Error(`The export is damaged: ${label} has an unknown type`);
+    }
+    return { id: link.id, sourceId: link.sourceId, targetId: link.targetId, type, createdAt: toDate(link.createdAt) };
+  });
+
+  const revisions = listOf(parsed.revisions, 'revisions').map((revision, index): MemoryRevision => {
+    const label = `revision ${index + 1}`;
+    requireStrings(revision, ['memoryId', 'title', 'content', 'type'], label);
+    if (typeof revision.revision !== 'number' || !Number.isInteger(revision.revision)) {
+      throw new Error(`The export is damaged: ${label} has no revision number`);
+    }
+    return {
+      memoryId: revision.memoryId,
+      revision: revision.revision,
+      title: revision.title,
+      content: revision.content,
+      type: toMemoryType(revision.type, label),
+      tags: toStrings(revision.tags),
+      metadata: isRecord(revision.metadata) ? revision.metadata : {},
+      createdAt: toDate(revision.createdAt),
+    };
+  });
+
+  const tags = listOf(parsed.tags, 'tags').flatMap((tag): VaultTag[] =>
+    isRecord(tag) && typeof tag.name === 'string'
+      ? [{ name: tag.name, ...(typeof tag.color === 'string' ? { color: tag.color } : {}) }]
+      : []
+  );
+
+  const embeddings = parsed.embeddings === undefined
+    ? undefined
+    : listOf(parsed.embeddings, 'embeddings').flatMap((vector): BundleEmbedding[] =>
+      isRecord(vector) && typeof vector.memoryId === 'string' && typeof vector.model === 'string' && isNumbers(vector.embedding)
+        ? [{ memoryId: vector.memoryId, model: vector.model, embedding: vector.embedding }]
+        : []
+    );
+
+  return {
+    format: VAULT_BUNDLE_FORMAT,
+    version,
+    exportedAt: toDate(parsed.exportedAt),
+    ...(typeof parsed.vaultName === 'string' ? { vaultName: parsed.vaultName } : {}),
+    memories,
+    tags,
+    projects,
+    links,
+    revisions,
+    ...(embeddings ? { embeddings } : {}),
+  };
+}
+
+// A JSON object, as opposed to an array, null or a scalar
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumbers(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'number');
+}
+
+// Sections missing from older or hand-written bundles are empty
+function listOf(value: unknown, section: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`The export is damaged: "${section}" is not a list`);
+  }
+  return value;
+}
+
+function requireStrings<K extends string>(
+  value: unknown,
+  keys: K[],
+  label: string
+): asserts value is Record<string, unknown> & Record<K, string> {
+  for (const key of keys) {
+    if (!isRecord(value) || typeof value[key] !== 'string') {
+      throw new Error(`The export is damaged: ${label} has no ${key}`);
+    }
+  }
+}
+
+function toMemoryType(value: string, label: string): MemoryType {
+  const type = Object.values(MemoryType).find(known => known === value);
+  if (!type) {
+    throw new Error(`The export is damaged: ${label} has an unknown type`);
+  }
+  return type;
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function toDate(value: unknown): Date {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : Date.now());
+  return isNaN(date.getTime()) ? new Date() : date;
+}
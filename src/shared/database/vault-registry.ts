@@ -0,0 +1,149 @@
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseLocation, Vault } from '../types';
+
+// The subset of electron-store the registry needs, so tests can pass a plain map
+export interface VaultStorage {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+}
+
+interface StoredVault {
+  id: string;
+  name: string;
+  sqlitePath: string;
+  vectorPath: string;
+  createdAt: number;
+}
+
+export const DEFAULT_VAULT_ID = 'default';
+
+const VAULTS_KEY = 'vaults';
+const ACTIVE_VAULT_KEY = 'activeVaultId';
+
+// Lowercase, dash-separated folder name; falls back for names without letters or digits
+const toFolderName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'vault';
+
+/**
+ * Named vaults, each with its own database files. The vault that existed
+ * before vaults were introduced keeps its files in the data directory; new
+ * vaults get a folder under `vaults/`.
+ */
+export class VaultRegistry {
+  constructor(private storage: VaultStorage, private dataDir: string) {}
+
+  list(): Vault[] {
+    return this.load().map(stored => this.toVault(stored));
+  }
+
+  get(id: string): Vault | null {
+    const stored = this.load().find(vault => vault.id === id);
+    return stored ? this.toVault(stored) : null;
+  }
+
+  // Falls back to the first vault if the stored choice was removed
+  getActive(): Vault {
+    const vaults = this.list();
+    return vaults.find(vault => vault.id === this.storage.get(ACTIVE_VAULT_KEY)) || vaults[0];
+  }
+
+  setActive(id: string): Vault {
+    const vault = this.get(id);
+    if (!vault) {
+      throw new Error('Vault not found');
+    }
+    this.storage.set(ACTIVE_VAULT_KEY, id);
+    return vault;
+  }
+
+  create(name: string): Vault {
+    const vaults = this.load();
+    const trimmed = this.validateName(vaults, name);
+
+    const folders = new Set(vaults.map(vault => path.dirname(vault.sqlitePath)));
+    const base = path.join(this.dataDir, 'vaults', toFolderName(trimmed));
+    let folder = base;
+    for (let suffix = 2; folders.has(folder); suffix++) {
+      folder = `${base}-${suffix}`;
+    }
+
+    const stored: StoredVault = {
+      id: uuidv4(),
+      name: trimmed,
+      sqlitePath: path.join(folder, 'devmemory.db'),
+      vectorPath: path.join(folder, 'vector-data.json'),
+      createdAt: Date.now(),
+    };
+    this.save([...vaults, stored]);
+    return this.toVault(stored);
+  }
+
+  rename(id: string, name: string): Vault | null {
+    const vaults = this.load();
+    const existing = vaults.find(vault => vault.id === id);
+    if (!existing) return null;
+
+    const renamed = { ...existing, name: this.validateName(vaults, name, id) };
+    this.save(vaults.map(vault => (vault.id === id ? renamed : vault)));
+    return this.toVault(renamed);
+  }
+
+  // Records where the vault's files were moved to
+  relocate(id: string, location: DatabaseLocation): Vault | null {
+    const vaults = this.load();
+    const existing = vaults.find(vault => vault.id === id);
+    if (!existing) return null;
+
+    const relocated = { ...existing, sqlitePath: location.sqlitePath, vectorPath: location.vectorPath };
+    this.save(vaults.map(vault => (vault.id === id ? relocated : vault)));
+    return this.toVault(relocated);
+  }
+
+  // Only forgets the vault; its files stay on disk so it can be added back
+  remove(id: string): boolean {
+    const vaults = this.load();
+    if (!vaults.some(vault => vault.id === id)) return false;
+    if (this.getActive().id === id) {
+      throw new Error('Switch to another vault before removing this one');
+    }
+
+    this.save(vaults.filter(vault => vault.id !== id));
+    return true;
+  }
+
+  private load(): StoredVault[] {
+    const stored = this.storage.get(VAULTS_KEY);
+    if (Array.isArray(stored) && stored.length > 0) {
+      return stored as StoredVault[];
+    }
+
+    // Installs from before vaults keep using their existing files
+    return [{
+      id: DEFAULT_VAULT_ID,
+      name: 'Default',
+      sqlitePath: path.join(this.dataDir, 'devmemory.db'),
+      vectorPath: path.join(this.dataDir, 'vector-data.json'),
+      createdAt: 0,
+    }];
+  }
+
+  private save(vaults: StoredVault[]): void {
+    this.storage.set(VAULTS_KEY, vaults);
+  }
+
+  private validateName(vaults: StoredVault[], name: string, id?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Vault name cannot be empty');
+    }
+    if (vaults.some(vault => vault.id !== id && vault.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A vault named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private toVault(stored: StoredVault): Vault {
+    return { ...stored, createdAt: new Date(stored.createdAt) };
+  }
+}
@@ -0,0 +1,275 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { createLogger } from '../utils/logger';
+import { isSQLiteFile } from './relocation';
+import { HnswChanges, HnswNode } from './hnsw';
+import { VectorDocument } from './vector-store';
+
+const logger = createLogger('VectorStorage');
+
+const SCHEMA_VERSION = 3;
+
+// The JSON file a conversion replaced, kept next to the store
+export const LEGACY_BACKUP_SUFFIX = '.v1.bak';
+
+// A chunk of a document, joined with the document's own columns
+interface ChunkRow {
+  id: string;
+  content: string;
+  content_hash: string | null;
+  model: string | null;
+  metadata: string;
+  start_offset: number;
+  end_offset: number;
+  embedding: Buffer;
+}
+
+// A document as older versions stored it, with one embedding of its whole text
+type LegacyDocument = Omit<VectorDocument, 'chunks'> & { embedding: number[] };
+
+interface NodeRow {
+  id: string;
+  level: number;
+  neighbors: string;
+}
+
+// Float32 in the machine's byte order, which is little-endian everywhere Electron runs
+function encodeEmbedding(embedding: number[]): Buffer {
+  const floats = Float32Array.from(embedding);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+function decodeEmbedding(blob: Buffer): number[] {
+  // Copied first: a Buffer may start at an offset a Float32Array cannot view
+  return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+}
+
+// The documents of a vector-data.json, which older versions wrote as a bare array or as { embeddings: [] }
+function readLegacyDocuments(file: string): VectorDocument[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const documents: LegacyDocument[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.embeddings) ? parsed.embeddings : [];
+    return documents
+      .filter(document => document?.id && Array.isArray(document.embedding) && document.metadata)
+      .map(({ embedding, ...document }) => ({ ...document, chunks: [{ start: 0, end: 0, embedding }] }));
+  } catch (error) {
+    logger.warn('The old vector file could not be read; starting an empty store', { file, error });
+    return [];
+  }
+}
+
+function writeDocument(db: Database.Database, document: VectorDocument): void {
+  db.prepare(`
+    INSERT INTO documents (id, content, content_hash, model, metadata)
+    VALUES (@id, @content, @contentHash, @model, @metadata)
+    ON CONFLICT(id) DO UPDATE SET
+      content = excluded.content,
+      content_hash = excluded.content_hash,
+      model = excluded.model,
+      metadata = excluded.metadata
+  `).run({
+    id: document.id,
+    content: document.content,
+    contentHash: document.contentHash ?? null,
+    model: document.model ?? null,
+    metadata: JSON.stringify(document.metadata),
+  });
+
+  db.prepare('DELETE FROM chunks WHERE document_id = ?').run(document.id);
+  const insert = db.prepare(`
+    INSERT INTO chunks (document_id, position, start_offset, end_offset, dimensions, embedding)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  document.chunks.forEach((chunk, position) => {
+    insert.run(document.id, position, chunk.start, chunk.end, chunk.embedding.length, encodeEmbedding(chunk.embedding));
+  });
+}
+
+// Stores from before chunking held one embedding per document, which becomes its only chunk
+function migrateWholeDocuments(db: Database.Database): void {
+  db.exec(`
+    INSERT INTO documents (id, content, content_hash, model, metadata)
+      SELECT id, content, NULL, model, metadata FROM vectors;
+    INSERT INTO chunks (document_id, position, start_offset, end_offset, dimensions, embedding)
+      SELECT id, 0, 0, 0, dimensions, embedding FROM vectors;
+    DROP TABLE vectors;
+  `);
+  logger.info('Moved the vector store to chunked documents', { file: db.name });
+}
+
+/**
+ * Persists vector documents in a SQLite file of their own, one row per
+ * document and one per chunk of it with the embedding as a Float32 blob,
+ * next to the nodes of the search index. Every change is written as it
+ * happens instead of rewriting the whole store.
+ *
+ * The file keeps the path it was registered with, so a vault's
+ * `vector-data.json` converts in place the first time it is opened. The name
+ * stays because vault records, custom locations and backups all refer to it,
+ * so it now names a SQLite database despite the `.json` extension.
+ */
+export class VectorStorage {
+  private db: Database.Database;
+
+  constructor(private filePath: string) {
+    if (fs.existsSync(filePath) && !isSQLiteFile(filePath)) {
+      this.convertLegacyFile();
+    }
+    this.db = this.open(filePath);
+  }
+
+  // One at a time, so a large store is never decoded all at once
+  *loadAll(): Generator<VectorDocument> {
+    const rows = this.db.prepare(`
+      SELECT d.id, d.content, d.content_hash, d.model, d.metadata, c.start_offset, c.end_offset, c.embedding
+      FROM documents d JOIN chunks c ON c.document_id = d.id
+      ORDER BY d.id, c.position
+    `).iterate() as IterableIterator<ChunkRow>;
+
+    // Rows come grouped by document, so each is complete when the next begins
+    let document: VectorDocument | undefined;
+    for (const row of rows) {
+      if (document && document.id !== row.id) {
+        yield document;
+        document = undefined;
+      }
+      document ??= {
+        id: row.id,
+        content: row.content,
+        ...(row.content_hash ? { contentHash: row.content_hash } : {}),
+        chunks: [],
+        ...(row.model ? { model: row.model } : {}),
+        metadata: JSON.parse(row.metadata),
+      };
+      document.chunks.push({ start: row.start_offset, end: row.end_offset, embedding: decodeEmbedding(row.embedding) });
+    }
+    if (document) yield document;
+  }
+
+  // Full-precision embeddings of each chunk in order, by document id, of the given documents or of all
+  loadEmbeddings(ids?: string[]): Map<string, number[][]> {
+    const rows = (ids
+      ? this.db.prepare(`
+          SELECT document_id, embedding FROM chunks
+          WHERE document_id IN (SELECT value FROM json_each(?)) ORDER BY document_id, position
+        `).all(JSON.stringify(ids))
+      : this.db.prepare('SELECT document_id, embedding FROM chunks ORDER BY document_id, position').all()
+    ) as Array<{ document_id: string; embedding: Buffer }>;
+
+    const embeddings = new Map<string, number[][]>();
+    for (const row of rows) {
+      if (!embeddings.has(row.document_id)) {
+        embeddings.set(row.document_id, []);
+      }
+      embeddings.get(row.document_id)!.push(decodeEmbedding(row.embedding));
+    }
+    return embeddings;
+  }
+
+  put(document: VectorDocument): void {
+    writeDocument(this.db, document);
+  }
+
+  // Rewrites only the details of a document whose embedding is unchanged
+  putMetadata(id: string, metadata: VectorDocument['metadata']): void {
+    this.db.prepare('UPDATE documents SET metadata = ? WHERE id = ?').run(JSON.stringify(metadata), id);
+  }
+
+  delete(id: string): void {
+    this.db.prepare('DELETE FROM chunks WHERE document_id = ?').run(id);
+    this.db.prepare('DELETE FROM documents WHERE id = ?').run(id);
+  }
+
+  // The saved nodes of the search index, by chunk id
+  loadNodes(): Map<string, HnswNode> {
+    const rows = this.db.prepare('SELECT id, level, neighbors FROM index_nodes').all() as NodeRow[];
+    return new Map(rows.map(row => [row.id, { level: row.level, neighbors: JSON.parse(row.neighbors) }]));
+  }
+
+  putNodes(changes: HnswChanges): void {
+    const remove = this.db.prepare('DELETE FROM index_nodes WHERE id = ?');
+    for (const id of changes.removed) {
+      remove.run(id);
+    }
+
+    const put = this.db.prepare(`
+      INSERT INTO index_nodes (id, level, neighbors) VALUES (?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET level = excluded.level, neighbors = excluded.neighbors
+    `);
+    for (const { id, node } of changes.updated) {
+      put.run(id, node.level, JSON.stringify(node.neighbors));
+    }
+  }
+
+  // Runs `fn` in one transaction, so a document and its index nodes are written together
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM documents; DELETE FROM chunks; DELETE FROM index_nodes;');
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private open(file: string): Database.Database {
+    const db = new Database(file);
+    // A single file, so copying it for a backup or a move takes everything
+    db.pragma('journal_mode = DELETE');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS documents (
+          id TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          content_hash TEXT,
+          model TEXT,
+          metadata TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS chunks (
+          document_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          start_offset INTEGER NOT NULL,
+          end_offset INTEGER NOT NULL,
+          dimensions INTEGER NOT NULL,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (document_id, position)
+        );
+
+        CREATE TABLE IF NOT EXISTS index_nodes (
+          id TEXT PRIMARY KEY,
+          level INTEGER NOT NULL,
+          neighbors TEXT NOT NULL
+        );
+      `);
+      if (db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'vectors'").get()) {
+        migrateWholeDocuments(db);
+      }
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+    return db;
+  }
+
+  /**
+   * Converts a JSON vector file into a new store, built beside it and
+   * swapped in once complete. The JSON file is kept as a backup.
+   */
+  private convertLegacyFile(): void {
+    const documents = readLegacyDocuments(this.filePath);
+    const partial = `${this.filePath}.tmp`;
+    fs.rmSync(partial, { force: true });
+
+    const db = this.open(partial);
+    try {
+      db.transaction(() => documents.forEach(document => writeDocument(db, document)))();
+    } finally {
+      db.close();
+    }
+
+    fs.renameSync(this.filePath, `${this.filePath}${LEGACY_BACKUP_SUFFIX}`);
+    fs.renameSync(partial, this.filePath);
+    logger.info('Converted the vector file to SQLite', { file: this.filePath, documents: documents.length });
+  }
+}
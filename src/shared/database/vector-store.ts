@@ -1,12 +1,27 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Memory } from '../types';
-import { BedrockEmbeddingFunction } from './bedrock-embeddings';
+import { Memory, SearchFilters, VectorQuantization } from '../types';
+import { BedrockEmbeddingFunction, FALLBACK_EMBEDDING_MODEL_ID } from './bedrock-embeddings';
+import { chunkMemory, MemoryChunk } from '../utils/chunking';
+import { getMetadataFilters } from '../utils/search-filters';
+import { isTagInSubtree } from '../utils/tag-hierarchy';
+import { HNSW_EF_SEARCH, HnswIndex, HnswNode } from './hnsw';
+import { StoredVector, encodeVector, vectorSimilarity } from './quantization';
+import { VectorStorage } from './vector-storage';
+
+export interface VectorChunk {
+  start: number; // where the chunk sits in the memory's content
+  end: number;
+  embedding: number[];
+}
 
 export interface VectorDocument {
   id: string;
   content: string;
-  embedding: number[];
+  contentHash?: string; // of the chunk texts; missing for documents embedded whole before chunking
+  chunks: VectorChunk[];
+  model?: string; // missing for documents indexed before the model was recorded
   metadata: {
     title: string;
     type: string;
@@ -17,24 +32,76 @@ export interface VectorDocument {
   };
 }
 
+// A document as held in memory; its chunk vectors are in the index, or in `unindexed` until added
+type LoadedDocument = Omit<VectorDocument, 'contentHash' | 'chunks'> & {
+  contentHash: string;
+  chunks: Array<Omit<VectorChunk, 'embedding'>>;
+};
+
+// The best-matching chunk of a memory
+interface MemoryHit {
+  memoryId: string;
+  position: number;
+  similarity: number;
+}
+
+// What the consistency check compares with the database, without the embedding
+export interface IndexedDocument {
+  memoryId: string;
+  contentHash: string;
+  deleted: boolean;
+  projectId?: string;
+}
+
+export interface VectorStoreOptions {
+  // Collections smaller than this are searched exactly instead of through the index
+  exactSearchLimit?: number;
+  quantization?: VectorQuantization;
+}
+
+// Large enough that exact search is still quick
+const EXACT_SEARCH_LIMIT = 1000;
+
+// Documents added to the index between yields while it catches up after loading
+const INDEX_BATCH_SIZE = 50;
+
+// Quantized searches re-rank this many candidates per result with the full vectors
+const RERANK_FACTOR = 4;
+
+// Chunks of one memory tend to rank together, so the index is asked for more chunks than memories wanted
+const CHUNK_SEARCH_FACTOR = 3;
+
+const CHUNK_SEPARATOR = '#';
+
 export interface SearchResult {
   memoryId: string;
   similarity: number;
   metadata: any;
+  chunk?: { start: number; end: number }; // the best-matching part of a memory embedded in chunks
 }
 
 export class VectorStore {
-  private documents: Map<string, VectorDocument> = new Map();
+  private documents: Map<string, LoadedDocument> = new Map();
   private embeddingFunction: BedrockEmbeddingFunction;
   private storePath: string;
+  private storage: VectorStorage | null = null;
+  // One index per embedding size, since vectors of different models cannot be compared; keyed by chunk id
+  private indexes: Map<number, HnswIndex> = new Map();
+  // Chunk vectors of loaded documents the index does not cover yet
+  private unindexed: Map<string, StoredVector> = new Map();
+  private indexing: Promise<void> | null = null;
+  private exactSearchLimit: number;
+  private quantization: VectorQuantization;
   private isLoaded = false;
   private cache: Map<string, SearchResult[]> = new Map();
   private cacheTTL = 5 * 60 * 1000; // 5 minutes
   private lastCacheCleanup = Date.now();
-  private saveTimeout: NodeJS.Timeout | null = null;
+  private modelId = FALLBACK_EMBEDDING_MODEL_ID;
 
-  constructor(dataPath?: string) {
+  constructor(dataPath?: string, options: VectorStoreOptions = {}) {
     this.storePath = dataPath || path.join(process.cwd(), 'vector-data.json');
+    this.exactSearchLimit = options.exactSearchLimit ?? EXACT_SEARCH_LIMIT;
+    this.quantization = options.quantization ?? 'none';
     this.embeddingFunction = new BedrockEmbeddingFunction();
   }
 
@@ -45,6 +112,7 @@ export class VectorStore {
       // Test Bedrock connection
       const hasBedrockAccess = await this.embeddingFunction.testConnection();
       if (hasBedrockAccess) {
+        this.modelId = this.embeddingFunction.getModelId();
         console.log('✓ AWS Bedrock embeddings available');
       } else {
         console.log('⚠ Using fallback embeddings (Bedrock not available)');
@@ -67,29 +135,20 @@ export class VectorStore {
     }
 
     try {
-      const content = `${memory.title}\n\n${memory.content}\n\nTags: ${memory.tags.join(', ')}`;
-      
-      // Generate embedding
-      const embeddings = await this.embeddingFunction.generate([content]);
-      const embedding = embeddings[0];
-
-      const document: VectorDocument = {
-        id: memory.id,
-        content,
-        embedding,
-        metadata: {
-          title: memory.title,
-          type: memory.type,
-          tags: memory.tags,
-          createdAt: memory.createdAt.toISOString(),
-          updatedAt: memory.updatedAt.toISOString(),
-          ...memory.metadata,
-        },
-      };
-
-      this.documents.set(memory.id, document);
-      this.invalidateCache();
-      this.debouncedSave();
+      const chunks = chunkMemory(memory);
+
+      // One embedding per chunk, all from the same model so they can be compared
+      const embeddings: number[][] = [];
+      let model: string | undefined;
+      for (const chunk of chunks) {
+        const result = await this.embeddingFunction.embed(chunk.text);
+        if (model && result.model !== model) {
+          throw new Error(`Chunks of memory ${memory.id} were embedded by different models`);
+        }
+        model = result.model;
+        embeddings.push(result.embedding);
+      }
+      this.saveDocument(this.toDocument(memory, chunks, model), embeddings);
       
       console.log(`Added memory ${memory.id} to vector store`);
     } catch (error) {
@@ -98,6 +157,58 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Stores a memory with an embedding made elsewhere, such as one carried in a
+   * vault export, instead of generating a new one. Only memories embedded
+   * whole can take one; longer ones are left for the index worker to chunk.
+   */
+  async addMemoryWithEmbedding(memory: Memory, embedding: number[], model: string): Promise<void> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    const chunks = chunkMemory(memory);
+    if (chunks.length === 1) {
+      this.saveDocument(this.toDocument(memory, chunks, model), [embedding]);
+    }
+  }
+
+  // Embeddings of memories embedded whole whose model is known, for exporting the vault
+  async getEmbeddings(): Promise<Array<{ memoryId: string; model: string; embedding: number[] }>> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    // Read from disk, where they are kept at full precision
+    const embeddings = this.storage!.loadEmbeddings();
+    return Array.from(this.documents.values())
+      .filter(document => document.model && document.chunks.length === 1 && embeddings.has(document.id))
+      .map(document => ({ memoryId: document.id, model: document.model!, embedding: embeddings.get(document.id)![0] }));
+  }
+
+  async getIndexedDocuments(): Promise<IndexedDocument[]> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    return Array.from(this.documents.values(), document => ({
+      memoryId: document.id,
+      contentHash: document.contentHash,
+      deleted: !!document.metadata.deletedAt,
+      ...(document.metadata.projectId ? { projectId: document.metadata.projectId } : {}),
+    }));
+  }
+
+  // Hash of the text a memory is embedded from; a changed hash means a stale embedding
+  getContentHash(memory: Memory): string {
+    return hashChunks(chunkMemory(memory));
+  }
+
+  // The model new embeddings come from, which is the fallback while Bedrock is unavailable
+  getModelId(): string {
+    return this.modelId;
+  }
+
   async updateMemory(memory: Memory): Promise<void> {
     if (!this.isLoaded) {
       await this.initialize();
@@ -108,25 +219,92 @@ export class VectorStore {
     console.log(`Updated memory ${memory.id} in vector store`);
   }
 
+  /**
+   * Brings a memory's document up to date, reusing its embedding when the
+   * text it was made from is unchanged. Returns whether a new embedding was made.
+   */
+  async indexMemory(memory: Memory): Promise<boolean> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    const existing = this.documents.get(memory.id);
+    const chunks = chunkMemory(memory);
+    if (!existing || existing.contentHash !== hashChunks(chunks)) {
+      await this.addMemory(memory);
+      return true;
+    }
+
+    const document = this.toDocument(memory, chunks, existing.model);
+    this.storage!.putMetadata(memory.id, document.metadata);
+    this.documents.set(memory.id, document);
+    this.invalidateCache();
+    return false;
+  }
+
   async deleteMemory(memoryId: string): Promise<void> {
     if (!this.isLoaded) {
       await this.initialize();
     }
 
     try {
+      const document = this.documents.get(memoryId);
+      this.storage!.transaction(() => {
+        this.storage!.delete(memoryId);
+        this.removeFromIndex(document ? this.chunkIds(document) : [memoryId]);
+      });
       this.documents.delete(memoryId);
       this.invalidateCache();
-      this.debouncedSave();
       console.log(`Deleted memory ${memoryId} from vector store`);
     } catch (error) {
       console.warn('Failed to delete memory from vector store:', error);
     }
   }
 
+  /**
+   * Marks a document as trashed (or restores it) without dropping its
+   * embedding, so restoring a memory does not need a new embedding call.
+   */
+  async setDeleted(memoryId: string, deletedAt: Date | null): Promise<void> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    const document = this.documents.get(memoryId);
+    if (!document) return;
+
+    if (deletedAt) {
+      document.metadata.deletedAt = deletedAt.toISOString();
+    } else {
+      delete document.metadata.deletedAt;
+    }
+    this.storage!.putMetadata(memoryId, document.metadata);
+    this.invalidateCache();
+  }
+
+  // Projects are assigned without re-embedding when the registry changes
+  async setProject(memoryId: string, projectId: string | null): Promise<void> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    const document = this.documents.get(memoryId);
+    if (!document || (document.metadata.projectId ?? null) === projectId) return;
+
+    if (projectId) {
+      document.metadata.projectId = projectId;
+    } else {
+      delete document.metadata.projectId;
+    }
+    this.storage!.putMetadata(memoryId, document.metadata);
+    this.invalidateCache();
+  }
+
   async searchSimilar(
     query: string,
     limit: number = 10,
-    threshold: number = 0.5
+    threshold: number = 0.5,
+    filters: SearchFilters = {}
   ): Promise<SearchResult[]> {
     if (!this.isLoaded) {
       await this.initialize();
@@ -134,7 +312,7 @@ export class VectorStore {
 
     try {
       // Check cache first
-      const cacheKey = `${query}-${limit}-${threshold}`;
+      const cacheKey = `${query}-${limit}-${threshold}-${JSON.stringify(filters)}`;
       if (this.cache.has(cacheKey)) {
         return this.cache.get(cacheKey)!;
       }
@@ -148,25 +326,22 @@ export class VectorStore {
       const queryEmbeddings = await this.embeddingFunction.generate([query]);
       const queryEmbedding = queryEmbeddings[0];
 
-      const results: SearchResult[] = [];
-
-      // Calculate similarity with all documents - optimized loop
-      for (const [id, document] of this.documents) {
-        const similarity = this.calculateCosineSimilarity(queryEmbedding, document.embedding);
-        
-        if (similarity >= threshold) {
-          results.push({
-            memoryId: id,
-            similarity,
-            metadata: document.metadata,
-          });
-        }
+      // Quantized similarities are close but not exact, so more candidates are checked again
+      const rerank = this.quantization !== 'none';
+      const candidates = rerank ? limit * RERANK_FACTOR : limit;
+      let hits = this.canUseIndex()
+        ? this.searchIndex(queryEmbedding, candidates, filters)
+        : this.searchExact(queryEmbedding, candidates, filters);
+      if (rerank) {
+        hits = this.rerank(queryEmbedding, hits);
       }
 
       // Sort by similarity (highest first) and limit results
-      const sortedResults = results
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      const sortedResults = hits
+        .filter(hit => hit.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity || a.memoryId.localeCompare(b.memoryId))
+        .slice(0, limit)
+        .map(hit => this.toSearchResult(hit));
 
       // Cache the results
       this.cache.set(cacheKey, sortedResults);
@@ -178,23 +353,338 @@ export class VectorStore {
     }
   }
 
-  async getCollectionInfo(): Promise<{count: number, name: string}> {
+  // Exact results are cheap enough below the limit, and the index must cover every document
+  private canUseIndex(): boolean {
+    return this.documents.size >= this.exactSearchLimit && this.unindexed.size === 0;
+  }
+
+  private toSearchResult(hit: MemoryHit): SearchResult {
+    const { metadata, chunks } = this.documents.get(hit.memoryId)!;
+    const { start, end } = chunks[hit.position];
+    return {
+      memoryId: hit.memoryId,
+      similarity: hit.similarity,
+      metadata,
+      ...(chunks.length > 1 ? { chunk: { start, end } } : {}),
+    };
+  }
+
+  // The `k` documents most similar to the query, comparing it with every chunk of each
+  private searchExact(queryEmbedding: number[], k: number, filters: SearchFilters): MemoryHit[] {
+    const query = encodeVector(queryEmbedding, 'none');
+    const hits: MemoryHit[] = [];
+
+    for (const [memoryId, document] of this.documents) {
+      // Pre-filter on metadata so filtered-out documents never take a result slot
+      if (!this.matchesFilters(document, filters)) {
+        continue;
+      }
+
+      // A document scores as its best chunk
+      const chunkHits: MemoryHit[] = [];
+      this.chunkIds(document).forEach((id, position) => {
+        const vector = this.getVector(id);
+        if (vector) {
+          chunkHits.push({ memoryId, position, similarity: vectorSimilarity(query, vector) });
+        }
+      });
+      hits.push(...bestPerMemory(chunkHits));
+    }
+    return hits.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+
+  private searchIndex(queryEmbedding: number[], k: number, filters: SearchFilters): MemoryHit[] {
+    const index = this.indexes.get(queryEmbedding.length);
+    if (!index) return [];
+
+    // Filtered-out documents are walked through but never take a result slot
+    const accept = (id: string) => {
+      const document = this.documents.get(this.parseChunkId(id).memoryId);
+      return !!document && this.matchesFilters(document, filters);
+    };
+    const chunkHits = index.search(queryEmbedding, k * CHUNK_SEARCH_FACTOR, {
+      ef: Math.max(HNSW_EF_SEARCH, k * CHUNK_SEARCH_FACTOR),
+      accept,
+    });
+    return bestPerMemory(chunkHits.map(hit => ({ ...this.parseChunkId(hit.id), similarity: hit.similarity }))).slice(0, k);
+  }
+
+  // Scores the candidates again with the full-precision embeddings of all their chunks from disk
+  private rerank(queryEmbedding: number[], hits: MemoryHit[]): MemoryHit[] {
+    const embeddings = this.storage!.loadEmbeddings(hits.map(hit => hit.memoryId));
+    return bestPerMemory(hits.flatMap(hit => {
+      const chunks = embeddings.get(hit.memoryId);
+      return chunks
+        ? chunks.map((embedding, position) => ({
+            memoryId: hit.memoryId,
+            position,
+            similarity: this.calculateCosineSimilarity(queryEmbedding, embedding),
+          }))
+        : [hit];
+    }));
+  }
+
+  // Index ids of a document's chunks; the first goes by the memory id, as whole documents always have
+  private chunkIds(document: Pick<LoadedDocument, 'id' | 'chunks'>): string[] {
+    return document.chunks.map((_, position) => position === 0 ? document.id : `${document.id}${CHUNK_SEPARATOR}${position}`);
+  }
+
+  private parseChunkId(id: string): { memoryId: string; position: number } {
+    const separator = id.lastIndexOf(CHUNK_SEPARATOR);
+    if (this.documents.has(id) || separator < 0) {
+      return { memoryId: id, position: 0 };
+    }
+    return { memoryId: id.slice(0, separator), position: Number(id.slice(separator + 1)) };
+  }
+
+  private getVector(id: string): StoredVector | undefined {
+    for (const index of this.indexes.values()) {
+      const vector = index.getVector(id);
+      if (vector) return vector;
+    }
+    return this.unindexed.get(id);
+  }
+
+  /**
+   * Switches how vectors are held in memory. An open store encodes its
+   * vectors again from the embeddings on disk; the saved graph still fits.
+   */
+  async setQuantization(quantization: VectorQuantization): Promise<void> {
+    if (quantization === this.quantization) return;
+
+    this.quantization = quantization;
+    if (this.isLoaded && this.storage) {
+      const vectors = new Map<string, StoredVector>();
+      for (const [memoryId, embeddings] of this.storage.loadEmbeddings()) {
+        const document = this.documents.get(memoryId);
+        if (!document) continue;
+        this.chunkIds(document).forEach((id, position) => vectors.set(id, encodeVector(embeddings[position], quantization)));
+      }
+      this.loadIndexes(vectors);
+      this.invalidateCache();
+    }
+  }
+
+  async getCollectionInfo(): Promise<{count: number, name: string, vectorBytes: number}> {
     if (!this.isLoaded) {
       await this.initialize();
     }
 
+    // What the vectors held for search take up; the full embeddings stay on disk
+    let vectorBytes = 0;
+    for (const document of this.documents.values()) {
+      for (const id of this.chunkIds(document)) {
+        vectorBytes += this.getVector(id)?.values.byteLength ?? 0;
+      }
+    }
+
     return {
       count: this.documents.size,
       name: 'local-vector-store',
+      vectorBytes,
     };
   }
 
   async resetCollection(): Promise<void> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    this.storage!.clear();
     this.documents.clear();
-    await this.saveToDisk();
+    this.indexes.clear();
+    this.unindexed.clear();
+    this.invalidateCache();
     console.log('Reset vector store');
   }
 
+  private toContent(memory: Memory): string {
+    return `${memory.title}\n\n${memory.content}\n\nTags: ${memory.tags.join(', ')}`;
+  }
+
+  private toDocument(memory: Memory, chunks: MemoryChunk[], model: string | undefined): LoadedDocument {
+    return {
+      id: memory.id,
+      content: this.toContent(memory),
+      contentHash: hashChunks(chunks),
+      chunks: chunks.map(({ start, end }) => ({ start, end })),
+      ...(model ? { model } : {}),
+      metadata: {
+        title: memory.title,
+        type: memory.type,
+        tags: memory.tags,
+        createdAt: memory.createdAt.toISOString(),
+        updatedAt: memory.updatedAt.toISOString(),
+        ...memory.metadata,
+        // Retagging rewrites trashed memories too; they must stay hidden
+        ...(memory.deletedAt ? { deletedAt: memory.deletedAt.toISOString() } : {}),
+        ...(memory.projectId ? { projectId: memory.projectId } : {}),
+      },
+    };
+  }
+
+  // Writes the document, its chunks and the index nodes they changed in one transaction
+  private saveDocument(document: LoadedDocument, embeddings: number[][]): void {
+    const ids = this.chunkIds(document);
+    const previous = this.documents.get(document.id);
+    this.storage!.transaction(() => {
+      this.storage!.put({ ...document, chunks: document.chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })) });
+      // Chunks the memory no longer has
+      this.removeFromIndex(previous ? this.chunkIds(previous).slice(ids.length) : []);
+      ids.forEach((id, i) => this.addToIndex(id, encodeVector(embeddings[i], this.quantization)));
+    });
+    this.documents.set(document.id, document);
+    this.invalidateCache();
+  }
+
+  private addToIndex(id: string, vector: StoredVector): void {
+    const dimensions = vector.values.length;
+    for (const index of this.indexes.values()) {
+      if (index.dimensions !== dimensions && index.has(id)) {
+        index.remove(id);
+        this.storage!.putNodes(index.takeChanges());
+      }
+    }
+
+    let index = this.indexes.get(dimensions);
+    if (!index) {
+      index = new HnswIndex(dimensions);
+      this.indexes.set(dimensions, index);
+    }
+    index.add(id, vector);
+    this.storage!.putNodes(index.takeChanges());
+    this.unindexed.delete(id);
+  }
+
+  private removeFromIndex(ids: string[]): void {
+    for (const id of ids) {
+      for (const index of this.indexes.values()) {
+        if (index.has(id)) {
+          index.remove(id);
+          this.storage!.putNodes(index.takeChanges());
+        }
+      }
+      this.unindexed.delete(id);
+    }
+  }
+
+  /**
+   * Restores the index from its saved nodes. Documents without a node, such
+   * as those converted from an older file, are added in the background;
+   * until then searches stay exact.
+   */
+  private loadIndexes(vectors: Map<string, StoredVector>): void {
+    const nodes = this.storage!.loadNodes();
+    const entries = new Map<number, Array<{ id: string; vector: StoredVector; node: HnswNode }>>();
+    this.unindexed.clear();
+    for (const [id, vector] of vectors) {
+      const node = nodes.get(id);
+      if (!node) {
+        this.unindexed.set(id, vector);
+        continue;
+      }
+      const dimensions = vector.values.length;
+      if (!entries.has(dimensions)) {
+        entries.set(dimensions, []);
+      }
+      entries.get(dimensions)!.push({ id, vector, node });
+    }
+
+    this.indexes = new Map(Array.from(entries, ([dimensions, group]) => [dimensions, HnswIndex.restore(dimensions, group)]));
+    const orphaned = Array.from(nodes.keys()).filter(id => !vectors.has(id));
+    this.storage!.transaction(() => {
+      this.storage!.putNodes({ updated: [], removed: orphaned });
+      for (const index of this.indexes.values()) {
+        this.storage!.putNodes(index.takeChanges());
+      }
+    });
+
+    // A run already under way picks up the new entries
+    if (this.unindexed.size > 0 && !this.indexing) {
+      this.indexing = this.catchUpIndex().finally(() => {
+        this.indexing = null;
+      });
+    }
+  }
+
+  // Yields between batches so the app stays responsive while a large vault is indexed
+  private async catchUpIndex(): Promise<void> {
+    console.log(`Indexing ${this.unindexed.size} chunks for vector search`);
+    while (this.storage && this.unindexed.size > 0) {
+      const storage = this.storage;
+      const batch = Array.from(this.unindexed).slice(0, INDEX_BATCH_SIZE);
+      try {
+        storage.transaction(() => batch.forEach(([id, vector]) => this.addToIndex(id, vector)));
+      } catch (error) {
+        console.error('Failed to index vector store:', error);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  private matchesFilters(document: LoadedDocument, filters: SearchFilters): boolean {
+    const { metadata } = document;
+    const tags: string[] = metadata.tags || [];
+
+    if (metadata.deletedAt) {
+      return false;
+    }
+
+    if (filters.type) {
+      const types: string[] = Array.isArray(filters.type) ? filters.type : [filters.type];
+      if (!types.includes(metadata.type)) return false;
+    }
+
+    if (filters.projectId && metadata.projectId !== filters.projectId) {
+      return false;
+    }
+
+    if (filters.excludeTypes?.some(type => type === metadata.type)) {
+      return false;
+    }
+
+    // Like the SQL filters, a tag also matches the tags nested under it
+    const hasTag = (root: string) => tags.some(tag => isTagInSubtree(tag, root));
+
+    if (filters.tags?.some(tag => !hasTag(tag))) {
+      return false;
+    }
+
+    if (filters.anyTags?.length && !filters.anyTags.some(hasTag)) {
+      return false;
+    }
+
+    if (filters.excludeTags?.some(hasTag)) {
+      return false;
+    }
+
+    for (const [field, expected] of Object.entries(getMetadataFilters(filters))) {
+      if (String(metadata[field] ?? '').toLowerCase() !== expected.toLowerCase()) {
+        return false;
+      }
+    }
+
+    if (filters.excludeTerms?.some(term => this.containsTerm(document.content, term))) {
+      return false;
+    }
+
+    if (filters.dateRange) {
+      const createdAt = Date.parse(metadata.createdAt);
+      const { start, end } = filters.dateRange;
+      if (start && createdAt < new Date(start).getTime()) return false;
+      if (end && createdAt > new Date(end).getTime()) return false;
+    }
+
+    return true;
+  }
+
+  // Whole-word, case-insensitive match to mirror how the FTS index excludes terms
+  private containsTerm(content: string, term: string): boolean {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return escaped.length > 0 && new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(content);
+  }
+
   private calculateCosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
       return 0;
@@ -227,76 +717,68 @@ export class VectorStore {
     this.lastCacheCleanup = Date.now();
   }
 
-  private debouncedSave(): void {
-    if (this.saveTimeout) {
-      clearTimeout(this.saveTimeout);
-    }
-    
-    this.saveTimeout = setTimeout(async () => {
-      await this.saveToDisk();
-      this.saveTimeout = null;
-    }, 1000); // Save after 1 second of inactivity
-  }
-
   private async loadFromDisk(): Promise<void> {
-    try {
-      if (fs.existsSync(this.storePath)) {
-        const data = fs.readFileSync(this.storePath, 'utf-8');
-        
-        // Handle both array and object formats for backward compatibility
-        let documentsArray: VectorDocument[];
-        const parsed = JSON.parse(data);
-        
-        if (Array.isArray(parsed)) {
-          documentsArray = parsed;
-        } else if (parsed.embeddings && Array.isArray(parsed.embeddings)) {
-          // Handle the new format with metadata
-          documentsArray = parsed.embeddings;
-        } else {
-          documentsArray = [];
-        }
-        
-        this.documents.clear();
-        for (const doc of documentsArray) {
-          if (doc.id && doc.embedding) {
-            this.documents.set(doc.id, doc);
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to load vector store from disk:', error);
-      // Start with empty store
-      this.documents.clear();
+    const dir = path.dirname(this.storePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
     }
-  }
 
-  private async saveToDisk(): Promise<void> {
-    try {
-      const documentsArray = Array.from(this.documents.values());
-      const saveData = {
-        version: '1.0',
-        timestamp: new Date().toISOString(),
-        embeddings: documentsArray
+    this.storage?.close();
+    this.storage = new VectorStorage(this.storePath);
+    this.documents.clear();
+    const vectors = new Map<string, StoredVector>();
+    for (const { contentHash, chunks, ...document } of this.storage.loadAll()) {
+      const loaded: LoadedDocument = {
+        ...document,
+        // Documents embedded whole before chunking hashed the text they were embedded from
+        contentHash: contentHash ?? hashContent(document.content),
+        chunks: chunks.map(({ start, end }) => ({ start, end })),
       };
-      
-      // Ensure directory exists
-      const dir = path.dirname(this.storePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      // Write to temporary file first, then rename for atomic save
-      const tempPath = `${this.storePath}.tmp`;
-      fs.writeFileSync(tempPath, JSON.stringify(saveData, null, 2), 'utf-8');
-      fs.renameSync(tempPath, this.storePath);
-      
-      console.log(`Saved ${documentsArray.length} documents to vector store`);
-    } catch (error) {
-      console.error('Failed to save vector store to disk:', error);
+      this.documents.set(document.id, loaded);
+      this.chunkIds(loaded).forEach((id, i) => vectors.set(id, encodeVector(chunks[i].embedding, this.quantization)));
     }
+    this.loadIndexes(vectors);
   }
 
   isHealthy(): boolean {
     return this.isLoaded;
   }
-}
\ No newline at end of file
+
+  /**
+   * Closes the file and unloads the documents, so the file can be handed to
+   * another store. The instance is unusable afterwards.
+   */
+  async close(): Promise<void> {
+    const storage = this.storage;
+    // Stops the background indexing after its current batch
+    this.storage = null;
+    await this.indexing;
+    storage?.close();
+    this.documents.clear();
+    this.indexes.clear();
+    this.unindexed.clear();
+    this.invalidateCache();
+    this.isLoaded = false;
+  }
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// A memory embedded whole hashes as its text alone, as it did before chunking
+function hashChunks(chunks: MemoryChunk[]): string {
+  return hashContent(chunks.map(chunk => chunk.text).join('\0'));
+}
+
+// Keeps the best chunk of each memory, best first
+function bestPerMemory(hits: MemoryHit[]): MemoryHit[] {
+  const best = new Map<string, MemoryHit>();
+  for (const hit of hits) {
+    const current = best.get(hit.memoryId);
+    if (!current || hit.similarity > current.similarity) {
+      best.set(hit.memoryId, hit);
+    }
+  }
+  return Array.from(best.values()).sort((a, b) => b.similarity - a.similarity);
+}
@@ -7,9 +7,59 @@ export interface Memory {
   metadata: MemoryMetadata;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // set while the memory is in the trash
+  projectId?: string; // registered project, resolved on save when not given
   embedding?: number[];
 }
 
+// The fields an update may change; a null project takes the memory out of its project
+export type MemoryUpdate = Partial<Omit<Memory, 'id' | 'createdAt' | 'projectId'>> & { projectId?: string | null };
+
+// Full snapshot of a memory as written by one create, update or restore
+export interface MemoryRevision {
+  memoryId: string;
+  revision: number; // 1 for the state at creation
+  title: string;
+  content: string;
+  type: MemoryType;
+  tags: string[];
+  metadata: MemoryMetadata;
+  createdAt: Date;
+}
+
+// Directed relation read as "source <type> target", e.g. A supersedes B
+export type MemoryLinkType = 'supersedes' | 'implements' | 'caused-by' | 'references' | 'duplicate-of';
+
+export const MEMORY_LINK_TYPES: MemoryLinkType[] = ['supersedes', 'implements', 'caused-by', 'references', 'duplicate-of'];
+
+export interface MemoryLink {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: MemoryLinkType;
+  createdAt: Date;
+}
+
+// A link seen from one of its ends, with the memory at the other end
+export interface LinkedMemory {
+  link: MemoryLink;
+  memory: Memory;
+}
+
+// A [[target]] reference written in a memory's content
+export interface WikiLink {
+  sourceId: string;
+  target: string; // title or id as written
+  targetId: string | null; // null while no memory matches (dangling)
+}
+
+export interface MemoryLinks {
+  outgoing: LinkedMemory[]; // this memory is the source
+  incoming: LinkedMemory[]; // backlinks: this memory is the target
+  wikiLinks: WikiLink[]; // [[...]] references in this memory's content
+  mentions: Memory[]; // memories whose content links here with [[...]]
+}
+
 export enum MemoryType {
   CODE_SNIPPET = 'code_snippet',
   DOCUMENTATION = 'documentation',
@@ -41,24 +91,101 @@ export interface MemoryMetadata {
   [key: string]: any;
 }
 
+export type SearchSource = 'vector' | 'fullText';
+
+export interface SearchSourceScore {
+  rank: number;
+  score: number;
+}
+
 export interface SearchResult {
   memory: Memory;
   score: number;
   highlights?: string[];
+  sources?: Partial<Record<SearchSource, SearchSourceScore>>;
 }
 
-export interface SearchQuery {
-  query: string;
-  type?: MemoryType;
-  tags?: string[];
-  dateRange?: {
-    start: Date;
-    end: Date;
+export interface SearchFilters {
+  type?: MemoryType | MemoryType[]; // an array matches any of the types
+  excludeTypes?: MemoryType[];
+  tags?: string[]; // memories must carry every listed tag
+  anyTags?: string[]; // memories must carry at least one listed tag
+  excludeTags?: string[];
+  project?: string; // metadata.project as written
+  projectId?: string; // registered project
+  repository?: string;
+  language?: string;
+  metadata?: Record<string, string>; // other MemoryMetadata fields, matched exactly
+  excludeTerms?: string[]; // words or phrases that must not appear
+  dateRange?: { // bounds on createdAt, both inclusive
+    start?: Date;
+    end?: Date;
   };
+}
+
+export interface SearchQuery extends SearchFilters {
+  query: string; // FTS5 expression
+  semanticQuery?: string; // plain text to embed; defaults to query
   limit?: number;
   offset?: number;
 }
 
+export type SavedSearchSort = 'relevance' | 'updated' | 'created' | 'title';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: SearchQuery; // limit and offset are not stored
+  sort: SavedSearchSort;
+  pinned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  path?: string; // local checkout; memories about files below it belong to the project
+  repository?: string; // remote URL, compared without protocol, credentials or .git
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A project as listed in the sidebar, with its memories outside the trash
+export interface ProjectSummary extends Project {
+  memoryCount: number;
+}
+
+export interface ProjectDashboard {
+  project: Project;
+  memoryCount: number;
+  countsByType: Partial<Record<MemoryType, number>>;
+  recentMemories: Memory[];
+  recentDecisions: Memory[];
+  openDebugSessions: Memory[]; // debug sessions not marked resolved or closed
+}
+
+export interface TagInfo {
+  name: string;
+  color?: string; // CSS color
+  count: number; // memories outside the trash carrying the tag
+}
+
+// A level of the `/`-separated tag hierarchy
+export interface TagNode {
+  name: string; // full path, e.g. infra/k8s
+  label: string; // last segment, e.g. k8s
+  color?: string;
+  count: number; // distinct memories tagged with this path or anything below it
+  children: TagNode[];
+}
+
+// A saved search as listed in the sidebar, with its current match count
+export interface SmartCollection extends SavedSearch {
+  count: number;
+}
+
 export interface KnowledgeGraphNode {
   id: string;
   label: string;
@@ -74,6 +201,164 @@ export interface KnowledgeGraphEdge {
   weight: number;
 }
 
+// A separate knowledge base with its own SQLite database and vector store
+export interface Vault {
+  id: string;
+  name: string;
+  sqlitePath: string;
+  vectorPath: string;
+  createdAt: Date;
+}
+
+export interface DatabaseLocation {
+  sqlitePath: string;
+  vectorPath: string;
+}
+
+// How the open vault's files get to a new location
+export type RelocationMode = 'move' | 'copy' | 'open-existing';
+
+// Existence flags only cover paths that differ from the current location
+export interface DatabaseLocationCheck {
+  sqliteExists: boolean;
+  vectorExists: boolean;
+  problems: string[];
+}
+
+// Merge keeps what is already in the vault; replace empties it first
+export type VaultImportMode = 'merge' | 'replace';
+
+// What a merge does with a memory whose id is already in the vault
+export type VaultImportConflict = 'newer' | 'keep-existing' | 'use-imported' | 'keep-both';
+
+export interface VaultExportOptions {
+  includeEmbeddings: boolean;
+}
+
+export interface VaultImportOptions {
+  mode: VaultImportMode;
+  conflict: VaultImportConflict;
+  dryRun?: boolean; // report what would change without changing anything
+}
+
+export interface VaultExportSummary {
+  filePath: string;
+  memories: number;
+  embeddings: number;
+}
+
+export interface VaultImportSummary {
+  dryRun: boolean;
+  removed: number; // memories dropped by a replace
+  memories: { added: number; updated: number; copied: number; skipped: number };
+  projects: { added: number; updated: number; skipped: number };
+  links: number;
+  revisions: number;
+  conflicts: number;
+  embeddings: { reused: number; regenerated: number };
+}
+
+export interface VaultTransferProgress {
+  operation: 'export' | 'import';
+  message: string;
+  done: number;
+  total: number;
+}
+
+// Top-level folders of a Markdown export: one per memory type or per project
+export type MarkdownLayout = 'type' | 'project';
+
+export interface MarkdownExportSummary {
+  folderPath: string;
+  written: number; // files created or rewritten
+  unchanged: number;
+}
+
+// Two-way mirror of a vault's memories in a Markdown folder, such as a git checkout
+export interface MarkdownSyncConfig {
+  folderPath: string;
+  layout: MarkdownLayout;
+  filters: SearchFilters; // memories matching these are added to the folder
+  lastSyncedAt?: Date;
+}
+
+// How a memory and its note moved apart since the last sync they agreed on
+export type MarkdownSyncConflictKind = 'both-changed' | 'deleted-in-folder' | 'deleted-in-vault';
+
+export interface MarkdownSyncConflict {
+  memoryId: string;
+  kind: MarkdownSyncConflictKind;
+  title: string;
+  path: string; // of the note, relative to the folder
+  vaultText?: string; // the memory as a note; absent when it was deleted
+  fileText?: string; // absent when the note was deleted
+}
+
+export type MarkdownSyncResolution = 'keep-vault' | 'keep-file';
+
+export interface MarkdownSyncSummary {
+  exported: number; // notes written from the vault
+  imported: number; // memories added or updated from notes
+  removedFiles: number; // notes of memories deleted in the vault
+  trashed: number; // memories whose note was deleted
+  conflicts: MarkdownSyncConflict[]; // all unresolved, not only new ones
+}
+
+export interface MarkdownSyncStatus {
+  config: MarkdownSyncConfig | null;
+  conflicts: MarkdownSyncConflict[];
+}
+
+// How a memory and its vector disagree: no vector, a vector with no memory,
+// a vector of older text, or a vector with the wrong trash state or project
+export type ConsistencyIssueKind = 'missing' | 'orphaned' | 'stale' | 'metadata';
+
+export interface ConsistencyIssue {
+  memoryId: string;
+  kind: ConsistencyIssueKind;
+  title?: string; // missing for orphaned vectors
+}
+
+export interface ConsistencyReport {
+  checkedAt: Date;
+  memories: number; // including the trash
+  vectors: number;
+  issues: ConsistencyIssue[];
+}
+
+export interface ConsistencyRepairSummary {
+  repaired: number;
+  failed: number;
+  report: ConsistencyReport; // checked again after the repair
+}
+
+// A memory whose vector could not be brought up to date
+export interface IndexQueueItem {
+  memoryId: string;
+  title?: string; // missing once the memory is purged
+  attempts: number;
+  enqueuedAt: Date;
+  lastError?: string;
+}
+
+export interface IndexQueueStatus {
+  pending: number; // waiting for the worker, including those retrying after an error
+  retrying: number;
+  failed: IndexQueueItem[]; // gave up after repeated errors until retried by hand
+}
+
+// Daily snapshots cover the last days; weekly ones reach further back
+export type BackupKind = 'daily' | 'weekly';
+
+export interface BackupInfo {
+  id: string; // folder name inside the vault's backup folder
+  kind: BackupKind;
+  createdAt: Date;
+  path: string;
+  sizeBytes: number;
+  hasVectors: boolean;
+}
+
 export interface DatabaseConfig {
   sqlitePath: string;
   chromaPath: string;
@@ -85,9 +370,32 @@ export interface LLMConfig {
   embeddingModelId: string;
 }
 
+// How vectors are held in memory: full Float32, or int8 re-ranked against the full vectors on disk
+export type VectorQuantization = 'none' | 'int8';
+
+export interface SearchConfig {
+  vectorWeight: number;
+  fullTextWeight: number;
+  vectorQuantization: VectorQuantization;
+}
+
+export interface TrashConfig {
+  retentionDays: number; // trashed memories older than this are purged
+}
+
+export interface BackupConfig {
+  enabled: boolean;
+  folderPath: string; // each vault gets a folder inside it
+  keepDaily: number;
+  keepWeekly: number;
+}
+
 export interface AppConfig {
   database: DatabaseConfig;
   llm: LLMConfig;
+  search: SearchConfig;
+  trash: TrashConfig;
+  backup: BackupConfig;
   ui: {
     theme: 'light' | 'dark' | 'system';
     defaultView: 'list' | 'graph' | 'search';
@@ -0,0 +1,180 @@
+import { Memory } from '../types';
+
+export interface MemoryChunk {
+  text: string; // what is embedded: the title, the headings the chunk sits under, its body and the tags
+  start: number; // offsets of the body in the memory's content
+  end: number; // exclusive
+}
+
+// Bodies up to this length are embedded in one piece; well inside what an embedding request takes
+export const MAX_CHUNK_LENGTH = 2000;
+
+// Text repeated at the start of the next window, so a passage cut in two still matches as a whole
+const CHUNK_OVERLAP = 300;
+
+interface Unit {
+  start: number;
+  end: number;
+  heading?: number; // level of a heading line
+  trail: string[]; // the headings above the unit
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})\s+\S/;
+const SENTENCE_END = /[.!?]["')\]]*\s+/g;
+const WHITESPACE = /\s+/g;
+
+/**
+ * Splits a memory into the pieces it is embedded from. Short memories are
+ * one chunk holding the whole text. Longer ones are cut into windows along
+ * Markdown structure: a window closes at a heading once it is half full,
+ * code blocks stay whole where they fit, and paragraphs too long for one
+ * window are split between sentences. Windows cut for size share their last
+ * paragraphs or sentences with the next.
+ */
+export function chunkMemory(memory: Pick<Memory, 'title' | 'content' | 'tags'>): MemoryChunk[] {
+  const { title, content } = memory;
+  const tags = `Tags: ${memory.tags.join(', ')}`;
+  if (content.length <= MAX_CHUNK_LENGTH) {
+    return [{ text: `${title}\n\n${content}\n\n${tags}`, start: 0, end: content.length }];
+  }
+
+  return packWindows(splitUnits(content)).map(([first, last]) => {
+    const { start, trail } = first;
+    const { end } = last;
+    const heading = trail.length > 0 ? `${trail.join('\n')}\n\n` : '';
+    return { text: `${title}\n\n${heading}${content.slice(start, end)}\n\n${tags}`, start, end };
+  });
+}
+
+// Headings, code blocks and paragraphs, with blocks too long for a window broken into smaller units
+function splitUnits(content: string): Unit[] {
+  const lines: Array<{ start: number; end: number; text: string }> = [];
+  let offset = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ start: offset, end: offset + text.length, text });
+    offset += text.length + 1;
+  }
+
+  const units: Unit[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  const trail = () => headings.map(heading => heading.text);
+  const addBlock = (from: number, to: number, breaks: RegExp[]) => {
+    for (const [start, end] of splitRange(content, lines[from].start, lines[to].end, breaks)) {
+      units.push({ start, end, trail: trail() });
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = FENCE.exec(line.text);
+    const heading = HEADING.exec(line.text);
+
+    if (!line.text.trim()) {
+      i++;
+    } else if (fence) {
+      // An unterminated fence runs to the end, as it renders
+      let close = i + 1;
+      while (close < lines.length && !lines[close].text.trimStart().startsWith(fence[1])) close++;
+      const last = Math.min(close, lines.length - 1);
+      addBlock(i, last, [/\n/g]);
+      i = last + 1;
+    } else if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      units.push({ start: line.start, end: line.end, heading: level, trail: trail() });
+      headings.push({ level, text: line.text.trim() });
+      i++;
+    } else {
+      let last = i;
+      while (
+        last + 1 < lines.length &&
+        lines[last + 1].text.trim() &&
+        !FENCE.test(lines[last + 1].text) &&
+        !HEADING.test(lines[last + 1].text)
+      ) last++;
+      addBlock(i, last, [SENTENCE_END, /\n/g]);
+      i = last + 1;
+    }
+  }
+  return units;
+}
+
+/**
+ * Cuts `start..end` into pieces no longer than a window. A block that fits
+ * stays whole; one that does not is cut at every boundary of the first
+ * pattern that finds any, so the pieces overlap as windows are packed, and
+ * runs without such boundaries fall back to whitespace or a hard cut.
+ */
+function splitRange(content: string, start: number, end: number, breaks: RegExp[]): Array<[number, number]> {
+  if (end - start <= MAX_CHUNK_LENGTH) {
+    return [[start, end]];
+  }
+
+  const text = content.slice(start, end);
+  const pattern = breaks.find(candidate => new RegExp(candidate.source).test(text));
+  const cuts = pattern ? Array.from(text.matchAll(pattern), match => match.index! + match[0].length) : [];
+  const pieces: Array<[number, number]> = [];
+  let from = 0;
+  for (const cut of [...cuts.filter(cut => cut < text.length), text.length]) {
+    let piece = text.slice(from, cut);
+    let pieceStart = start + from;
+    while (piece.length > MAX_CHUNK_LENGTH) {
+      const split = lastBreak(piece.slice(0, MAX_CHUNK_LENGTH)) || MAX_CHUNK_LENGTH;
+      pieces.push(trim(content, pieceStart, pieceStart + split));
+      piece = piece.slice(split);
+      pieceStart += split;
+    }
+    pieces.push(trim(content, pieceStart, pieceStart + piece.length));
+    from = cut;
+  }
+  return pieces.filter(([pieceStart, pieceEnd]) => pieceEnd > pieceStart);
+}
+
+function lastBreak(text: string): number {
+  let last = 0;
+  for (const match of text.matchAll(WHITESPACE)) {
+    last = match.index! + match[0].length;
+  }
+  return last;
+}
+
+function trim(content: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return [start, end];
+}
+
+// Groups consecutive units into windows, as [first unit, last unit] pairs
+function packWindows(units: Unit[]): Array<[Unit, Unit]> {
+  const windows: Array<[Unit, Unit]> = [];
+  let first = 0;
+
+  for (let i = 1; i < units.length; i++) {
+    const length = units[i].end - units[first].start;
+    const filled = units[i - 1].end - units[first].start;
+    const atSection = units[i].heading !== undefined && filled >= MAX_CHUNK_LENGTH / 2;
+    if (length <= MAX_CHUNK_LENGTH && !atSection) continue;
+
+    windows.push([units[first], units[i - 1]]);
+    if (atSection) {
+      first = i;
+      continue;
+    }
+
+    // Carries over the last units that fit the overlap, leaving room for the next one
+    let next = i;
+    while (
+      next - 1 > first &&
+      units[i - 1].end - units[next - 1].start <= CHUNK_OVERLAP &&
+      units[i].end - units[next - 1].start <= MAX_CHUNK_LENGTH
+    ) next--;
+    first = next;
+  }
+
+  if (units.length > 0) {
+    windows.push([units[first], units[units.length - 1]]);
+  }
+  return windows;
+}
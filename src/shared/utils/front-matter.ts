@@ -0,0 +1,174 @@
+/**
+ * YAML front matter: the `---` fenced block of `key: value` lines at the top
+ * of a Markdown note. Only the subset notes use in practice is understood:
+ * plain, quoted and block (`|`, `>`) scalars, flow and block lists, nested
+ * block mappings and JSON-style flow mappings. Lines outside it are skipped.
+ */
+
+const FENCE = '---';
+
+export interface FrontMatterDocument {
+  data: Record<string, unknown>;
+  body: string; // everything after the closing fence
+}
+
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  if (lines[0].trimEnd() !== FENCE) {
+    return { data: {}, body: lines.join('\n') };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && (line.trimEnd() === FENCE || line.trimEnd() === '...'));
+  if (end === -1) {
+    return { data: {}, body: lines.join('\n') };
+  }
+
+  return { data: parseMapping(lines.slice(1, end)), body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Writes `data` as a front matter block ending in a newline. Lists of
+ * scalars become block lists, which is what Obsidian writes for tags; other
+ * objects are written as JSON, which YAML reads as flow collections.
+ */
+export function stringifyFrontMatter(data: Record<string, unknown>): string {
+  const lines = [FENCE];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const name = /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+
+    if (Array.isArray(value) && value.length > 0 && value.every(isScalar)) {
+      lines.push(`${name}:`, ...value.map(item => `  - ${stringifyScalar(item)}`));
+    } else {
+      lines.push(`${name}: ${isScalar(value) ? stringifyScalar(value) : JSON.stringify(value)}`);
+    }
+  }
+  lines.push(FENCE);
+  return lines.join('\n') + '\n';
+}
+
+// `key: value` with an optional quoted key; the value may continue on indented lines
+const KEY_LINE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-][^:]*?):(?:[ \t]+(.*))?$/;
+
+function parseMapping(lines: string[]): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  let index = 0;
+
+  while (index < lines.length) {
+    const match = KEY_LINE.exec(lines[index]);
+    index++;
+    if (!match) continue;
+
+    const key = unquote(match[1]);
+    const raw = (match[2] ?? '').trim();
+
+    // Block lists may start at the key's own indentation
+    const nested: string[] = [];
+    while (
+      index < lines.length &&
+      (/^[ \t]/.test(lines[index]) || lines[index].trim() === '' || (raw === '' && /^-( |$)/.test(lines[index])))
+    ) {
+      nested.push(lines[index]);
+      index++;
+    }
+
+    if (raw === '') {
+      data[key] = parseNested(nested);
+    } else if (/^[|>][+-]?$/.test(raw)) {
+      data[key] = parseBlockScalar(raw, nested);
+    } else {
+      data[key] = parseScalar(raw);
+    }
+  }
+
+  return data;
+}
+
+function parseNested(lines: string[]): unknown {
+  const content = dedent(lines).filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+  if (content.length === 0) return null;
+
+  if (content.every(line => /^-( |$)/.test(line))) {
+    return content.map(line => parseScalar(line.slice(1).trim()));
+  }
+  return parseMapping(content);
+}
+
+function parseBlockScalar(indicator: string, lines: string[]): string {
+  const text = dedent(lines).join('\n').replace(/\n+$/, '');
+  // Folding joins lines with a space; each blank line stands for one newline
+  const value = indicator.startsWith('>')
+    ? text.replace(/\n(\n*)/g, (_match, blanks: string) => blanks || ' ')
+    : text;
+  return indicator.endsWith('-') ? value : value + '\n';
+}
+
+function parseScalar(raw: string): unknown {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw.slice(1, raw.endsWith('"') ? -1 : undefined);
+    }
+  }
+  if (raw.startsWith("'")) {
+    return unquote(raw);
+  }
+  if (raw.startsWith('[') || raw.startsWith('{')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      // Unquoted flow lists such as [a, b] are not JSON
+      if (raw.startsWith('[') && raw.endsWith(']')) {
+        const items = raw.slice(1, -1).split(',').map(item => item.trim()).filter(Boolean);
+        return items.map(item => parseScalar(item));
+      }
+      return raw;
+    }
+  }
+
+  // A plain scalar ends at a comment
+  const value = raw.replace(/\s+#.*$/, '');
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  if (/^(null|~)$/i.test(value)) return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function isScalar(value: unknown): value is string | number | boolean | null {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+// Strings that would read back as something else, or break the line, are quoted
+function stringifyScalar(value: string | number | boolean | null): string {
+  if (typeof value !== 'string') return String(value);
+
+  const plain = value !== '' &&
+    value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/(: |:$| #|[\n\t])/.test(value) &&
+    !/^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"') && text.endsWith('"') && text.length > 1) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length > 1) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text.trim();
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter(line => line.trim() !== '')
+    .map(line => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(indent));
+}
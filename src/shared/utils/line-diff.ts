@@ -0,0 +1,121 @@
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+/**
+ * Line-level diff from `before` to `after` using a longest common subsequence.
+ * Shared leading and trailing lines are matched up front, which keeps the
+ * quadratic table small for the usual case of a few edits in a long text.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  for (const line of diffMiddle(oldMiddle, newMiddle)) {
+    result.push({
+      ...line,
+      oldLine: line.oldLine !== undefined ? line.oldLine + prefix : undefined,
+      newLine: line.newLine !== undefined ? line.newLine + prefix : undefined,
+    });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    result.push({
+      type: 'unchanged',
+      text: oldLines[oldLines.length - i],
+      oldLine: oldLines.length - i + 1,
+      newLine: newLines.length - i + 1,
+    });
+  }
+
+  return result;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+  const width = cols + 1;
+
+  // lcs[i * width + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+      j++;
+    } else {
+      result.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+      i++;
+    }
+  }
+
+  // Within a changed block, show removals before additions like unified diffs do
+  return groupChanges(result);
+}
+
+function groupChanges(lines: DiffLine[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      result.push(line);
+    }
+  }
+  flush();
+
+  return result;
+}
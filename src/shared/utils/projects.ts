@@ -0,0 +1,56 @@
+import { MemoryMetadata, Project } from '../types';
+
+/**
+ * Reduces a repository URL to host/owner/name, so the HTTPS, SSH and
+ * `git@host:owner/name.git` forms of one remote compare equal.
+ */
+export function normalizeRepository(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z+]+:\/\//, '')
+    .replace(/^[^@/]+@/, '')
+    .replace(/^([^/:]+):(?!\d+\/)/, '$1/')
+    .replace(/^([^/:]+):\d+\//, '$1/')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '');
+}
+
+// Forward slashes, no trailing slash; Windows drive paths compare case-insensitively
+export function normalizePath(filePath: string): string {
+  const normalized = filePath.trim().replace(/\\/g, '/').replace(/\/+$/, '');
+  return /^[a-z]:/i.test(normalized) ? normalized.toLowerCase() : normalized;
+}
+
+export function isPathInside(filePath: string, root: string): boolean {
+  const file = normalizePath(filePath);
+  const base = normalizePath(root);
+  return !!base && (file === base || file.startsWith(`${base}/`));
+}
+
+/**
+ * Finds the registered project a memory belongs to: a project named in
+ * `metadata.project` wins, then one with the same repository, then the
+ * project whose path most closely contains the memory's file or workspace
+ * folder (`fullPath` is what the VS Code extension records).
+ */
+export function resolveProject<T extends Project>(projects: T[], metadata: MemoryMetadata = {}): T | undefined {
+  const name = typeof metadata.project === 'string' ? metadata.project.trim().toLowerCase() : '';
+  if (name) {
+    const named = projects.find(project => project.name.toLowerCase() === name);
+    if (named) return named;
+  }
+
+  if (typeof metadata.repository === 'string' && metadata.repository.trim()) {
+    const repository = normalizeRepository(metadata.repository);
+    const matched = projects.find(project => project.repository && normalizeRepository(project.repository) === repository);
+    if (matched) return matched;
+  }
+
+  const paths = [metadata.filePath, metadata.fullPath, metadata.workspaceFolder]
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+  const containing = projects
+    .filter(project => project.path && paths.some(filePath => isPathInside(filePath, project.path!)))
+    .sort((a, b) => normalizePath(b.path!).length - normalizePath(a.path!).length);
+  return containing[0];
+}
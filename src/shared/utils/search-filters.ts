@@ -0,0 +1,20 @@
+import { SearchFilters } from '../types';
+
+const METADATA_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Collects every metadata equality filter, the dedicated project/repository/language
+ * fields included, keyed by MemoryMetadata field name.
+ */
+export function getMetadataFilters(filters: SearchFilters): Record<string, string> {
+  const entries: Array<[string, string | undefined]> = [
+    ...Object.entries(filters.metadata || {}),
+    ['project', filters.project],
+    ['repository', filters.repository],
+    ['language', filters.language],
+  ];
+
+  return Object.fromEntries(
+    entries.filter((entry): entry is [string, string] => !!entry[1] && METADATA_KEY.test(entry[0]))
+  );
+}
@@ -0,0 +1,292 @@
+import { MemoryType, SearchQuery } from '../types';
+
+/**
+ * Search mini-language:
+ *
+ *   type:decision tag:k8s project:billing "rate limit" -draft after:2026-01-01
+ *
+ * - bare words and "quoted phrases" are full-text terms; a trailing `*` makes a prefix term
+ * - `-term`, `-tag:x` and `-type:x` exclude matches
+ * - `OR` joins adjacent terms of the same kind: free text, `tag:` or `type:`
+ * - `after:YYYY-MM-DD` includes that day, `before:YYYY-MM-DD` ends the day before
+ * - metadata qualifiers (`repo:`, `lang:`, `ns:` ...) map to MemoryMetadata fields
+ */
+
+export class SearchQueryParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'SearchQueryParseError';
+  }
+}
+
+interface Token {
+  key?: string;
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+  position: number;
+}
+
+type FilterField = 'type' | 'tag' | 'after' | 'before' | 'project' | 'repository' | 'language';
+
+// Qualifier spelling -> filter field, or the MemoryMetadata key it matches
+const FIELD_ALIASES: Record<string, FilterField | { metadata: string }> = {
+  type: 'type',
+  tag: 'tag',
+  tags: 'tag',
+  after: 'after',
+  before: 'before',
+  project: 'project',
+  repo: 'repository',
+  repository: 'repository',
+  lang: 'language',
+  language: 'language',
+  ns: { metadata: 'kubernetesNamespace' },
+  namespace: { metadata: 'kubernetesNamespace' },
+  kind: { metadata: 'kubernetesKind' },
+  source: { metadata: 'source' },
+  author: { metadata: 'author' },
+  framework: { metadata: 'framework' },
+  path: { metadata: 'filePath' },
+};
+
+const MEMORY_TYPES = Object.values(MemoryType) as string[];
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups = groupOrTerms(tokenize(input));
+  const result: SearchQuery = { query: '' };
+  const ftsTerms: string[] = [];
+  const semanticTerms: string[] = [];
+
+  for (const group of groups) {
+    if (group.length > 1) {
+      applyOrGroup(group, result, ftsTerms, semanticTerms);
+    } else {
+      applyTerm(group[0], result, ftsTerms, semanticTerms);
+    }
+  }
+
+  result.query = ftsTerms.join(' ');
+  if (semanticTerms.length > 0) {
+    result.semanticQuery = semanticTerms.join(' ');
+  }
+
+  return result;
+}
+
+function tokenize(input: string): Array<Token | 'OR'> {
+  const tokens: Array<Token | 'OR'> = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let raw = '';
+    let quoted = false;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          throw new SearchQueryParseError('Unterminated quote', i);
+        }
+        raw += input.slice(i, close + 1);
+        quoted = true;
+        i = close + 1;
+      } else {
+        raw += input[i];
+        i++;
+      }
+    }
+
+    if (raw === 'OR' && !negated) {
+      tokens.push('OR');
+    } else {
+      tokens.push(toToken(raw, quoted, negated, position));
+    }
+  }
+
+  return tokens;
+}
+
+function toToken(raw: string, quoted: boolean, negated: boolean, position: number): Token {
+  const qualifier = /^([A-Za-z]+):(.*)$/s.exec(raw);
+
+  // `https://...` and friends are text, not qualifiers
+  if (!qualifier || qualifier[2].startsWith('//')) {
+    return { value: unquote(raw), quoted, negated, position };
+  }
+
+  const key = qualifier[1].toLowerCase();
+  if (!(key in FIELD_ALIASES)) {
+    throw new SearchQueryParseError(
+      `Unknown field "${key}:". Known fields: ${Object.keys(FIELD_ALIASES).map(name => `${name}:`).join(' ')}. Quote the term to search for it literally.`,
+      position
+    );
+  }
+
+  const value = unquote(qualifier[2]);
+  if (!value) {
+    throw new SearchQueryParseError(`Missing value for "${key}:"`, position);
+  }
+
+  return { key, value, quoted, negated, position };
+}
+
+function unquote(text: string): string {
+  return text.replace(/"/g, '').trim();
+}
+
+function groupOrTerms(tokens: Array<Token | 'OR'>): Token[][] {
+  const groups: Token[][] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token !== 'OR') {
+      groups.push([token]);
+      continue;
+    }
+
+    const next = tokens[i + 1];
+    if (groups.length === 0 || next === undefined || next === 'OR') {
+      const previous = tokens[i - 1];
+      const position = previous && previous !== 'OR' ? previous.position : 0;
+      throw new SearchQueryParseError('OR needs a term on both sides', position);
+    }
+
+    groups[groups.length - 1].push(next);
+    i++;
+  }
+
+  return groups;
+}
+
+function applyTerm(token: Token, result: SearchQuery, ftsTerms: string[], semanticTerms: string[]) {
+  if (!token.key) {
+    if (token.negated) {
+      result.excludeTerms = [...(result.excludeTerms || []), token.value];
+    } else if (token.value) {
+      ftsTerms.push(toFtsTerm(token));
+      semanticTerms.push(token.value.replace(/\*$/, ''));
+    }
+    return;
+  }
+
+  const field = FIELD_ALIASES[token.key];
+
+  if (field === 'tag') {
+    if (token.negated) {
+      result.excludeTags = [...(result.excludeTags || []), token.value];
+    } else {
+      result.tags = [...(result.tags || []), token.value];
+    }
+    return;
+  }
+
+  if (field === 'type') {
+    const type = parseType(token);
+    if (token.negated) {
+      result.excludeTypes = [...(result.excludeTypes || []), type];
+    } else {
+      assertUnset(result.type, token);
+      result.type = type;
+    }
+    return;
+  }
+
+  if (token.negated) {
+    throw new SearchQueryParseError(`"${token.key}:" cannot be negated`, token.position);
+  }
+
+  if (field === 'after') {
+    assertUnset(result.dateRange?.start, token);
+    result.dateRange = { ...result.dateRange, start: parseDate(token) };
+  } else if (field === 'before') {
+    assertUnset(result.dateRange?.end, token);
+    result.dateRange = { ...result.dateRange, end: new Date(parseDate(token).getTime() - 1) };
+  } else if (typeof field === 'object') {
+    assertUnset(result.metadata?.[field.metadata], token);
+    result.metadata = { ...result.metadata, [field.metadata]: token.value };
+  } else {
+    assertUnset(result[field], token);
+    result[field] = token.value;
+  }
+}
+
+function applyOrGroup(group: Token[], result: SearchQuery, ftsTerms: string[], semanticTerms: string[]) {
+  const negated = group.find(token => token.negated);
+  if (negated) {
+    throw new SearchQueryParseError('Excluded terms cannot be part of an OR group', negated.position);
+  }
+
+  const kinds = new Set(group.map(token => (token.key ? FIELD_ALIASES[token.key] : 'text')));
+  const [kind] = Array.from(kinds);
+
+  if (kinds.size === 1 && kind === 'text') {
+    ftsTerms.push(`(${group.map(toFtsTerm).join(' OR ')})`);
+    semanticTerms.push(...group.map(token => token.value.replace(/\*$/, '')));
+  } else if (kinds.size === 1 && kind === 'tag') {
+    assertUnset(result.anyTags, group[0], 'Only one OR group of tags is supported');
+    result.anyTags = group.map(token => token.value);
+  } else if (kinds.size === 1 && kind === 'type') {
+    assertUnset(result.type, group[0]);
+    result.type = group.map(parseType);
+  } else {
+    throw new SearchQueryParseError(
+      'OR can only join free-text terms, tag: qualifiers or type: qualifiers, not a mix',
+      group[0].position
+    );
+  }
+}
+
+function toFtsTerm(token: Token): string {
+  const isPrefix = !token.quoted && token.value.length > 1 && token.value.endsWith('*');
+  const text = isPrefix ? token.value.slice(0, -1) : token.value;
+  const phrase = `"${text.replace(/"/g, '""')}"`;
+  return isPrefix ? `${phrase}*` : phrase;
+}
+
+function parseType(token: Token): MemoryType {
+  const normalized = token.value.toLowerCase().replace(/[-\s]/g, '_');
+  if (!MEMORY_TYPES.includes(normalized)) {
+    throw new SearchQueryParseError(
+      `Unknown memory type "${token.value}". Expected one of: ${MEMORY_TYPES.join(', ')}`,
+      token.position
+    );
+  }
+  return normalized as MemoryType;
+}
+
+function parseDate(token: Token): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(token.value);
+  if (match) {
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+      return date;
+    }
+  }
+
+  throw new SearchQueryParseError(
+    `Invalid date "${token.value}" for "${token.key}:". Use YYYY-MM-DD`,
+    token.position
+  );
+}
+
+function assertUnset(current: unknown, token: Token, message?: string) {
+  if (current !== undefined) {
+    throw new SearchQueryParseError(
+      message || `"${token.key}:" can only be used once; join alternatives with OR`,
+      token.position
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { TagNode } from '../types';
+
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Trims every segment of a tag path and drops empty ones, so
+ * ` infra//k8s/ ` and `infra/k8s` are the same tag.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.split(TAG_SEPARATOR).map(segment => segment.trim()).filter(Boolean).join(TAG_SEPARATOR);
+}
+
+// `infra` covers `infra` and `infra/k8s`, but not `infrastructure`
+export function isTagInSubtree(tag: string, root: string): boolean {
+  return tag === root || tag.startsWith(root + TAG_SEPARATOR);
+}
+
+/**
+ * Moves a tag from the subtree at `from` to the same place under `to`:
+ * rebaseTag('infra/k8s/ingress', 'infra/k8s', 'platform/k8s') is 'platform/k8s/ingress'.
+ */
+export function rebaseTag(tag: string, from: string, to: string): string {
+  return isTagInSubtree(tag, from) ? to + tag.slice(from.length) : tag;
+}
+
+/**
+ * Builds the tag hierarchy from (memory, tag) pairs. Parents that no memory is
+ * tagged with directly still get a node, and every count is rolled up over
+ * distinct memories so one memory tagged `infra/k8s` and `infra/aws` counts
+ * once towards `infra`.
+ */
+export function buildTagTree(
+  assignments: Array<{ memoryId: string; tag: string }>,
+  colors: Record<string, string> = {}
+): TagNode[] {
+  const nodes = new Map<string, TagNode & { memoryIds: Set<string> }>();
+  const roots: TagNode[] = [];
+
+  const nodeFor = (path: string[]) => {
+    const name = path.join(TAG_SEPARATOR);
+    let node = nodes.get(name);
+    if (!node) {
+      node = { name, label: path[path.length - 1], color: colors[name], count: 0, children: [], memoryIds: new Set() };
+      nodes.set(name, node);
+      if (path.length === 1) {
+        roots.push(node);
+      } else {
+        nodeFor(path.slice(0, -1)).children.push(node);
+      }
+    }
+    return node;
+  };
+
+  for (const { memoryId, tag } of assignments) {
+    const path = tag.split(TAG_SEPARATOR);
+    for (let depth = 1; depth <= path.length; depth++) {
+      nodeFor(path.slice(0, depth)).memoryIds.add(memoryId);
+    }
+  }
+
+  const finish = (list: TagNode[]): TagNode[] =>
+    list
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(node => {
+        const { memoryIds, ...rest } = node as TagNode & { memoryIds: Set<string> };
+        return { ...rest, count: memoryIds.size, children: finish(rest.children) };
+      });
+
+  return finish(roots);
+}
@@ -0,0 +1,72 @@
+export interface WikiLinkReference {
+  target: string; // title or id between the brackets, trimmed
+  alias?: string; // text after `|`, shown instead of the target
+  start: number;
+  end: number; // exclusive
+}
+
+// [[target]] or [[target|alias]]; targets cannot span lines or nest brackets
+const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]*))?\]\]/g;
+
+// Fenced blocks (unterminated ones run to the end) and inline code spans
+const CODE = /```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`/g;
+
+/**
+ * Finds `[[...]]` references in Markdown content, skipping code so that
+ * snippets containing double brackets are not taken for links.
+ */
+export function extractWikiLinks(content: string): WikiLinkReference[] {
+  const code = codeRanges(content);
+  const links: WikiLinkReference[] = [];
+
+  for (const match of content.matchAll(WIKI_LINK)) {
+    const start = match.index!;
+    if (code.some(([from, to]) => start >= from && start < to)) continue;
+
+    const target = match[1].trim();
+    if (!target) continue;
+
+    const alias = match[2]?.trim();
+    links.push({ target, alias: alias || undefined, start, end: start + match[0].length });
+  }
+
+  return links;
+}
+
+/**
+ * Points every link to `from` (matched case-insensitively) at `to`, keeping
+ * aliases, so references survive the target being renamed.
+ */
+export function renameWikiLinks(content: string, from: string, to: string): string {
+  const wanted = from.trim().toLowerCase();
+  let result = '';
+  let last = 0;
+
+  for (const link of extractWikiLinks(content)) {
+    if (link.target.toLowerCase() !== wanted) continue;
+    result += content.slice(last, link.start) + `[[${to}${link.alias ? `|${link.alias}` : ''}]]`;
+    last = link.end;
+  }
+
+  return result + content.slice(last);
+}
+
+/**
+ * The unfinished `[[...` the cursor is in, if any, for title completion.
+ * `start` is the index just after the opening brackets.
+ */
+export function getOpenWikiLink(content: string, cursor: number): { query: string; start: number } | null {
+  const before = content.slice(0, cursor);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) return null;
+
+  const query = before.slice(open + 2);
+  if (/[[\]|\n]/.test(query)) return null;
+
+  return { query, start: open + 2 };
+}
+
+// Spans of inline and fenced code, where Markdown syntax is literal text
+export function codeRanges(content: string): Array<[number, number]> {
+  return Array.from(content.matchAll(CODE), match => [match.index!, match.index! + match[0].length]);
+}
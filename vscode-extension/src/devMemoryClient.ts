@@ -24,16 +24,92 @@ interface MemorySearchResult {
     score?: number;
 }
 
+interface SavedSearchQuery {
+    query: string;
+    semanticQuery?: string;
+    type?: string | string[];
+    excludeTypes?: string[];
+    tags?: string[];
+    anyTags?: string[];
+    excludeTags?: string[];
+    project?: string;
+    repository?: string;
+    language?: string;
+    metadata?: Record<string, string>;
+    excludeTerms?: string[];
+    dateRange?: { start?: string; end?: string };
+}
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    query: SavedSearchQuery;
+    sort: 'relevance' | 'updated' | 'created' | 'title';
+    pinned: boolean;
+}
+
+export interface Project {
+    id: string;
+    name: string;
+    path?: string;
+    repository?: string;
+    description?: string;
+    memoryCount: number;
+}
+
+export interface Vault {
+    id: string;
+    name: string;
+    sqlitePath: string;
+    vectorPath: string;
+    active: boolean;
+}
+
 export class DevMemoryClient {
-    private dbPath: string;
+    private defaultDbPath: string;
+    private vault: string;
     private isElectronRunning: boolean = false;
     
-    constructor() {
+    // `vault` is a vault id or name; empty follows the vault open in the app
+    constructor(vault: string = '') {
         // Try to find the DevMemory database
-        this.dbPath = this.findDatabasePath();
+        this.defaultDbPath = this.findDatabasePath();
+        this.vault = vault;
         this.checkElectronApp();
     }
     
+    // Resolved on every use, so following the app picks up vault switches made there
+    private get dbPath(): string {
+        const vaults = this.getVaults();
+        const choice = this.vault.toLowerCase();
+        const vault = (choice && vaults.find(v => v.id === this.vault || v.name.toLowerCase() === choice))
+            || vaults.find(v => v.active);
+        return vault ? vault.sqlitePath : this.defaultDbPath;
+    }
+    
+    // Written by the DevMemory app next to its settings whenever vaults change
+    getVaults(): Vault[] {
+        try {
+            const vaultsFile = path.join(path.dirname(this.defaultDbPath), 'vaults.json');
+            if (!fs.existsSync(vaultsFile)) {
+                return [];
+            }
+            return JSON.parse(fs.readFileSync(vaultsFile, 'utf8'));
+        } catch (error) {
+            console.error('Error getting vaults:', error);
+            return [];
+        }
+    }
+    
+    setVault(vault: string): void {
+        this.vault = vault;
+    }
+    
+    getVaultName(): string | undefined {
+        const dbPath = this.dbPath;
+        return this.getVaults().find(vault => vault.sqlitePath === dbPath)?.name;
+    }
+    
     private findDatabasePath(): string {
         const userDataDir = path.join(os.homedir(), 'AppData', 'Roaming', 'devmemory');
         const dbPath = path.join(userDataDir, 'devmemory.db');
@@ -109,6 +185,7 @@ export class DevMemoryClient {
             
             const newMemory: Memory = {
                 ...memory,
+                metadata: await this.withProject(memory.metadata || {}),
                 id: this.generateId(),
                 createdAt: new Date(),
                 updatedAt: new Date()
@@ -196,15 +273,169 @@ export class DevMemoryClient {
             const data = fs.readFileSync(memoriesFile, 'utf8');
             const memories: Memory[] = JSON.parse(data);
             
-            return memories.filter(memory => 
-                memory.tags.some(t => t.toLowerCase().includes(tag.toLowerCase()))
-            );
+            return memories.filter(memory => this.hasTag(memory, tag));
         } catch (error) {
             console.error('Error getting memories by tag:', error);
             return [];
         }
     }
     
+    async getSavedSearches(): Promise<SavedSearch[]> {
+        try {
+            // Written by the DevMemory app whenever its saved searches change
+            const savedSearchesFile = path.join(path.dirname(this.dbPath), 'saved-searches.json');
+            
+            if (!fs.existsSync(savedSearchesFile)) {
+                return [];
+            }
+            
+            const data = fs.readFileSync(savedSearchesFile, 'utf8');
+            return JSON.parse(data);
+        } catch (error) {
+            console.error('Error getting saved searches:', error);
+            return [];
+        }
+    }
+    
+    async getProjects(): Promise<Project[]> {
+        try {
+            // Written by the DevMemory app whenever its project registry changes
+            const projectsFile = path.join(path.dirname(this.dbPath), 'projects.json');
+            
+            if (!fs.existsSync(projectsFile)) {
+                return [];
+            }
+            
+            const data = fs.readFileSync(projectsFile, 'utf8');
+            return JSON.parse(data);
+        } catch (error) {
+            console.error('Error getting projects:', error);
+            return [];
+        }
+    }
+    
+    async getMemoriesByProject(name: string): Promise<Memory[]> {
+        const memories = await this.getRecentMemories(1000);
+        return memories.filter(memory => this.getProjectName(memory) === name.toLowerCase());
+    }
+    
+    getProjectName(memory: Memory): string {
+        const project = memory.metadata?.project;
+        return typeof project === 'string' ? project.trim().toLowerCase() : '';
+    }
+    
+    // Names the registered project whose repository or path matches the capture,
+    // resolving the way the app does; an explicit project name is kept as given
+    private async withProject(metadata: any): Promise<any> {
+        if (typeof metadata.project === 'string' && metadata.project.trim()) {
+            return metadata;
+        }
+        
+        const projects = await this.getProjects();
+        const repository = typeof metadata.repository === 'string' ? this.normalizeRepository(metadata.repository) : '';
+        const byRepository = repository
+            ? projects.find(project => project.repository && this.normalizeRepository(project.repository) === repository)
+            : undefined;
+        
+        const paths = [metadata.filePath, metadata.fullPath, metadata.workspaceFolder]
+            .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+            .map(value => this.normalizePath(value));
+        const byPath = projects
+            .filter(project => project.path && paths.some(value => {
+                const root = this.normalizePath(project.path!);
+                return value === root || value.startsWith(`${root}/`);
+            }))
+            .sort((a, b) => b.path!.length - a.path!.length)[0];
+        
+        const project = byRepository || byPath;
+        return project ? { ...metadata, project: project.name } : metadata;
+    }
+    
+    private normalizeRepository(url: string): string {
+        return url
+            .trim()
+            .toLowerCase()
+            .replace(/^[a-z+]+:\/\//, '')
+            .replace(/^[^@/]+@/, '')
+            .replace(/^([^/:]+):(?!\d+\/)/, '$1/')
+            .replace(/^([^/:]+):\d+\//, '$1/')
+            .replace(/\/+$/, '')
+            .replace(/\.git$/, '');
+    }
+    
+    private normalizePath(filePath: string): string {
+        const normalized = filePath.trim().replace(/\\/g, '/').replace(/\/+$/, '');
+        return /^[a-z]:/i.test(normalized) ? normalized.toLowerCase() : normalized;
+    }
+    
+    async getSavedSearchMemories(savedSearch: SavedSearch): Promise<Memory[]> {
+        const memories = await this.getRecentMemories(1000);
+        const matches = memories.filter(memory => this.matchesSavedSearch(memory, savedSearch.query));
+        const text = savedSearch.query.semanticQuery || '';
+        
+        switch (savedSearch.sort) {
+            case 'title':
+                return matches.sort((a, b) => a.title.localeCompare(b.title));
+            case 'created':
+                return matches.sort((a, b) => this.getTime(b.createdAt) - this.getTime(a.createdAt));
+            case 'relevance':
+                if (text) {
+                    return matches.sort((a, b) => this.calculateScore(b, text) - this.calculateScore(a, text));
+                }
+                return matches.sort((a, b) => this.getTime(b.updatedAt) - this.getTime(a.updatedAt));
+            default:
+                return matches.sort((a, b) => this.getTime(b.updatedAt) - this.getTime(a.updatedAt));
+        }
+    }
+    
+    // Tags nest with `/`: `infra` also matches `infra/k8s/ingress`, as in the app
+    private hasTag(memory: Memory, root: string): boolean {
+        return memory.tags.some(tag => tag === root || tag.startsWith(`${root}/`));
+    }
+    
+    // Approximates the app's FTS matching with substring checks, like searchMemories
+    private matchesSavedSearch(memory: Memory, query: SavedSearchQuery): boolean {
+        const searchText = `${memory.title} ${memory.content} ${memory.tags.join(' ')}`.toLowerCase();
+        const metadata = memory.metadata || {};
+        const types = query.type ? ([] as string[]).concat(query.type) : [];
+        const fields: Record<string, string> = {
+            ...query.metadata,
+            ...(query.project ? { project: query.project } : {}),
+            ...(query.repository ? { repository: query.repository } : {}),
+            ...(query.language ? { language: query.language } : {})
+        };
+        
+        const terms = (query.semanticQuery || '').toLowerCase().split(/\s+/).filter(term => term);
+        const anyTerm = /\bOR\b/.test(query.query);
+        if (terms.length > 0) {
+            const found = terms.filter(term => searchText.includes(term));
+            if (anyTerm ? found.length === 0 : found.length < terms.length) {
+                return false;
+            }
+        }
+        
+        if (types.length > 0 && !types.includes(memory.type)) return false;
+        if (query.excludeTypes?.includes(memory.type)) return false;
+        if (query.tags?.some(tag => !this.hasTag(memory, tag))) return false;
+        if (query.anyTags?.length && !query.anyTags.some(tag => this.hasTag(memory, tag))) return false;
+        if (query.excludeTags?.some(tag => this.hasTag(memory, tag))) return false;
+        if (query.excludeTerms?.some(term => searchText.includes(term.toLowerCase()))) return false;
+        
+        for (const [field, value] of Object.entries(fields)) {
+            if (String(metadata[field] ?? '').toLowerCase() !== value.toLowerCase()) return false;
+        }
+        
+        const created = this.getTime(memory.createdAt);
+        if (query.dateRange?.start && created < new Date(query.dateRange.start).getTime()) return false;
+        if (query.dateRange?.end && created > new Date(query.dateRange.end).getTime()) return false;
+        
+        return true;
+    }
+    
+    private getTime(date?: Date): number {
+        return date ? new Date(date).getTime() : 0;
+    }
+    
     async deleteMemory(id: string): Promise<boolean> {
         try {
             const memoriesFile = path.join(path.dirname(this.dbPath), 'vscode-memories.json');
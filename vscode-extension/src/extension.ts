@@ -10,7 +10,7 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('DevMemory extension is now active!');
     
     // Initialize the DevMemory client
-    devMemoryClient = new DevMemoryClient();
+    devMemoryClient = new DevMemoryClient(vscode.workspace.getConfiguration('devmemory').get<string>('vault', ''));
     
     // Initialize tree provider for the explorer view
     memoryTreeProvider = new MemoryTreeProvider(devMemoryClient);
@@ -90,6 +90,36 @@ function registerCommands(context: vscode.ExtensionContext) {
         await insertMemoryAtCursor();
     });
     
+    // Pick the vault captures go to and the tree shows
+    const switchVault = vscode.commands.registerCommand('devmemory.switchVault', async () => {
+        const vaults = devMemoryClient.getVaults();
+        if (vaults.length === 0) {
+            vscode.window.showInformationMessage('No vaults found. Create vaults in the DevMemory app settings.');
+            return;
+        }
+        
+        const active = vaults.find(vault => vault.active);
+        const picked = await vscode.window.showQuickPick([
+            {
+                label: 'Follow DevMemory app',
+                description: active ? `currently ${active.name}` : '',
+                vault: ''
+            },
+            ...vaults.map(vault => ({ label: vault.name, description: vault.sqlitePath, vault: vault.id }))
+        ], { placeHolder: 'Select a DevMemory vault' });
+        
+        if (picked) {
+            await vscode.workspace.getConfiguration('devmemory').update('vault', picked.vault, vscode.ConfigurationTarget.Global);
+        }
+    });
+    
+    const vaultSetting = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('devmemory.vault')) {
+            devMemoryClient.setVault(vscode.workspace.getConfiguration('devmemory').get<string>('vault', ''));
+            memoryTreeProvider.refresh();
+        }
+    });
+    
     // Refresh tree view
     const refreshTree = vscode.commands.registerCommand('devmemory.refreshTree', () => {
         memoryTreeProvider.refresh();
@@ -103,6 +133,8 @@ function registerCommands(context: vscode.ExtensionContext) {
         openApp,
         quickCapture,
         insertMemory,
+        switchVault,
+        vaultSetting,
         refreshTree
     );
 }
@@ -138,6 +170,7 @@ async function captureCodeSnippet(
                 language,
                 fileName: fileName.split('/').pop() || '',
                 fullPath: fileName,
+                workspaceFolder: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fileName))?.uri.fsPath,
                 isFullFile,
                 capturedAt: new Date().toISOString()
             }
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { DevMemoryClient } from './devMemoryClient';
+import { DevMemoryClient, SavedSearch } from './devMemoryClient';
 
 interface Memory {
     id?: string;
@@ -33,17 +33,30 @@ export class MemoryTreeProvider implements vscode.TreeDataProvider<MemoryItem> {
 
         if (!element) {
             // Root level - show categories
+            const vault = this.devMemoryClient.getVaultName();
             return [
+                ...(vault ? [new MemoryItem(`Vault: ${vault}`, 'vault', vscode.TreeItemCollapsibleState.None, 'vault')] : []),
+                new MemoryItem('Smart Collections', 'collections', vscode.TreeItemCollapsibleState.Expanded, 'category'),
                 new MemoryItem('Recent Memories', 'recent', vscode.TreeItemCollapsibleState.Expanded, 'category'),
+                new MemoryItem('By Project', 'projects', vscode.TreeItemCollapsibleState.Collapsed, 'category'),
                 new MemoryItem('By Type', 'types', vscode.TreeItemCollapsibleState.Collapsed, 'category'),
                 new MemoryItem('By Tags', 'tags', vscode.TreeItemCollapsibleState.Collapsed, 'category'),
                 new MemoryItem('Search', 'search', vscode.TreeItemCollapsibleState.None, 'search')
             ];
         }
 
-        switch (element.contextValue) {
+        // Category nodes share a context value and are told apart by id
+        switch (element.contextValue === 'category' ? element.id : element.contextValue) {
+            case 'collections':
+                return await this.getSmartCollections();
+            case 'savedSearch':
+                return await this.getCollectionMemories(element.savedSearch!);
             case 'recent':
                 return await this.getRecentMemories();
+            case 'projects':
+                return await this.getProjects();
+            case 'project':
+                return await this.getMemoriesByProject(element.label as string);
             case 'types':
                 return await this.getMemoryTypes();
             case 'tags':
@@ -51,12 +64,58 @@ export class MemoryTreeProvider implements vscode.TreeDataProvider<MemoryItem> {
             case 'type':
                 return await this.getMemoriesByType(element.label as string);
             case 'tag':
-                return await this.getMemoriesByTag(element.label as string);
+                return [
+                    ...await this.getMemoryTags(element.id),
+                    ...await this.getMemoriesByTag(element.id)
+                ];
             default:
                 return [];
         }
     }
 
+    private async getSmartCollections(): Promise<MemoryItem[]> {
+        try {
+            const savedSearches = await this.devMemoryClient.getSavedSearches();
+            const items = await Promise.all(savedSearches.map(async savedSearch => {
+                const memories = await this.devMemoryClient.getSavedSearchMemories(savedSearch);
+                const item = new MemoryItem(
+                    savedSearch.name,
+                    savedSearch.id,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'savedSearch',
+                    undefined,
+                    savedSearch
+                );
+                item.description = `${memories.length}`;
+                return item;
+            }));
+            
+            return items;
+        } catch (error) {
+            console.error('Error getting smart collections:', error);
+            return [];
+        }
+    }
+
+    private async getCollectionMemories(savedSearch: SavedSearch): Promise<MemoryItem[]> {
+        try {
+            const memories = await this.devMemoryClient.getSavedSearchMemories(savedSearch);
+            
+            return memories.slice(0, 50).map(memory =>
+                new MemoryItem(
+                    memory.title || 'Untitled',
+                    memory.id || '',
+                    vscode.TreeItemCollapsibleState.None,
+                    'memory',
+                    memory
+                )
+            );
+        } catch (error) {
+            console.error('Error getting collection memories:', error);
+            return [];
+        }
+    }
+
     private async getRecentMemories(): Promise<MemoryItem[]> {
         try {
             const memories = await this.devMemoryClient.getRecentMemories(10);
@@ -75,6 +134,49 @@ export class MemoryTreeProvider implements vscode.TreeDataProvider<MemoryItem> {
         }
     }
 
+    // Projects come from the app's registry; captured memories carry the project name
+    private async getProjects(): Promise<MemoryItem[]> {
+        try {
+            const projects = await this.devMemoryClient.getProjects();
+            const memories = await this.devMemoryClient.getRecentMemories(1000);
+            
+            return projects.map(project => {
+                const item = new MemoryItem(
+                    project.name,
+                    project.id,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'project'
+                );
+                const count = memories.filter(memory => this.devMemoryClient.getProjectName(memory) === project.name.toLowerCase()).length;
+                item.description = `${count}`;
+                item.tooltip = [project.name, project.repository, project.path].filter(Boolean).join('\n');
+                return item;
+            });
+        } catch (error) {
+            console.error('Error getting projects:', error);
+            return [];
+        }
+    }
+
+    private async getMemoriesByProject(name: string): Promise<MemoryItem[]> {
+        try {
+            const memories = await this.devMemoryClient.getMemoriesByProject(name);
+            
+            return memories.slice(0, 50).map(memory =>
+                new MemoryItem(
+                    memory.title || 'Untitled',
+                    memory.id || '',
+                    vscode.TreeItemCollapsibleState.None,
+                    'memory',
+                    memory
+                )
+            );
+        } catch (error) {
+            console.error('Error getting memories by project:', error);
+            return [];
+        }
+    }
+
     private async getMemoryTypes(): Promise<MemoryItem[]> {
         try {
             const memories = await this.devMemoryClient.getRecentMemories(100);
@@ -94,20 +196,32 @@ export class MemoryTreeProvider implements vscode.TreeDataProvider<MemoryItem> {
         }
     }
 
-    private async getMemoryTags(): Promise<MemoryItem[]> {
+    // Tags nest with `/`: lists the tags one level below `parent` (the top level
+    // without one), each counting the memories tagged with it or anything under it
+    private async getMemoryTags(parent?: string): Promise<MemoryItem[]> {
         try {
-            const memories = await this.devMemoryClient.getRecentMemories(100);
-            const allTags = memories.flatMap(m => m.tags);
-            const uniqueTags = [...new Set(allTags)];
+            const memories = await this.devMemoryClient.getRecentMemories(1000);
+            const depth = parent ? parent.split('/').length + 1 : 1;
+            const counts = new Map<string, number>();
             
-            return uniqueTags.slice(0, 20).map(tag =>
-                new MemoryItem(
-                    tag || '',
-                    tag || '',
+            for (const memory of memories) {
+                const paths = new Set(memory.tags
+                    .filter(tag => tag && (!parent || tag.startsWith(`${parent}/`)))
+                    .map(tag => tag.split('/').slice(0, depth).join('/')));
+                paths.forEach(path => counts.set(path, (counts.get(path) || 0) + 1));
+            }
+            
+            return [...counts.keys()].sort().map(path => {
+                const item = new MemoryItem(
+                    path.split('/').pop() || path,
+                    path,
                     vscode.TreeItemCollapsibleState.Collapsed,
                     'tag'
-                )
-            );
+                );
+                item.description = `${counts.get(path)}`;
+                item.tooltip = path;
+                return item;
+            });
         } catch (error) {
             console.error('Error getting memory tags:', error);
             return [];
@@ -166,7 +280,8 @@ export class MemoryItem extends vscode.TreeItem {
         public readonly id: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly contextValue: string,
-        public readonly memory?: Memory
+        public readonly memory?: Memory,
+        public readonly savedSearch?: SavedSearch
     ) {
         super(label, collapsibleState);
         
@@ -180,6 +295,11 @@ export class MemoryItem extends vscode.TreeItem {
                 title: 'View Memory',
                 arguments: [memory]
             };
+        } else if (contextValue === 'vault') {
+            this.command = {
+                command: 'devmemory.switchVault',
+                title: 'Switch Vault'
+            };
         } else if (contextValue === 'search') {
             this.command = {
                 command: 'devmemory.searchMemories',
@@ -216,8 +336,14 @@ export class MemoryItem extends vscode.TreeItem {
                 return new vscode.ThemeIcon('symbol-class');
             case 'tag':
                 return new vscode.ThemeIcon('tag');
+            case 'project':
+                return new vscode.ThemeIcon('repo');
+            case 'savedSearch':
+                return new vscode.ThemeIcon(this.savedSearch?.pinned ? 'pinned' : 'bookmark');
             case 'search':
                 return new vscode.ThemeIcon('search');
+            case 'vault':
+                return new vscode.ThemeIcon('database');
             case 'error':
                 return new vscode.ThemeIcon('error');
             default:
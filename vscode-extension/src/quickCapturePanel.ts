@@ -67,6 +67,11 @@ export class QuickCapturePanel {
 
     private async handleCaptureMemory(data: any) {
         try {
+            // Lets the client match the capture to a registered project by its workspace
+            const fullPath = data.metadata?.fullPath;
+            if (fullPath) {
+                data.metadata.workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fullPath))?.uri.fsPath;
+            }
             const success = await this.devMemoryClient.createMemory(data);
             
             this._panel.webview.postMessage({